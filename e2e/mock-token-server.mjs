@@ -0,0 +1,155 @@
+/**
+ * Mock token server - a local stand-in for the Entra authority
+ *
+ * Implements just enough of `{authority}/oauth2/v2.0/*` for the app's sign-in
+ * flows: authorization code with PKCE (the authorize page redirects straight
+ * back, no login form), device code (approved after a few polls) and
+ * refresh tokens. Issues unsigned JWTs with the claims the app reads.
+ *
+ * Usage: node e2e/mock-token-server.mjs, then ng serve --configuration mock-auth
+ *
+ * Environment:
+ *   MOCK_AUTH_PORT          Port to listen on (default 4280)
+ *   MOCK_TOKEN_LIFETIME     Access token lifetime in seconds (default 3600)
+ *   MOCK_DEVICE_CODE_POLLS  `authorization_pending` answers before a device code is approved (default 1)
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.MOCK_AUTH_PORT ?? 4280);
+const TOKEN_LIFETIME_S = Number(process.env.MOCK_TOKEN_LIFETIME ?? 3600);
+const DEVICE_CODE_POLLS = Number(process.env.MOCK_DEVICE_CODE_POLLS ?? 1);
+const TENANT = 'mock-tenant';
+const BASE = `/${TENANT}/oauth2/v2.0`;
+/** Fabric Administrator directory role */
+const FABRIC_ADMIN_ROLE = 'a9ea8996-122f-4c74-9520-8edcd192826c';
+
+/** code → { clientId, redirectUri, codeChallenge } */
+const authorizationCodes = new Map();
+/** device_code → { clientId, polls } */
+const deviceCodes = new Map();
+const refreshTokens = new Set();
+
+const base64Url = (value) => Buffer.from(value).toString('base64url');
+const randomId = () => randomBytes(16).toString('base64url');
+
+function issueTokens () {
+  const now = Math.floor(Date.now() / 1000);
+  const payload = {
+    aud: 'https://analysis.windows.net/powerbi/api',
+    iss: `https://sts.windows.net/${TENANT}/`,
+    iat: now,
+    exp: now + TOKEN_LIFETIME_S,
+    name: 'Mock Admin',
+    upn: 'admin@mock-tenant.example',
+    tid: TENANT,
+    wids: [FABRIC_ADMIN_ROLE]
+  };
+  const refreshToken = randomId();
+  refreshTokens.add(refreshToken);
+  return {
+    token_type: 'Bearer',
+    access_token: `${base64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }))}.${base64Url(JSON.stringify(payload))}.mock`,
+    refresh_token: refreshToken,
+    expires_in: TOKEN_LIFETIME_S
+  };
+}
+
+function send (res, status, body, headers = {}) {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Content-Type': 'application/json',
+    ...headers
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+const oauthError = (res, error, description) => send(res, 400, { error, error_description: description });
+
+function readForm (req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(new URLSearchParams(body)));
+    req.on('error', reject);
+  });
+}
+
+function authorize (res, query) {
+  const redirectUri = query.get('redirect_uri');
+  if (!redirectUri || !query.get('client_id')) return oauthError(res, 'invalid_request', 'client_id and redirect_uri are required');
+  if (query.get('code_challenge_method') !== 'S256' || !query.get('code_challenge')) {
+    return oauthError(res, 'invalid_request', 'PKCE with S256 is required');
+  }
+
+  const code = randomId();
+  authorizationCodes.set(code, { clientId: query.get('client_id'), redirectUri, codeChallenge: query.get('code_challenge') });
+  const location = new URL(redirectUri);
+  location.searchParams.set('code', code);
+  location.searchParams.set('state', query.get('state') ?? '');
+  send(res, 302, undefined, { Location: location.toString() });
+}
+
+function token (res, form) {
+  switch (form.get('grant_type')) {
+    case 'authorization_code': {
+      const pending = authorizationCodes.get(form.get('code'));
+      authorizationCodes.delete(form.get('code'));
+      if (!pending) return oauthError(res, 'invalid_grant', 'Unknown or already redeemed authorization code');
+      if (pending.clientId !== form.get('client_id') || pending.redirectUri !== form.get('redirect_uri')) {
+        return oauthError(res, 'invalid_grant', 'client_id or redirect_uri does not match the authorization request');
+      }
+      const challenge = createHash('sha256').update(form.get('code_verifier') ?? '').digest('base64url');
+      if (challenge !== pending.codeChallenge) return oauthError(res, 'invalid_grant', 'PKCE verification failed');
+      return send(res, 200, issueTokens());
+    }
+    case 'refresh_token': {
+      if (!refreshTokens.delete(form.get('refresh_token'))) return oauthError(res, 'invalid_grant', 'Unknown refresh token');
+      return send(res, 200, issueTokens());
+    }
+    case 'urn:ietf:params:oauth:grant-type:device_code': {
+      const device = deviceCodes.get(form.get('device_code'));
+      if (!device) return oauthError(res, 'expired_token', 'Unknown or expired device code');
+      if (device.polls++ < DEVICE_CODE_POLLS) return oauthError(res, 'authorization_pending', 'The user has not finished signing in yet');
+      deviceCodes.delete(form.get('device_code'));
+      return send(res, 200, issueTokens());
+    }
+    default:
+      return oauthError(res, 'unsupported_grant_type', `Unsupported grant_type ${form.get('grant_type')}`);
+  }
+}
+
+function deviceCode (res, form) {
+  if (!form.get('client_id')) return oauthError(res, 'invalid_request', 'client_id is required');
+  const code = randomId();
+  const userCode = randomBytes(4).toString('hex').toUpperCase();
+  const verificationUri = `http://localhost:${PORT}/${TENANT}/device`;
+  deviceCodes.set(code, { clientId: form.get('client_id'), polls: 0 });
+  send(res, 200, {
+    device_code: code,
+    user_code: userCode,
+    verification_uri: verificationUri,
+    expires_in: 900,
+    interval: 1,
+    message: `To sign in, go to ${verificationUri} and enter the code ${userCode}`
+  });
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  try {
+    if (req.method === 'OPTIONS') return send(res, 204);
+    if (req.method === 'GET' && url.pathname === '/health') return send(res, 200, { status: 'ok' });
+    if (req.method === 'GET' && url.pathname === `${BASE}/authorize`) return authorize(res, url.searchParams);
+    if (req.method === 'POST' && url.pathname === `${BASE}/token`) return token(res, await readForm(req));
+    if (req.method === 'POST' && url.pathname === `${BASE}/devicecode`) return deviceCode(res, await readForm(req));
+    send(res, 404, { error: 'not_found', error_description: `No mock route for ${req.method} ${url.pathname}` });
+  } catch (e) {
+    send(res, 500, { error: 'server_error', error_description: String(e) });
+  }
+});
+
+server.listen(PORT, () => console.log(`Mock token server listening on http://localhost:${PORT}/${TENANT}`));
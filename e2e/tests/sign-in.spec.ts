@@ -0,0 +1,43 @@
+import { test, expect } from '@playwright/test';
+
+// Runs against e2e/mock-token-server.mjs (started by playwright.config.ts), which signs in as "Mock Admin"
+test.describe('Sign In', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/');
+    await page.locator('button.welcome', { hasText: 'Login' }).click();
+  });
+
+  test('should sign in with Microsoft (PKCE redirect)', async ({ page }) => {
+    await page.locator('button', { hasText: 'Sign in with Microsoft' }).click();
+    await expect(page.locator('button.welcome')).toContainText('Welcome Mock Admin', { timeout: 30000 });
+    await expect(page).not.toHaveURL(/code=/);
+  });
+
+  test('should keep the session after a reload', async ({ page }) => {
+    await page.locator('button', { hasText: 'Sign in with Microsoft' }).click();
+    await expect(page.locator('button.welcome')).toContainText('Welcome Mock Admin', { timeout: 30000 });
+    await page.reload();
+    await expect(page.locator('button.welcome')).toContainText('Welcome Mock Admin', { timeout: 30000 });
+  });
+
+  test('should sign in with a device code', async ({ page }) => {
+    await page.locator('button', { hasText: 'Use a device code' }).click();
+    await expect(page.locator('.device-code .user-code')).toBeVisible();
+    await expect(page.locator('button.welcome')).toContainText('Welcome Mock Admin', { timeout: 30000 });
+    await expect(page.locator('login-dialog')).toHaveCount(0);
+  });
+
+  test('should cancel a device code sign-in', async ({ page }) => {
+    await page.locator('button', { hasText: 'Use a device code' }).click();
+    await page.locator('.device-code button', { hasText: 'Cancel' }).click();
+    await expect(page.locator('.sign-in-options')).toBeVisible();
+  });
+
+  test('should still accept a pasted token', async ({ page }) => {
+    const payload = Buffer.from(JSON.stringify({ name: 'Pasted Admin', exp: Math.floor(Date.now() / 1000) + 3600 })).toString('base64url');
+    await page.locator('button', { hasText: 'Paste a token instead' }).click();
+    await page.locator('.token-input').fill(`Bearer eyJhbGciOiJub25lIn0.${payload}.sig`);
+    await page.locator('button.primary', { hasText: 'Login' }).click();
+    await expect(page.locator('button.welcome')).toContainText('Welcome Pasted Admin');
+  });
+});
@@ -24,10 +24,19 @@ export default defineConfig({
       },
     },
   ],
-  webServer: {
-    command: 'npx ng serve --port 4200',
-    url: 'http://localhost:4200',
-    reuseExistingServer: !process.env['CI'],
-    timeout: 120_000,
-  },
+  webServer: [
+    {
+      command: 'node e2e/mock-token-server.mjs',
+      url: 'http://localhost:4280/health',
+      reuseExistingServer: !process.env['CI'],
+      timeout: 10_000,
+    },
+    {
+      // mock-auth signs in against the mock token server above
+      command: 'npx ng serve --port 4200 --configuration mock-auth',
+      url: 'http://localhost:4200',
+      reuseExistingServer: !process.env['CI'],
+      timeout: 120_000,
+    },
+  ],
 });
@@ -22,9 +22,9 @@ tool for Microsoft Fabric workspaces, lineage, and governance. You are both the
 1. PASS 1: Create workspace nodes + artifact nodes (reports, datasets, dashboards, dataflows, datamarts)
 2. PASS 2: Build lineage links (Contains, DependsOn, CrossWorkspace) from upstream* arrays
 3. PASS 3: Cross-workspace metadata (crossUpstreamWSIds, crossDownstreamWSIds)
-4. PASS 4: Limit to first 100 workspaces if needed
+4. PASS 4: Optional workspace limit (not used by the UI — large tenants load in full)
 5. PASS 5: Remove orphaned artifacts with no links
-6. Initialize 3d-force-graph with nodes, links, forces, and domain clustering
+6. Initialize 3d-force-graph with nodes, links, forces, and domain clustering (graph build and initial layout run in graph-build.worker.ts)
 
 ## Microsoft Fabric Context
 - Fabric is a unified SaaS analytics platform (Lakehouse, Warehouse, Pipeline, Notebook, Report, etc.)
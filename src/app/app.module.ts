@@ -1,5 +1,5 @@
 import { BrowserModule } from '@angular/platform-browser';
-import { NgModule } from '@angular/core';
+import { APP_INITIALIZER, NgModule } from '@angular/core';
 
 import { AppRoutingModule } from './app-routing.module';
 import { BrowserAnimationsModule } from '@angular/platform-browser/animations';
@@ -7,6 +7,8 @@ import { AppComponent } from './components/app-root/app.component';
 import { AppBarComponent } from './components/app-bar/app-bar.component';
 import { LoginDialogComponent } from './components/login-dialog/login-dialog.component';
 import { AuthService } from './services/auth.service';
+import { FABRIC_API_INTERCEPTOR_PROVIDERS } from './services/fabric-api.interceptor';
+import { EnvironmentRegistry } from './services/environment-registry.service';
 import { MatToolbarModule } from '@angular/material/toolbar';
 import { MatIconModule } from '@angular/material/icon';
 import { MatButtonModule } from '@angular/material/button';
@@ -16,6 +18,7 @@ import { HttpClientModule } from '@angular/common/http';
 import { FormsModule } from '@angular/forms';
 import { ProgressBarDialogComponent } from './components/progress-bar-dialog/progress-bar-dialog.component';
 import { ErrorDialogComponent } from './components/error-dialog/error-dialog.component';
+import { EnvironmentSettingsDialogComponent } from './components/environment-settings-dialog/environment-settings-dialog.component';
 
 @NgModule({
   declarations: [
@@ -23,7 +26,8 @@ import { ErrorDialogComponent } from './components/error-dialog/error-dialog.com
     AppBarComponent,
     LoginDialogComponent,
     ProgressBarDialogComponent,
-    ErrorDialogComponent
+    ErrorDialogComponent,
+    EnvironmentSettingsDialogComponent
   ],
   imports: [
     BrowserModule,
@@ -37,7 +41,20 @@ import { ErrorDialogComponent } from './components/error-dialog/error-dialog.com
     HttpClientModule,
     FormsModule
   ],
-  providers: [AuthService],
+  providers: [
+    AuthService,
+    ...FABRIC_API_INTERCEPTOR_PROVIDERS,
+    // Loads the cloud environments, then completes a redirect sign-in before the router reads the URL
+    {
+      provide: APP_INITIALIZER,
+      useFactory: (environments: EnvironmentRegistry, authService: AuthService) => async () => {
+        await environments.load();
+        authService.initialize();
+      },
+      deps: [EnvironmentRegistry, AuthService],
+      multi: true
+    }
+  ],
   bootstrap: [AppComponent]
 })
 export class AppModule { }
@@ -1,8 +1,14 @@
-import { Component } from '@angular/core';
+import { Component, OnDestroy } from '@angular/core';
 import { MatDialog } from '@angular/material/dialog';
+import { ActivatedRoute } from '@angular/router';
+import { Subject, interval } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
 import { AuthService } from 'src/app/services/auth.service';
+import { EnvironmentRegistry } from 'src/app/services/environment-registry.service';
+import { TOKEN_EXPIRY_WARNING_MS, TokenInfo, formatTimeToExpiry, getTimeToExpiry, getTokenInfo } from 'src/app/services/token-info';
 import { ErrorDialogComponent } from '../error-dialog/error-dialog.component';
 import { LoginDialogComponent } from './../login-dialog/login-dialog.component';
+import { EnvironmentSettingsDialogComponent } from '../environment-settings-dialog/environment-settings-dialog.component';
 
 const Login: string = 'Login';
 const UpdateToken: string = 'Update Token';
@@ -14,15 +20,33 @@ const homeUrl = 'https://Fabric-Lineage.github.io/FabricBEyeAI';
   templateUrl: './app-bar.component.html',
   styleUrls: ['./app-bar.component.less']
 })
-export class AppBarComponent {
+export class AppBarComponent implements OnDestroy {
   public welcomeSTR: string;
   public isNotFirstTime: boolean = false;
+  /** Time left on the token, e.g. "42 min"; empty without a token or `exp` claim */
+  public expiryCountdown: string = '';
+  public isTokenExpiring: boolean = false;
+  /** Cloud environment selected with ?env= */
+  public environmentName: string = '';
+  private environmentId: string | undefined;
+  private tokenInfo: TokenInfo | undefined;
+  private destroy$: Subject<void> = new Subject();
 
   constructor (private dialog: MatDialog,
-    private authService: AuthService) {
+    private authService: AuthService,
+    private environments: EnvironmentRegistry,
+    private route: ActivatedRoute) {
     this.welcomeSTR = Login;
 
+    this.route.queryParamMap.pipe(takeUntil(this.destroy$)).subscribe(params => {
+      this.environmentId = params.get('env') ?? undefined;
+      this.environmentName = this.environments.get(this.environmentId).name;
+    });
+
     this.authService.getToken().subscribe((token: string) => {
+      this.tokenInfo = getTokenInfo(token);
+      this.updateExpiryCountdown();
+
       const parsedToken = this.parseJwt(token);
       if (parsedToken !== null && parsedToken.name) {
         this.welcomeSTR = Welcome + ' ' + parsedToken.name;
@@ -33,12 +57,24 @@ export class AppBarComponent {
       }
 
       if (!parsedToken) {
-        if (this.isNotFirstTime) {
+        // An empty token is a sign-out, not an invalid token
+        if (this.isNotFirstTime && token) {
           this.dialog.open(ErrorDialogComponent, { data: { title: 'Error', errorMessage: 'The token is invalid, please refresh your token and try again' } });
         }
         this.isNotFirstTime = true;
       }
     });
+
+    this.authService.getSignInErrors().subscribe(error => {
+      this.dialog.open(ErrorDialogComponent, { data: { title: 'Sign-in failed', errorMessage: error.message } });
+    });
+
+    interval(1000).pipe(takeUntil(this.destroy$)).subscribe(() => this.updateExpiryCountdown());
+  }
+
+  public ngOnDestroy (): void {
+    this.destroy$.next();
+    this.destroy$.complete();
   }
 
   public handleHomeNavigation (): void {
@@ -49,6 +85,20 @@ export class AppBarComponent {
     this.dialog.open(LoginDialogComponent);
   }
 
+  public openEnvironmentSettings (): void {
+    this.dialog.open(EnvironmentSettingsDialogComponent, { data: { currentId: this.environmentId } })
+      .afterClosed().subscribe(() => {
+        // Custom entries may have been renamed
+        this.environmentName = this.environments.get(this.environmentId).name;
+      });
+  }
+
+  private updateExpiryCountdown (): void {
+    const remaining = getTimeToExpiry(this.tokenInfo);
+    this.expiryCountdown = remaining === undefined ? '' : formatTimeToExpiry(remaining);
+    this.isTokenExpiring = remaining !== undefined && remaining < TOKEN_EXPIRY_WARNING_MS;
+  }
+
   public parseJwt (token: string) {
     try {
       return JSON.parse(atob(token.split('.')[1]));
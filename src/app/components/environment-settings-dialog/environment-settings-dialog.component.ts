@@ -0,0 +1,93 @@
+import { Component, Inject } from '@angular/core';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+import { Router } from '@angular/router';
+import { AuthService } from 'src/app/services/auth.service';
+import { CloudEnvironment, EnvironmentRegistry, validateCloudEnvironment } from 'src/app/services/environment-registry.service';
+
+const EMPTY_ENTRY: CloudEnvironment = { id: '', name: '', apiUrl: '', fabricApiUrl: '', url: '', authority: '', resource: '' };
+
+type EnvironmentField = Exclude<keyof CloudEnvironment, 'aliases' | 'isCustom'>;
+
+/** Fields of the custom environment form, in display order */
+const FORM_FIELDS: { key: EnvironmentField; label: string; placeholder: string }[] = [
+  { key: 'id', label: 'ID (?env=)', placeholder: 'local-mock' },
+  { key: 'name', label: 'Name', placeholder: 'Local mock server' },
+  { key: 'apiUrl', label: 'Power BI API host or URL', placeholder: 'api.powerbi.com or http://localhost:4281' },
+  { key: 'fabricApiUrl', label: 'Fabric API host or URL', placeholder: 'api.fabric.microsoft.com' },
+  { key: 'url', label: 'Portal URL', placeholder: 'https://app.powerbi.com/' },
+  { key: 'authority', label: 'Sign-in authority', placeholder: 'https://login.microsoftonline.com/organizations' },
+  { key: 'resource', label: 'Power BI resource', placeholder: 'https://analysis.windows.net/powerbi/api' }
+];
+
+@Component({
+  selector: 'environment-settings-dialog',
+  templateUrl: './environment-settings-dialog.component.html',
+  styleUrls: ['./environment-settings-dialog.component.less']
+})
+export class EnvironmentSettingsDialogComponent {
+  public readonly formFields = FORM_FIELDS;
+  public environments: CloudEnvironment[];
+  public currentId: string;
+  /** Custom environment being added or edited; null while the form is closed */
+  public draft: CloudEnvironment | null = null;
+  public formErrors: string[] = [];
+  /** ID of the custom entry being edited, so renaming it replaces the old entry */
+  private editingId: string | undefined;
+
+  constructor (private dialogRef: MatDialogRef<EnvironmentSettingsDialogComponent>,
+    private registry: EnvironmentRegistry,
+    private authService: AuthService,
+    private router: Router,
+    @Inject(MAT_DIALOG_DATA) data: { currentId?: string }) {
+    this.currentId = registry.get(data?.currentId).id;
+    this.environments = registry.list();
+  }
+
+  /** Switches environments; a token from another cloud won't work, so the user signs in again */
+  public select (entry: CloudEnvironment): void {
+    if (entry.id !== this.currentId && this.authService.getCurrentToken()) {
+      this.authService.signOut();
+    }
+    this.router.navigate([], { queryParams: { env: entry.id }, queryParamsHandling: 'merge' });
+    this.dialogRef.close(entry);
+  }
+
+  public addCustom (): void {
+    this.draft = { ...EMPTY_ENTRY };
+    this.editingId = undefined;
+    this.formErrors = [];
+  }
+
+  public edit (entry: CloudEnvironment): void {
+    this.draft = { ...entry };
+    this.editingId = entry.id;
+    this.formErrors = [];
+  }
+
+  public saveDraft (): void {
+    if (!this.draft) return;
+    this.formErrors = validateCloudEnvironment(this.draft);
+    if (this.formErrors.length > 0) return;
+
+    this.registry.saveCustom(this.draft);
+    if (this.editingId && this.editingId !== this.draft.id) {
+      this.registry.removeCustom(this.editingId);
+    }
+    this.environments = this.registry.list();
+    this.draft = null;
+  }
+
+  public cancelDraft (): void {
+    this.draft = null;
+    this.formErrors = [];
+  }
+
+  public remove (entry: CloudEnvironment): void {
+    this.registry.removeCustom(entry.id);
+    this.environments = this.registry.list();
+  }
+
+  public closeDialog (): void {
+    this.dialogRef.close();
+  }
+}
@@ -4,6 +4,19 @@ import { forkJoin, Subject } from 'rxjs';
 import { take, takeUntil } from 'rxjs/operators';
 import { ScanService } from 'src/app/home/services/scan.service';
 import { HomeProxy } from '../../home/services/home-proxy.service';
+import { FabricApiError } from 'src/app/services/fabric-api-error';
+
+/**
+ * Error dialog data
+ * Pass `error` for failed API calls: its message is used when `errorMessage`
+ * is omitted, and its code and request ID are shown for support.
+ */
+export interface ErrorDialogData {
+  title: string;
+  errorMessage?: string;
+  button?: string;
+  error?: FabricApiError;
+}
 
 @Component({
   selector: 'error-dialog',
@@ -14,16 +27,27 @@ export class ErrorDialogComponent implements OnInit, OnDestroy {
   public title: string = '';
   public button: string = '';
   public errorMessage: string = '';
+  public apiError?: FabricApiError;
+  public isDetailsCopied: boolean = false;
   public scanStatusPercent: number = 0;
   public isScanTenantInProgress: boolean = true;
   private destroy$: Subject<void> = new Subject();
 
   constructor (private dialogRef: MatDialogRef<ErrorDialogComponent>,
-    @Inject(MAT_DIALOG_DATA) data: any) {
+    @Inject(MAT_DIALOG_DATA) data: ErrorDialogData) {
     this.dialogRef.disableClose = true;
     this.title = data.title;
     this.button = data.button;
-    this.errorMessage = data.errorMessage;
+    this.apiError = data.error instanceof FabricApiError ? data.error : undefined;
+    this.errorMessage = data.errorMessage ??
+      (this.apiError ? [this.apiError.getDisplayMessage(), ...this.apiError.details.map(detail => `• ${detail}`)].join('\n') : '');
+  }
+
+  /** Copies message, status, request ID and time for a support ticket */
+  public async copyDetails (): Promise<void> {
+    if (!this.apiError) return;
+    await navigator.clipboard.writeText(`${this.title}\n${this.apiError.describe()}`);
+    this.isDetailsCopied = true;
   }
 
   public ngOnInit (): void {
@@ -1,5 +1,6 @@
-import { Component } from '@angular/core';
+import { Component, OnDestroy } from '@angular/core';
 import { MatDialogRef } from '@angular/material/dialog';
+import { AuthError, DeviceCodeChallenge } from 'src/app/services/auth-providers';
 import { AuthService } from 'src/app/services/auth.service';
 
 @Component({
@@ -7,17 +8,74 @@ import { AuthService } from 'src/app/services/auth.service';
   templateUrl: './login-dialog.component.html',
   styleUrls: ['./login-dialog.component.less']
 })
-export class LoginDialogComponent {
+export class LoginDialogComponent implements OnDestroy {
   public token: string;
+  public readonly interactiveSignInAvailable: boolean;
+  /** Show the paste-a-token fallback (always, when no client ID is configured) */
+  public showPasteToken: boolean;
+  public isRedirecting: boolean = false;
+  public deviceCodeChallenge: DeviceCodeChallenge | null = null;
+  public errorMessage: string = '';
 
   constructor (private authService: AuthService,
-    private dialogRef: MatDialogRef<LoginDialogComponent>) { }
+    private dialogRef: MatDialogRef<LoginDialogComponent>) {
+    this.interactiveSignInAvailable = authService.isInteractiveSignInAvailable();
+    this.showPasteToken = !this.interactiveSignInAvailable;
+  }
+
+  public get isSignedIn (): boolean {
+    return this.authService.getSignInMethod() !== null;
+  }
+
+  public async signIn (): Promise<void> {
+    this.errorMessage = '';
+    this.isRedirecting = true;
+    try {
+      await this.authService.signIn();
+    } catch (e) {
+      this.isRedirecting = false;
+      this.errorMessage = e?.message ?? String(e);
+    }
+  }
+
+  public async signInWithDeviceCode (): Promise<void> {
+    this.errorMessage = '';
+    try {
+      await this.authService.signInWithDeviceCode(challenge => { this.deviceCodeChallenge = challenge; });
+      this.dialogRef.close();
+    } catch (e) {
+      if (!(e instanceof AuthError && e.code === 'cancelled')) {
+        this.errorMessage = e?.message ?? String(e);
+      }
+    } finally {
+      this.deviceCodeChallenge = null;
+    }
+  }
+
+  public cancelDeviceCode (): void {
+    this.authService.cancelDeviceCodeSignIn();
+    this.deviceCodeChallenge = null;
+  }
+
+  public togglePasteToken (): void {
+    this.showPasteToken = !this.showPasteToken;
+  }
 
   public onClick (): void {
     this.authService.setToken(this.token);
   }
 
+  public signOut (): void {
+    this.authService.signOut();
+  }
+
   public closeDialog () {
     this.dialogRef.close();
   }
+
+  public ngOnDestroy (): void {
+    if (this.deviceCodeChallenge) {
+      this.authService.cancelDeviceCodeSignIn();
+    }
+  }
 }
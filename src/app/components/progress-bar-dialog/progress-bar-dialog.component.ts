@@ -1,9 +1,12 @@
 import { Component, OnDestroy, OnInit } from '@angular/core';
-import { MatDialogRef } from '@angular/material/dialog';
-import { forkJoin, Subject } from 'rxjs';
-import { take, takeUntil } from 'rxjs/operators';
+import { MatDialog, MatDialogRef } from '@angular/material/dialog';
+import { Subject, interval } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { AuthService } from 'src/app/services/auth.service';
+import { TOKEN_EXPIRY_WARNING_MS, formatTimeToExpiry, getTimeToExpiry } from 'src/app/services/token-info';
+import { LoginDialogComponent } from '../login-dialog/login-dialog.component';
 import { ScanService } from 'src/app/home/services/scan.service';
-import { HomeProxy } from '../../home/services/home-proxy.service';
+import { ScanBatch, ScanOrchestrator, ScanProgress } from 'src/app/home/services/scan-orchestrator.service';
 
 @Component({
   selector: 'progress-bar-dialog',
@@ -14,15 +17,22 @@ export class ProgressBarDialogComponent implements OnInit, OnDestroy {
   public scanInfoStatusByScanId: { [scanInfoId: string]: string } = {};
   public scanStatusPercent: number = 0;
   public isScanTenantInProgress: boolean = true;
+  public progress: ScanProgress;
+  /** Time left on a token about to expire mid-scan, e.g. "2:30"; empty otherwise */
+  public tokenExpiryWarning: string = '';
   private destroy$: Subject<void> = new Subject();
 
   constructor (private dialogRef: MatDialogRef<ProgressBarDialogComponent>,
-    private scanService: ScanService) {
+    private scanService: ScanService,
+    private scanOrchestrator: ScanOrchestrator,
+    private authService: AuthService,
+    private dialog: MatDialog) {
     this.dialogRef.disableClose = true;
   }
 
   public ngOnInit (): void {
     this.updateStatus();
+    interval(1000).pipe(takeUntil(this.destroy$)).subscribe(() => this.updateTokenExpiryWarning());
   }
 
   public ngOnDestroy (): void {
@@ -35,16 +45,18 @@ export class ProgressBarDialogComponent implements OnInit, OnDestroy {
       takeUntil(this.destroy$))
       .subscribe((scanInfoStatusByScanId: { [scanInfoId: string]: string }) => {
         this.scanInfoStatusByScanId = scanInfoStatusByScanId;
-        const numberOfRequests = Object.keys(scanInfoStatusByScanId).length;
-        let numberOfSuccessRequests = 0;
-        for (const [scanInfoId, scanInfoStatus] of Object.entries(scanInfoStatusByScanId)) {
-          if (scanInfoStatus === 'Succeeded') {
-            numberOfSuccessRequests++;
-          }
-        }
-        this.scanStatusPercent = Math.round((numberOfSuccessRequests / numberOfRequests) * 100) || 0;
-        this.isScanTenantInProgress = this.scanStatusPercent < 100;
-        if (!this.isScanTenantInProgress) {
+      });
+
+    this.scanOrchestrator.getProgress().pipe(
+      takeUntil(this.destroy$))
+      .subscribe((progress: ScanProgress) => {
+        this.progress = progress;
+        this.scanStatusPercent = progress.percent;
+        this.isScanTenantInProgress = !progress.isFinished;
+        this.updateTokenExpiryWarning();
+        // Clean runs download and close on their own; failures stay open so the errors can be read.
+        // An incremental scan with no modified workspaces still downloads the stored snapshot.
+        if (progress.isFinished && progress.failed === 0 && (progress.succeeded > 0 || progress.total === 0)) {
           setTimeout(() => {
             this.downloadJson();
             this.closeDialog();
@@ -53,9 +65,27 @@ export class ProgressBarDialogComponent implements OnInit, OnDestroy {
       });
   }
 
+  private updateTokenExpiryWarning (): void {
+    const remaining = getTimeToExpiry(this.authService.getCurrentTokenInfo());
+    this.tokenExpiryWarning = this.isScanTenantInProgress && remaining !== undefined && remaining > 0 && remaining < TOKEN_EXPIRY_WARNING_MS
+      ? formatTimeToExpiry(remaining)
+      : '';
+  }
+
+  /** Opens the login dialog; a paused scan resumes as soon as the new token arrives */
+  public signInAgain (): void {
+    this.dialog.open(LoginDialogComponent);
+  }
+
+  /** Batches worth listing: anything not yet done, plus failures */
+  public get visibleBatches (): ScanBatch[] {
+    return (this.progress?.batches ?? []).filter(batch => batch.status !== 'Succeeded');
+  }
+
   public closeDialog () {
     this.scanStatusPercent = 0;
     this.isScanTenantInProgress = false;
+    this.scanOrchestrator.cancel();
     this.scanService.stopScan();
     this.destroy$.next();
     this.scanService.initScanInfoStatusChanged();
@@ -18,7 +18,7 @@
 
 import { Component, ElementRef, ViewChild, OnInit, OnDestroy, HostListener } from '@angular/core';
 import { MatDialog, MatDialogRef } from '@angular/material/dialog';
-import { Subject, forkJoin, of } from 'rxjs';
+import { Subject, of } from 'rxjs';
 import { take, takeUntil } from 'rxjs/operators';
 
 // 3D Graphics Libraries
@@ -29,25 +29,68 @@ import SpriteText from 'three-spritetext';
 // Services
 import { HomeProxy } from '../../services/home-proxy.service';
 import { ScanService } from '../../services/scan.service';
+import { ScanOrchestrator } from '../../services/scan-orchestrator.service';
+import { GraphBuildResult, GraphBuildService } from '../../services/graph-build.service';
+import { SnapshotStore, SnapshotSummary, StoredSnapshot } from '../../services/snapshot-store.service';
+import { ScanImportResult, ScanImportService } from '../../services/scan-import.service';
+import { ResolvedSensitivityLabel, SensitivityLabelCatalog, SensitivityLabelDefinition } from '../../services/sensitivity-label-catalog.service';
+import { PolicyPackRegistry } from '../../services/policy-pack-registry.service';
 import { AuthService } from 'src/app/services/auth.service';
+import { validateScanToken } from 'src/app/services/token-info';
+import { FabricApiError } from 'src/app/services/fabric-api-error';
 
 // Models
-import { Report, Dataset } from '../../models/dataModel';
-import { Link, LinkType, Node, NodeType } from '../../models/graphModels';
-import type { WorkspaceInfoResponse, Domain } from '../../models/scanner-api.types';
+import { DiffStatus, LineageGraph, Link, LinkType, Node, NodeType, LINEAGE_LINK_TYPES, LINK_TYPE_LABELS, PRINCIPAL_NODE_TYPES, isArtifactNode } from '../../models/graphModels';
+import type { TenantScanResult, Domain, ScanOptions, Table, WorkspaceInfoDataset } from '../../models/scanner-api.types';
 
 // Data
 import { MOCK_SCANNER_RESPONSE, MOCK_DOMAINS, MOCK_FABRIC_ITEMS } from '../../data/scanner-mock-data';
 
+// Utilities
+import {
+  LAYOUT_ALPHA_DECAY, LAYOUT_VELOCITY_DECAY,
+  computeDomainAnchors, createDomainClusterForce, getLinkDistance, getWarmupTicks
+} from '../../utils/graph-layout';
+import {
+  SnapshotDiff, SnapshotDiffField, SnapshotNodeChange, SNAPSHOT_DIFF_FIELD_LABELS,
+  diffLineageGraphs, snapshotDiffToCsv, snapshotDiffToJson
+} from '../../utils/snapshot-diff';
+import { DEFAULT_SCAN_OPTIONS, SCAN_OPTION_FIELDS, inferScanOptions } from '../../utils/scan-options';
+import { DataDictionaryFormat, dataDictionaryToCsv, dataDictionaryToMarkdown, filterDatasetSchema, getTableSourceExpression } from '../../utils/dataset-schema';
+import {
+  FieldLineageGraph, FieldLineageNode, buildFieldLineage, getColumnNodeId, getMeasureNodeId, getTableNodeId, traceFieldLineage
+} from '../../utils/expression-lineage';
+import { RlsCoverageSummary, RlsDatasetCoverage, buildRlsCoverage, rlsCoverageToCsv, rlsCoverageToJson, summarizeRlsCoverage } from '../../utils/rls-coverage';
+import { LabelDowngrade, findLabelDowngrades, labelDowngradesToCsv } from '../../utils/label-downgrade';
+import {
+  DEFAULT_POLICY_PACK, PolicyContext, PolicyPack, PolicyRuleResult, PolicySeverity, UNLABELED_ARTIFACTS_RULE_ID,
+  evaluatePolicyPack, policyPackToYaml, policyResultsToCsv
+} from '../../utils/governance-policy';
+import { buildGovernanceScorecard, governanceScorecardToHtml } from '../../utils/governance-scorecard';
+import { escapeHtml } from '../../utils/html';
+import {
+  DEFAULT_STALE_CONTENT_OPTIONS, STALE_CONTENT_KINDS, StaleContentFinding, StaleContentKind, StaleContentOptions,
+  findStaleContent, staleContentToCsv
+} from '../../utils/stale-content';
+import {
+  AccessGrant, AccessLevel, DirectShareEntry, ExternalAccessEntry, Principal, PrincipalAccess,
+  accessGrantsToCsv, buildPrincipals, collectAccessGrants, getDirectShares, getExternalAccessToLabeledContent,
+  getPrincipalAccess, getPrivilegedWorkspaceRoles, getServicePrincipalAdmins, maxAccessLevel
+} from '../../utils/access-analysis';
+
 // Dialogs
 import { ProgressBarDialogComponent } from 'src/app/components/progress-bar-dialog/progress-bar-dialog.component';
 import { LoginDialogComponent } from 'src/app/components/login-dialog/login-dialog.component';
-import { ErrorDialogComponent } from 'src/app/components/error-dialog/error-dialog.component';
+import { ErrorDialogComponent, ErrorDialogData } from 'src/app/components/error-dialog/error-dialog.component';
+
+/** Toolbar panels that share the right-hand slot; at most one is open */
+type PanelId = 'snapshots' | 'rls' | 'access' | 'labels' | 'policies' | 'stale';
 
 // Constants
-const WORKSPACE_LIMIT: number = 100;
-const MAX_PARALLEL_API_CALLS: number = 16;
 const DOMAIN_BOUNDARY_SETTLE_TIME: number = 3000; // ms to wait for layout before drawing boundaries
+const LAYOUT_PRECOMPUTE_TICKS: number = 150; // Force-layout ticks run in the graph worker before the first frame
+const LAYOUT_TIME_BUDGET_MS: number = 5000; // Cap on that pass — huge tenants finish settling on screen
+const LAYOUT_SETTLE_TICKS: number = 60; // Renderer ticks after a precomputed layout
 
 // Graph Configuration Constants
 const NODE_SIZE_MULTIPLIER = 8;
@@ -73,6 +116,31 @@ const COLOR_FABRIC_BLUE = '#0078D4';
 // Link Arrow Colors
 const COLOR_ARROW_CROSS_WS = '#60CDFF'; // Soft cyan for cross-workspace lineage
 
+// Artifact lineage link colors as "r,g,b" — alpha comes from the link opacity slider
+const LINK_RGB_FEEDS = '255,200,80'; // Golden — data loaded downstream
+const LINK_RGB_DEPENDS_ON = '255,140,60'; // Orange — model built on another model
+const LINK_RGB_VISUALIZES = '180,140,255'; // Lavender — report/dashboard consumption
+const LINK_RGB_SOURCES = '160,200,160'; // Sage — external datasource read
+const LINK_RGB_BROKEN = '232,17,35'; // Red — misconfigured datasource usage
+const LINK_RGB_HAS_ACCESS = '227,0,140'; // Magenta — principal's role or permission
+
+// Snapshot comparison overlay
+const COLOR_DIFF_ADDED = '#6CCB5F'; // Green halo — new since the older snapshot
+const COLOR_DIFF_CHANGED = '#FFB900'; // Amber halo — endorsement, label, domain or name changed
+const DIFF_GHOST_OPACITY = 0.25; // Removed nodes are drawn as translucent ghosts
+const LINK_RGB_DIFF_ADDED = '108,203,95';
+const LINK_RGB_DIFF_REMOVED = '150,150,150';
+
+// People lens: halo by the selected principal's access
+const ACCESS_LEVEL_COLORS: Record<AccessLevel, string> = { admin: '#E81123', edit: '#FFB900', read: '#60CDFF' };
+const ACCESS_LENS_DIRECT_OPACITY = 0.4; // Shared with the principal or a workspace they hold a role in
+const ACCESS_LENS_INHERITED_OPACITY = 0.15; // Reached through a workspace role
+
+// Policy overlay: halo by the severity of the broken rule
+const POLICY_SEVERITY_COLORS: Record<PolicySeverity, string> = { error: '#E81123', warning: '#FFB900', info: '#60CDFF' };
+const POLICY_SEVERITY_RANK: Record<PolicySeverity, number> = { error: 3, warning: 2, info: 1 };
+const POLICY_OVERLAY_OPACITY = 0.35;
+
 @Component({
   selector: 'home-container',
   templateUrl: './home-container.component.html',
@@ -92,24 +160,24 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
   /** Visible nodes after filtering (used by graph) */
   private visibleNodes: Node[] = [];
 
-  /** Fast node lookup by ID for link color computation */
+  /** Fast node lookup by ID — use instead of scanning `nodes` in per-node/per-link callbacks */
   private nodeMap: Map<string, Node> = new Map();
 
-  /** Graph links (relationships between nodes) */
-  public links: Link[] = [];
+  /** Links touching each node, for hover/focus highlighting */
+  private nodeLinks: Map<string, Link[]> = new Map();
+
+  /** Artifact count per workspace ID, for workspace labels */
+  private workspaceArtifactCounts: Map<string, number> = new Map();
 
-  /** Legacy report data (for backward compatibility) */
-  public reports: Report[] = [];
+  /** Incremented per graph load so a slower, older build can't overwrite a newer one */
+  private graphLoadId: number = 0;
 
-  /** Legacy dataset data (for backward compatibility) */
-  public datasets: Dataset[] = [];
+  /** Graph links (relationships between nodes) */
+  public links: Link[] = [];
 
   /** Microsoft Fabric domains for organization */
   public domains: Domain[] = [];
 
-  /** Additional workspace-level metadata storage */
-  public workspaceMetadata: Map<string, any> = new Map();
-
   // =================================================================
   // UI STATE PROPERTIES
   // =================================================================
@@ -120,6 +188,22 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
   /** Whether a tenant scan is in progress */
   public isScanTenantInProgress: boolean = false;
 
+  /** Start time of the last complete scan; the next scan only rescans workspaces modified since */
+  public lastScanWatermark: string | undefined;
+
+  /** Metadata the next scan requests besides lineage (scan settings panel) */
+  public scanOptions: ScanOptions = { ...DEFAULT_SCAN_OPTIONS };
+  public readonly scanOptionFields = SCAN_OPTION_FIELDS;
+
+  /** Whether the scan settings panel is visible */
+  public showScanSettings: boolean = false;
+
+  /** Metadata the graph's scan holds — features needing schema, expressions, users or datasource details check this */
+  public loadedScanOptions: ScanOptions = DEFAULT_SCAN_OPTIONS;
+
+  /** Scan result behind the graph, for details the graph nodes don't carry (schema, expressions, users) */
+  private loadedScanResult: Partial<TenantScanResult> | null = null;
+
   /** Search filter text */
   public searchTerm: string = '';
 
@@ -172,6 +256,98 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
   /** Show assignment panel for bulk domain assignment */
   public showAssignmentPanel: boolean = false;
 
+  /** Progress label while files are imported or the graph is built (null = idle) */
+  public loadingStatus: string | null = null;
+
+  /** Toolbar panel currently open (null = none) */
+  public activePanel: PanelId | null = null;
+
+  /** Snapshot library entries, newest first */
+  public snapshots: SnapshotSummary[] = [];
+
+  /** Snapshot whose label is being edited (null = none) */
+  public renamingSnapshotId: string | null = null;
+
+  /** Label being typed while renaming a snapshot */
+  public snapshotNameDraft: string = '';
+
+  /** Older and newer snapshot picked for comparison */
+  public diffBeforeId: string = '';
+  public diffAfterId: string = '';
+
+  /** Snapshot comparison shown as a graph overlay (null = normal view) */
+  public activeDiff: SnapshotDiff | null = null;
+
+  /** "Older → newer" snapshot names of the active comparison */
+  public diffTitle: string = '';
+
+  /** Change list filter in the comparison panel */
+  public diffStatusFilter: DiffStatus | 'all' = 'all';
+
+  /** Row-level security per semantic model of the loaded scan, flagged models first */
+  public rlsCoverage: RlsDatasetCoverage[] = [];
+  public rlsSummary: RlsCoverageSummary | null = null;
+
+  /** Show only sensitive models without RLS in the RLS panel */
+  public rlsFlaggedOnly: boolean = false;
+
+  /** Semantic model whose roles are expanded in the RLS panel (null = none) */
+  public expandedRlsDatasetId: string | null = null;
+
+  /** Permissions explorer view */
+  public accessView: 'roles' | 'external' | 'shares' | 'apps' = 'roles';
+
+  /** Workspace roles and artifact permissions of the loaded scan, and the views built from them */
+  public accessGrants: AccessGrant[] = [];
+  public accessPrincipals: Principal[] = [];
+  public privilegedRoles: AccessGrant[] = [];
+  public externalAccess: ExternalAccessEntry[] = [];
+  public directShares: DirectShareEntry[] = [];
+  public servicePrincipalAdmins: AccessGrant[] = [];
+
+  /** Principal whose access colors the graph (people lens; empty = off) */
+  public lensPrincipalKey: string = '';
+  private lensAccess: PrincipalAccess | null = null;
+
+  /** Label endpoint typed into the label panel */
+  public labelEndpoint: string = '';
+
+  /** Label panel view: the catalog and label usage, or label downgrades along lineage */
+  public labelView: 'catalog' | 'downgrades' = 'catalog';
+
+  /** Items labeled less sensitive than something upstream of them */
+  public labelDowngrades: LabelDowngrade[] = [];
+
+  /** Downgrade whose path is highlighted in the graph (null = none) */
+  public selectedDowngrade: LabelDowngrade | null = null;
+
+  /** Rule pack evaluated in the policy panel */
+  public activePolicyPackId: string = DEFAULT_POLICY_PACK.id;
+
+  /** Per-rule results of the active pack against the loaded graph */
+  public policyResults: PolicyRuleResult[] = [];
+
+  /** Rule whose violations are expanded in the policy panel (null = none) */
+  public expandedPolicyRuleId: string | null = null;
+
+  /** Rule whose violations get a halo in the graph ('all' = every rule, empty = off) */
+  public policyOverlayRuleId: string = '';
+  private policyOverlay: Map<string, PolicySeverity> | null = null;
+
+  /** Thresholds for stale reports and near-empty workspaces */
+  public staleOptions: StaleContentOptions = { ...DEFAULT_STALE_CONTENT_OPTIONS };
+
+  /** Dead content in the loaded graph, all kinds */
+  public staleFindings: StaleContentFinding[] = [];
+
+  /** Stale panel filters: one kind (empty = all) and a name or workspace search */
+  public staleKindFilter: StaleContentKind | '' = '';
+  public staleSearch: string = '';
+
+  /** Finding highlighted in the graph (null = none, or all filtered findings when staleHighlightAll) */
+  public selectedStaleFinding: StaleContentFinding | null = null;
+  public staleHighlightAll: boolean = false;
+
   /** Show unassigned workspaces in graph (default: true — show everything) */
   public showUnassignedWorkspaces: boolean = true;
 
@@ -191,6 +367,28 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
   public showSidePanel: boolean = false;
   public sidePanelNode: any = null;
 
+  /** Side panel tab — the schema browser and field lineage are offered for semantic models */
+  public sidePanelTab: 'details' | 'schema' | 'lineage' = 'details';
+
+  /** Scanner API dataset behind the side panel's semantic model (undefined for other nodes) */
+  public sidePanelDataset: WorkspaceInfoDataset | undefined;
+
+  /** Schema browser search text and the tables matching it */
+  public schemaSearch: string = '';
+  public schemaTables: Table[] = [];
+
+  /** Schema tables shown expanded, and the measure or table whose expression is shown */
+  public expandedSchemaTables: Set<string> = new Set();
+  public expandedSchemaExpression: string | null = null;
+
+  /** Table/column/measure lineage of the side panel's semantic model, from its M and DAX */
+  public fieldLineage: FieldLineageGraph | null = null;
+
+  /** Field being traced ("trace this column") with what feeds it and what it feeds */
+  public fieldTraceNode: FieldLineageNode | null = null;
+  public fieldTraceUpstream: FieldLineageNode[] = [];
+  public fieldTraceDownstream: FieldLineageNode[] = [];
+
   /** Context menu state */
   public contextMenuVisible: boolean = false;
   public contextMenuX: number = 0;
@@ -201,6 +399,12 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
   public impactNodes: Set<string> = new Set();
   public impactAnalysisActive: boolean = false;
 
+  /** Whether users, groups and service principals are drawn as nodes with access links */
+  public principalGraphMode: boolean = false;
+
+  /** What the principal in the side panel can reach (null = no principal selected) */
+  public blastRadius: { workspaceRoles: number; directPermissions: number; viaWorkspaceRoles: number; labeled: number } | null = null;
+
   /** Get count of unassigned workspaces */
   public get unassignedCount (): number {
     return this.nodes.filter(n =>
@@ -234,10 +438,16 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
   public showWarehouses: boolean = true;
   public showReports: boolean = true;
   public showDatasets: boolean = true;
+  public showDatasources: boolean = true;
 
   /** Show/hide link type filters */
   public showCrossWorkspaceLinks: boolean = true;
   public showContainsLinks: boolean = true;
+  public showFeedsLinks: boolean = true;
+  public showDependsOnLinks: boolean = true;
+  public showVisualizesLinks: boolean = true;
+  public showParentOfLinks: boolean = true;
+  public showSourcesLinks: boolean = true;
 
   /** Link opacity (0-100%) */
   public linkOpacity: number = 50;
@@ -280,6 +490,15 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
   /** File input element reference */
   @ViewChild('filesInput', { static: true }) filesInput: ElementRef;
 
+  /** File input for importing snapshots into the library */
+  @ViewChild('snapshotFilesInput', { static: true }) snapshotFilesInput: ElementRef;
+
+  /** File input for importing a sensitivity label catalog */
+  @ViewChild('labelCatalogInput', { static: true }) labelCatalogInput: ElementRef;
+
+  /** File input for uploading a governance rule pack */
+  @ViewChild('policyPackInput', { static: true }) policyPackInput: ElementRef;
+
   // =================================================================
   // LIFECYCLE METHODS
   // =================================================================
@@ -287,7 +506,13 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
   constructor (
     private proxy: HomeProxy,
     private scanService: ScanService,
+    private scanOrchestrator: ScanOrchestrator,
+    private graphBuild: GraphBuildService,
+    private snapshotStore: SnapshotStore,
+    private scanImport: ScanImportService,
     private authService: AuthService,
+    private labelCatalog: SensitivityLabelCatalog,
+    private policyPacks: PolicyPackRegistry,
     private dialog: MatDialog
   ) {
     // Check if user has scan permissions
@@ -297,14 +522,31 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
   }
 
   public ngOnInit (): void {
+    this.scanOptions = this.scanService.getScanOptions();
+    this.refreshLastScanWatermark();
+    // The dialog closes before the scan is saved, so re-read the watermark once it is
+    this.scanService.getSnapshotSaved()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.refreshLastScanWatermark());
+
     // Subscribe to lineage data from scan service
     this.scanService.getLoadLineage()
       .pipe(takeUntil(this.destroy$))
-      .subscribe(workspaces => {
-        if (workspaces && workspaces.length > 0) {
-          this.loadLineage(workspaces);
+      .subscribe(scanResult => {
+        if (scanResult?.workspaces?.length > 0) {
+          this.loadLineage(scanResult, this.scanService.getLatestScanOptions());
         }
       });
+
+    // Label names, colors and sensitivity come from the catalog; RLS flags depend on it
+    this.labelCatalog.load().then(() => { this.labelEndpoint = this.labelCatalog.getEndpoint(); });
+    this.labelCatalog.changes
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        this.refreshRlsCoverage();
+        this.refreshLabelDowngrades();
+        this.refreshPolicyResults();
+      });
   }
 
   public ngOnDestroy (): void {
@@ -321,22 +563,36 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
    *
    * This method triggers the Microsoft Fabric Scanner API to scan all workspaces
    * in the tenant. It requires tenant admin permissions and shows a progress dialog
-   * while the scan is in progress. The scan fetches workspace metadata, artifacts,
-   * and lineage information for visualization.
+   * while the scan is in progress. Batching, throttling and retries are handled by
+   * ScanOrchestrator, which reports per-batch progress to the dialog.
+   *
+   * When a recent complete scan is stored, only workspaces modified since then
+   * are scanned and merged into the stored snapshot.
+   *
+   * The token is checked up front: an expired token, one for another API or
+   * one without a Fabric admin role is refused before any request is made.
    *
    * Error handling:
    * - 401: No tenant admin logged in - shows login dialog
    * - 403: Invalid or expired token - prompts to refresh credentials
    *
+   * @param fullScan - Ignore the stored watermark and rescan every workspace
    * @throws {Error} When scanner API request fails
    */
-  public async startScan (): Promise<void> {
+  public async startScan (fullScan: boolean = false): Promise<void> {
     if (!this.canStartScan) {
       this.dialog.open(LoginDialogComponent);
       return;
     }
 
+    const tokenProblem = validateScanToken(this.authService.getCurrentTokenInfo());
+    if (tokenProblem) {
+      this.dialog.open(ErrorDialogComponent, { data: { title: 'Cannot start the scan', errorMessage: tokenProblem } });
+      return;
+    }
+
     this.scanService.shouldStopScan = false;
+    this.scanOrchestrator.reset();
     this.progressBarDialogRef = this.dialog.open(ProgressBarDialogComponent, { disableClose: true });
     this.isScanTenantInProgress = true;
 
@@ -344,31 +600,29 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
       // Fetch domains from Fabric Admin API (parallel with workspace scan)
       this.fetchDomains();
 
-      const resultObservable = await this.proxy.getModifedWorkspaces();
+      const scanStartedAt = new Date().toISOString();
+      const modifiedSince = fullScan ? undefined : await this.scanService.getIncrementalWatermark();
+      this.scanService.beginScan(scanStartedAt, modifiedSince !== undefined, this.scanOptions);
+
+      const resultObservable = await this.proxy.getModifedWorkspaces(modifiedSince);
       const result = await resultObservable.toPromise();
-      const workspaceIds = result.slice(0, MAX_PARALLEL_API_CALLS * 100).map(workspace => workspace.Id);
+      const workspaceIds = result.map(workspace => workspace.Id);
 
-      this.getWorkspacesScanFilesParallel(workspaceIds);
-      this.isScanTenantInProgress = false;
+      this.scanOrchestrator.run(workspaceIds, this.scanOptions).then(() => {
+        this.isScanTenantInProgress = false;
+      });
     } catch (e) {
       switch (e.status) {
         case 401:
-          this.dialog.open(ErrorDialogComponent, {
-            data: {
-              title: 'Error 401',
-              errorMessage: 'No tenant admin is logged in, please login as a tenant admin'
-            }
-          });
+          this.showApiError('Error 401', e, 'No tenant admin is logged in, please login as a tenant admin');
           break;
 
         case 403:
-          this.dialog.open(ErrorDialogComponent, {
-            data: {
-              title: 'Error 403',
-              errorMessage: 'The token is not correct, please change the environment or refresh the token'
-            }
-          });
+          this.showApiError('Error 403', e, 'The token is not correct, please change the environment or refresh the token');
           break;
+
+        default:
+          this.showApiError('Scan failed', e);
       }
       this.progressBarDialogRef.close();
       this.isScanTenantInProgress = false;
@@ -376,39 +630,27 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Polls the Scanner API for workspace scan results
+   * Shows a failed call in the error dialog — Fabric API errors with their code and request ID
    *
-   * This method initiates a scan for the given workspaces and polls the status
-   * every 2 seconds until the scan completes. Updates the scan service with
-   * current status for progress tracking.
-   *
-   * @param workspaceIds - Array of workspace GUIDs to scan
+   * @param errorMessage - Replaces the API's own message (which is used when omitted)
    */
-  public async getWorkspacesScanFiles (workspaceIds: string[]): Promise<void> {
-    let scanInfo = await this.proxy.getWorkspacesInfo(workspaceIds).toPromise();
+  private showApiError (title: string, error: unknown, errorMessage?: string): void {
+    const data: ErrorDialogData = error instanceof FabricApiError
+      ? { title, errorMessage, error }
+      : { title, errorMessage: errorMessage ?? (error as Error)?.message ?? String(error) };
+    this.dialog.open(ErrorDialogComponent, { data });
+  }
 
-    while (scanInfo.status !== 'Succeeded') {
-      if (this.scanService.shouldStopScan) {
-        break;
-      }
-      this.scanService.scanInfoStatusByScanId[scanInfo.id] = scanInfo.status;
-      this.scanService.setScanInfoStatusChanged(this.scanService.scanInfoStatusByScanId);
-      await this.sleep(2000);
-      scanInfo = await this.proxy.getWorkspacesScanStatus(scanInfo.id).toPromise();
-    }
-    this.scanService.scanInfoStatusByScanId[scanInfo.id] = scanInfo.status;
-    this.scanService.setScanInfoStatusChanged(this.scanService.scanInfoStatusByScanId);
+  /** Saves the scan settings; asking for more metadata than the stored snapshot has forces a full scan */
+  public onScanOptionsChange (): void {
+    this.scanService.setScanOptions(this.scanOptions);
+    this.refreshLastScanWatermark();
   }
 
-  /**
-   * Utility method to pause execution for specified milliseconds
-   * Used for polling delays in scan operations
-   *
-   * @param ms - Milliseconds to sleep
-   * @returns Promise that resolves after delay
-   */
-  public sleep (ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private refreshLastScanWatermark (): void {
+    this.scanService.getIncrementalWatermark().then(watermark => {
+      this.lastScanWatermark = watermark;
+    });
   }
 
   // =================================================================
@@ -430,763 +672,1080 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
   /**
    * Processes uploaded Scanner API JSON files
    *
-   * Reads one or more JSON files containing workspace scan results and loads
-   * them into the visualization. Files must match the WorkspaceInfoResponse format.
-   * Multiple files are processed sequentially.
+   * Validates each file against the WorkspaceInfoResponse format, merges the
+   * valid ones (de-duplicating workspaces) and loads them into the visualization.
+   * Invalid files are listed in an error dialog; the rest still load.
    */
-  public onFileAdded (): void {
-    const files = (this.filesInput.nativeElement as HTMLInputElement).files;
+  public async onFileAdded (): Promise<void> {
+    const input = this.filesInput.nativeElement as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    input.value = '';
+    if (files.length === 0) return;
+
+    const { result, files: fileResults, duplicateWorkspaceCount } = await this.importScanFiles(files);
+    if (!result) return;
 
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      const reader = new FileReader();
+    if (duplicateWorkspaceCount > 0) {
+      console.log(`✓ Merged ${fileResults.length} files, ${duplicateWorkspaceCount} duplicate workspaces taken from the later file`);
+    }
+    this.loadLineage(result);
 
-      reader.addEventListener('load', (event) => {
-        const workspaces = JSON.parse((event.target as FileReader).result as string).workspaces;
-        this.loadLineage(workspaces);
+    // Keep uploaded files in the snapshot library so they can be reopened without re-uploading
+    for (const fileResult of fileResults.filter(file => file.result)) {
+      this.snapshotStore.saveImportedFile(fileResult).catch(e => {
+        console.warn(`Could not add ${fileResult.fileName} to the snapshot library:`, e);
       });
+    }
+  }
 
-      reader.readAsText(file);
+  /**
+   * Runs files through the validated import, showing progress and reporting invalid files
+   *
+   * @param files - Selected Scanner JSON files
+   * @returns Merged result of the valid files plus the per-file outcome
+   */
+  private async importScanFiles (files: File[]): Promise<ScanImportResult> {
+    const imported = await this.scanImport.importFiles(files, progress => {
+      const fileLabel = progress.fileCount > 1 ? ` (${progress.fileIndex + 1}/${progress.fileCount})` : '';
+      this.loadingStatus = `Reading ${progress.fileName}${fileLabel} — ${progress.percent}%`;
+    });
+    this.loadingStatus = null;
+
+    const invalidFiles = imported.files.filter(file => file.errors.length > 0);
+    if (invalidFiles.length > 0) {
+      this.dialog.open(ErrorDialogComponent, {
+        data: {
+          title: invalidFiles.length === files.length ? 'Import failed' : `${invalidFiles.length} of ${files.length} files skipped`,
+          errorMessage: invalidFiles.map(file => `${file.fileName}:\n${file.errors.map(error => `• ${error}`).join('\n')}`).join('\n\n')
+        }
+      });
     }
+    return imported;
   }
 
   // =================================================================
-  // DEMO MODE METHODS
+  // TOOLBAR PANELS
+  // =================================================================
+
+  /** Opens a toolbar panel in place of the open one, or closes it when it is already open */
+  public togglePanel (id: PanelId): void {
+    this.activePanel = this.activePanel === id ? null : id;
+    if (this.activePanel === 'snapshots') this.refreshSnapshots();
+    if (this.activePanel === 'rls') this.refreshRlsCoverage();
+  }
+
   // =================================================================
+  // SNAPSHOT LIBRARY
+  // =================================================================
+
+  public async refreshSnapshots (): Promise<void> {
+    try {
+      this.snapshots = await this.snapshotStore.list();
+      // Default comparison: the two most recent snapshots
+      if (this.snapshots.length >= 2 && !this.diffAfterId) {
+        this.diffAfterId = this.snapshots[0].id;
+        this.diffBeforeId = this.snapshots[1].id;
+      }
+    } catch (e) {
+      console.warn('Could not read the snapshot library:', e);
+      this.snapshots = [];
+    }
+  }
 
   /**
-   * Loads pre-configured demo data for testing and demonstration
+   * Loads a stored snapshot into the graph without re-scanning
    *
-   * Initializes the graph with mock Scanner API data including 50+ workspaces
-   * across 15 domains, demonstrating all 23 supported Fabric artifact types.
-   * Useful for testing features without tenant admin access.
+   * @param id - Snapshot ID
    */
-  public loadDemoMode (): void {
-    this.isDemoMode = true; // Enable demo mode - skip all API calls
-    this.domains = MOCK_DOMAINS;
-    this.loadLineage(MOCK_SCANNER_RESPONSE.workspaces);
+  public async openSnapshot (id: string): Promise<void> {
+    let snapshot: StoredSnapshot | undefined;
+    try {
+      snapshot = await this.snapshotStore.get(id);
+    } catch (e) {
+      this.showApiError('Could not open the snapshot', e);
+      return;
+    }
+    if (!snapshot) {
+      await this.refreshSnapshots();
+      return;
+    }
+
+    this.isDemoMode = false;
+    this.activePanel = null;
+    this.loadLineage(snapshot.result, snapshot.scanOptions);
   }
 
-  /**
-   * Fetches domains from the Fabric Admin API
-   * In real mode: calls GET /v1/admin/domains and maps response to Domain[]
-   * Silently falls back to empty domains on error (graph still works without domains)
-   */
-  private fetchDomains (): void {
-    if (this.isDemoMode) return;
-    this.proxy.getDomains().pipe(take(1)).subscribe({
-      next: (response: any) => {
-        const domainList = response?.domains || response?.value || (Array.isArray(response) ? response : []);
-        this.domains = domainList.map((d: any) => ({
-          id: d.id,
-          name: d.displayName || d.name,
-          description: d.description,
-          parentDomainId: d.parentDomainId,
-          workspaceIds: []
-        }));
-        console.log(`✓ Loaded ${this.domains.length} domains from Fabric API`);
-      },
-      error: (err: any) => {
-        console.warn('Could not fetch domains from Fabric API:', err.status);
+  public startRenameSnapshot (snapshot: SnapshotSummary): void {
+    this.renamingSnapshotId = snapshot.id;
+    this.snapshotNameDraft = snapshot.name;
+  }
+
+  public async saveSnapshotName (): Promise<void> {
+    const name = this.snapshotNameDraft.trim();
+    if (this.renamingSnapshotId && name) {
+      try {
+        await this.snapshotStore.rename(this.renamingSnapshotId, name);
+      } catch (e) {
+        this.showApiError('Could not rename the snapshot', e);
       }
-    });
+      await this.refreshSnapshots();
+    }
+    this.renamingSnapshotId = null;
+  }
+
+  public async deleteSnapshot (snapshot: SnapshotSummary): Promise<void> {
+    if (!confirm(`Delete snapshot "${snapshot.name}"? This cannot be undone.`)) {
+      return;
+    }
+    try {
+      await this.snapshotStore.delete(snapshot.id);
+    } catch (e) {
+      this.showApiError('Could not delete the snapshot', e);
+    }
+    await this.refreshSnapshots();
+  }
+
+  /** Downloads a snapshot as a JSON file that can be imported again or loaded via Load JSON */
+  public async exportSnapshot (id: string): Promise<void> {
+    let snapshot: StoredSnapshot | undefined;
+    try {
+      snapshot = await this.snapshotStore.get(id);
+    } catch (e) {
+      this.showApiError('Could not export the snapshot', e);
+      return;
+    }
+    if (snapshot) {
+      const fileName = `${snapshot.name.replace(/[^\w.-]+/g, '_')}.json`;
+      this.scanService.saveAsFile(this.snapshotStore.toFileContent(snapshot), fileName, 'application/json;charset=utf-8');
+    }
+  }
+
+  /** Triggers the hidden file input for importing snapshots */
+  public onImportSnapshot (): void {
+    (this.snapshotFilesInput.nativeElement as HTMLInputElement).click();
   }
 
   /**
-   * Adds Fabric-native items (from Items API) as nodes in the graph.
-   * Maps item types to NodeType enum and creates Contains links to parent workspace.
+   * Adds the selected files to the snapshot library
+   * Files that aren't scan results are reported and skipped.
    */
-  private addFabricItems (items: any[]): void {
-    const typeMap: Record<string, NodeType> = {
-      'Notebook': NodeType.Notebook,
-      'Pipeline': NodeType.Pipeline,
-      'Lakehouse': NodeType.Lakehouse,
-      'Warehouse': NodeType.DataWarehouse,
-      'DataWarehouse': NodeType.DataWarehouse,
-      'Eventstream': NodeType.Eventstream,
-      'KQLDatabase': NodeType.KQLDatabase,
-      'KQLQueryset': NodeType.KQLQueryset,
-      'MLModel': NodeType.MLModel,
-      'MLExperiment': NodeType.MLExperiment,
-      'SparkJobDefinition': NodeType.SparkJobDefinition,
-      'DataflowGen2': NodeType.DataflowGen2,
-    };
+  public async onSnapshotFilesAdded (): Promise<void> {
+    const input = this.snapshotFilesInput.nativeElement as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    input.value = '';
+    if (files.length === 0) return;
 
-    let added = 0;
-    for (const item of items) {
-      const nodeType = typeMap[item.type];
-      if (!nodeType) continue;
-
-      // Skip if already added (e.g., from Scanner API datamarts)
-      if (this.nodes.find(n => n.id === item.id)) continue;
-
-      const node: Node = {
-        id: item.id,
-        name: item.displayName,
-        type: nodeType,
-        workspaceId: item.workspaceId,
-        metadata: {
-          description: item.description,
-          source: 'fabric-items-api'
-        }
-      };
-      this.nodes.push(node);
-
-      // Link to parent workspace
-      this.links.push({
-        source: item.workspaceId,
-        target: item.id,
-        type: LinkType.Contains
-      });
-      added++;
-    }
-    if (added > 0) {
-      console.log(`✓ Added ${added} Fabric-native items (Notebooks, Pipelines, etc.)`);
+    const imported = await this.importScanFiles(files);
+    try {
+      for (const fileResult of imported.files.filter(file => file.result)) {
+        await this.snapshotStore.saveImportedFile(fileResult);
+      }
+    } catch (e) {
+      this.showApiError('Could not add the files to the snapshot library', e);
     }
+    await this.refreshSnapshots();
   }
 
   // =================================================================
-  // NODE STYLING METHODS - Colors and Icons
+  // SNAPSHOT COMPARISON
   // =================================================================
 
   /**
-   * Maps Fabric artifact types to official color scheme
-   *
-   * Returns colors based on Microsoft Fabric design system:
-   * - Workspace: Green (#107C10)
-   * - Data Storage (Lakehouse, Warehouse): Blues
-   * - Analytics (KQL, Eventstream): Purples/Magentas
-   * - BI (Reports, Dashboards): Yellows/Oranges/Cyans
-   * - ML (Models, Experiments): Teals
+   * Diffs the two selected snapshots and shows the newer one with the changes overlaid
    *
-   * @param nodeType - The Fabric artifact type
-   * @returns Hex color string
+   * Both graphs are built in the graph worker without a layout pass — the
+   * overlay adds ghosts of removed nodes, so the renderer lays it out.
    */
-  public getNodeColor (nodeType: NodeType): string {
-    // Microsoft Fabric workload family colors
-    // Each artifact belongs to a workload — same workload = same color family
-    switch (nodeType) {
-      // ── Workspace ──
-      case NodeType.Workspace:
-        return '#117865'; // Teal-green — neutral, distinct from all workloads
+  public async compareSnapshots (): Promise<void> {
+    let before: StoredSnapshot | undefined;
+    let after: StoredSnapshot | undefined;
+    try {
+      [before, after] = await Promise.all([
+        this.snapshotStore.get(this.diffBeforeId),
+        this.snapshotStore.get(this.diffAfterId)
+      ]);
+    } catch (e) {
+      this.showApiError('Could not compare the snapshots', e);
+      return;
+    }
+    if (!before || !after) {
+      await this.refreshSnapshots();
+      return;
+    }
 
-      // ── Power BI family (Gold) ──
-      case NodeType.Report:
-      case NodeType.PaginatedReport:
-        return '#F2C811';
-      case NodeType.Dashboard:
-        return '#E8A00E';
-      case NodeType.SemanticModel:
-        return '#D4920A';
+    const loadId = ++this.graphLoadId;
+    this.loadingStatus = 'Comparing snapshots…';
+    let beforeGraph: LineageGraph;
+    let afterGraph: LineageGraph;
+    try {
+      [{ graph: beforeGraph }, { graph: afterGraph }] = await Promise.all([before, after].map(snapshot => this.graphBuild.build({
+        scanResult: snapshot.result,
+        options: { items: snapshot.result.fabricItems ?? [], domains: this.domains },
+        layoutTicks: 0
+      })));
+    } catch (e) {
+      this.showGraphBuildError(e);
+      return;
+    } finally {
+      if (loadId === this.graphLoadId) this.loadingStatus = null;
+    }
+    if (loadId !== this.graphLoadId) return;
+    this.loadedScanOptions = after.scanOptions ?? inferScanOptions(after.result);
+    this.loadedScanResult = after.result;
+    this.refreshRlsCoverage();
+    this.refreshAccessAnalysis();
 
-      // ── Data Engineering family (Blue) ──
-      case NodeType.Lakehouse:
-      case NodeType.SQLAnalyticsEndpoint:
-        return '#0B6EF6';
-      case NodeType.Notebook:
-      case NodeType.SparkJobDefinition:
-        return '#3A8FF7';
+    this.activeDiff = diffLineageGraphs(beforeGraph, afterGraph);
+    this.diffTitle = `${before.name} → ${after.name}`;
+    this.diffStatusFilter = 'all';
+    this.isDemoMode = false;
+    this.activePanel = null;
 
-      // ── Data Factory family (Teal) ──
-      case NodeType.Pipeline:
-        return '#00BEBE';
-      case NodeType.Dataflow:
-      case NodeType.DataflowGen2:
-        return '#00A4A4';
+    const { summary } = this.activeDiff;
+    console.log(`✓ Compared snapshots: ${summary.added} added, ${summary.removed} removed, ${summary.changed} changed, ${summary.addedDependencies} new cross-workspace dependencies`);
+    this.renderDiffOverlay(beforeGraph, afterGraph, this.activeDiff);
+  }
 
-      // ── Data Warehouse family (Deep Blue) ──
-      case NodeType.DataWarehouse:
-      case NodeType.Datamart:
-        return '#2E5FBE';
+  /** Leaves comparison mode and shows the newer snapshot normally */
+  public async clearDiff (): Promise<void> {
+    this.activeDiff = null;
+    await this.openSnapshot(this.diffAfterId);
+  }
 
-      // ── Real-Time Intelligence family (Purple) ──
-      case NodeType.Eventstream:
-      case NodeType.Eventhouse:
-        return '#8661C5';
-      case NodeType.KQLDatabase:
-      case NodeType.KQLQueryset:
-        return '#7550B0';
+  public getFilteredDiffChanges (): SnapshotNodeChange[] {
+    const changes = this.activeDiff?.nodeChanges ?? [];
+    return this.diffStatusFilter === 'all' ? changes : changes.filter(change => change.status === this.diffStatusFilter);
+  }
 
-      // ── Data Science family (Green) ──
-      case NodeType.MLModel:
-      case NodeType.MLExperiment:
-        return '#107C10';
+  public getDiffFieldLabel (field: SnapshotDiffField): string {
+    return SNAPSHOT_DIFF_FIELD_LABELS[field];
+  }
 
-      // ── Other ──
-      case NodeType.App:
-        return '#737373';
-      default:
-        return '#888888';
-    }
+  /** Displayable before/after value — label IDs become label names */
+  public formatDiffValue (field: SnapshotDiffField, value: string): string {
+    if (!value) return '—';
+    return field === 'sensitivityLabel' ? this.getSensitivityLabelName(value) : value;
   }
 
-  // Texture cache for artifact icons
-  private textureCache: Map<string, THREE.Texture> = new Map();
-  private textureLoader = new THREE.TextureLoader();
+  /** Flies the camera to a changed node (ghosts included) */
+  public focusDiffChange (change: SnapshotNodeChange): void {
+    this.flyToNode(change.node.id);
+  }
 
-  private getOrLoadTexture (path: string): THREE.Texture {
-    if (!this.textureCache.has(path)) {
-      this.textureCache.set(path, this.textureLoader.load(path));
-    }
-    return this.textureCache.get(path)!;
+  /** Flies the camera to a node, if it is in the graph and laid out */
+  public flyToNode (nodeId: string): void {
+    const node: any = this.nodeMap.get(nodeId);
+    if (!node || !this.graphInstance || node.x === undefined) return;
+
+    const distRatio = 1 + CAMERA_FOCUS_DISTANCE / (Math.hypot(node.x, node.y, node.z) || 1);
+    this.graphInstance.cameraPosition(
+      { x: node.x * distRatio, y: node.y * distRatio, z: node.z * distRatio },
+      node,
+      CAMERA_ZOOM_DURATION_MS
+    );
   }
 
-  private getNodeTypeImage (nodeType: NodeType): THREE.Mesh {
-    let texturePath: string;
+  public exportDiff (format: 'csv' | 'json'): void {
+    if (!this.activeDiff) return;
+    const fileName = `fabricbeye-diff-${new Date().getTime()}.${format}`;
+    if (format === 'csv') {
+      this.scanService.saveAsFile(snapshotDiffToCsv(this.activeDiff), fileName, 'text/csv;charset=utf-8');
+    } else {
+      this.scanService.saveAsFile(snapshotDiffToJson(this.activeDiff), fileName, 'application/json;charset=utf-8');
+    }
+  }
 
-    switch (nodeType) {
-      case NodeType.Dashboard: texturePath = 'assets/dashboard.png'; break;
-      case NodeType.Report: texturePath = 'assets/report.png'; break;
-      case NodeType.PaginatedReport: texturePath = 'assets/paginated-report.svg'; break;
-      case NodeType.SemanticModel: texturePath = 'assets/dataset.png'; break;
-      case NodeType.Dataflow:
-      case NodeType.DataflowGen2: texturePath = 'assets/dataflow.png'; break;
-      case NodeType.Lakehouse: texturePath = 'assets/lakehouse.svg'; break;
-      case NodeType.DataWarehouse: texturePath = 'assets/datawarehouse.svg'; break;
-      case NodeType.Notebook: texturePath = 'assets/notebook.svg'; break;
-      case NodeType.Pipeline: texturePath = 'assets/pipeline.svg'; break;
-      case NodeType.Eventstream: texturePath = 'assets/eventstream.svg'; break;
-      case NodeType.MLModel: texturePath = 'assets/mlmodel.svg'; break;
-      case NodeType.KQLDatabase: texturePath = 'assets/kqldatabase.svg'; break;
-      case NodeType.Datamart: texturePath = 'assets/datamart.svg'; break;
-      default: texturePath = 'assets/data source.png'; break;
-    }
+  /**
+   * Renders the newer graph plus ghosts of removed nodes, tagging nodes and
+   * links with their diff status for the node halos and link colors
+   */
+  private renderDiffOverlay (before: LineageGraph, after: LineageGraph, diff: SnapshotDiff): void {
+    this.highlightNodes.clear();
+    this.highlightLinks.clear();
+    this.focusedNode = null;
+    this.hoverNode = null;
 
-    const texture = this.getOrLoadTexture(texturePath);
-    const sprite = new THREE.Mesh(
-      new THREE.PlaneGeometry(6, 6),
-      new THREE.MeshBasicMaterial({
-        map: texture,
-        transparent: true,
-        side: THREE.DoubleSide,
-        depthWrite: false
-      })
+    const changesById = new Map(diff.nodeChanges.map(change => [change.node.id, change]));
+    const copyNode = (node: Readonly<Node>): Node => ({
+      ...node,
+      crossDownstreamWSIds: node.crossDownstreamWSIds ? [...node.crossDownstreamWSIds] : undefined,
+      crossUpstreamWSIds: node.crossUpstreamWSIds ? [...node.crossUpstreamWSIds] : undefined,
+      metadata: {
+        ...node.metadata,
+        diffStatus: changesById.get(node.id)?.status,
+        diffFieldChanges: changesById.get(node.id)?.fieldChanges
+      }
+    });
+    const ghosts = diff.nodeChanges.filter(change => change.status === 'removed').map(change => copyNode(change.node));
+    this.nodes = [...after.nodes.map(copyNode), ...ghosts];
+
+    // Links of ghosts (and removed cross-workspace dependencies) come from the older graph
+    const nodeIds = new Set(this.nodes.map(node => node.id));
+    const ghostIds = new Set(ghosts.map(node => node.id));
+    const addedLinks = new Set(diff.linkChanges.filter(change => change.status === 'added').map(change => change.link));
+    const removedLinks = new Set(diff.linkChanges.filter(change => change.status === 'removed').map(change => change.link));
+    const ghostLinks = before.links.filter(link =>
+      (removedLinks.has(link) || ghostIds.has(link.source) || ghostIds.has(link.target)) &&
+      nodeIds.has(link.source) && nodeIds.has(link.target));
+    this.links = [
+      ...after.links.map(link => ({ ...link, diffStatus: addedLinks.has(link) ? 'added' as DiffStatus : undefined })),
+      ...ghostLinks.map(link => ({ ...link, diffStatus: 'removed' as DiffStatus }))
+    ];
+
+    this.refreshLabelDowngrades();
+    this.refreshPolicyResults();
+    this.refreshStaleContent();
+    this.visibleNodes = this.nodes;
+    this.initializeGraph(this.nodes, this.links);
+  }
+
+  /** Snapshot comparison, people lens and policy overlay styling, in that order */
+  private applyOverlayStyles (node: any, group: THREE.Group): THREE.Group {
+    return this.applyPolicyOverlayStyle(node, this.applyAccessLensStyle(node, this.applyDiffStyle(node, group)));
+  }
+
+  /** Adds the comparison styling to a node's object: a colored halo, or ghosting for removed nodes */
+  private applyDiffStyle (node: any, group: THREE.Group): THREE.Group {
+    const status: DiffStatus | undefined = node.metadata?.diffStatus;
+    if (!status) return group;
+
+    if (status === 'removed') return this.ghostNodeObject(group);
+    return this.addNodeHalo(node, group, status === 'added' ? COLOR_DIFF_ADDED : COLOR_DIFF_CHANGED, 0.3);
+  }
+
+  /** Makes a node's object translucent (removed in a comparison, out of the people lens) */
+  private ghostNodeObject (group: THREE.Group): THREE.Group {
+    group.traverse((child: any) => {
+      if (child.material) {
+        child.material = child.material.clone();
+        child.material.transparent = true;
+        child.material.opacity = DIFF_GHOST_OPACITY;
+      }
+    });
+    return group;
+  }
+
+  private addNodeHalo (node: any, group: THREE.Group, color: string, opacity: number): THREE.Group {
+    const halo = new THREE.Mesh(
+      new THREE.SphereGeometry(node.type === NodeType.Workspace ? 14 : 7, 16, 16),
+      new THREE.MeshBasicMaterial({ color, transparent: true, opacity, depthWrite: false })
     );
+    group.add(halo);
+    return group;
+  }
 
-    return sprite;
+  // =================================================================
+  // RLS COVERAGE
+  // =================================================================
+
+  /** Recomputes RLS coverage from the loaded scan */
+  public refreshRlsCoverage (): void {
+    this.rlsCoverage = this.loadedScanResult ? buildRlsCoverage(this.loadedScanResult, labelId => this.isSensitiveLabel(labelId)) : [];
+    this.rlsSummary = summarizeRlsCoverage(this.rlsCoverage);
+    this.expandedRlsDatasetId = null;
+  }
+
+  public getFilteredRlsCoverage (): RlsDatasetCoverage[] {
+    return this.rlsFlaggedOnly ? this.rlsCoverage.filter(dataset => dataset.isSensitiveWithoutRls) : this.rlsCoverage;
+  }
+
+  /** Whether the loaded scan could contain roles (they come with schema and expressions) */
+  public hasRlsMetadata (): boolean {
+    return this.loadedScanOptions.datasetSchema && this.loadedScanOptions.datasetExpressions;
+  }
+
+  /** Expands a semantic model's roles and flies the camera to it */
+  public toggleRlsDataset (dataset: RlsDatasetCoverage): void {
+    this.expandedRlsDatasetId = this.expandedRlsDatasetId === dataset.datasetId ? null : dataset.datasetId;
+    this.flyToNode(dataset.datasetId);
+  }
+
+  public exportRlsReport (format: 'csv' | 'json'): void {
+    const fileName = `fabricbeye-rls-${new Date().getTime()}.${format}`;
+    if (format === 'csv') {
+      this.scanService.saveAsFile(rlsCoverageToCsv(this.rlsCoverage, labelId => this.getSensitivityLabelName(labelId)), fileName, 'text/csv;charset=utf-8');
+    } else {
+      this.scanService.saveAsFile(rlsCoverageToJson(this.rlsCoverage), fileName, 'application/json;charset=utf-8');
+    }
   }
 
   // =================================================================
-  // GRAPH VISUALIZATION - Main Data Loading and Processing
+  // PERMISSIONS EXPLORER
   // =================================================================
 
+  /** Rebuilds the permission views from the loaded scan; the lens is kept when its principal still exists */
+  public refreshAccessAnalysis (): void {
+    const result = this.loadedScanResult ?? {};
+    this.accessGrants = collectAccessGrants(result);
+    this.accessPrincipals = buildPrincipals(this.accessGrants);
+    this.privilegedRoles = getPrivilegedWorkspaceRoles(this.accessGrants);
+    this.externalAccess = getExternalAccessToLabeledContent(result, this.accessGrants);
+    this.directShares = getDirectShares(this.accessGrants);
+    this.servicePrincipalAdmins = getServicePrincipalAdmins(this.accessGrants);
+
+    const keepLens = this.accessPrincipals.some(principal => principal.key === this.lensPrincipalKey);
+    this.lensPrincipalKey = keepLens ? this.lensPrincipalKey : '';
+    this.lensAccess = keepLens ? getPrincipalAccess(this.accessGrants, this.lensPrincipalKey) : null;
+  }
+
+  /** Colors the graph by a principal's access; an empty key turns the lens off */
+  public setAccessLens (principalKey: string): void {
+    this.lensPrincipalKey = principalKey;
+    this.lensAccess = principalKey ? getPrincipalAccess(this.accessGrants, principalKey) : null;
+    if (this.graphInstance) {
+      this.graphInstance.nodeThreeObject(this.graphInstance.nodeThreeObject());
+    }
+  }
+
+  public getPrincipalIcon (principalType: string): string {
+    return principalType === 'Group' ? '👥' : principalType === 'App' ? '🤖' : '👤';
+  }
+
+  public getLensPrincipal (): Principal | undefined {
+    return this.accessPrincipals.find(principal => principal.key === this.lensPrincipalKey);
+  }
+
   /**
-   * Processes workspace scan results and builds the graph structure
-   *
-   * This is the CORE method that transforms Scanner API data into the 3D graph.
-   * It performs three passes:
-   *
-   * PASS 1: Create workspace and artifact nodes (datasets, dataflows, reports, etc.)
-   * PASS 2: Build relationships and lineage between artifacts
-   * PASS 3: Apply domain clustering force for spatial organization
-   *
-   * Supports 23 Microsoft Fabric artifact types including:
-   * - Traditional BI: Reports, Dashboards, Semantic Models
-   * - Data Integration: Dataflows, Pipelines
-   * - Data Engineering: Lakehouses, Warehouses, Notebooks, Spark Jobs
-   * - Real-Time Analytics: Eventstreams, Eventhouses, KQL Databases
-   * - Machine Learning: ML Models and Experiments
-   *
-   * @param workspaces - Array of WorkspaceInfo objects from Scanner API
+   * The lens principal's access to a node: a workspace role, a direct share,
+   * or (for artifacts) the role on their workspace — whichever is highest
    */
-  private loadLineage (workspaces): void {
-    this.nodes = [];
-    this.links = [];
-    this.reports = [];
-    this.datasets = [];
-    this.workspaceMetadata.clear();
+  public getLensAccess (node: any): { level: AccessLevel; inherited: boolean } | undefined {
+    if (!this.lensAccess) return undefined;
+    if (node.type === NodeType.Workspace) {
+      const level = this.lensAccess.workspaces.get(node.id);
+      return level ? { level, inherited: false } : undefined;
+    }
+    const direct = this.lensAccess.artifacts.get(node.id);
+    const inheritedLevel = node.workspaceId ? this.lensAccess.workspaces.get(node.workspaceId) : undefined;
+    const level = maxAccessLevel(direct, inheritedLevel);
+    return level ? { level, inherited: level !== direct } : undefined;
+  }
+
+  /** People lens styling: a halo colored by access level, ghosting for nodes out of reach */
+  private applyAccessLensStyle (node: any, group: THREE.Group): THREE.Group {
+    if (!this.lensAccess) return group;
+    const access = this.getLensAccess(node);
+    if (!access) return this.ghostNodeObject(group);
+    return this.addNodeHalo(node, group, ACCESS_LEVEL_COLORS[access.level],
+      access.inherited ? ACCESS_LENS_INHERITED_OPACITY : ACCESS_LENS_DIRECT_OPACITY);
+  }
+
+  public exportAccessReport (): void {
+    this.scanService.saveAsFile(
+      accessGrantsToCsv(this.accessGrants, labelId => this.getSensitivityLabelName(labelId)),
+      `fabricbeye-permissions-${new Date().getTime()}.csv`,
+      'text/csv;charset=utf-8'
+    );
+  }
 
-    // CRITICAL: Clear highlight sets to prevent dimming during initial render
-    this.highlightNodes.clear();
-    this.highlightLinks.clear();
-    this.focusedNode = null;
-    this.hoverNode = null;
+  // =================================================================
+  // SENSITIVITY LABELS
+  // =================================================================
+
+  public getLabelCatalog (): SensitivityLabelDefinition[] {
+    return this.labelCatalog.list();
+  }
 
-    // PASS 1: Create workspace and artifact nodes from Scanner API data
-    const { numberOfWorkspaces } = this.createNodesFromScannerData(workspaces);
+  public getLabelCatalogSource (): string {
+    const source = this.labelCatalog.getSource();
+    return source === 'imported' ? 'Imported in this browser' : source === 'config' ? 'assets/sensitivity-labels.json' : 'Demo labels';
+  }
 
-    // PASS 1b: Add Fabric-native items (Notebooks, Pipelines, etc.) from Items API
-    if (this.isDemoMode) {
-      this.addFabricItems(MOCK_FABRIC_ITEMS);
+  public resolveSensitivityLabel (labelId: string): ResolvedSensitivityLabel {
+    return this.labelCatalog.resolve(labelId);
+  }
+
+  public importLabelCatalog (): void {
+    (this.labelCatalogInput.nativeElement as HTMLInputElement).click();
+  }
+
+  /** Reads a label catalog JSON file chosen in the label panel */
+  public async onLabelCatalogFileAdded (): Promise<void> {
+    const input = this.labelCatalogInput.nativeElement as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    try {
+      this.reportLabelCatalogImport(file.name, this.labelCatalog.importCatalog(JSON.parse(await file.text())));
+    } catch (e) {
+      this.dialog.open(ErrorDialogComponent, { data: { title: 'Label catalog import failed', errorMessage: `${file.name}:\n${e?.message ?? e}` } });
+    }
+  }
+
+  /** Loads the tenant's labels from the endpoint typed into the label panel */
+  public async fetchLabelCatalog (): Promise<void> {
+    const url = this.labelEndpoint.trim();
+    if (!url) return;
+    this.loadingStatus = 'Loading sensitivity labels…';
+    try {
+      this.reportLabelCatalogImport(url, await this.labelCatalog.importFromEndpoint(url));
+    } catch (e) {
+      this.dialog.open(ErrorDialogComponent, { data: { title: 'Could not load sensitivity labels', errorMessage: `${url}:\n${e?.message ?? e}` } });
+    } finally {
+      this.loadingStatus = null;
+    }
+  }
+
+  private reportLabelCatalogImport (source: string, skipped: string[]): void {
+    console.log(`✓ Imported ${this.labelCatalog.list().length} sensitivity labels from ${source}`);
+    if (skipped.length > 0) {
+      this.dialog.open(ErrorDialogComponent, {
+        data: { title: `${skipped.length} labels skipped`, errorMessage: skipped.map(error => `• ${error}`).join('\n') }
+      });
     }
+  }
+
+  public resetLabelCatalog (): void {
+    this.labelCatalog.resetImported();
+    this.labelEndpoint = this.labelCatalog.getEndpoint();
+  }
+
+  public exportLabelCatalog (): void {
+    this.scanService.saveAsFile(this.labelCatalog.toFileContent(), 'fabricbeye-sensitivity-labels.json', 'application/json;charset=utf-8');
+  }
+
+  /** Recomputes label downgrades from the graph; labels the catalog doesn't know are left out */
+  public refreshLabelDowngrades (): void {
+    this.labelDowngrades = findLabelDowngrades(this.nodes, this.getLinksById(), labelId => {
+      const label = this.labelCatalog.resolve(labelId);
+      return label.isKnown ? label.priority : undefined;
+    });
+    if (this.selectedDowngrade) this.clearImpactAnalysis();
+  }
 
-    // PASS 2: Build upstream/downstream lineage links
-    this.buildLineageLinks(workspaces);
+  /** Highlights a downgrade's path from the upstream item, with the impact analysis dimming */
+  public showLabelDowngrade (downgrade: LabelDowngrade): void {
+    if (this.selectedDowngrade === downgrade) {
+      this.clearImpactAnalysis();
+      return;
+    }
+    this.impactNodes = new Set(downgrade.path);
+    this.impactAnalysisActive = true;
+    this.selectedDowngrade = downgrade;
+    this.applyImpactHighlight(downgrade.node.id);
+    this.flyToNode(downgrade.node.id);
+  }
 
-    // PASS 3-5: Validate links, limit workspaces, remove orphans
-    const validLinks = this.validateAndFilterLinks(numberOfWorkspaces);
+  public getNodeName (nodeId: string): string {
+    return this.nodeMap.get(nodeId)?.name ?? nodeId;
+  }
 
-    // Apply visibility filters (unassigned workspaces)
-    const { visibleNodes, visibleLinks } = this.applyVisibilityFilters(validLinks);
+  // =================================================================
+  // GOVERNANCE POLICIES
+  // =================================================================
 
-    // Render the 3D graph
-    this.initializeGraph(visibleNodes, visibleLinks);
+  public getPolicyPacks (): PolicyPack[] {
+    return this.policyPacks.list();
   }
 
-  private createNodesFromScannerData (workspaces: any[]): { numberOfWorkspaces: number, unassignedWorkspaces: number } {
-    let numberOfWorkspaces = 0;
-    let unassignedWorkspaces = 0;
+  public getActivePolicyPack (): PolicyPack {
+    return this.policyPacks.get(this.activePolicyPackId);
+  }
 
-    for (const workspace of workspaces) {
-      if (workspace.state === 'Deleted') {
-        continue;
+  public setActivePolicyPack (packId: string): void {
+    this.activePolicyPackId = packId;
+    this.expandedPolicyRuleId = null;
+    this.refreshPolicyResults();
+  }
+
+  /** Graph, scan workspaces and label catalog as the policy engine sees them */
+  private getPolicyContext (): PolicyContext {
+    return {
+      nodes: this.nodes,
+      links: this.getLinksById(),
+      workspaces: this.loadedScanResult?.workspaces ?? [],
+      resolveLabel: labelId => {
+        const label = this.labelCatalog.resolve(labelId);
+        return label.isKnown ? { name: label.displayName, priority: label.priority, isSensitive: label.isSensitive } : undefined;
       }
+    };
+  }
 
-      // Store workspace metadata including domain assignment
-      this.workspaceMetadata.set(workspace.id, {
-        domainId: workspace.domainId,
-        capacityId: workspace.capacityId,
-        isOnDedicatedCapacity: workspace.isOnDedicatedCapacity,
-        description: workspace.description
-      });
+  /** Re-evaluates the active pack; the overlay follows the new results */
+  public refreshPolicyResults (): void {
+    this.policyResults = evaluatePolicyPack(this.getActivePolicyPack(), this.getPolicyContext());
+    const keepOverlay = this.policyOverlayRuleId === 'all' || this.policyResults.some(result => result.rule.id === this.policyOverlayRuleId);
+    this.setPolicyOverlay(keepOverlay ? this.policyOverlayRuleId : '');
+  }
 
-      // Create workspace node - assign UNASSIGNED domain for null domainId
-      const effectiveDomainId = workspace.domainId || 'UNASSIGNED';
-      const isUnassigned = !workspace.domainId;
-      if (isUnassigned) unassignedWorkspaces++;
-
-      const workspaceNode: Node = {
-        id: workspace.id,
-        name: workspace.name,
-        type: NodeType.Workspace,
-        crossDownstreamWSIds: [],
-        crossUpstreamWSIds: [],
-        workspaceId: workspace.id,
-        metadata: {
-          domainId: effectiveDomainId,
-          domainName: this.domains.find(d => d.id === effectiveDomainId)?.name || 'Unassigned',
-          isUnassigned // Flag for special handling
-        }
-      };
-
-      this.nodes.push(workspaceNode);
-      numberOfWorkspaces++;
-
-      // Process Semantic Models (Datasets)
-      for (const dataset of workspace.datasets ?? []) {
-        dataset.workspaceId = workspace.id;
-        this.datasets.push(dataset);
-
-        const datasetNode: Node = {
-          id: dataset.id,
-          name: dataset.name,
-          type: NodeType.SemanticModel,
-          workspaceId: workspace.id,
-          // Store metadata for tooltips
-          metadata: {
-            endorsement: dataset.endorsementDetails?.endorsement || 'None',
-            certifiedBy: dataset.endorsementDetails?.certifiedBy,
-            sensitivityLabel: dataset.sensitivityLabel,
-            description: dataset.description,
-            configuredBy: dataset.configuredBy,
-            targetStorageMode: dataset.targetStorageMode
+  public getFailedPolicyCount (): number {
+    return this.policyResults.filter(result => result.failed > 0).length;
+  }
+
+  public togglePolicyRule (result: PolicyRuleResult): void {
+    this.expandedPolicyRuleId = this.expandedPolicyRuleId === result.rule.id ? null : result.rule.id;
+  }
+
+  /** Halos the violations of one rule ('all' = every rule) in the graph; empty turns the overlay off */
+  public setPolicyOverlay (ruleId: string): void {
+    this.policyOverlayRuleId = ruleId;
+    this.policyOverlay = null;
+    if (ruleId) {
+      this.policyOverlay = new Map();
+      for (const result of this.policyResults.filter(entry => ruleId === 'all' || entry.rule.id === ruleId)) {
+        for (const violation of result.violations) {
+          const current = this.policyOverlay.get(violation.node.id);
+          if (!current || POLICY_SEVERITY_RANK[result.rule.severity] > POLICY_SEVERITY_RANK[current]) {
+            this.policyOverlay.set(violation.node.id, result.rule.severity);
           }
-        };
-        this.nodes.push(datasetNode);
-        this.links.push({
-          source: workspaceNode.id,
-          target: datasetNode.id,
-          type: LinkType.Contains
-        });
+        }
       }
+    }
+    if (this.graphInstance) {
+      this.graphInstance.nodeThreeObject(this.graphInstance.nodeThreeObject());
+    }
+  }
 
-      // Process Dataflows
-      for (const dataflow of workspace.dataflows ?? []) {
-        dataflow.workspaceId = workspace.id;
-        const dataflowNode: Node = {
-          id: dataflow.objectId,
-          name: dataflow.name,
-          type: NodeType.DataflowGen2, // Assume Gen2 for Fabric
-          workspaceId: workspace.id,
-          metadata: {
-            endorsement: dataflow.endorsementDetails?.endorsement || 'None',
-            certifiedBy: dataflow.endorsementDetails?.certifiedBy,
-            sensitivityLabel: dataflow.sensitivityLabel,
-            description: dataflow.description,
-            configuredBy: dataflow.configuredBy
-          }
-        };
-        this.nodes.push(dataflowNode);
-        this.links.push({
-          source: workspaceNode.id,
-          target: dataflowNode.id,
-          type: LinkType.Contains
+  /** Policy overlay styling: a halo colored by the most severe broken rule */
+  private applyPolicyOverlayStyle (node: any, group: THREE.Group): THREE.Group {
+    const severity = this.policyOverlay?.get(node.id);
+    return severity ? this.addNodeHalo(node, group, POLICY_SEVERITY_COLORS[severity], POLICY_OVERLAY_OPACITY) : group;
+  }
+
+  public uploadPolicyPack (): void {
+    (this.policyPackInput.nativeElement as HTMLInputElement).click();
+  }
+
+  /** Adds an uploaded JSON or YAML rule pack and switches to it */
+  public async onPolicyPackFileAdded (): Promise<void> {
+    const input = this.policyPackInput.nativeElement as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    try {
+      const { pack, errors } = this.policyPacks.importPack(await file.text(), file.name);
+      this.setActivePolicyPack(pack.id);
+      if (errors.length > 0) {
+        this.dialog.open(ErrorDialogComponent, {
+          data: { title: `${errors.length} rule problems in ${file.name}`, errorMessage: errors.map(error => `• ${error}`).join('\n') }
         });
       }
+    } catch (e) {
+      this.dialog.open(ErrorDialogComponent, { data: { title: 'Rule pack upload failed', errorMessage: `${file.name}:\n${e?.message ?? e}` } });
+    }
+  }
 
-      // Process Datamarts - CRITICAL: Detect Lakehouse/Warehouse
-      for (const datamart of workspace.datamarts ?? []) {
-        let nodeType: NodeType;
-
-        // KEY DETECTION LOGIC based on Scanner API
-        switch (datamart.type) {
-          case 'Lakehouse':
-            nodeType = NodeType.Lakehouse;
-            // Detect Lakehouse type for SQL endpoint creation
-            break;
-          case 'Datawarehouse':
-            nodeType = NodeType.DataWarehouse;
-            break;
-          case 'Sql':
-            nodeType = NodeType.Datamart;
-            break;
-          default:
-            nodeType = NodeType.Datamart;
-        }
+  public removePolicyPack (): void {
+    this.policyPacks.remove(this.activePolicyPackId);
+    this.setActivePolicyPack(DEFAULT_POLICY_PACK.id);
+  }
 
-        const datamartNode: Node = {
-          id: datamart.id,
-          name: datamart.name,
-          type: nodeType,
-          workspaceId: workspace.id,
-          metadata: {
-            endorsement: datamart.endorsementDetails?.endorsement || 'None',
-            certifiedBy: datamart.endorsementDetails?.certifiedBy,
-            sensitivityLabel: datamart.sensitivityLabel,
-            description: datamart.description,
-            datamartType: datamart.type
-          }
-        };
-        this.nodes.push(datamartNode);
-        this.links.push({
-          source: workspaceNode.id,
-          target: datamartNode.id,
-          type: LinkType.Contains
-        });
+  /** Downloads the active pack as YAML, e.g. as the starting point of a custom pack */
+  public exportPolicyPack (): void {
+    const pack = this.getActivePolicyPack();
+    this.scanService.saveAsFile(policyPackToYaml(pack), `${pack.id}.policy.yaml`, 'application/yaml;charset=utf-8');
+  }
 
-        // Create SQL Analytics Endpoint for Lakehouses
-        if (nodeType === NodeType.Lakehouse) {
-          const sqlEndpointNode: Node = {
-            id: `${datamart.id}-sql-endpoint`,
-            name: `${datamart.name} (SQL Endpoint)`,
-            type: NodeType.SQLAnalyticsEndpoint,
-            workspaceId: workspace.id,
-            metadata: {
-              parentLakehouseId: datamart.id,
-              description: 'SQL Analytics Endpoint for Lakehouse'
-            }
-          };
-          this.nodes.push(sqlEndpointNode);
-
-          // Link from lakehouse to SQL endpoint
-          this.links.push({
-            source: datamartNode.id,
-            target: sqlEndpointNode.id,
-            type: LinkType.Contains
-          });
+  public exportPolicyResults (): void {
+    this.scanService.saveAsFile(
+      policyResultsToCsv(this.policyResults, workspaceId => this.getWorkspaceName(workspaceId)),
+      `fabricbeye-policy-results-${new Date().getTime()}.csv`,
+      'text/csv;charset=utf-8'
+    );
+  }
 
-          // ALSO link from workspace to SQL endpoint so it stays in the workspace cluster
-          this.links.push({
-            source: workspaceNode.id,
-            target: sqlEndpointNode.id,
-            type: LinkType.Contains
-          });
-        }
-      }
+  // =================================================================
+  // UNUSED AND STALE CONTENT
+  // =================================================================
 
-      // Process Reports - DETECT Paginated Reports
-      for (const report of workspace.reports ?? []) {
-        report.workspaceId = workspace.id;
-        this.reports.push(report);
-
-        // Detect report type
-        const reportType = report.reportType === 'PaginatedReport'
-          ? NodeType.PaginatedReport
-          : NodeType.Report;
-
-        const reportNode: Node = {
-          id: report.id,
-          name: report.name,
-          type: reportType,
-          workspaceId: workspace.id,
-          metadata: {
-            endorsement: report.endorsementDetails?.endorsement || 'None',
-            certifiedBy: report.endorsementDetails?.certifiedBy,
-            sensitivityLabel: report.sensitivityLabel,
-            description: report.description,
-            createdBy: report.createdBy,
-            modifiedBy: report.modifiedBy,
-            modifiedDateTime: report.modifiedDateTime
-          }
-        };
-        this.nodes.push(reportNode);
-        this.links.push({
-          source: workspaceNode.id,
-          target: reportNode.id,
-          type: LinkType.Contains
-        });
+  /** Re-runs the analysis, e.g. after the thresholds change */
+  public refreshStaleContent (): void {
+    this.staleFindings = findStaleContent(this.nodes, this.getLinksById(), {
+      staleAfterMonths: Math.max(0, Number(this.staleOptions.staleAfterMonths) || 0),
+      sparseWorkspaceMaxItems: Math.max(0, Number(this.staleOptions.sparseWorkspaceMaxItems) || 0)
+    });
+    if (this.selectedStaleFinding || this.staleHighlightAll) this.clearImpactAnalysis();
+  }
 
-        // Link report to dataset
-        if (report.datasetId) {
-          const dataset = this.datasets.find(ds => ds.id === report.datasetId);
-          if (dataset) {
-            this.links.push({
-              source: report.datasetId,
-              target: reportNode.id,
-              type: LinkType.Contains
-            });
-
-            // Cross-workspace link if dataset is in different workspace
-            if (dataset.workspaceId !== workspace.id) {
-              this.links.push({
-                source: dataset.workspaceId,
-                target: workspace.id,
-                type: LinkType.CrossWorkspace
-              });
-            }
-          }
-        }
-      }
+  /** Finding counts per kind, for the filter chips */
+  public getStaleKindCounts (): { kind: StaleContentKind; label: string; icon: string; count: number }[] {
+    return (Object.keys(STALE_CONTENT_KINDS) as StaleContentKind[]).map(kind => ({
+      kind,
+      ...STALE_CONTENT_KINDS[kind],
+      count: this.staleFindings.filter(finding => finding.kind === kind).length
+    }));
+  }
 
-      // Process Dashboards
-      for (const dashboard of workspace.dashboards ?? []) {
-        dashboard.workspaceId = workspace.id;
-        const dashboardNode: Node = {
-          id: dashboard.id,
-          name: dashboard.displayName,
-          type: NodeType.Dashboard,
-          workspaceId: workspace.id,
-          metadata: {
-            endorsement: dashboard.endorsementDetails?.endorsement || 'None',
-            certifiedBy: dashboard.endorsementDetails?.certifiedBy,
-            sensitivityLabel: dashboard.sensitivityLabel,
-            tileCount: dashboard.tiles?.length || 0
-          }
-        };
-        this.nodes.push(dashboardNode);
-        this.links.push({
-          source: workspaceNode.id,
-          target: dashboardNode.id,
-          type: LinkType.Contains
-        });
+  public getFilteredStaleFindings (): StaleContentFinding[] {
+    const search = this.staleSearch.trim().toLowerCase();
+    return this.staleFindings.filter(finding =>
+      (!this.staleKindFilter || finding.kind === this.staleKindFilter) &&
+      (!search || finding.node.name.toLowerCase().includes(search) || this.getWorkspaceName(finding.node.workspaceId).toLowerCase().includes(search))
+    );
+  }
 
-        // Link dashboard to reports/datasets via tiles
-        for (const tile of dashboard.tiles ?? []) {
-          if (tile.reportId) {
-            const report = this.reports.find(r => r.id === tile.reportId);
-            if (report) {
-              this.links.push({
-                source: tile.reportId,
-                target: dashboardNode.id,
-                type: LinkType.Contains
-              });
-            }
-          }
-        }
-      }
+  public setStaleKindFilter (kind: StaleContentKind | ''): void {
+    this.staleKindFilter = this.staleKindFilter === kind ? '' : kind;
+    if (this.staleHighlightAll) this.highlightStaleFindings();
+  }
+
+  public getStaleKindIcon (kind: StaleContentKind): string {
+    return STALE_CONTENT_KINDS[kind].icon;
+  }
+
+  /** Item IDs a finding highlights: the item, or a near-empty workspace with its items */
+  private getStaleFindingNodeIds (finding: StaleContentFinding): string[] {
+    return finding.kind === 'sparseWorkspace'
+      ? this.nodes.filter(node => node.workspaceId === finding.node.id).map(node => node.id)
+      : [finding.node.id];
+  }
+
+  public showStaleFinding (finding: StaleContentFinding): void {
+    if (this.selectedStaleFinding === finding) {
+      this.clearImpactAnalysis();
+      return;
     }
+    this.impactNodes = new Set(this.getStaleFindingNodeIds(finding));
+    this.impactAnalysisActive = true;
+    this.selectedStaleFinding = finding;
+    this.staleHighlightAll = false;
+    this.applyImpactHighlight(finding.node.id);
+    this.flyToNode(finding.node.id);
+  }
 
-    return { numberOfWorkspaces, unassignedWorkspaces };
+  /** Highlights every finding that passes the panel filters */
+  public highlightStaleFindings (): void {
+    const findings = this.getFilteredStaleFindings();
+    this.impactNodes = new Set(findings.flatMap(finding => this.getStaleFindingNodeIds(finding)));
+    this.impactAnalysisActive = true;
+    this.selectedStaleFinding = null;
+    this.staleHighlightAll = true;
+    this.applyImpactHighlight('');
   }
 
-  private buildLineageLinks (workspaces: any[]): void {
-    for (const workspace of workspaces) {
-      // Dataset upstream links
-      for (const dataset of workspace.datasets ?? []) {
-        // Dataflow dependencies
-        if (dataset.upstreamDataflows) {
-          for (const upstreamDataflow of dataset.upstreamDataflows) {
-            if (upstreamDataflow.groupId !== dataset.workspaceId) {
-              // Cross-workspace lineage
-              this.links.push({
-                source: upstreamDataflow.groupId,
-                target: dataset.workspaceId,
-                type: LinkType.CrossWorkspace
-              });
-            }
-            // Direct artifact link
-            this.links.push({
-              source: upstreamDataflow.targetDataflowId,
-              target: dataset.id,
-              type: LinkType.Contains
-            });
-          }
-        }
+  /** Exports the findings that pass the panel filters */
+  public exportStaleContent (): void {
+    this.scanService.saveAsFile(
+      staleContentToCsv(this.getFilteredStaleFindings(), workspaceId => this.getWorkspaceName(workspaceId)),
+      `fabricbeye-stale-content-${new Date().getTime()}.csv`,
+      'text/csv;charset=utf-8'
+    );
+  }
 
-        // Datamart dependencies
-        if (dataset.upstreamDatamarts) {
-          for (const upstreamDatamart of dataset.upstreamDatamarts) {
-            if (upstreamDatamart.groupId !== dataset.workspaceId) {
-              this.links.push({
-                source: upstreamDatamart.groupId,
-                target: dataset.workspaceId,
-                type: LinkType.CrossWorkspace
-              });
-            }
-            this.links.push({
-              source: upstreamDatamart.targetDatamartId,
-              target: dataset.id,
-              type: LinkType.Contains
-            });
-          }
-        }
+  // =================================================================
+  // GOVERNANCE REPORT
+  // =================================================================
+
+  /** Scorecard of the loaded graph, scored against the active rule pack, as a standalone HTML document */
+  private buildGovernanceReport (): string {
+    return governanceScorecardToHtml(buildGovernanceScorecard(this.nodes, this.getLinksById(), this.policyResults));
+  }
+
+  public exportGovernanceReport (): void {
+    this.scanService.saveAsFile(this.buildGovernanceReport(), `fabricbeye-governance-report-${new Date().toJSON().slice(0, 10)}.html`, 'text/html;charset=utf-8');
+  }
+
+  /** Opens the report in a new window and the browser's print dialog, for Save as PDF */
+  public printGovernanceReport (): void {
+    const reportWindow = window.open('', '_blank');
+    if (!reportWindow) {
+      this.exportGovernanceReport();
+      return;
+    }
+    reportWindow.document.write(this.buildGovernanceReport());
+    reportWindow.document.close();
+    reportWindow.focus();
+    reportWindow.print();
+  }
+
+  public exportLabelDowngrades (): void {
+    this.scanService.saveAsFile(
+      labelDowngradesToCsv(this.labelDowngrades, this.nodeMap, labelId => this.getSensitivityLabelName(labelId), workspaceId => this.getWorkspaceName(workspaceId)),
+      `fabricbeye-label-downgrades-${new Date().getTime()}.csv`,
+      'text/csv;charset=utf-8'
+    );
+  }
+
+  // =================================================================
+  // DEMO MODE METHODS
+  // =================================================================
+
+  /**
+   * Loads pre-configured demo data for testing and demonstration
+   *
+   * Initializes the graph with mock Scanner API data including 50+ workspaces
+   * across 15 domains, demonstrating all 23 supported Fabric artifact types.
+   * Useful for testing features without tenant admin access.
+   */
+  public loadDemoMode (): void {
+    this.isDemoMode = true; // Enable demo mode - skip all API calls
+    this.domains = MOCK_DOMAINS;
+    this.loadLineage(MOCK_SCANNER_RESPONSE);
+  }
+
+  /**
+   * Fetches domains from the Fabric Admin API
+   * In real mode: calls GET /v1/admin/domains and maps response to Domain[]
+   * Silently falls back to empty domains on error (graph still works without domains)
+   */
+  private fetchDomains (): void {
+    if (this.isDemoMode) return;
+    this.proxy.getDomains().pipe(take(1)).subscribe({
+      next: (response: any) => {
+        const domainList = response?.domains || response?.value || (Array.isArray(response) ? response : []);
+        this.domains = domainList.map((d: any) => ({
+          id: d.id,
+          name: d.displayName || d.name,
+          description: d.description,
+          parentDomainId: d.parentDomainId,
+          workspaceIds: []
+        }));
+        console.log(`✓ Loaded ${this.domains.length} domains from Fabric API`);
+      },
+      error: (err: any) => {
+        console.warn('Could not fetch domains from Fabric API:', err.status);
+      }
+    });
+  }
+
+  // =================================================================
+  // NODE STYLING METHODS - Colors and Icons
+  // =================================================================
+
+  /**
+   * Maps Fabric artifact types to official color scheme
+   *
+   * Returns colors based on Microsoft Fabric design system:
+   * - Workspace: Green (#107C10)
+   * - Data Storage (Lakehouse, Warehouse): Blues
+   * - Analytics (KQL, Eventstream): Purples/Magentas
+   * - BI (Reports, Dashboards): Yellows/Oranges/Cyans
+   * - ML (Models, Experiments): Teals
+   *
+   * @param nodeType - The Fabric artifact type
+   * @returns Hex color string
+   */
+  public getNodeColor (nodeType: NodeType): string {
+    // Microsoft Fabric workload family colors
+    // Each artifact belongs to a workload — same workload = same color family
+    switch (nodeType) {
+      // ── Workspace ──
+      case NodeType.Workspace:
+        return '#117865'; // Teal-green — neutral, distinct from all workloads
+
+      // ── Power BI family (Gold) ──
+      case NodeType.Report:
+      case NodeType.PaginatedReport:
+        return '#F2C811';
+      case NodeType.Dashboard:
+        return '#E8A00E';
+      case NodeType.SemanticModel:
+        return '#D4920A';
+
+      // ── Data Engineering family (Blue) ──
+      case NodeType.Lakehouse:
+      case NodeType.SQLAnalyticsEndpoint:
+        return '#0B6EF6';
+      case NodeType.Notebook:
+      case NodeType.SparkJobDefinition:
+        return '#3A8FF7';
+
+      // ── Data Factory family (Teal) ──
+      case NodeType.Pipeline:
+        return '#00BEBE';
+      case NodeType.Dataflow:
+      case NodeType.DataflowGen2:
+        return '#00A4A4';
+
+      // ── Data Warehouse family (Deep Blue) ──
+      case NodeType.DataWarehouse:
+      case NodeType.Datamart:
+        return '#2E5FBE';
+
+      // ── Real-Time Intelligence family (Purple) ──
+      case NodeType.Eventstream:
+      case NodeType.Eventhouse:
+        return '#8661C5';
+      case NodeType.KQLDatabase:
+      case NodeType.KQLQueryset:
+        return '#7550B0';
+
+      // ── Data Science family (Green) ──
+      case NodeType.MLModel:
+      case NodeType.MLExperiment:
+        return '#107C10';
 
-        // Dataset dependencies
-        if (dataset.upstreamDatasets) {
-          for (const upstreamDataset of dataset.upstreamDatasets) {
-            if (upstreamDataset.groupId !== dataset.workspaceId) {
-              this.links.push({
-                source: upstreamDataset.groupId,
-                target: dataset.workspaceId,
-                type: LinkType.CrossWorkspace
-              });
-            }
-            this.links.push({
-              source: upstreamDataset.targetDatasetId,
-              target: dataset.id,
-              type: LinkType.Contains
-            });
-          }
-        }
-      }
+      // ── External datasources ──
+      case NodeType.Datasource:
+        return '#8E9B8E';
 
-      // Dataflow upstream links
-      for (const dataflow of workspace.dataflows ?? []) {
-        if (dataflow.upstreamDataflows) {
-          for (const upstreamDataflow of dataflow.upstreamDataflows) {
-            if (upstreamDataflow.groupId !== dataflow.workspaceId) {
-              this.links.push({
-                source: upstreamDataflow.groupId,
-                target: dataflow.workspaceId,
-                type: LinkType.CrossWorkspace
-              });
-            }
-            this.links.push({
-              source: upstreamDataflow.targetDataflowId,
-              target: dataflow.objectId,
-              type: LinkType.Contains
-            });
-          }
-        }
-      }
+      // ── Principals (Magenta) ──
+      case NodeType.User:
+        return '#E3008C';
+      case NodeType.Group:
+        return '#C239B3';
+      case NodeType.ServicePrincipal:
+        return '#9A0089';
 
-      // Datamart upstream links
-      for (const datamart of workspace.datamarts ?? []) {
-        if (datamart.upstreamDataflows) {
-          for (const upstreamDataflow of datamart.upstreamDataflows) {
-            if (upstreamDataflow.groupId !== workspace.id) {
-              this.links.push({
-                source: upstreamDataflow.groupId,
-                target: workspace.id,
-                type: LinkType.CrossWorkspace
-              });
-            }
-            this.links.push({
-              source: upstreamDataflow.targetDataflowId,
-              target: datamart.id,
-              type: LinkType.Contains
-            });
-          }
-        }
-      }
+      // ── Other ──
+      case NodeType.App:
+      case NodeType.OtherFabricItem:
+        return '#737373';
+      default:
+        return '#888888';
     }
   }
 
-  private validateAndFilterLinks (numberOfWorkspaces: number): Link[] {
-    // PASS 3: Calculate cross-workspace relationships for node metadata
-    const allNodeIds = new Set(this.nodes.map(n => n.id));
-    let validLinks: Link[] = this.links.filter(link => allNodeIds.has(link.source as string) && allNodeIds.has(link.target as string));
-    const crossWorkspaceLinks = validLinks.filter(link => link.type === LinkType.CrossWorkspace);
+  // Texture cache for artifact icons
+  private textureCache: Map<string, THREE.Texture> = new Map();
+  private textureLoader = new THREE.TextureLoader();
 
-    for (const crossWSLink of crossWorkspaceLinks) {
-      const downNode = this.nodes.find(node => node.id === crossWSLink.source);
-      if (downNode) {
-        downNode.crossDownstreamWSIds.push(crossWSLink.target);
-      }
+  private getOrLoadTexture (path: string): THREE.Texture {
+    if (!this.textureCache.has(path)) {
+      this.textureCache.set(path, this.textureLoader.load(path));
+    }
+    return this.textureCache.get(path)!;
+  }
 
-      const upNode = this.nodes.find(node => node.id === crossWSLink.target);
-      if (upNode) {
-        upNode.crossUpstreamWSIds.push(crossWSLink.source);
-      }
+  private getNodeTypeImage (nodeType: NodeType): THREE.Mesh {
+    let texturePath: string;
+
+    switch (nodeType) {
+      case NodeType.Dashboard: texturePath = 'assets/dashboard.png'; break;
+      case NodeType.Report: texturePath = 'assets/report.png'; break;
+      case NodeType.PaginatedReport: texturePath = 'assets/paginated-report.svg'; break;
+      case NodeType.SemanticModel: texturePath = 'assets/dataset.png'; break;
+      case NodeType.Dataflow:
+      case NodeType.DataflowGen2: texturePath = 'assets/dataflow.png'; break;
+      case NodeType.Lakehouse: texturePath = 'assets/lakehouse.svg'; break;
+      case NodeType.DataWarehouse: texturePath = 'assets/datawarehouse.svg'; break;
+      case NodeType.Notebook: texturePath = 'assets/notebook.svg'; break;
+      case NodeType.Pipeline: texturePath = 'assets/pipeline.svg'; break;
+      case NodeType.Eventstream: texturePath = 'assets/eventstream.svg'; break;
+      case NodeType.MLModel: texturePath = 'assets/mlmodel.svg'; break;
+      case NodeType.KQLDatabase: texturePath = 'assets/kqldatabase.svg'; break;
+      case NodeType.Datamart: texturePath = 'assets/datamart.svg'; break;
+      case NodeType.Datasource: texturePath = 'assets/data source.png'; break;
+      case NodeType.User: texturePath = 'assets/user.svg'; break;
+      case NodeType.Group: texturePath = 'assets/group.svg'; break;
+      case NodeType.ServicePrincipal: texturePath = 'assets/service-principal.svg'; break;
+      default: texturePath = 'assets/data source.png'; break;
     }
 
-    // PASS 4: Limit workspaces if needed
-    if (numberOfWorkspaces > WORKSPACE_LIMIT) {
-      const workspaceNodes = this.nodes.filter(node => node.type === NodeType.Workspace);
-      const limitedWorkspaceInfo = workspaceNodes
-        .sort((a, b) => {
-          const aCount = (a.crossDownstreamWSIds?.length || 0) + (a.crossUpstreamWSIds?.length || 0);
-          const bCount = (b.crossDownstreamWSIds?.length || 0) + (b.crossUpstreamWSIds?.length || 0);
-          return bCount - aCount;
-        })
-        .slice(0, WORKSPACE_LIMIT)
-        .map(node => ({
-          id: node.id,
-          crossDownstreamWSIds: node.crossDownstreamWSIds || [],
-          crossUpstreamWSIds: node.crossUpstreamWSIds || []
-        }));
+    const texture = this.getOrLoadTexture(texturePath);
+    const sprite = new THREE.Mesh(
+      new THREE.PlaneGeometry(6, 6),
+      new THREE.MeshBasicMaterial({
+        map: texture,
+        transparent: true,
+        side: THREE.DoubleSide,
+        depthWrite: false
+      })
+    );
 
-      let limitedWorkspaceNodes = [];
-      for (const info of limitedWorkspaceInfo) {
-        limitedWorkspaceNodes.push(info.id);
-        limitedWorkspaceNodes = [...new Set([
-          ...limitedWorkspaceNodes,
-          ...(info.crossDownstreamWSIds || []),
-          ...(info.crossUpstreamWSIds || [])
-        ])];
-      }
+    return sprite;
+  }
+
+  // =================================================================
+  // GRAPH VISUALIZATION - Main Data Loading and Processing
+  // =================================================================
 
-      // Filter nodes: keep workspaces in limited set AND their artifacts
-      const limitedWorkspaceSet = new Set(limitedWorkspaceNodes);
-      const beforeCount = this.nodes.length;
+  /**
+   * Builds the lineage graph for a scan result and renders it
+   *
+   * Graph construction and the initial layout run in the graph worker
+   * (GraphBuildService); this method only resets view state, copies the graph
+   * for the renderer and draws it. If another load starts meanwhile, the
+   * older result is dropped.
+   *
+   * @param scanResult - Scanner API result (workspaces plus optional datasource instances and Fabric items)
+   * @param scanOptions - Metadata the scan was requested with; inferred from the content when unknown
+   */
+  private async loadLineage (scanResult: Partial<TenantScanResult>, scanOptions?: ScanOptions): Promise<void> {
+    const loadId = ++this.graphLoadId;
+    this.activeDiff = null;
 
-      this.nodes = this.nodes.filter(node => {
-        // Keep workspace if in limited set
-        if (node.type === NodeType.Workspace) {
-          return limitedWorkspaceSet.has(node.id);
-        }
-        // Keep artifact ONLY if it has a workspaceId AND that workspace is in limited set
-        if (!node.workspaceId) {
-          console.warn('[ORPHAN] Removing artifact without workspaceId:', node.name, NodeType[node.type]);
-          return false;
-        }
-        return limitedWorkspaceSet.has(node.workspaceId);
+    let built: GraphBuildResult;
+    try {
+      built = await this.graphBuild.build({
+        scanResult,
+        options: {
+          items: this.isDemoMode ? MOCK_FABRIC_ITEMS : scanResult.fabricItems ?? [],
+          domains: this.domains,
+          includePrincipals: this.principalGraphMode
+        },
+        layoutTicks: LAYOUT_PRECOMPUTE_TICKS,
+        layoutTimeBudgetMs: LAYOUT_TIME_BUDGET_MS
+      }, (phase, nodeCount) => {
+        if (loadId !== this.graphLoadId) return;
+        this.loadingStatus = phase === 'build' ? 'Building graph…' : `Laying out ${nodeCount} items…`;
       });
-
-      // Filter links: keep only links between remaining nodes
-      const nodeIds = new Set(this.nodes.map(node => node.id));
-      const beforeLinkCount = validLinks.length;
-      validLinks = validLinks.filter(link =>
-        nodeIds.has(link.source) && nodeIds.has(link.target)
-      );
+    } catch (e) {
+      if (loadId === this.graphLoadId) this.showGraphBuildError(e);
+      return;
+    } finally {
+      if (loadId === this.graphLoadId) this.loadingStatus = null;
     }
+    if (loadId !== this.graphLoadId) return;
+    this.loadedScanOptions = scanOptions ?? inferScanOptions(scanResult);
+    this.loadedScanResult = scanResult;
+    this.refreshRlsCoverage();
+    this.refreshAccessAnalysis();
 
-    // PASS 5: Remove orphaned artifacts (artifacts without valid workspace in graph)
-    const workspaceIds = new Set(this.nodes.filter(n => n.type === NodeType.Workspace).map(n => n.id));
-    const beforeOrphanRemoval = this.nodes.length;
+    // CRITICAL: Clear highlight sets to prevent dimming during initial render
+    this.highlightNodes.clear();
+    this.highlightLinks.clear();
+    this.focusedNode = null;
+    this.hoverNode = null;
 
-    this.nodes = this.nodes.filter(node => {
-      if (node.type === NodeType.Workspace) return true;
-      return node.workspaceId && workspaceIds.has(node.workspaceId);
-    });
+    // The renderer mutates nodes (positions) and links (source/target objects), so copy first
+    const { graph, positions } = built;
+    this.nodes = graph.nodes.map((node, i) => ({
+      ...node,
+      crossDownstreamWSIds: node.crossDownstreamWSIds ? [...node.crossDownstreamWSIds] : undefined,
+      crossUpstreamWSIds: node.crossUpstreamWSIds ? [...node.crossUpstreamWSIds] : undefined,
+      metadata: { ...node.metadata },
+      ...(positions ? { x: positions[i * 3], y: positions[i * 3 + 1], z: positions[i * 3 + 2] } : {})
+    }));
+    this.links = graph.links.map(link => ({ ...link }));
 
-    if (beforeOrphanRemoval !== this.nodes.length) {
-      console.log(`[Orphan Cleanup] Removed ${beforeOrphanRemoval - this.nodes.length} orphaned artifacts`);
-      const nodeIds = new Set(this.nodes.map(n => n.id));
-      validLinks = validLinks.filter(link => nodeIds.has(link.source) && nodeIds.has(link.target));
+    const { diagnostics } = graph;
+    if (diagnostics.fabricItemCount > 0) {
+      console.log(`✓ Added ${diagnostics.fabricItemCount} Fabric-native items (Notebooks, Pipelines, etc.)`);
     }
+    if (diagnostics.orphanedNodeCount > 0) {
+      console.log(`[Orphan Cleanup] Removed ${diagnostics.orphanedNodeCount} orphaned artifacts`);
+    }
+    console.log(`✓ Loaded ${diagnostics.workspaceCount} workspaces (${diagnostics.unassignedWorkspaceCount} unassigned), ${diagnostics.artifactCount} artifacts, ${this.links.length} links`);
 
-    // FINAL SUMMARY
-    const finalWorkspaces = this.nodes.filter(n => n.type === NodeType.Workspace);
-    const finalUnassigned = finalWorkspaces.filter(n => n.metadata?.isUnassigned);
-    const finalArtifacts = this.nodes.filter(n => n.type !== NodeType.Workspace);
-    console.log(`✓ Loaded ${finalWorkspaces.length} workspaces (${finalUnassigned.length} unassigned), ${finalArtifacts.length} artifacts, ${validLinks.length} links`);
-
-    return validLinks;
+    // Default: show ALL workspaces (assigned + unassigned) — filters apply after render
+    this.refreshLabelDowngrades();
+    this.refreshPolicyResults();
+    this.refreshStaleContent();
+    this.visibleNodes = this.nodes;
+    this.initializeGraph(this.nodes, this.links);
   }
 
-  private applyVisibilityFilters (validLinks: Link[]): { visibleNodes: Node[], visibleLinks: Link[] } {
-    // Default: show ALL workspaces (assigned + unassigned)
-    // No init-time filtering — everything goes into the graph
-    this.visibleNodes = this.nodes;
-    return { visibleNodes: this.nodes, visibleLinks: validLinks };
+  private showGraphBuildError (e: Error): void {
+    console.error('Graph build failed:', e);
+    this.dialog.open(ErrorDialogComponent, {
+      data: {
+        title: 'Could not build the graph',
+        errorMessage: e.message
+      }
+    });
   }
 
   private initializeGraph (visibleNodes: Node[], visibleLinks: Link[]): void {
-    // Build a fast node lookup for link color computation
+    // Index nodes and links once so callbacks don't scan the whole graph per node or link
     this.nodeMap.clear();
+    this.workspaceArtifactCounts.clear();
     for (const node of visibleNodes) {
       this.nodeMap.set(node.id, node);
+      if (node.type !== NodeType.Workspace && node.workspaceId) {
+        this.workspaceArtifactCounts.set(node.workspaceId, (this.workspaceArtifactCounts.get(node.workspaceId) || 0) + 1);
+      }
+    }
+    this.nodeLinks.clear();
+    for (const link of visibleLinks) {
+      for (const id of new Set([link.source, link.target])) {
+        const links = this.nodeLinks.get(id);
+        if (links) {
+          links.push(link);
+        } else {
+          this.nodeLinks.set(id, [link]);
+        }
+      }
     }
 
     // RENDER THE GRAPH with filtered data
@@ -1201,8 +1760,8 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
 
     this.graphInstance = graph;
 
-    // Pre-compute deterministic domain anchor positions before force simulation
-    this.computeDomainAnchors();
+    // Nodes placed by the graph worker's layout pass need no warm-up on the main thread
+    const hasPrecomputedLayout = visibleNodes.length > 0 && visibleNodes.every(node => node.x !== undefined);
 
     graph.graphData(gData)
       .width(window.innerWidth)
@@ -1211,14 +1770,18 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
       .enableNodeDrag(false)
       .nodeRelSize(4)
       // Pre-compute layout so the graph appears settled (critical for big tenants)
-      .warmupTicks(visibleNodes.length > 200 ? 100 : 50)
-      .cooldownTicks(visibleNodes.length > 200 ? 200 : 300)
-      .d3AlphaDecay(0.05) // Fast settling — stops oscillation quickly
-      .d3VelocityDecay(0.6) // High friction to prevent shaking
+      .warmupTicks(hasPrecomputedLayout ? 0 : getWarmupTicks(visibleNodes.length))
+      .cooldownTicks(hasPrecomputedLayout ? LAYOUT_SETTLE_TICKS : visibleNodes.length > 200 ? 200 : 300)
+      .d3AlphaDecay(LAYOUT_ALPHA_DECAY)
+      .d3VelocityDecay(LAYOUT_VELOCITY_DECAY)
       .nodeVal((node: any) => {
-        return node.type === NodeType.Workspace ? 8 : 2;
+        if (node.type === NodeType.Workspace) return 8;
+        // Shared datasources grow with their consumers so hubs stand out
+        if (node.type === NodeType.Datasource) return Math.min(2 + (node.metadata?.consumerCount || 0), 8);
+        if (PRINCIPAL_NODE_TYPES.has(node.type)) return Math.min(2 + (node.metadata?.accessCount || 0), 8);
+        return 2;
       })
-      .d3Force('domainCluster', this.createDomainClusterForce())
+      .d3Force('domainCluster', createDomainClusterForce(visibleNodes, computeDomainAnchors(visibleNodes)))
       .linkOpacity(1.0) // Full opacity - we control it in linkColor
       .linkCurvature((link: any) => {
         return link.type === LinkType.Contains ? 0.15 : 0;
@@ -1226,11 +1789,12 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
       .linkCurveRotation(0) // Fixed rotation — no random jitter
       // Directional arrows with elegant styling
       .linkDirectionalArrowLength((link: any) => {
-        return link.type === LinkType.CrossWorkspace ? 4 : 0;
+        if (link.type === LinkType.CrossWorkspace) return 4;
+        return LINEAGE_LINK_TYPES.has(link.type) ? 2 : 0;
       })
       .linkDirectionalArrowRelPos(1)
       .linkDirectionalArrowColor((link: any) => {
-        return COLOR_ARROW_CROSS_WS;
+        return link.type === LinkType.CrossWorkspace ? COLOR_ARROW_CROSS_WS : this.getDefaultLinkColor(link);
       })
       // Animated particles on cross-workspace links — shows data flow direction
       .linkDirectionalParticles((link: any) => {
@@ -1243,7 +1807,7 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
       })
       // Rich HTML tooltips
       .nodeLabel((node: any) => {
-        const typeLabel = NodeType[node.type];
+        const typeLabel = this.getNodeTypeLabel(node);
         const endorsement = node.metadata?.endorsement || 'None';
         const endorsementIcon = endorsement === 'Certified' ? '🏅 ' : endorsement === 'Promoted' ? '✓ ' : '';
         const endorsementColor = endorsement === 'Certified' ? '#0078D4' : endorsement === 'Promoted' ? '#0078D4' : '#666';
@@ -1253,21 +1817,41 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
         const sensitivityLabel = node.metadata?.sensitivityLabel;
         let sensitivityHTML = '';
         if (sensitivityLabel?.labelId) {
-          const labelColors: Record<string, { bg: string; icon: string; text: string }> = {
-            '00000000-0000-0000-0000-000000000004': { bg: '#C43E1C', icon: '🔒', text: 'Highly Confidential' },
-            '00000000-0000-0000-0000-000000000003': { bg: '#D83B01', icon: '🔒', text: 'Confidential' },
-            '00000000-0000-0000-0000-000000000002': { bg: '#CA5010', icon: '🔓', text: 'Internal' },
-            '00000000-0000-0000-0000-000000000001': { bg: '#8A8A8A', icon: '🌐', text: 'Public' }
-          };
-          const label = labelColors[sensitivityLabel.labelId] || { bg: '#CA5010', icon: '🔓', text: 'Internal' };
-          sensitivityHTML = `<div style="font-size: 12px; color: white; background: ${label.bg}; padding: 4px 8px; border-radius: 4px; margin-top: 6px; display: inline-block;">${label.icon} ${label.text}</div>`;
+          const label = this.labelCatalog.resolve(sensitivityLabel.labelId);
+          sensitivityHTML = `<div style="font-size: 12px; color: white; background: ${label.color}; padding: 4px 8px; border-radius: 4px; margin-top: 6px; display: inline-block;">${escapeHtml(label.icon)} ${escapeHtml(label.displayName)}</div>`;
+        }
+
+        // Snapshot comparison: what changed since the older snapshot
+        let diffHTML = '';
+        const diffStatus: DiffStatus | undefined = node.metadata?.diffStatus;
+        if (diffStatus) {
+          const diffColor = diffStatus === 'added' ? COLOR_DIFF_ADDED : diffStatus === 'changed' ? COLOR_DIFF_CHANGED : '#969696';
+          const fieldChanges = (node.metadata.diffFieldChanges || []).map((change: any) =>
+            `<div>${this.getDiffFieldLabel(change.field)}: ${this.formatDiffValue(change.field, change.before)} → ${this.formatDiffValue(change.field, change.after)}</div>`);
+          diffHTML = `<div style="font-size: 12px; color: ${diffColor}; margin-top: 6px; font-weight: 600;">${diffStatus.toUpperCase()}${fieldChanges.join('')}</div>`;
+        }
+
+        // Workspaces show their domain, datasources their connection, principals their reach, artifacts their workspace
+        let locationHTML: string;
+        if (PRINCIPAL_NODE_TYPES.has(node.type)) {
+          locationHTML = `<div style="font-size: 12px; color: rgba(255,255,255,0.5);">${escapeHtml(node.metadata?.emailAddress || '')}${node.metadata?.userType === 'Guest' ? ' · Guest' : ''}</div>
+            <div style="font-size: 12px; color: rgba(255,255,255,0.5);">Access to ${node.metadata?.accessCount} workspace${node.metadata?.accessCount !== 1 ? 's' : ''} and items</div>`;
+        } else if (node.type === NodeType.Workspace) {
+          locationHTML = `<div style="font-size: 12px; color: rgba(255,255,255,0.5);">Domain: ${domainName}</div>`;
+        } else if (node.type === NodeType.Datasource) {
+          locationHTML = `<div style="font-size: 12px; color: rgba(255,255,255,0.5);">${node.metadata?.datasourceType} · ${node.metadata?.consumerCount} consumer${node.metadata?.consumerCount !== 1 ? 's' : ''}</div>
+            ${node.metadata?.isGatewayBound ? `<div style="font-size: 12px; color: #60CDFF; margin-top: 4px;">🛡️ Gateway: ${escapeHtml(node.metadata.gatewayIds.join(', '))}</div>` : ''}
+            ${node.metadata?.isMisconfigured ? '<div style="font-size: 12px; color: #F87171; margin-top: 4px;">⚠️ Misconfigured usage</div>' : ''}`;
+        } else {
+          locationHTML = `<div style="font-size: 12px; color: rgba(255,255,255,0.5);">Workspace: ${this.getWorkspaceName(node.workspaceId)}</div>`;
         }
 
         return `
           <div style="background: #292827; padding: 14px 16px; border-radius: 6px; border: 1px solid rgba(255,255,255,0.12); min-width: 220px; font-family: 'Segoe UI', sans-serif; box-shadow: 0 8px 24px rgba(0,0,0,0.6);">
             <div style="font-size: 15px; font-weight: 600; color: #fff; margin-bottom: 6px;">${node.name}</div>
             <div style="font-size: 12px; color: rgba(255,255,255,0.5); margin-bottom: 4px;">${typeLabel}</div>
-            ${node.type === NodeType.Workspace ? `<div style="font-size: 12px; color: rgba(255,255,255,0.5);">Domain: ${domainName}</div>` : `<div style="font-size: 12px; color: rgba(255,255,255,0.5);">Workspace: ${this.getWorkspaceName(node.workspaceId)}</div>`}
+            ${locationHTML}
+            ${diffHTML}
             ${endorsement !== 'None' ? `<div style="font-size: 12px; color: ${endorsementColor}; margin-top: 8px; padding: 3px 8px; background: rgba(0,120,212,0.1); border: 1px solid rgba(0,120,212,0.3); border-radius: 4px; display: inline-block; font-weight: 600;">${endorsementIcon}${endorsement}</div>` : ''}
             ${sensitivityHTML}
             ${node.metadata?.description ? `<div style="font-size: 11px; color: rgba(255,255,255,0.4); margin-top: 8px; font-style: italic; border-top: 1px solid rgba(255,255,255,0.08); padding-top: 6px;">${node.metadata.description}</div>` : ''}
@@ -1285,18 +1869,7 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
         const activeNode = node || this.focusedNode;
 
         if (activeNode) {
-          this.highlightNodes.add(activeNode);
-          this.links.forEach(link => {
-            const sourceId = typeof link.source === 'object' ? (link.source as any).id : link.source;
-            const targetId = typeof link.target === 'object' ? (link.target as any).id : link.target;
-            if (sourceId === activeNode.id || targetId === activeNode.id) {
-              this.highlightLinks.add(link);
-              const connectedNode = this.nodes.find(n =>
-                n.id === (sourceId === activeNode.id ? targetId : sourceId)
-              );
-              if (connectedNode) this.highlightNodes.add(connectedNode);
-            }
-          });
+          this.highlightNeighbours(activeNode);
         }
 
         this.hoverNode = node || null;
@@ -1331,20 +1904,9 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
         this.focusedNode = node;
         this.highlightNodes.clear();
         this.highlightLinks.clear();
-        this.highlightNodes.add(node);
 
         // Highlight connected nodes and links
-        this.links.forEach(link => {
-          const sourceId = typeof link.source === 'object' ? (link.source as any).id : link.source;
-          const targetId = typeof link.target === 'object' ? (link.target as any).id : link.target;
-          if (sourceId === node.id || targetId === node.id) {
-            this.highlightLinks.add(link);
-            const connectedNode = this.nodes.find(n =>
-              n.id === (sourceId === node.id ? targetId : sourceId)
-            );
-            if (connectedNode) this.highlightNodes.add(connectedNode);
-          }
-        });
+        this.highlightNeighbours(node);
         this.updateHighlight();
 
         if (node.type === NodeType.Workspace) {
@@ -1410,7 +1972,20 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
             group.add(badgeMesh);
           }
 
-          return group;
+          // Datasource markers: gateway-bound and misconfigured
+          if (node.type === NodeType.Datasource && (node.metadata?.isGatewayBound || node.metadata?.isMisconfigured)) {
+            const markerText = [node.metadata.isMisconfigured ? '⚠' : '', node.metadata.isGatewayBound ? 'GW' : ''];
+            const marker = new SpriteText(markerText.filter(Boolean).join(' '));
+            marker.color = node.metadata.isMisconfigured ? '#F87171' : '#60CDFF';
+            marker.textHeight = 2;
+            marker.backgroundColor = 'rgba(20,20,20,0.8)';
+            marker.padding = 1;
+            marker.borderRadius = 2;
+            (marker as any).position.set(5, 5, 0);
+            group.add(marker as any);
+          }
+
+          return this.applyOverlayStyles(node, group);
         }
 
         // Workspace: larger badge colored by domain
@@ -1421,7 +1996,7 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
           : '#6B7FA3';
 
         // Count artifacts in this workspace
-        const artifactCount = this.nodes.filter(n => n.workspaceId === node.id && n.type !== NodeType.Workspace).length;
+        const artifactCount = this.workspaceArtifactCounts.get(node.id) || 0;
         const displayName = artifactCount > 0 ? `${node.name}  (${artifactCount})` : node.name;
 
         const sprite = new SpriteText(displayName);
@@ -1447,7 +2022,7 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
           group.add(domainLabel as any);
         }
 
-        return group;
+        return this.applyOverlayStyles(node, group);
       })
       // Level of Detail: hide artifact labels when camera is far away + billboard icons
       .nodePositionUpdate((obj: any, coords: any, node: any) => {
@@ -1498,39 +2073,14 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
 
         return this.getNodeColor(node.type as NodeType);
       })
-      .linkColor((link: any) => {
-        const opacityMul = this.linkOpacity / 100;
-        if (this.highlightLinks.size > 0) {
-          if (this.highlightLinks.has(link)) {
-            if (link.type === LinkType.CrossWorkspace) return '#60CDFF';
-            return '#ffffff';
-          }
-          return 'rgba(255,255,255,0.02)';
-        }
-        // Cross-workspace: bright cyan — unmistakable
-        if (link.type === LinkType.CrossWorkspace) return `rgba(96,205,255,${0.95 * opacityMul})`;
-        // Contains: domain-colored, bright and saturated
-        if (link.type === LinkType.Contains) {
-          const sourceId = typeof link.source === 'object' ? (link.source as any).id : link.source;
-          const sourceNode = this.nodeMap.get(sourceId);
-          if (sourceNode?.metadata?.domainId) {
-            return this.getDomainColorRGBA(sourceNode.metadata.domainId, 0.85 * opacityMul);
-          }
-          return `rgba(255,255,255,${0.5 * opacityMul})`;
-        }
-        // Artifact lineage: bright golden — distinct from white and cyan
-        return `rgba(255,200,80,${0.75 * opacityMul})`;
-      })
-      .linkWidth((link: any) => {
-        if (link.type === LinkType.CrossWorkspace) return 2.5;
-        if (link.type === LinkType.Contains) return 1.8;
-        return 1.5;
-      })
+      .linkColor((link: any) => this.getDefaultLinkColor(link))
+      .linkWidth((link: any) => this.getDefaultLinkWidth(link))
       .linkLabel((link: any) => {
         const sourceName = typeof link.source === 'object' ? link.source.name : link.source;
         const targetName = typeof link.target === 'object' ? link.target.name : link.target;
-        const typeLabel = link.type === LinkType.CrossWorkspace ? 'Cross-workspace' :
-                          link.type === LinkType.Contains ? 'Contains' : 'Lineage';
+        const typeLabel = link.broken
+          ? '⚠️ Misconfigured datasource'
+          : LINK_TYPE_LABELS[link.type as LinkType] || 'Lineage';
         return `<div style="background: #292827; padding: 8px 12px; border-radius: 4px; border: 1px solid rgba(255,255,255,0.12); font-family: 'Segoe UI', sans-serif; box-shadow: 0 4px 12px rgba(0,0,0,0.5);">
           <div style="font-size: 12px; color: rgba(255,255,255,0.5); margin-bottom: 4px;">${typeLabel}</div>
           <div style="font-size: 13px; color: #fff;">${sourceName} → ${targetName}</div>
@@ -1560,14 +2110,10 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
         this.closeContextMenu();
       });
 
-    // Configure link distance — Contains short (tight clusters), CrossWorkspace long (spread domains)
+    // Configure link distance — Contains/ParentOf short (tight clusters), CrossWorkspace long (spread domains)
     const linkForce = graph.d3Force('link');
     if (linkForce) {
-      linkForce.distance((link: any) => {
-        if (link.type === LinkType.CrossWorkspace) return 120;
-        if (link.type === LinkType.Contains) return 20;
-        return 35; // artifact lineage
-      });
+      linkForce.distance(getLinkDistance);
     }
 
     // Zoom to fit once after initial layout settles
@@ -1599,31 +2145,63 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
   private applyDefaultLinkStyle (): void {
     if (!this.graphInstance) return;
     this.graphInstance
-      .linkColor((link: any) => {
-        const opacityMul = this.linkOpacity / 100;
-        if (this.highlightLinks.size > 0) {
-          if (this.highlightLinks.has(link)) {
-            if (link.type === LinkType.CrossWorkspace) return '#60CDFF';
-            return '#ffffff';
-          }
-          return 'rgba(255,255,255,0.02)';
-        }
-        if (link.type === LinkType.CrossWorkspace) return `rgba(96,205,255,${0.95 * opacityMul})`;
-        if (link.type === LinkType.Contains) {
-          const sourceId = typeof link.source === 'object' ? (link.source as any).id : link.source;
-          const sourceNode = this.nodeMap.get(sourceId);
-          if (sourceNode?.metadata?.domainId) {
-            return this.getDomainColorRGBA(sourceNode.metadata.domainId, 0.85 * opacityMul);
-          }
-          return `rgba(255,255,255,${0.5 * opacityMul})`;
+      .linkColor((link: any) => this.getDefaultLinkColor(link))
+      .linkWidth((link: any) => this.getDefaultLinkWidth(link));
+  }
+
+  /** Default link color by link type, honoring hover highlight and the opacity slider */
+  private getDefaultLinkColor (link: any): string {
+    const opacityMul = this.linkOpacity / 100;
+    if (this.highlightLinks.size > 0) {
+      if (this.highlightLinks.has(link)) {
+        if (link.type === LinkType.CrossWorkspace) return '#60CDFF';
+        if (link.broken) return `rgb(${LINK_RGB_BROKEN})`;
+        return '#ffffff';
+      }
+      return 'rgba(255,255,255,0.02)';
+    }
+
+    // Misconfigured datasource usages stay red and ignore the opacity slider
+    if (link.broken) return `rgba(${LINK_RGB_BROKEN},0.95)`;
+
+    // Snapshot comparison: new dependencies in green, removed ones faded
+    if (link.diffStatus === 'added') return `rgba(${LINK_RGB_DIFF_ADDED},0.95)`;
+    if (link.diffStatus === 'removed') return `rgba(${LINK_RGB_DIFF_REMOVED},${0.35 * opacityMul})`;
+
+    switch (link.type) {
+      // Cross-workspace: bright cyan — unmistakable
+      case LinkType.CrossWorkspace:
+        return `rgba(96,205,255,${0.95 * opacityMul})`;
+      // Contains: domain-colored, bright and saturated
+      case LinkType.Contains: {
+        const sourceId = typeof link.source === 'object' ? (link.source as any).id : link.source;
+        const sourceNode = this.nodeMap.get(sourceId);
+        if (sourceNode?.metadata?.domainId) {
+          return this.getDomainColorRGBA(sourceNode.metadata.domainId, 0.85 * opacityMul);
         }
-        return `rgba(255,200,80,${0.75 * opacityMul})`;
-      })
-      .linkWidth((link: any) => {
-        if (link.type === LinkType.CrossWorkspace) return 2.5;
-        if (link.type === LinkType.Contains) return 1.8;
-        return 1.5;
-      });
+        return `rgba(255,255,255,${0.5 * opacityMul})`;
+      }
+      case LinkType.ParentOf:
+        return `rgba(255,255,255,${0.5 * opacityMul})`;
+      case LinkType.DependsOn:
+        return `rgba(${LINK_RGB_DEPENDS_ON},${0.8 * opacityMul})`;
+      case LinkType.Visualizes:
+        return `rgba(${LINK_RGB_VISUALIZES},${0.75 * opacityMul})`;
+      case LinkType.Sources:
+        return `rgba(${LINK_RGB_SOURCES},${0.7 * opacityMul})`;
+      case LinkType.HasAccess:
+        return `rgba(${LINK_RGB_HAS_ACCESS},${0.6 * opacityMul})`;
+      default:
+        return `rgba(${LINK_RGB_FEEDS},${0.75 * opacityMul})`;
+    }
+  }
+
+  private getDefaultLinkWidth (link: any): number {
+    if (link.type === LinkType.CrossWorkspace) return 2.5;
+    if (link.type === LinkType.Contains) return 1.8;
+    if (link.type === LinkType.ParentOf) return 1.2;
+    if (link.broken) return 2.5;
+    return 1.5;
   }
 
   public zoomToFit (): void {
@@ -1800,9 +2378,21 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
   }
 
   public exportToJSON (): void {
+    // Strip renderer state (positions, THREE objects) and use readable type names
     const data = {
-      nodes: this.nodes,
-      links: this.links,
+      nodes: this.nodes.map(node => ({
+        id: node.id,
+        name: node.name,
+        type: NodeType[node.type],
+        workspaceId: node.workspaceId,
+        metadata: node.metadata
+      })),
+      links: this.links.map(link => ({
+        source: this.getLinkEndId(link.source),
+        target: this.getLinkEndId(link.target),
+        type: LinkType[link.type],
+        broken: link.broken
+      })),
       exportDate: new Date().toISOString()
     };
 
@@ -1872,16 +2462,7 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
         this.focusedNode = node;
         this.highlightNodes.clear();
         this.highlightLinks.clear();
-        this.highlightNodes.add(node);
-        this.links.forEach(link => {
-          const sourceId = typeof link.source === 'object' ? (link.source as any).id : link.source;
-          const targetId = typeof link.target === 'object' ? (link.target as any).id : link.target;
-          if (sourceId === node.id || targetId === node.id) {
-            this.highlightLinks.add(link);
-            const connectedNode = this.nodes.find(n => n.id === (sourceId === node.id ? targetId : sourceId));
-            if (connectedNode) this.highlightNodes.add(connectedNode);
-          }
-        });
+        this.highlightNeighbours(node);
         this.updateHighlight();
         break;
       case 'copyId':
@@ -1900,13 +2481,151 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
    * Opens side panel with details for the selected node
    */
   public openSidePanel (node: any): void {
+    if (this.fieldTraceNode) this.clearFieldTrace();
     this.sidePanelNode = node;
     this.showSidePanel = true;
+
+    this.sidePanelDataset = node.type === NodeType.SemanticModel
+      ? this.loadedScanResult?.workspaces?.find(workspace => workspace.id === node.workspaceId)?.datasets?.find(dataset => dataset.id === node.id)
+      : undefined;
+    if (!this.sidePanelDataset) this.sidePanelTab = 'details';
+    this.fieldLineage = this.sidePanelDataset ? buildFieldLineage(this.sidePanelDataset) : null;
+    this.fieldTraceNode = null;
+    this.schemaSearch = '';
+    this.expandedSchemaTables.clear();
+    this.expandedSchemaExpression = null;
+    this.onSchemaSearchChange();
+
+    if (this.isPrincipalNode(node)) {
+      this.runBlastRadius(node);
+    } else if (this.blastRadius) {
+      this.clearImpactAnalysis();
+    }
   }
 
   public closeSidePanel (): void {
+    if (this.fieldTraceNode) this.clearFieldTrace();
+    if (this.blastRadius) this.clearImpactAnalysis();
     this.showSidePanel = false;
     this.sidePanelNode = null;
+    this.sidePanelDataset = undefined;
+    this.fieldLineage = null;
+  }
+
+  // ========== SCHEMA BROWSER ==========
+
+  /** Re-filters the schema tree; while searching, every matching table is expanded */
+  public onSchemaSearchChange (): void {
+    this.schemaTables = filterDatasetSchema(this.sidePanelDataset?.tables ?? [], this.schemaSearch);
+    if (this.schemaSearch.trim()) {
+      this.expandedSchemaTables = new Set(this.schemaTables.map(table => table.name));
+    }
+  }
+
+  public toggleSchemaTable (tableName: string): void {
+    if (this.expandedSchemaTables.has(tableName)) {
+      this.expandedSchemaTables.delete(tableName);
+    } else {
+      this.expandedSchemaTables.add(tableName);
+    }
+  }
+
+  /**
+   * Shows or hides a measure's DAX or a table's M source
+   *
+   * @param key - `table/measure` for a measure, `table` for the table source
+   */
+  public toggleSchemaExpression (key: string): void {
+    this.expandedSchemaExpression = this.expandedSchemaExpression === key ? null : key;
+  }
+
+  public getTableSourceExpression (table: Table): string {
+    return getTableSourceExpression(table);
+  }
+
+  // ========== FIELD LINEAGE ==========
+
+  /** Data sources of the semantic model, each with the tables it feeds */
+  public getFieldLineageSources (): { source: FieldLineageNode; tables: string[] }[] {
+    if (!this.fieldLineage) return [];
+    return this.fieldLineage.nodes
+      .filter(node => node.kind === 'source')
+      .map(source => ({
+        source,
+        tables: this.fieldLineage!.edges
+          .filter(edge => edge.source === source.id && edge.target.startsWith('table:'))
+          .map(edge => edge.target.slice('table:'.length))
+      }));
+  }
+
+  /** Graph node of the Fabric item a source reads from (lakehouse, warehouse), if it's in the graph */
+  public getFieldSourceGraphNode (source: FieldLineageNode): Node | undefined {
+    return source.itemId ? this.nodes.find(node => node.id === source.itemId) : undefined;
+  }
+
+  public traceColumn (table: string, column: string): void {
+    this.traceField(getColumnNodeId(table, column));
+  }
+
+  public traceMeasure (measure: string): void {
+    this.traceField(getMeasureNodeId(measure));
+  }
+
+  public traceTable (table: string): void {
+    this.traceField(getTableNodeId(table));
+  }
+
+  /**
+   * Traces a table, column or measure: lists everything upstream and downstream
+   * of it in the model, and highlights the model's downstream reports and
+   * artifacts in the graph (report-level usage of single fields isn't in the scan)
+   *
+   * @param nodeId - Field lineage node ID
+   */
+  public traceField (nodeId: string): void {
+    const node = this.fieldLineage?.nodes.find(candidate => candidate.id === nodeId);
+    if (!this.fieldLineage || !node) return;
+
+    const byId = new Map(this.fieldLineage.nodes.map(candidate => [candidate.id, candidate]));
+    this.fieldTraceNode = node;
+    this.fieldTraceUpstream = traceFieldLineage(this.fieldLineage, nodeId, 'upstream').map(id => byId.get(id)!);
+    this.fieldTraceDownstream = traceFieldLineage(this.fieldLineage, nodeId, 'downstream').map(id => byId.get(id)!);
+    this.sidePanelTab = 'lineage';
+    this.runImpactAnalysis(this.sidePanelNode);
+  }
+
+  public clearFieldTrace (): void {
+    this.fieldTraceNode = null;
+    this.fieldTraceUpstream = [];
+    this.fieldTraceDownstream = [];
+    this.clearImpactAnalysis();
+  }
+
+  /** Reports, dashboards and other artifacts downstream of the traced field's semantic model */
+  public getFieldTraceArtifacts (): Node[] {
+    return this.nodes.filter(node => this.impactNodes.has(node.id) && node.type !== NodeType.Workspace);
+  }
+
+  public getFieldLineageLabel (node: FieldLineageNode): string {
+    switch (node.kind) {
+      case 'column': return `▫ ${node.table}[${node.name}]`;
+      case 'measure': return `∑ [${node.name}]`;
+      case 'table': return `🗂 ${node.name}`;
+      case 'expression': return `ƒ ${node.name}`;
+      default: return `🔌 ${node.detail ?? node.name}`;
+    }
+  }
+
+  /** Downloads the semantic model's schema (all tables, ignoring the search) as a data dictionary */
+  public exportDataDictionary (format: DataDictionaryFormat): void {
+    const dataset = this.sidePanelDataset;
+    if (!dataset?.tables?.length) return;
+    const baseName = `${dataset.name.replace(/[^\w.-]+/g, '_')}-data-dictionary`;
+    if (format === 'csv') {
+      this.scanService.saveAsFile(dataDictionaryToCsv(dataset.tables), `${baseName}.csv`, 'text/csv;charset=utf-8');
+    } else {
+      this.scanService.saveAsFile(dataDictionaryToMarkdown(dataset.name, dataset.tables), `${baseName}.md`, 'text/markdown;charset=utf-8');
+    }
   }
 
   // ========== STATUS BAR HELPERS ==========
@@ -1916,7 +2635,15 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
   }
 
   public getArtifactCount (): number {
-    return this.nodes.filter(n => n.type !== NodeType.Workspace).length;
+    return this.nodes.filter(isArtifactNode).length;
+  }
+
+  public getPrincipalCount (): number {
+    return this.nodes.filter(n => PRINCIPAL_NODE_TYPES.has(n.type)).length;
+  }
+
+  public getDatasourceCount (): number {
+    return this.nodes.filter(n => n.type === NodeType.Datasource).length;
   }
 
   public getCrossWorkspaceLinkCount (): number {
@@ -1928,6 +2655,7 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
     // Escape: close any open panel, clear highlights
     if (event.key === 'Escape') {
       if (this.showSidePanel) { this.closeSidePanel(); return; }
+      if (this.activePanel) { this.activePanel = null; return; }
       if (this.showLegendPanel) { this.showLegendPanel = false; return; }
       if (this.showEndorsementPanel) { this.showEndorsementPanel = false; return; }
       if (this.impactAnalysisActive) { this.clearImpactAnalysis(); return; }
@@ -2007,37 +2735,69 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
     return Array.from(typeCounts.entries())
       .map(([type, count]) => ({
         type,
-        label: NodeType[type],
+        label: type === NodeType.OtherFabricItem ? 'Other Fabric item' : NodeType[type],
         color: this.getNodeColor(type),
         count
       }))
       .sort((a, b) => b.count - a.count);
   }
 
-  /** Get upstream nodes for the side panel node */
+  /** Display name for a node's type — generic Fabric items include their API type */
+  public getNodeTypeLabel (node: Node): string {
+    if (node.type === NodeType.OtherFabricItem) {
+      return `Other Fabric item (${node.metadata?.fabricItemType})`;
+    }
+    return NodeType[node.type];
+  }
+
+  /** Get upstream nodes for the side panel node (lineage and parent links only, not containment) */
   public getSidePanelUpstream (): Node[] {
     if (!this.sidePanelNode) return [];
     return this.links
-      .filter(l => (l as any).target === this.sidePanelNode.id || (l as any).target?.id === this.sidePanelNode.id)
-      .map(l => {
-        const sourceId = typeof (l as any).source === 'string' ? (l as any).source : (l as any).source?.id;
-        return this.nodes.find(n => n.id === sourceId);
-      })
+      .filter(l => this.isDependencyLink(l) && this.getLinkEndId(l.target) === this.sidePanelNode.id)
+      .map(l => this.nodeMap.get(this.getLinkEndId(l.source)))
       .filter((n): n is Node => !!n && n.type !== NodeType.Workspace);
   }
 
-  /** Get downstream nodes for the side panel node */
+  /** Get downstream nodes for the side panel node (lineage and parent links only, not containment) */
   public getSidePanelDownstream (): Node[] {
     if (!this.sidePanelNode) return [];
     return this.links
-      .filter(l => (l as any).source === this.sidePanelNode.id || (l as any).source?.id === this.sidePanelNode.id)
-      .map(l => {
-        const targetId = typeof (l as any).target === 'string' ? (l as any).target : (l as any).target?.id;
-        return this.nodes.find(n => n.id === targetId);
-      })
+      .filter(l => this.isDependencyLink(l) && this.getLinkEndId(l.source) === this.sidePanelNode.id)
+      .map(l => this.nodeMap.get(this.getLinkEndId(l.target)))
       .filter((n): n is Node => !!n && n.type !== NodeType.Workspace);
   }
 
+  private getWorkspaceNode (workspaceId: string): Node | undefined {
+    const node = this.nodeMap.get(workspaceId);
+    return node?.type === NodeType.Workspace ? node : undefined;
+  }
+
+  /** Adds a node, its links and the nodes at their other ends to the highlight sets */
+  private highlightNeighbours (node: Node): void {
+    this.highlightNodes.add(node);
+    for (const link of this.nodeLinks.get(node.id) ?? []) {
+      this.highlightLinks.add(link);
+      const sourceId = this.getLinkEndId(link.source);
+      const connectedNode = this.nodeMap.get(sourceId === node.id ? this.getLinkEndId(link.target) : sourceId);
+      if (connectedNode) this.highlightNodes.add(connectedNode);
+    }
+  }
+
+  /** Link endpoints are IDs before the first render and node objects afterwards */
+  private getLinkEndId (end: any): string {
+    return typeof end === 'object' ? end?.id : end;
+  }
+
+  /** Links with the renderer's node objects mapped back to node IDs, for the analysis utilities */
+  private getLinksById (): { source: string; target: string; type: LinkType }[] {
+    return this.links.map(link => ({ ...link, source: this.getLinkEndId(link.source), target: this.getLinkEndId(link.target) }));
+  }
+
+  private isDependencyLink (link: Link): boolean {
+    return LINEAGE_LINK_TYPES.has(link.type) || link.type === LinkType.ParentOf;
+  }
+
   /** Get artifact count in a workspace for side panel */
   public getWorkspaceArtifactCount (): number {
     if (!this.sidePanelNode) return 0;
@@ -2045,23 +2805,23 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
   }
 
   public getWorkspaceName (workspaceId: string): string {
-    const ws = this.nodes.find(n => n.id === workspaceId && n.type === NodeType.Workspace);
-    return ws?.name || workspaceId;
+    return this.getWorkspaceNode(workspaceId)?.name || workspaceId;
   }
 
   public getSensitivityLabelName (labelId: string): string {
-    const labels: Record<string, string> = {
-      '00000000-0000-0000-0000-000000000004': 'Highly Confidential',
-      '00000000-0000-0000-0000-000000000003': 'Confidential',
-      '00000000-0000-0000-0000-000000000002': 'Internal',
-      '00000000-0000-0000-0000-000000000001': 'Public'
-    };
-    return labels[labelId] || labelId || 'None';
+    return this.labelCatalog.getName(labelId);
+  }
+
+  /** Whether the catalog counts a sensitivity label as sensitive (Confidential or higher by default) */
+  public isSensitiveLabel (labelId: string): boolean {
+    return this.labelCatalog.isSensitive(labelId);
   }
 
   /**
    * Impact Analysis: traces all downstream dependents from a node
-   * Walks the lineage graph using BFS to find everything affected
+   * Walks the lineage graph using BFS to find everything affected. Workspaces
+   * expand through Contains; artifacts follow lineage and parent links only,
+   * so CrossWorkspace edges don't pull in unrelated artifacts.
    */
   public runImpactAnalysis (fromNode?: any): void {
     const node = fromNode || this.sidePanelNode;
@@ -2081,9 +2841,10 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
       this.impactNodes.add(currentId);
 
       // Find all nodes that depend on current (current is their source/upstream)
-      for (const link of this.links) {
-        const sourceId = typeof (link as any).source === 'string' ? (link as any).source : (link as any).source?.id;
-        const targetId = typeof (link as any).target === 'string' ? (link as any).target : (link as any).target?.id;
+      for (const link of this.nodeLinks.get(currentId) ?? []) {
+        if (link.type === LinkType.CrossWorkspace) continue;
+        const sourceId = this.getLinkEndId(link.source);
+        const targetId = this.getLinkEndId(link.target);
 
         if (sourceId === currentId && !visited.has(targetId)) {
           queue.push(targetId);
@@ -2092,27 +2853,90 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
     }
 
     // Remove the source node itself from count
-    this.impactNodes.delete(this.sidePanelNode.id);
+    this.impactNodes.delete(node.id);
+    this.applyImpactHighlight(node.id);
+  }
 
-    // Apply visual highlighting
+  /** Dims everything outside the impact set and the node it was computed from */
+  private applyImpactHighlight (rootId: string): void {
     if (this.graphInstance) {
       this.graphInstance
-        .nodeOpacity((node: any) => {
-          return this.impactNodes.has(node.id) || node.id === this.sidePanelNode.id ? 1 : 0.1;
+        .nodeOpacity((n: any) => {
+          return this.impactNodes.has(n.id) || n.id === rootId ? 1 : 0.1;
         })
         .linkOpacity((link: any) => {
-          const sourceId = typeof link.source === 'string' ? link.source : link.source?.id;
-          const targetId = typeof link.target === 'string' ? link.target : link.target?.id;
-          return (this.impactNodes.has(sourceId) || sourceId === this.sidePanelNode.id) &&
-                 (this.impactNodes.has(targetId) || targetId === this.sidePanelNode.id) ? 1 : 0.03;
+          const sourceId = this.getLinkEndId(link.source);
+          const targetId = this.getLinkEndId(link.target);
+          return (this.impactNodes.has(sourceId) || sourceId === rootId) &&
+                 (this.impactNodes.has(targetId) || targetId === rootId) ? 1 : 0.03;
         });
     }
   }
 
+  public isPrincipalNode (node: any): boolean {
+    return !!node && PRINCIPAL_NODE_TYPES.has(node.type);
+  }
+
+  /**
+   * Blast radius of a principal: the workspaces and items it holds a role or
+   * permission on, plus everything inside the workspaces where it has a role.
+   * Shown with the impact analysis highlighting.
+   */
+  public runBlastRadius (principal: any): void {
+    this.impactNodes.clear();
+    this.impactAnalysisActive = true;
+
+    const roleWorkspaceIds = new Set<string>();
+    let directPermissions = 0;
+    for (const { node } of this.getPrincipalAccessTargets(principal)) {
+      this.impactNodes.add(node.id);
+      if (node.type === NodeType.Workspace) {
+        roleWorkspaceIds.add(node.id);
+      } else {
+        directPermissions++;
+      }
+    }
+
+    let viaWorkspaceRoles = 0;
+    for (const node of this.nodes) {
+      if (node.type === NodeType.Workspace || !roleWorkspaceIds.has(node.workspaceId) || this.impactNodes.has(node.id)) continue;
+      this.impactNodes.add(node.id);
+      viaWorkspaceRoles++;
+    }
+
+    this.blastRadius = {
+      workspaceRoles: roleWorkspaceIds.size,
+      directPermissions,
+      viaWorkspaceRoles,
+      labeled: this.nodes.filter(node => this.impactNodes.has(node.id) && node.metadata?.sensitivityLabel?.labelId).length
+    };
+    this.applyImpactHighlight(principal.id);
+  }
+
+  /** Workspaces and items a principal node links to, with the role or permission */
+  public getPrincipalAccessTargets (principal: any): { node: Node; accessRight: string }[] {
+    return (this.nodeLinks.get(principal.id) ?? [])
+      .filter(link => link.type === LinkType.HasAccess && this.getLinkEndId(link.source) === principal.id)
+      .map(link => ({ node: this.nodeMap.get(this.getLinkEndId(link.target))!, accessRight: link.accessRight ?? '' }))
+      .filter(target => !!target.node);
+  }
+
+  /** Shows or hides principals as graph nodes; the graph is rebuilt from the loaded scan */
+  public togglePrincipalGraphMode (): void {
+    if (!this.loadedScanResult || this.activeDiff) return;
+    this.principalGraphMode = !this.principalGraphMode;
+    this.closeSidePanel();
+    this.loadLineage(this.loadedScanResult, this.loadedScanOptions);
+  }
+
   /** Clear impact analysis highlighting */
   public clearImpactAnalysis (): void {
     this.impactNodes.clear();
     this.impactAnalysisActive = false;
+    this.blastRadius = null;
+    this.selectedDowngrade = null;
+    this.selectedStaleFinding = null;
+    this.staleHighlightAll = false;
     if (this.graphInstance) {
       this.graphInstance
         .nodeOpacity(1)
@@ -2122,7 +2946,7 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
 
   /** Get endorsement statistics across all artifacts */
   public getEndorsementStats (): { certified: number; promoted: number; none: number; total: number; certifiedPct: number; promotedPct: number } {
-    const artifacts = this.nodes.filter(n => n.type !== NodeType.Workspace);
+    const artifacts = this.nodes.filter(isArtifactNode);
     const certified = artifacts.filter(n => n.metadata?.endorsement === 'Certified').length;
     const promoted = artifacts.filter(n => n.metadata?.endorsement === 'Promoted').length;
     const none = artifacts.length - certified - promoted;
@@ -2137,10 +2961,10 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
   /** Get endorsement stats broken down by domain */
   public getEndorsementByDomain (): { name: string; certified: number; promoted: number; total: number }[] {
     const domainStats = new Map<string, { name: string; certified: number; promoted: number; total: number }>();
-    const artifacts = this.nodes.filter(n => n.type !== NodeType.Workspace);
+    const artifacts = this.nodes.filter(isArtifactNode);
 
     for (const node of artifacts) {
-      const ws = this.nodes.find(n => n.id === node.workspaceId && n.type === NodeType.Workspace);
+      const ws = this.getWorkspaceNode(node.workspaceId);
       const domainName = ws?.metadata?.domainName || 'Unassigned';
       if (!domainStats.has(domainName)) {
         domainStats.set(domainName, { name: domainName, certified: 0, promoted: 0, total: 0 });
@@ -2156,7 +2980,7 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
 
   /** Get sensitivity label compliance stats */
   public getSensitivityStats (): { labeled: number; unlabeled: number; total: number; labeledPct: number } {
-    const artifacts = this.nodes.filter(n => n.type !== NodeType.Workspace);
+    const artifacts = this.nodes.filter(isArtifactNode);
     const labeled = artifacts.filter(n => n.metadata?.sensitivityLabel).length;
     const unlabeled = artifacts.length - labeled;
     const total = artifacts.length || 1;
@@ -2166,6 +2990,18 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
     };
   }
 
+  /** Labeled items per label, most sensitive first; labels missing from the catalog are included */
+  public getSensitivityLabelCounts (): { label: ResolvedSensitivityLabel; count: number }[] {
+    const counts = new Map<string, number>();
+    for (const node of this.nodes) {
+      const labelId = node.metadata?.sensitivityLabel?.labelId;
+      if (labelId) counts.set(labelId, (counts.get(labelId) || 0) + 1);
+    }
+    return Array.from(counts.entries())
+      .map(([labelId, count]) => ({ label: this.labelCatalog.resolve(labelId), count }))
+      .sort((a, b) => b.label.priority - a.label.priority || b.count - a.count);
+  }
+
   /** Toggle sensitivity compliance view — highlights unlabeled artifacts */
   public toggleSensitivityCompliance (): void {
     this.showSensitivityCompliance = !this.showSensitivityCompliance;
@@ -2173,10 +3009,13 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
     if (!this.graphInstance) return;
 
     if (this.showSensitivityCompliance) {
+      const rule = DEFAULT_POLICY_PACK.rules.find(entry => entry.id === UNLABELED_ARTIFACTS_RULE_ID)!;
+      const [result] = evaluatePolicyPack({ ...DEFAULT_POLICY_PACK, rules: [rule] }, this.getPolicyContext());
+      const unlabeled = new Set(result.violations.map(violation => violation.node.id));
       this.graphInstance
         .nodeOpacity((node: any) => {
           if (node.type === NodeType.Workspace) return 0.4;
-          return node.metadata?.sensitivityLabel ? 0.15 : 1;
+          return unlabeled.has(node.id) ? 1 : 0.15;
         })
         .linkOpacity(0.05);
     } else {
@@ -2279,7 +3118,7 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
     this.draftAssignments.set(workspaceId, domainId);
 
     // Update visual immediately for preview
-    const node = this.nodes.find(n => n.id === workspaceId);
+    const node = this.nodeMap.get(workspaceId);
     if (node) {
       const domain = this.domains.find(d => d.id === domainId);
       if (domain) {
@@ -2301,7 +3140,7 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
    * Quick assign using suggested domain
    */
   public quickAssign (workspaceId: string): void {
-    const workspace = this.nodes.find(n => n.id === workspaceId);
+    const workspace = this.nodeMap.get(workspaceId);
     if (!workspace) return;
 
     const suggestedDomain = this.suggestDomain(workspace);
@@ -2413,14 +3252,11 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
       (error) => {
         console.error('✗ Failed to save assignments:', error);
 
-        let errorMessage = 'Failed to save domain assignments';
-        if (error.status === 403) {
-          errorMessage = 'You don\'t have permission to assign workspaces to domains';
-        } else if (error.error?.error?.message) {
-          errorMessage = error.error.error.message;
-        }
-
-        alert(`Assignment Error: ${errorMessage}\n\nYour visual changes will be reverted.`);
+        this.showApiError(
+          'Assignment error — visual changes reverted',
+          error,
+          error.status === 403 ? 'You don\'t have permission to assign workspaces to domains' : undefined
+        );
 
         // Revert all draft assignments
         this.cancelAssignments();
@@ -2434,7 +3270,7 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
   public cancelAssignments (): void {
     // Revert visual changes
     this.draftAssignments.forEach((domainId, workspaceId) => {
-      const node = this.nodes.find(n => n.id === workspaceId);
+      const node = this.nodeMap.get(workspaceId);
       if (node) {
         node.metadata.domainId = 'UNASSIGNED';
         node.metadata.domainName = '⚠️ Unassigned Workspaces';
@@ -2623,10 +3459,11 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
         if (node.type === NodeType.DataWarehouse && !this.showWarehouses) return false;
         if (node.type === NodeType.Report && !this.showReports) return false;
         if (node.type === NodeType.SemanticModel && !this.showDatasets) return false;
+        if (node.type === NodeType.Datasource && !this.showDatasources) return false;
 
         // Handle artifact nodes — hide if parent workspace is hidden
         if (node.workspaceId) {
-          const workspace = this.nodes.find(n => n.id === node.workspaceId && n.type === NodeType.Workspace);
+          const workspace = this.getWorkspaceNode(node.workspaceId);
           if (!workspace || !this.isWorkspaceVisible(workspace)) return false;
         }
 
@@ -2656,10 +3493,16 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
         // Link type filters
         if (link.type === LinkType.CrossWorkspace && !this.showCrossWorkspaceLinks) return false;
         if (link.type === LinkType.Contains && !this.showContainsLinks) return false;
+        if (link.type === LinkType.Feeds && !this.showFeedsLinks) return false;
+        if (link.type === LinkType.DependsOn && !this.showDependsOnLinks) return false;
+        if (link.type === LinkType.Visualizes && !this.showVisualizesLinks) return false;
+        if (link.type === LinkType.ParentOf && !this.showParentOfLinks) return false;
+        if (link.type === LinkType.Sources && !this.showSourcesLinks) return false;
+        if (link.type === LinkType.Sources && !this.showDatasources) return false;
 
         // Get actual node objects (force-graph uses node references after initial load)
-        const sourceNode = typeof link.source === 'object' ? link.source : this.nodes.find(n => n.id === link.source);
-        const targetNode = typeof link.target === 'object' ? link.target : this.nodes.find(n => n.id === link.target);
+        const sourceNode = typeof link.source === 'object' ? link.source : this.nodeMap.get(link.source);
+        const targetNode = typeof link.target === 'object' ? link.target : this.nodeMap.get(link.target);
 
         if (!sourceNode || !targetNode) return false;
 
@@ -2672,7 +3515,7 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
         } else {
           // Source is an artifact - check its workspace visibility
           if (sourceNode.workspaceId) {
-            const sourceWS = this.nodes.find(n => n.id === sourceNode.workspaceId && n.type === NodeType.Workspace);
+            const sourceWS = this.getWorkspaceNode(sourceNode.workspaceId);
             if (!sourceWS || !this.isWorkspaceVisible(sourceWS)) return false;
           }
         }
@@ -2683,7 +3526,7 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
         } else {
           // Target is an artifact - check its workspace visibility
           if (targetNode.workspaceId) {
-            const targetWS = this.nodes.find(n => n.id === targetNode.workspaceId && n.type === NodeType.Workspace);
+            const targetWS = this.getWorkspaceNode(targetNode.workspaceId);
             if (!targetWS || !this.isWorkspaceVisible(targetWS)) return false;
           }
         }
@@ -2711,8 +3554,14 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
     this.showWarehouses = true;
     this.showReports = true;
     this.showDatasets = true;
+    this.showDatasources = true;
     this.showCrossWorkspaceLinks = true;
     this.showContainsLinks = true;
+    this.showFeedsLinks = true;
+    this.showDependsOnLinks = true;
+    this.showVisualizesLinks = true;
+    this.showParentOfLinks = true;
+    this.showSourcesLinks = true;
     this.linkOpacity = 50;
     this.searchTerm = '';
 
@@ -2774,71 +3623,6 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
 
   // ========== END ADVANCED NAVIGATION FEATURES ==========
 
-  // Pre-computed deterministic anchor positions for each domain (Fibonacci sphere)
-  private domainAnchors = new Map<string, { x: number, y: number, z: number }>();
-
-  private computeDomainAnchors (): void {
-    // Collect domains sorted alphabetically for deterministic ordering
-    const domainIds = Array.from(new Set(
-      this.nodes
-        .filter((n: any) => n.type === NodeType.Workspace && n.metadata?.domainId)
-        .map((n: any) => n.metadata.domainId)
-    )).sort();
-
-    const n = domainIds.length;
-    if (n === 0) return;
-
-    // More space between domain clusters
-    const radius = 120 + n * 35;
-
-    // Fibonacci sphere: evenly distribute N points on a sphere
-    const goldenAngle = Math.PI * (3 - Math.sqrt(5));
-    domainIds.forEach((id: string, i: number) => {
-      const y = 1 - (i / (n - 1 || 1)) * 2; // y goes from 1 to -1
-      const radiusAtY = Math.sqrt(1 - y * y);
-      const theta = goldenAngle * i;
-      this.domainAnchors.set(id, {
-        x: Math.cos(theta) * radiusAtY * radius,
-        y: y * radius,
-        z: Math.sin(theta) * radiusAtY * radius
-      });
-    });
-  }
-
-  private createDomainClusterForce (): any {
-    const anchorStrength = 0.55; // Strong pull — keep workspaces tight within domain
-    const artifactStrength = 0.65; // Artifacts stay close to workspace
-
-    return (alpha: number) => {
-      // Build workspace position lookup for artifact attraction
-      const workspacePositions = new Map<string, { x: number, y: number, z: number }>();
-      this.nodes.forEach((node: any) => {
-        if (node.type === NodeType.Workspace) {
-          workspacePositions.set(node.id, { x: node.x || 0, y: node.y || 0, z: node.z || 0 });
-        }
-      });
-
-      this.nodes.forEach((node: any) => {
-        if (node.type === NodeType.Workspace && node.metadata?.domainId) {
-          const anchor = this.domainAnchors.get(node.metadata.domainId);
-          if (anchor) {
-            // Pull workspace toward its domain's fixed anchor position
-            node.vx += (anchor.x - (node.x || 0)) * anchorStrength * alpha;
-            node.vy += (anchor.y - (node.y || 0)) * anchorStrength * alpha;
-            node.vz += (anchor.z - (node.z || 0)) * anchorStrength * alpha;
-          }
-        } else if (node.type !== NodeType.Workspace && node.workspaceId) {
-          const wsPos = workspacePositions.get(node.workspaceId);
-          if (wsPos) {
-            node.vx += (wsPos.x - (node.x || 0)) * artifactStrength * alpha;
-            node.vy += (wsPos.y - (node.y || 0)) * artifactStrength * alpha;
-            node.vz += (wsPos.z - (node.z || 0)) * artifactStrength * alpha;
-          }
-        }
-      });
-    };
-  }
-
   private createBadgeMesh (svgPath: string, size: number): THREE.Mesh {
     const loader = new THREE.TextureLoader();
     const texture = loader.load(svgPath);
@@ -2853,14 +3637,4 @@ export class HomeContainerComponent implements OnInit, OnDestroy {
 
     return new THREE.Mesh(geometry, material);
   }
-
-  private async getWorkspacesScanFilesParallel (workspaceIds: string[]) {
-    let index = 0;
-    const observables = [];
-    while (index < workspaceIds.length) {
-      observables.push(this.getWorkspacesScanFiles(workspaceIds.slice(index, index + 100)));
-      index += 100;
-    }
-    forkJoin(observables).pipe(take(1)).subscribe();
-  }
 }
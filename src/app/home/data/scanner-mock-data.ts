@@ -62,7 +62,10 @@ const MOCK_USERS = {
   admin: { displayName: 'Sarah Chen', emailAddress: 'sarah.chen@contoso.com', identifier: 'user-001' },
   analyst: { displayName: 'Michael Brown', emailAddress: 'michael.brown@contoso.com', identifier: 'user-002' },
   viewer: { displayName: 'Emma Wilson', emailAddress: 'emma.wilson@contoso.com', identifier: 'user-003' },
-  contributor: { displayName: 'David Lee', emailAddress: 'david.lee@contoso.com', identifier: 'user-004' }
+  contributor: { displayName: 'David Lee', emailAddress: 'david.lee@contoso.com', identifier: 'user-004' },
+  guest: { displayName: 'Alex Rivera (Fabrikam)', emailAddress: 'alex.rivera_fabrikam.com#EXT#@contoso.onmicrosoft.com', identifier: 'user-005' },
+  financeTeam: { displayName: 'Finance Team', emailAddress: 'finance-team@contoso.com', identifier: 'group-finance-team' },
+  etlService: { displayName: 'Finance ETL Service', emailAddress: '', identifier: 'app-finance-etl' }
 };
 
 /**
@@ -258,6 +261,7 @@ export const MOCK_SCANNER_RESPONSE: WorkspaceInfoResponse = {
           modifiedDateTime: '2026-01-29T08:00:00Z',
           endorsementDetails: { endorsement: 'Certified', certifiedBy: MOCK_USERS.admin.emailAddress },
           sensitivityLabel: { labelId: SENSITIVITY_LABELS.CONFIDENTIAL },
+          datasourceUsages: [{ datasourceInstanceId: 'ds-001' }],
           users: [],
           tags: ['crm', 'salesforce', 'ingestion']
         },
@@ -269,6 +273,7 @@ export const MOCK_SCANNER_RESPONSE: WorkspaceInfoResponse = {
           modifiedDateTime: '2026-01-28T14:30:00Z',
           endorsementDetails: { endorsement: 'Certified', certifiedBy: MOCK_USERS.admin.emailAddress },
           sensitivityLabel: { labelId: SENSITIVITY_LABELS.CONFIDENTIAL },
+          datasourceUsages: [{ datasourceInstanceId: 'ds-002' }],
           users: [],
           tags: ['erp', 'sap', 'orders']
         }
@@ -423,7 +428,16 @@ export const MOCK_SCANNER_RESPONSE: WorkspaceInfoResponse = {
           sensitivityLabel: { labelId: SENSITIVITY_LABELS.INTERNAL },
           upstreamDatamarts: [{ targetDatamartId: ArtifactIds.lakehouse_sales_silver, groupId: 'ws-0007' }],
           tables: [
-            { name: 'FactSales', columns: [{ name: 'OrderID', dataType: 'Int64' }, { name: 'Revenue', dataType: 'Decimal' }] },
+            {
+              name: 'FactSales',
+              columns: [{ name: 'OrderID', dataType: 'Int64' }, { name: 'Revenue', dataType: 'Decimal' }, { name: 'CustomerID', dataType: 'Int64', isHidden: true }],
+              measures: [
+                { name: 'Total Revenue', expression: 'SUM(FactSales[Revenue])', description: 'Revenue across all orders' },
+                { name: 'Orders', expression: 'DISTINCTCOUNT(FactSales[OrderID])' },
+                { name: 'Revenue per Customer', expression: 'DIVIDE([Total Revenue], DISTINCTCOUNT(FactSales[CustomerID]))' }
+              ],
+              source: [{ expression: 'let\n    Source = Sql.Database("sales-silver.datawarehouse.fabric.microsoft.com", "SalesSilver"),\n    Orders = Source{[Schema="dbo",Item="orders"]}[Data]\nin\n    Orders' }]
+            },
             { name: 'DimCustomer', columns: [{ name: 'CustomerID', dataType: 'Int64' }, { name: 'CustomerName', dataType: 'String' }] },
             { name: 'DimProduct', columns: [{ name: 'ProductID', dataType: 'Int64' }, { name: 'ProductName', dataType: 'String' }] }
           ],
@@ -474,7 +488,10 @@ export const MOCK_SCANNER_RESPONSE: WorkspaceInfoResponse = {
           modifiedBy: MOCK_USERS.analyst.emailAddress,
           endorsementDetails: { endorsement: 'Certified', certifiedBy: MOCK_USERS.admin.emailAddress },
           sensitivityLabel: { labelId: SENSITIVITY_LABELS.CONFIDENTIAL },
-          users: [],
+          users: [
+            { ...MOCK_USERS.guest, principalType: 'User', reportUserAccessRight: 'Read', userType: 'Guest' },
+            { ...MOCK_USERS.viewer, principalType: 'User', reportUserAccessRight: 'ReadReshare', userType: 'Member' }
+          ],
           description: 'Interactive balance sheet drill-down',
           tags: ['balance-sheet', 'finance']
         }
@@ -494,7 +511,9 @@ export const MOCK_SCANNER_RESPONSE: WorkspaceInfoResponse = {
             { name: 'FactTransactions', columns: [{ name: 'TransactionID', dataType: 'Int64' }, { name: 'Amount', dataType: 'Decimal' }] },
             { name: 'DimAccount', columns: [{ name: 'AccountID', dataType: 'String' }, { name: 'AccountName', dataType: 'String' }] }
           ],
-          users: [],
+          users: [
+            { ...MOCK_USERS.financeTeam, principalType: 'Group', datasetUserAccessRight: 'ReadExplore' }
+          ],
           tags: ['gl', 'finance', 'accounting']
         }
       ],
@@ -507,6 +526,7 @@ export const MOCK_SCANNER_RESPONSE: WorkspaceInfoResponse = {
           modifiedDateTime: '2026-01-29T06:00:00Z',
           endorsementDetails: { endorsement: 'Certified', certifiedBy: MOCK_USERS.admin.emailAddress },
           sensitivityLabel: { labelId: SENSITIVITY_LABELS.HIGHLY_CONFIDENTIAL },
+          datasourceUsages: [{ datasourceInstanceId: 'ds-002' }],
           users: [],
           tags: ['sap', 'finance', 'etl']
         }
@@ -521,13 +541,16 @@ export const MOCK_SCANNER_RESPONSE: WorkspaceInfoResponse = {
           modifiedDateTime: '2026-01-29T07:00:00Z',
           endorsementDetails: { endorsement: 'Certified', certifiedBy: MOCK_USERS.admin.emailAddress },
           sensitivityLabel: { labelId: SENSITIVITY_LABELS.HIGHLY_CONFIDENTIAL },
+          datasourceUsages: [{ datasourceInstanceId: 'ds-004' }],
           upstreamDataflows: [{ targetDataflowId: ArtifactIds.dataflow_finance_sap, groupId: 'ws-0004' }],
           users: [],
           tags: ['warehouse', 'finance', 'dwh']
         }
       ],
       users: [
-        { ...MOCK_USERS.admin, principalType: 'User', groupUserAccessRight: 'Admin', graphId: 'graph-005' }
+        { ...MOCK_USERS.admin, principalType: 'User', groupUserAccessRight: 'Admin', graphId: 'graph-005' },
+        { ...MOCK_USERS.financeTeam, principalType: 'Group', groupUserAccessRight: 'Member' },
+        { ...MOCK_USERS.etlService, principalType: 'App', groupUserAccessRight: 'Admin' }
       ]
     },
 
@@ -663,7 +686,20 @@ export const MOCK_SCANNER_RESPONSE: WorkspaceInfoResponse = {
           sensitivityLabel: { labelId: SENSITIVITY_LABELS.HIGHLY_CONFIDENTIAL },
           tables: [
             { name: 'FactEmployees', columns: [{ name: 'EmployeeID', dataType: 'Int64' }] },
-            { name: 'DimDepartment', columns: [{ name: 'DepartmentID', dataType: 'Int64' }] }
+            { name: 'DimDepartment', columns: [{ name: 'DepartmentID', dataType: 'Int64' }, { name: 'ManagerEmail', dataType: 'String' }] }
+          ],
+          roles: [
+            {
+              name: 'Department Managers',
+              modelPermission: 'Read',
+              members: [{ memberName: 'HR Managers', memberId: 'group-hr-managers', memberType: 'Group', identityProvider: 'AzureAD' }],
+              tablePermissions: [{ name: 'DimDepartment', filterExpression: '[ManagerEmail] = USERPRINCIPALNAME()' }]
+            },
+            {
+              name: 'HR Leadership',
+              modelPermission: 'Read',
+              members: [{ memberName: MOCK_USERS.admin.emailAddress, memberId: 'user-admin', memberType: 'User', identityProvider: 'AzureAD' }]
+            }
           ],
           users: [],
           tags: ['hr', 'workforce', 'analytics']
@@ -678,6 +714,7 @@ export const MOCK_SCANNER_RESPONSE: WorkspaceInfoResponse = {
           modifiedDateTime: '2026-01-29T07:00:00Z',
           endorsementDetails: { endorsement: 'Certified', certifiedBy: MOCK_USERS.admin.emailAddress },
           sensitivityLabel: { labelId: SENSITIVITY_LABELS.HIGHLY_CONFIDENTIAL },
+          datasourceUsages: [{ datasourceInstanceId: 'ds-003' }],
           users: [],
           tags: ['workday', 'hr', 'etl']
         }
@@ -758,6 +795,7 @@ export const MOCK_SCANNER_RESPONSE: WorkspaceInfoResponse = {
           modifiedDateTime: '2026-01-29T08:00:00Z',
           endorsementDetails: { endorsement: 'Promoted' },
           sensitivityLabel: { labelId: SENSITIVITY_LABELS.INTERNAL },
+          misconfiguredDatasourceUsages: [{ datasourceInstanceId: 'ds-006' }],
           users: [],
           tags: ['google-analytics', 'web']
         }
@@ -1611,6 +1649,7 @@ export const MOCK_SCANNER_RESPONSE: WorkspaceInfoResponse = {
           targetStorageMode: 'Import',
           endorsementDetails: { endorsement: 'Certified', certifiedBy: MOCK_USERS.admin.emailAddress },
           sensitivityLabel: { labelId: SENSITIVITY_LABELS.HIGHLY_CONFIDENTIAL },
+          datasourceUsages: [{ datasourceInstanceId: 'ds-004' }],
           tables: [
             { name: 'FactGLTransactions', columns: [{ name: 'TransactionID', dataType: 'Int64' }] },
             { name: 'DimAccount', columns: [{ name: 'AccountNumber', dataType: 'String' }] }
@@ -1684,6 +1723,7 @@ export const MOCK_SCANNER_RESPONSE: WorkspaceInfoResponse = {
           targetStorageMode: 'DirectQuery',
           endorsementDetails: { endorsement: 'Promoted' },
           sensitivityLabel: { labelId: SENSITIVITY_LABELS.CONFIDENTIAL },
+          datasourceUsages: [{ datasourceInstanceId: 'ds-004' }],
           tables: [
             { name: 'FactInvoices', columns: [{ name: 'InvoiceID', dataType: 'String' }] },
             { name: 'FactPayments', columns: [{ name: 'PaymentID', dataType: 'String' }] }
@@ -1733,6 +1773,7 @@ export const MOCK_SCANNER_RESPONSE: WorkspaceInfoResponse = {
           targetStorageMode: 'Import',
           endorsementDetails: { endorsement: 'None' },
           sensitivityLabel: { labelId: SENSITIVITY_LABELS.INTERNAL },
+          datasourceUsages: [{ datasourceInstanceId: 'ds-005' }],
           tables: [
             { name: 'FactBills', columns: [{ name: 'BillID', dataType: 'String' }] }
           ],
@@ -1791,6 +1832,7 @@ export const MOCK_SCANNER_RESPONSE: WorkspaceInfoResponse = {
           targetStorageMode: 'Import',
           endorsementDetails: { endorsement: 'Certified', certifiedBy: MOCK_USERS.admin.emailAddress },
           sensitivityLabel: { labelId: SENSITIVITY_LABELS.HIGHLY_CONFIDENTIAL },
+          datasourceUsages: [{ datasourceInstanceId: 'ds-004' }, { datasourceInstanceId: 'ds-003' }],
           tables: [
             { name: 'FactCashTransactions', columns: [{ name: 'TransactionID', dataType: 'Int64' }] },
             { name: 'FactCashForecast', columns: [{ name: 'ForecastDate', dataType: 'DateTime' }] }
@@ -2940,9 +2982,35 @@ export const MOCK_SCANNER_RESPONSE: WorkspaceInfoResponse = {
         url: 'https://api.workday.com/v1'
       },
       datasourceId: 'ds-003'
+    },
+    {
+      datasourceType: 'Sql',
+      connectionDetails: {
+        server: 'sql-finance.database.windows.net',
+        database: 'FinanceDW'
+      },
+      datasourceId: 'ds-004',
+      gatewayId: 'gateway-002'
+    },
+    {
+      // Same server/database as ds-004 registered through a second connection
+      datasourceType: 'Sql',
+      connectionDetails: {
+        server: 'SQL-FINANCE.database.windows.net',
+        database: 'FinanceDW'
+      },
+      datasourceId: 'ds-005'
     }
   ],
-  misconfiguredDatasourceInstances: []
+  misconfiguredDatasourceInstances: [
+    {
+      datasourceType: 'Web',
+      connectionDetails: {
+        url: 'https://analytics.google.com/legacy/v3'
+      },
+      datasourceId: 'ds-006'
+    }
+  ]
 };
 
 // Update domain workspace assignments
@@ -2990,4 +3058,7 @@ export const MOCK_FABRIC_ITEMS: FabricItemResponse[] = [
   // IT — Infrastructure Monitoring workspace
   { id: 'fab-item-013', type: 'Eventstream', displayName: 'Infrastructure Event Stream', workspaceId: wsLookup('IT - Infrastructure Monitoring') },
   { id: 'fab-item-014', type: 'KQLDatabase', displayName: 'Infrastructure Logs DB', workspaceId: wsLookup('IT - Infrastructure Monitoring') },
+  // Item types without a dedicated node type render as "Other Fabric item"
+  { id: 'fab-item-015', type: 'Environment', displayName: 'Spark Runtime Environment', workspaceId: wsLookup('Data Engineering - ETL Pipelines') },
+  { id: 'fab-item-016', type: 'Reflex', displayName: 'Equipment Alerts', workspaceId: wsLookup('IT - Infrastructure Monitoring') },
 ];
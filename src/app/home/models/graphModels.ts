@@ -1,3 +1,5 @@
+import type { SensitivityLabel } from './scanner-api.types';
+
 export enum NodeType {
   Workspace,
   Dashboard,
@@ -25,14 +27,58 @@ export enum NodeType {
   // Other Fabric types
   Datamart,
   PaginatedReport,
-  App
+  App,
+  // External sources (one node per unique server/database/url)
+  Datasource,
+  // Fabric item type the graph has no dedicated node type for yet
+  OtherFabricItem,
+  // Principals with access (principal graph mode)
+  User,
+  Group,
+  ServicePrincipal
 }
 
+/** Node types of the principal graph mode — they have no workspace */
+export const PRINCIPAL_NODE_TYPES: ReadonlySet<NodeType> = new Set([
+  NodeType.User,
+  NodeType.Group,
+  NodeType.ServicePrincipal
+]);
+
 export enum LinkType {
-  CrossWorkspace,
-  Contains,
+  CrossWorkspace, // Workspace → workspace that consumes its data
+  Contains, // Workspace → artifact it holds
+  DependsOn, // Semantic model → composite model built on top of it
+  Feeds, // Dataflow/datamart → artifact it loads data into
+  Visualizes, // Semantic model → report, report → dashboard
+  ParentOf, // Lakehouse → its SQL Analytics Endpoint
+  Sources, // Datasource → artifact that reads from it
+  HasAccess // Principal → workspace or artifact it holds a role or permission on
 }
 
+/** Link types that carry data between artifacts (impact analysis follows these) */
+export const LINEAGE_LINK_TYPES: ReadonlySet<LinkType> = new Set([
+  LinkType.DependsOn,
+  LinkType.Feeds,
+  LinkType.Visualizes,
+  LinkType.Sources
+]);
+
+/** Human-readable link type names for tooltips, legends and exports */
+export const LINK_TYPE_LABELS: Record<LinkType, string> = {
+  [LinkType.CrossWorkspace]: 'Cross-workspace',
+  [LinkType.Contains]: 'Contains',
+  [LinkType.DependsOn]: 'Depends on',
+  [LinkType.Feeds]: 'Feeds',
+  [LinkType.Visualizes]: 'Visualizes',
+  [LinkType.ParentOf]: 'Parent of',
+  [LinkType.Sources]: 'Sources',
+  [LinkType.HasAccess]: 'Has access'
+};
+
+/** How a node or link differs between two compared snapshots */
+export type DiffStatus = 'added' | 'removed' | 'changed';
+
 export interface Node {
   id: string;
   type: NodeType;
@@ -40,17 +86,59 @@ export interface Node {
   workspaceId: string;
   crossDownstreamWSIds?: string[];
   crossUpstreamWSIds?: string[];
+  /** Start position from the off-thread layout pass — the renderer owns it afterwards */
+  x?: number;
+  y?: number;
+  z?: number;
   metadata?: {
     endorsement?: string;
     certifiedBy?: string;
-    sensitivityLabel?: string;
+    sensitivityLabel?: SensitivityLabel;
     description?: string;
     [key: string]: any;
   };
 }
 
+/** Whether a node is an item of a workspace — not a workspace, datasource hub or principal */
+export function isArtifactNode (node: Node): boolean {
+  return node.type !== NodeType.Workspace && node.type !== NodeType.Datasource && !PRINCIPAL_NODE_TYPES.has(node.type);
+}
+
 export interface Link {
   source: string;
   target: string;
   type: LinkType;
+  /** Set on Sources links built from misconfiguredDatasourceUsages */
+  broken?: boolean;
+  /** Set on HasAccess links: the workspace role or artifact permission */
+  accessRight?: string;
+  /** Set while a snapshot comparison is shown */
+  diffStatus?: DiffStatus;
+}
+
+/**
+ * Counters collected while building a lineage graph, useful for logging and tests
+ */
+export interface LineageDiagnostics {
+  workspaceCount: number;
+  unassignedWorkspaceCount: number;
+  deletedWorkspaceCount: number;
+  artifactCount: number;
+  fabricItemCount: number;
+  skippedFabricItemCount: number;
+  datasourceCount: number;
+  principalCount: number;
+  brokenDatasourceUsageCount: number;
+  danglingLinkCount: number;
+  orphanedNodeCount: number;
+  truncatedWorkspaceCount: number;
+}
+
+/**
+ * Immutable result of the lineage pipeline — consumers must copy before mutating
+ */
+export interface LineageGraph {
+  readonly nodes: ReadonlyArray<Readonly<Node>>;
+  readonly links: ReadonlyArray<Readonly<Link>>;
+  readonly diagnostics: Readonly<LineageDiagnostics>;
 }
@@ -9,6 +9,32 @@ export interface WorkspaceInfoResponse {
   misconfiguredDatasourceInstances: Datasource[];
 }
 
+/**
+ * Scan request state returned by getInfo and scanStatus
+ * Based on: https://learn.microsoft.com/en-us/rest/api/power-bi/admin/workspace-info-get-scan-status
+ */
+export interface ScanRequest {
+  id: string;
+  createdDateTime?: string;
+  status: 'NotStarted' | 'Running' | 'Succeeded' | 'Failed';
+  error?: { code: string; message?: string };
+}
+
+/**
+ * Optional metadata requested from getInfo (lineage is always requested)
+ * Based on: https://learn.microsoft.com/en-us/rest/api/power-bi/admin/workspace-info-post-workspace-info
+ */
+export interface ScanOptions {
+  /** Tables, columns and measures of semantic models (needs the "detailed metadata" tenant setting) */
+  datasetSchema: boolean;
+  /** DAX and M expressions, and RLS roles (needs the "DAX and mashup expressions" tenant setting) */
+  datasetExpressions: boolean;
+  /** Users and their access rights on workspaces and items */
+  getArtifactUsers: boolean;
+  /** Connection details of datasources */
+  datasourceDetails: boolean;
+}
+
 export interface WorkspaceInfo {
   id: string;
   name: string;
@@ -150,6 +176,10 @@ export interface Column {
   dataType: string;
   isHidden?: boolean;
   description?: string;
+  /** DAX of a calculated column (returned with datasetExpressions) */
+  expression?: string;
+  /** `Data`, `Calculated` or `CalculatedTableColumn` */
+  columnType?: string;
 }
 
 export interface Measure {
@@ -314,8 +344,37 @@ export interface FabricDomainResponse {
  */
 export interface FabricItemResponse {
   id: string;
-  type: string;           // 'Notebook' | 'Pipeline' | 'Lakehouse' | 'Warehouse' | 'Eventstream' etc.
+  type: string;           // 'Notebook' | 'DataPipeline' | 'Lakehouse' | 'Warehouse' | 'Eventstream' etc.
   displayName: string;
   description?: string;
   workspaceId: string;
 }
+
+/** Raw item as returned by the Fabric admin or workspace items APIs */
+export interface FabricItemEntity {
+  id: string;
+  type: string;
+  name?: string;
+  displayName?: string;
+  description?: string;
+  workspaceId: string;
+}
+
+/**
+ * One page of the Fabric List Items API
+ * The admin API returns `itemEntities` with `name`; the workspace API returns `value` with `displayName`
+ */
+export interface FabricItemsPage {
+  itemEntities?: FabricItemEntity[];
+  value?: FabricItemEntity[];
+  continuationToken?: string;
+  continuationUri?: string;
+}
+
+/**
+ * Merged result of a live scan: Scanner API output plus Fabric items for the scanned workspaces
+ * Saved as-is by "download JSON", so reloading the file restores the items too
+ */
+export interface TenantScanResult extends WorkspaceInfoResponse {
+  fabricItems?: FabricItemResponse[];
+}
@@ -0,0 +1,80 @@
+/**
+ * GraphBuildService - Builds and lays out lineage graphs off the UI thread
+ *
+ * Runs LineageGraphBuilder and an initial force-layout pass in a Web Worker,
+ * so tenants with tens of thousands of artifacts load without freezing the
+ * tab. Falls back to the main thread where workers are unavailable.
+ */
+
+import { Injectable } from '@angular/core';
+import { LineageGraph } from '../models/graphModels';
+import type { WorkspaceInfoResponse } from '../models/scanner-api.types';
+import { computeLayout } from '../utils/graph-layout';
+import { LineageBuildOptions, LineageGraphBuilder } from './lineage-graph-builder.service';
+
+export interface GraphBuildRequest {
+  scanResult: Partial<WorkspaceInfoResponse>;
+  options: LineageBuildOptions;
+  /** Force-layout ticks to precompute (0 = leave the layout to the renderer) */
+  layoutTicks: number;
+  /** Time limit for the layout pass, so huge tenants still render promptly */
+  layoutTimeBudgetMs?: number;
+}
+
+export interface GraphBuildResult {
+  graph: LineageGraph;
+  /** x, y, z per node in `graph.nodes` order, when a layout was requested */
+  positions?: Float32Array;
+}
+
+export type GraphBuildPhase = 'build' | 'layout';
+
+/** Messages posted by the graph build worker */
+export type GraphBuildWorkerMessage =
+  | { type: 'progress'; phase: GraphBuildPhase; nodeCount?: number }
+  | { type: 'done'; result: GraphBuildResult }
+  | { type: 'error'; message: string };
+
+@Injectable({ providedIn: 'root' })
+export class GraphBuildService {
+  constructor (private graphBuilder: LineageGraphBuilder) {}
+
+  /**
+   * Builds the lineage graph for a scan result and precomputes its layout
+   *
+   * @param request - Scan result, build options and layout ticks
+   * @param onProgress - Called when the worker moves on to the next phase
+   * @returns Graph plus start positions (graphs from the worker are plain copies, not frozen)
+   */
+  public build (request: GraphBuildRequest, onProgress?: (phase: GraphBuildPhase, nodeCount?: number) => void): Promise<GraphBuildResult> {
+    if (typeof Worker === 'undefined') {
+      return Promise.resolve(this.buildOnMainThread(request));
+    }
+
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('./graph-build.worker', import.meta.url), { type: 'module' });
+      worker.onmessage = ({ data }: MessageEvent<GraphBuildWorkerMessage>) => {
+        if (data.type === 'progress') {
+          onProgress?.(data.phase, data.nodeCount);
+          return;
+        }
+        worker.terminate();
+        if (data.type === 'done') {
+          resolve(data.result);
+        } else {
+          reject(new Error(data.message));
+        }
+      };
+      worker.onerror = event => {
+        worker.terminate();
+        reject(new Error(`Graph build failed: ${event.message}`));
+      };
+      worker.postMessage(request);
+    });
+  }
+
+  private buildOnMainThread ({ scanResult, options, layoutTicks, layoutTimeBudgetMs }: GraphBuildRequest): GraphBuildResult {
+    const graph = this.graphBuilder.build(scanResult, options);
+    return { graph, positions: layoutTicks > 0 ? computeLayout(graph, layoutTicks, layoutTimeBudgetMs) : undefined };
+  }
+}
@@ -0,0 +1,34 @@
+/// <reference lib="webworker" />
+
+/**
+ * Graph build worker - builds the lineage graph and its initial layout off the UI thread
+ *
+ * Receives a GraphBuildRequest, posts a progress message per phase and the
+ * graph with its node positions (transferred, not copied).
+ */
+
+import { computeLayout } from '../utils/graph-layout';
+import { LineageGraphBuilder } from './lineage-graph-builder.service';
+import type { GraphBuildRequest, GraphBuildWorkerMessage } from './graph-build.service';
+
+function post (message: GraphBuildWorkerMessage, transfer: ArrayBuffer[] = []): void {
+  postMessage(message, transfer);
+}
+
+addEventListener('message', ({ data }: MessageEvent<GraphBuildRequest>) => {
+  try {
+    post({ type: 'progress', phase: 'build' });
+    const graph = new LineageGraphBuilder().build(data.scanResult, data.options);
+
+    if (data.layoutTicks <= 0) {
+      post({ type: 'done', result: { graph } });
+      return;
+    }
+
+    post({ type: 'progress', phase: 'layout', nodeCount: graph.nodes.length });
+    const positions = computeLayout(graph, data.layoutTicks, data.layoutTimeBudgetMs);
+    post({ type: 'done', result: { graph, positions } }, [positions.buffer]);
+  } catch (e) {
+    post({ type: 'error', message: e?.message ?? String(e) });
+  }
+});
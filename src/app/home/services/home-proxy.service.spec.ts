@@ -0,0 +1,76 @@
+import { HttpClient, HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { ActivatedRoute } from '@angular/router';
+import { Observable, defer, of, throwError } from 'rxjs';
+import { HomeProxy } from './home-proxy.service';
+import { AuthService } from 'src/app/services/auth.service';
+import { EnvironmentRegistry } from 'src/app/services/environment-registry.service';
+import type { FabricItemsPage } from '../models/scanner-api.types';
+
+const NO_DELAY = { maxRetries: 2, baseRetryDelayMs: 0, maxRetryDelayMs: 0 };
+
+/** Answers admin Items API calls from scripted responses keyed by continuation token ('' = first page) */
+class MockItemsApi {
+  public requests: Record<string, string>[] = [];
+
+  constructor (private pages: Record<string, (FabricItemsPage | HttpErrorResponse)[]>) {}
+
+  public get (url: string, options: { params: Record<string, string> }): Observable<FabricItemsPage> {
+    return defer(() => {
+      this.requests.push(options.params);
+      const script = this.pages[options.params.continuationToken ?? ''];
+      const response = script.length > 1 ? script.shift()! : script[0];
+      return response instanceof HttpErrorResponse ? throwError(() => response) : of(response);
+    });
+  }
+}
+
+function itemEntity (id: string, workspaceId: string) {
+  return { id, type: 'Notebook', name: `Item ${id}`, workspaceId };
+}
+
+function createProxy (api: MockItemsApi): HomeProxy {
+  const environments = new EnvironmentRegistry({} as HttpClient);
+  const route = { snapshot: { queryParams: {} } } as unknown as ActivatedRoute;
+  return new HomeProxy(api as unknown as HttpClient, new AuthService({} as HttpClient, environments), environments, route);
+}
+
+describe('HomeProxy', () => {
+  it('should list the tenant\'s items by following continuationToken to the last page', async () => {
+    const api = new MockItemsApi({
+      '': [{ itemEntities: [itemEntity('nb-1', 'ws-1')], continuationToken: 'page-2' }],
+      'page-2': [{ itemEntities: [itemEntity('nb-2', 'ws-2'), itemEntity('nb-3', 'ws-1')], continuationToken: 'page-3' }],
+      'page-3': [{ itemEntities: [] }]
+    });
+
+    const items = await createProxy(api).getAllItems(NO_DELAY).toPromise();
+
+    expect(api.requests).toEqual([{}, { continuationToken: 'page-2' }, { continuationToken: 'page-3' }]);
+    expect(items).toEqual([
+      { id: 'nb-1', type: 'Notebook', displayName: 'Item nb-1', description: undefined, workspaceId: 'ws-1' },
+      { id: 'nb-2', type: 'Notebook', displayName: 'Item nb-2', description: undefined, workspaceId: 'ws-2' },
+      { id: 'nb-3', type: 'Notebook', displayName: 'Item nb-3', description: undefined, workspaceId: 'ws-1' }
+    ]);
+  });
+
+  it('should retry a throttled page without restarting the listing', async () => {
+    const throttled = new HttpErrorResponse({ status: 429, headers: new HttpHeaders({ 'Retry-After': '0' }) });
+    const api = new MockItemsApi({
+      '': [{ itemEntities: [itemEntity('nb-1', 'ws-1')], continuationToken: 'page-2' }],
+      'page-2': [throttled, { itemEntities: [itemEntity('nb-2', 'ws-2')] }]
+    });
+
+    const items = await createProxy(api).getAllItems(NO_DELAY).toPromise();
+
+    expect(api.requests).toEqual([{}, { continuationToken: 'page-2' }, { continuationToken: 'page-2' }]);
+    expect(items!.map(item => item.id)).toEqual(['nb-1', 'nb-2']);
+  });
+
+  it('should fail once a page keeps failing', async () => {
+    const api = new MockItemsApi({ '': [new HttpErrorResponse({ status: 503 })] });
+
+    const error = await createProxy(api).getAllItems(NO_DELAY).toPromise().catch(e => e);
+
+    expect(error.status).toBe(503);
+    expect(api.requests.length).toBe(3);
+  });
+});
@@ -1,78 +1,60 @@
 import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable, forkJoin, of } from 'rxjs';
+import { BehaviorSubject, Observable, EMPTY, forkJoin, of } from 'rxjs';
+import { expand, map, reduce } from 'rxjs/operators';
 import { HttpClient } from '@angular/common/http';
 import { AuthService } from 'src/app/services/auth.service';
+import { fabricApiContext } from 'src/app/services/fabric-api.interceptor';
+import { CloudEnvironment, EnvironmentRegistry, toBaseUrl } from 'src/app/services/environment-registry.service';
 import { ActivatedRoute } from '@angular/router';
+import type { FabricItemResponse, FabricItemsPage, ScanOptions } from '../models/scanner-api.types';
+import { DEFAULT_SCAN_OPTIONS, toScanInfoQuery } from '../utils/scan-options';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, retryTransient } from '../utils/http-retry';
 declare let saveAs: any;
 
 @Injectable({ providedIn: 'root' })
 export class HomeProxy {
-  private token: string;
-
   constructor (private httpService: HttpClient,
     private authService: AuthService,
-    private route: ActivatedRoute) {
-    this.authService.getToken().subscribe((token: string) => {
-      this.token = token.replace(/Bearer /g, '');
-    });
-  }
+    private environments: EnvironmentRegistry,
+    private route: ActivatedRoute) { }
 
-  public async getModifedWorkspaces (): Promise<Observable<any>> {
-    const apiUrl: string = this.getEnvironment().apiUrl;
-
-    const req = {
-      method: 'GET',
-      url: `https://${apiUrl}/v1.0/myorg/admin/workspaces/modified?excludePersonalWorkspaces=false`,
-      headers: {
-        'Content-Type': 'application/json',
-        authorization: 'Bearer ' + this.token,
-        'X-POWERBI-ADMIN-CLIENT-NAME': 'FabricBEye'
-      }
-    };
+  /**
+   * List workspace IDs, optionally only those modified since a point in time
+   *
+   * @param modifiedSince - ISO 8601 UTC timestamp (the API accepts up to 30 days back)
+   */
+  public async getModifedWorkspaces (modifiedSince?: string): Promise<Observable<any>> {
+    const apiUrl: string = toBaseUrl(this.getEnvironment().apiUrl);
+    const modifiedSinceQuery = modifiedSince ? `&modifiedSince=${encodeURIComponent(modifiedSince)}` : '';
 
-    return this.httpService.get(req.url, req);
+    return this.httpService.get(
+      `${apiUrl}/v1.0/myorg/admin/workspaces/modified?excludePersonalWorkspaces=false${modifiedSinceQuery}`,
+      { context: fabricApiContext() }
+    );
   }
 
-  public getWorkspacesInfo (workspaceArray: string[]): Observable<any> {
-    const apiUrl: string = this.getEnvironment().apiUrl;
-    const req = {
-      method: 'POST',
-      url: `https://${apiUrl}/v1.0/myorg/admin/workspaces/getInfo?lineage=true`,
-      headers: {
-        authorization: 'Bearer ' + this.token,
-        'X-POWERBI-ADMIN-CLIENT-NAME': 'FabricBEye'
-      }
-    };
-
-    return this.httpService.post(req.url, { workspaces: workspaceArray }, req);
+  /**
+   * Start a scan of up to 100 workspaces
+   *
+   * @param options - Metadata to include besides lineage (schema, expressions, users, datasource details)
+   */
+  public getWorkspacesInfo (workspaceArray: string[], options: ScanOptions = DEFAULT_SCAN_OPTIONS): Observable<any> {
+    const apiUrl: string = toBaseUrl(this.getEnvironment().apiUrl);
+    return this.httpService.post(
+      `${apiUrl}/v1.0/myorg/admin/workspaces/getInfo?${toScanInfoQuery(options)}`,
+      { workspaces: workspaceArray },
+      { context: fabricApiContext() }
+    );
   }
 
   public getWorkspacesScanStatus (scanId: string): Observable<any> {
-    const apiUrl: string = this.getEnvironment().apiUrl;
-    const req = {
-      method: 'GET',
-      url: `https://${apiUrl}/v1.0/myorg/admin/workspaces/scanStatus/${scanId}`,
-      headers: {
-        'Content-Type': 'application/json',
-        authorization: 'Bearer ' + this.token
-      }
-    };
-
-    return this.httpService.get(req.url, req);
+    const apiUrl: string = toBaseUrl(this.getEnvironment().apiUrl);
+    return this.httpService.get(`${apiUrl}/v1.0/myorg/admin/workspaces/scanStatus/${scanId}`, { context: fabricApiContext() });
   }
 
   public getWorkspacesScanResult (scanId: string): Observable<any> {
-    const apiUrl: string = this.getEnvironment().apiUrl;
-    const req = {
-      method: 'GET',
-      url: `https://${apiUrl}/v1.0/myorg/admin/workspaces/scanResult/${scanId}`,
-      headers: {
-        'Content-Type': 'application/json',
-        authorization: 'Bearer ' + this.token
-      }
-    };
-
-    return this.httpService.get(req.url, req);
+    const apiUrl: string = toBaseUrl(this.getEnvironment().apiUrl);
+    return this.httpService.get(`${apiUrl}/v1.0/myorg/admin/workspaces/scanResult/${scanId}`, { context: fabricApiContext() });
   }
 
   /**
@@ -80,21 +62,15 @@ export class HomeProxy {
    * More efficient than individual calls for bulk operations
    */
   public batchAssignWorkspacesToDomains (assignments: Array<{workspaceId: string, domainId: string}>): Observable<any> {
-    const apiUrl: string = this.getEnvironment().apiUrl;
+    const apiUrl: string = toBaseUrl(this.getEnvironment().apiUrl);
 
     // Note: If Fabric doesn't support batch, we'll need to use forkJoin for parallel calls
     // For now, implementing as sequential with Observable.concat for reliability
     const observables = assignments.map(assignment =>
       this.httpService.post(
-        `https://${apiUrl}/v1.0/myorg/admin/workspaces/${assignment.workspaceId}/assignToDomain`,
+        `${apiUrl}/v1.0/myorg/admin/workspaces/${assignment.workspaceId}/assignToDomain`,
         { domainId: assignment.domainId },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            authorization: 'Bearer ' + this.token,
-            'X-POWERBI-ADMIN-CLIENT-NAME': 'FabricBEye'
-          }
-        }
+        { context: fabricApiContext() }
       )
     );
 
@@ -106,71 +82,64 @@ export class HomeProxy {
    * Based on: https://learn.microsoft.com/en-us/rest/api/fabric/admin/domains/list-domains
    */
   public getDomains (): Observable<any> {
-    const apiUrl: string = this.getEnvironment().apiUrl;
-    return this.httpService.get(
-      `https://${apiUrl}/v1/admin/domains`,
-      {
-        headers: {
-          'Content-Type': 'application/json',
-          authorization: 'Bearer ' + this.token,
-          'X-POWERBI-ADMIN-CLIENT-NAME': 'FabricBEye'
-        }
-      }
-    );
+    const apiUrl: string = toBaseUrl(this.getEnvironment().apiUrl);
+    return this.httpService.get(`${apiUrl}/v1/admin/domains`, { context: fabricApiContext() });
   }
 
   /**
-   * Get Fabric-native items (Notebooks, Pipelines, Lakehouses, etc.)
+   * Get one page of Fabric-native items (Notebooks, Pipelines, Lakehouses, etc.)
    * Based on: https://learn.microsoft.com/en-us/rest/api/fabric/admin/items/list-items
+   *
+   * @param workspaceId - Restrict the listing to one workspace (whole tenant when omitted)
+   * @param continuationToken - Token from the previous page
    */
-  public getItems (workspaceId?: string): Observable<any> {
-    const apiUrl: string = this.getEnvironment().apiUrl;
-    const url = workspaceId
-      ? `https://${apiUrl}/v1/admin/workspaces/${workspaceId}/items`
-      : `https://${apiUrl}/v1/admin/items`;
-    return this.httpService.get(url, {
-      headers: {
-        'Content-Type': 'application/json',
-        authorization: 'Bearer ' + this.token,
-        'X-POWERBI-ADMIN-CLIENT-NAME': 'FabricBEye'
-      }
+  public getItems (workspaceId?: string, continuationToken?: string): Observable<FabricItemsPage> {
+    const fabricApiUrl: string = toBaseUrl(this.getEnvironment().fabricApiUrl);
+    const params: Record<string, string> = {};
+    if (workspaceId) params.workspaceId = workspaceId;
+    if (continuationToken) params.continuationToken = continuationToken;
+
+    return this.httpService.get<FabricItemsPage>(`${fabricApiUrl}/v1/admin/items`, {
+      params,
+      context: fabricApiContext()
     });
   }
 
-  public getEnvironment (): { apiUrl: string, url: string } {
-    const env: string = this.route.snapshot.queryParams.env;
-    const envLowerCase: string = env ? env.toLocaleLowerCase() : env;
-    switch (envLowerCase) {
-      case 'edog':
-      case 'idog': {
-        return {
-          apiUrl: 'biazure-int-edog-redirect.analysis-df.windows.net',
-          url: 'https://powerbi-idog.analysis.windows-int.net/'
-        };
-      }
-      case 'dxt': {
-        return {
-          apiUrl: 'wabi-staging-us-east-redirect.analysis.windows.net',
-          url: 'https://dxt.powerbi.com/'
-        };
-      }
-      case 'msit': {
-        return {
-          apiUrl: 'df-msit-scus-redirect.analysis.windows.net',
-          url: 'https://msit.powerbi.com'
-        };
-      }
-      case 'prod': {
-        return {
-          apiUrl: 'api.powerbi.com',
-          url: 'https://app.powerbi.com/'
-        };
-      }
-      default:
-        return {
-          apiUrl: 'api.powerbi.com',
-          url: 'https://app.powerbi.com/'
-        };
-    }
+  /**
+   * Get every Fabric item in the tenant, following continuationToken until the last page
+   * One listing for the whole tenant keeps within the Items API's hourly request limit;
+   * each page is retried on its own, so a throttled page doesn't restart the listing.
+   *
+   * @param retryPolicy - Backoff for transient failures of a page (honors 429 Retry-After)
+   */
+  public getAllItems (retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY): Observable<FabricItemResponse[]> {
+    const getPage = (continuationToken?: string): Observable<FabricItemsPage> =>
+      this.getItems(undefined, continuationToken).pipe(retryTransient(retryPolicy));
+
+    return getPage().pipe(
+      expand(page => page.continuationToken ? getPage(page.continuationToken) : EMPTY),
+      map(page => (page.itemEntities ?? page.value ?? []).map(item => ({
+        id: item.id,
+        type: item.type,
+        displayName: item.displayName ?? item.name ?? item.id,
+        description: item.description,
+        workspaceId: item.workspaceId
+      }))),
+      reduce((all, items) => all.concat(items), [] as FabricItemResponse[])
+    );
+  }
+
+  /**
+   * Entra tenant ID (tid claim) of the signed-in admin's token
+   *
+   * @returns Undefined when no token is set or it isn't a readable JWT
+   */
+  public getTenantId (): string | undefined {
+    return this.authService.getCurrentTokenInfo()?.tenantId;
+  }
+
+  /** Cloud environment selected with `?env=` (see EnvironmentRegistry) */
+  public getEnvironment (): CloudEnvironment {
+    return this.environments.get(this.route.snapshot.queryParams.env);
   }
 }
@@ -0,0 +1,202 @@
+import { TestBed } from '@angular/core/testing';
+import { LineageGraphBuilder } from './lineage-graph-builder.service';
+import { LinkType, NodeType } from '../models/graphModels';
+import { WorkspaceInfoDashboard } from '../models/scanner-api.types';
+import { workspace } from '../testing/fixtures';
+import { MOCK_SCANNER_RESPONSE, MOCK_DOMAINS, MOCK_FABRIC_ITEMS } from '../data/scanner-mock-data';
+
+describe('LineageGraphBuilder', () => {
+  let builder: LineageGraphBuilder;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    builder = TestBed.inject(LineageGraphBuilder);
+  });
+
+  it('should create a node for every active workspace in the mock tenant', () => {
+    const graph = builder.build(MOCK_SCANNER_RESPONSE, { domains: MOCK_DOMAINS });
+    const activeWorkspaces = MOCK_SCANNER_RESPONSE.workspaces.filter(ws => ws.state !== 'Deleted');
+
+    expect(graph.nodes.filter(n => n.type === NodeType.Workspace).length).toBe(activeWorkspaces.length);
+    expect(graph.diagnostics.workspaceCount).toBe(activeWorkspaces.length);
+  });
+
+  it('should only emit links between existing nodes', () => {
+    const graph = builder.build(MOCK_SCANNER_RESPONSE, { items: MOCK_FABRIC_ITEMS, domains: MOCK_DOMAINS });
+    const nodeIds = new Set(graph.nodes.map(n => n.id));
+
+    expect(graph.links.every(link => nodeIds.has(link.source) && nodeIds.has(link.target))).toBeTrue();
+  });
+
+  it('should not mutate its input and should return a frozen graph', () => {
+    const before = JSON.stringify(MOCK_SCANNER_RESPONSE);
+    const graph = builder.build(MOCK_SCANNER_RESPONSE);
+
+    expect(JSON.stringify(MOCK_SCANNER_RESPONSE)).toBe(before);
+    expect(Object.isFrozen(graph.nodes)).toBeTrue();
+    expect(Object.isFrozen(graph.links)).toBeTrue();
+    expect(Object.isFrozen(graph.nodes[0])).toBeTrue();
+  });
+
+  it('should link reports to datasets in workspaces that appear later', () => {
+    const graph = builder.build({
+      workspaces: [
+        workspace('ws-a', { reports: [{ id: 'rpt-1', name: 'Report', datasetId: 'ds-1', users: [] }] }),
+        workspace('ws-b', { datasets: [{ id: 'ds-1', name: 'Model', tables: [], users: [] }] })
+      ]
+    });
+
+    expect(graph.links.some(l => l.source === 'ds-1' && l.target === 'rpt-1')).toBeTrue();
+    expect(graph.links.some(l => l.source === 'ws-b' && l.target === 'ws-a' && l.type === LinkType.CrossWorkspace)).toBeTrue();
+    expect(graph.nodes.find(n => n.id === 'ws-b')?.crossDownstreamWSIds).toEqual(['ws-a']);
+  });
+
+  it('should type lineage links by relationship instead of Contains', () => {
+    const graph = builder.build({
+      workspaces: [
+        workspace('ws-a', {
+          dataflows: [{ objectId: 'df-1', name: 'Dataflow', users: [] }],
+          datasets: [
+            { id: 'ds-1', name: 'Model', tables: [], users: [], upstreamDataflows: [{ targetDataflowId: 'df-1', groupId: 'ws-a' }] },
+            { id: 'ds-2', name: 'Composite', tables: [], users: [], upstreamDatasets: [{ targetDatasetId: 'ds-1', groupId: 'ws-a' }] }
+          ],
+          reports: [{ id: 'rpt-1', name: 'Report', datasetId: 'ds-2', users: [] }]
+        })
+      ]
+    });
+    const typeOf = (source: string, target: string) => graph.links.find(l => l.source === source && l.target === target)?.type;
+
+    expect(typeOf('df-1', 'ds-1')).toBe(LinkType.Feeds);
+    expect(typeOf('ds-1', 'ds-2')).toBe(LinkType.DependsOn);
+    expect(typeOf('ds-2', 'rpt-1')).toBe(LinkType.Visualizes);
+    expect(typeOf('ws-a', 'rpt-1')).toBe(LinkType.Contains);
+  });
+
+  it('should share one datasource node per server/database and flag broken usages', () => {
+    const graph = builder.build({
+      workspaces: [
+        workspace('ws-a', {
+          datasets: [
+            { id: 'ds-1', name: 'Model', tables: [], users: [], datasourceUsages: [{ datasourceInstanceId: 'src-1' }] },
+            { id: 'ds-2', name: 'Model 2', tables: [], users: [], datasourceUsages: [{ datasourceInstanceId: 'src-2' }] }
+          ],
+          dataflows: [{ objectId: 'df-1', name: 'Dataflow', users: [], misconfiguredDatasourceUsages: [{ datasourceInstanceId: 'src-3' }] }]
+        })
+      ],
+      datasourceInstances: [
+        { datasourceId: 'src-1', datasourceType: 'Sql', connectionDetails: { server: 'sql.contoso.com', database: 'Sales' }, gatewayId: 'gw-1' },
+        { datasourceId: 'src-2', datasourceType: 'Sql', connectionDetails: { server: 'SQL.contoso.com', database: 'Sales' } }
+      ],
+      misconfiguredDatasourceInstances: [
+        { datasourceId: 'src-3', datasourceType: 'Web', connectionDetails: { url: 'https://api.contoso.com' } }
+      ]
+    });
+    const datasources = graph.nodes.filter(n => n.type === NodeType.Datasource);
+    const sqlServer = datasources.find(n => n.name === 'sql.contoso.com/Sales');
+
+    expect(datasources.length).toBe(2);
+    expect(sqlServer?.metadata?.consumerCount).toBe(2);
+    expect(sqlServer?.metadata?.isGatewayBound).toBeTrue();
+    expect(graph.links.filter(l => l.type === LinkType.Sources && l.broken).map(l => l.target)).toEqual(['df-1']);
+    expect(graph.diagnostics.datasourceCount).toBe(2);
+    expect(graph.diagnostics.brokenDatasourceUsageCount).toBe(1);
+  });
+
+  it('should count datasource references that do not resolve as dangling links', () => {
+    const graph = builder.build({
+      workspaces: [
+        workspace('ws-a', {
+          datasets: [{
+            id: 'ds-1',
+            name: 'Model',
+            tables: [],
+            users: [],
+            datasourceUsages: [{ datasourceInstanceId: 'missing' }],
+            upstreamDataflows: [{ targetDataflowId: 'not-scanned', groupId: 'ws-a' }]
+          }]
+        })
+      ],
+      datasourceInstances: []
+    });
+
+    expect(graph.links.some(l => l.type === LinkType.Sources)).toBeFalse();
+    expect(graph.diagnostics.danglingLinkCount).toBe(2);
+  });
+
+  it('should leave the tile count unknown when the scan has no tile data', () => {
+    const graph = builder.build({
+      workspaces: [workspace('ws-a', {
+        dashboards: [
+          { id: 'db-1', displayName: 'Empty', isReadOnly: false, tiles: [], users: [] },
+          { id: 'db-2', displayName: 'No tile data', isReadOnly: false, users: [] } as unknown as WorkspaceInfoDashboard
+        ]
+      })]
+    });
+
+    expect(graph.nodes.filter(n => n.type === NodeType.Dashboard).map(n => n.metadata?.tileCount)).toEqual([0, undefined]);
+  });
+
+  it('should skip deleted workspaces and record them in diagnostics', () => {
+    const graph = builder.build({ workspaces: [workspace('ws-a'), workspace('ws-b', { state: 'Deleted' })] });
+
+    expect(graph.nodes.map(n => n.id)).toEqual(['ws-a']);
+    expect(graph.diagnostics.deletedWorkspaceCount).toBe(1);
+  });
+
+  it('should add Fabric items once and keep unknown item types as generic items', () => {
+    const graph = builder.build({ workspaces: [workspace('ws-a')] }, {
+      items: [
+        { id: 'nb-1', type: 'Notebook', displayName: 'Notebook', workspaceId: 'ws-a' },
+        { id: 'nb-1', type: 'Notebook', displayName: 'Duplicate', workspaceId: 'ws-a' },
+        { id: 'x-1', type: 'SomethingNew', displayName: 'Unknown', workspaceId: 'ws-a' }
+      ]
+    });
+
+    expect(graph.nodes.filter(n => n.type === NodeType.Notebook).length).toBe(1);
+    expect(graph.nodes.find(n => n.id === 'x-1')?.type).toBe(NodeType.OtherFabricItem);
+    expect(graph.nodes.find(n => n.id === 'x-1')?.metadata?.fabricItemType).toBe('SomethingNew');
+    expect(graph.diagnostics.fabricItemCount).toBe(2);
+    expect(graph.diagnostics.skippedFabricItemCount).toBe(1);
+  });
+
+  it('should keep only the most connected workspaces when over the limit', () => {
+    const graph = builder.build({
+      workspaces: [
+        workspace('ws-a', { datasets: [{ id: 'ds-1', name: 'Model', tables: [], users: [] }] }),
+        workspace('ws-b', { reports: [{ id: 'rpt-1', name: 'Report', datasetId: 'ds-1', users: [] }] }),
+        workspace('ws-c')
+      ]
+    }, { workspaceLimit: 1 });
+
+    expect(graph.nodes.filter(n => n.type === NodeType.Workspace).map(n => n.id).sort()).toEqual(['ws-a', 'ws-b']);
+    expect(graph.diagnostics.truncatedWorkspaceCount).toBe(1);
+  });
+
+  it('should add principals with access links only when asked', () => {
+    const admin = { displayName: 'Sarah Chen', emailAddress: 'sarah@contoso.com', identifier: 'sarah@contoso.com', principalType: 'User' as const };
+    const team = { displayName: 'Finance Team', emailAddress: 'finance@contoso.com', identifier: 'group-finance', principalType: 'Group' as const };
+    const scan = {
+      workspaces: [
+        workspace('ws-a', {
+          users: [{ ...admin, groupUserAccessRight: 'Admin' as const }, { ...team, groupUserAccessRight: 'None' as const }],
+          reports: [{ id: 'rpt-1', name: 'Report', users: [{ ...admin, reportUserAccessRight: 'Owner' as const }, { ...team, reportUserAccessRight: 'Read' as const }] }]
+        })
+      ]
+    };
+
+    expect(builder.build(scan).nodes.some(n => n.type === NodeType.User)).toBeFalse();
+
+    const graph = builder.build(scan, { includePrincipals: true });
+    const accessLinks = graph.links.filter(l => l.type === LinkType.HasAccess);
+
+    expect(graph.nodes.filter(n => n.type === NodeType.User || n.type === NodeType.Group).map(n => [n.name, n.metadata?.accessCount]))
+      .toEqual([['Sarah Chen', 2], ['Finance Team', 1]]);
+    expect(accessLinks.map(l => `${l.source}>${l.target}:${l.accessRight}`)).toEqual([
+      'principal:sarah@contoso.com>ws-a:Admin',
+      'principal:sarah@contoso.com>rpt-1:Owner',
+      'principal:group-finance>rpt-1:Read'
+    ]);
+    expect(graph.diagnostics.principalCount).toBe(2);
+    expect(graph.diagnostics.artifactCount).toBe(1);
+  });
+});
@@ -0,0 +1,571 @@
+/**
+ * LineageGraphBuilder - Turns Scanner API results into a lineage graph
+ *
+ * Pure transformation with no rendering or HTTP concerns, so the same graph can
+ * feed the 3D view, exports and unit tests. The input is never mutated and the
+ * returned graph is frozen.
+ */
+
+import { Injectable } from '@angular/core';
+import { Link, LinkType, Node, NodeType, LineageGraph, LineageDiagnostics, PRINCIPAL_NODE_TYPES } from '../models/graphModels';
+import type {
+  WorkspaceInfoResponse,
+  WorkspaceInfo,
+  FabricItemResponse,
+  Datasource,
+  DatasourceUsage,
+  Domain
+} from '../models/scanner-api.types';
+import { collectAccessGrants } from '../utils/access-analysis';
+
+/** Domain ID used for workspaces without a domain assignment */
+export const UNASSIGNED_DOMAIN_ID = 'UNASSIGNED';
+
+/**
+ * Maps Fabric Items API types to graph node types
+ * Based on: https://learn.microsoft.com/en-us/rest/api/fabric/admin/items/list-items
+ */
+export const FABRIC_ITEM_TYPE_MAP: Record<string, NodeType> = {
+  Notebook: NodeType.Notebook,
+  Pipeline: NodeType.Pipeline,
+  DataPipeline: NodeType.Pipeline,
+  Lakehouse: NodeType.Lakehouse,
+  Warehouse: NodeType.DataWarehouse,
+  DataWarehouse: NodeType.DataWarehouse,
+  Eventstream: NodeType.Eventstream,
+  KQLDatabase: NodeType.KQLDatabase,
+  KQLQueryset: NodeType.KQLQueryset,
+  MLModel: NodeType.MLModel,
+  MLExperiment: NodeType.MLExperiment,
+  SparkJobDefinition: NodeType.SparkJobDefinition,
+  DataflowGen2: NodeType.DataflowGen2,
+  Dataflow: NodeType.DataflowGen2,
+  Eventhouse: NodeType.Eventhouse,
+  // Also reported by the Scanner API — only added when the scan missed them
+  SemanticModel: NodeType.SemanticModel,
+  Report: NodeType.Report,
+  PaginatedReport: NodeType.PaginatedReport,
+  Dashboard: NodeType.Dashboard,
+  Datamart: NodeType.Datamart
+};
+
+/** Item types never added from the Items API (SQL endpoints are derived from their Lakehouse) */
+const IGNORED_FABRIC_ITEM_TYPES: ReadonlySet<string> = new Set(['SQLEndpoint']);
+
+/** Optional inputs for a lineage build */
+export interface LineageBuildOptions {
+  /** Fabric-native items from the Items API (Notebooks, Pipelines, etc.) */
+  items?: FabricItemResponse[];
+  /** Domains used to resolve workspace domain names */
+  domains?: Domain[];
+  /** Keep only the N most connected workspaces (plus their cross-workspace neighbours) */
+  workspaceLimit?: number;
+  /** Add User, Group and ServicePrincipal nodes with HasAccess links to what they can reach */
+  includePrincipals?: boolean;
+}
+
+/** A scanned datasource instance and whether the scan reported it as misconfigured */
+interface DatasourceInstanceEntry {
+  instance: Datasource;
+  misconfigured: boolean;
+}
+
+/** Mutable working state for a single build — never shared between calls */
+interface BuildContext {
+  nodes: Node[];
+  links: Link[];
+  nodeIndex: Map<string, Node>;
+  domainNames: Map<string, string>;
+  datasourceInstances: Map<string, DatasourceInstanceEntry>;
+  diagnostics: LineageDiagnostics;
+}
+
+@Injectable({ providedIn: 'root' })
+export class LineageGraphBuilder {
+  /**
+   * Builds the lineage graph for a scan result
+   *
+   * PASS 1: Create workspace and artifact nodes with Contains links
+   * PASS 1b: Add Fabric-native items from the Items API
+   * PASS 2: Build Feeds/DependsOn/Visualizes lineage links between artifacts
+   * PASS 2b: Add shared datasource hubs with Sources links to their consumers
+   * PASS 2c: Add principals with HasAccess links (only with `includePrincipals`)
+   * PASS 3-5: Drop dangling links, apply the workspace limit, remove orphans
+   *
+   * @param scanResult - Scanner API result (only `workspaces` is required)
+   * @param options - Items, domains, workspace limit and principals
+   * @returns Frozen graph with build diagnostics
+   */
+  public build (scanResult: Partial<WorkspaceInfoResponse>, options: LineageBuildOptions = {}): LineageGraph {
+    const context: BuildContext = {
+      nodes: [],
+      links: [],
+      nodeIndex: new Map(),
+      domainNames: new Map((options.domains ?? []).map(domain => [domain.id, domain.name])),
+      datasourceInstances: new Map(),
+      diagnostics: {
+        workspaceCount: 0,
+        unassignedWorkspaceCount: 0,
+        deletedWorkspaceCount: 0,
+        artifactCount: 0,
+        fabricItemCount: 0,
+        skippedFabricItemCount: 0,
+        datasourceCount: 0,
+        principalCount: 0,
+        brokenDatasourceUsageCount: 0,
+        danglingLinkCount: 0,
+        orphanedNodeCount: 0,
+        truncatedWorkspaceCount: 0
+      }
+    };
+
+    const workspaces = (scanResult.workspaces ?? []).filter(workspace => {
+      if (workspace.state === 'Deleted') {
+        context.diagnostics.deletedWorkspaceCount++;
+        return false;
+      }
+      return true;
+    });
+
+    for (const workspace of workspaces) {
+      this.addWorkspaceNodes(context, workspace);
+    }
+
+    this.addFabricItems(context, options.items ?? []);
+
+    for (const workspace of workspaces) {
+      this.addLineageLinks(context, workspace);
+    }
+
+    for (const instance of scanResult.datasourceInstances ?? []) {
+      context.datasourceInstances.set(instance.datasourceId, { instance, misconfigured: false });
+    }
+    for (const instance of scanResult.misconfiguredDatasourceInstances ?? []) {
+      context.datasourceInstances.set(instance.datasourceId, { instance, misconfigured: true });
+    }
+    for (const workspace of workspaces) {
+      this.addDatasourceLinks(context, workspace);
+    }
+
+    if (options.includePrincipals) {
+      this.addPrincipals(context, workspaces);
+    }
+
+    return this.finalize(context, options.workspaceLimit);
+  }
+
+  private addNode (context: BuildContext, node: Node, parentId?: string): void {
+    context.nodes.push(node);
+    context.nodeIndex.set(node.id, node);
+    if (parentId) {
+      context.links.push({ source: parentId, target: node.id, type: LinkType.Contains });
+    }
+  }
+
+  private addWorkspaceNodes (context: BuildContext, workspace: WorkspaceInfo): void {
+    const effectiveDomainId = workspace.domainId || UNASSIGNED_DOMAIN_ID;
+    const isUnassigned = !workspace.domainId;
+    if (isUnassigned) context.diagnostics.unassignedWorkspaceCount++;
+    context.diagnostics.workspaceCount++;
+
+    this.addNode(context, {
+      id: workspace.id,
+      name: workspace.name,
+      type: NodeType.Workspace,
+      crossDownstreamWSIds: [],
+      crossUpstreamWSIds: [],
+      workspaceId: workspace.id,
+      metadata: {
+        domainId: effectiveDomainId,
+        domainName: context.domainNames.get(effectiveDomainId) || 'Unassigned',
+        isUnassigned,
+        capacityId: workspace.capacityId,
+        isOnDedicatedCapacity: workspace.isOnDedicatedCapacity,
+        state: workspace.state,
+        description: workspace.description
+      }
+    });
+
+    // Semantic Models (Datasets)
+    for (const dataset of workspace.datasets ?? []) {
+      this.addNode(context, {
+        id: dataset.id,
+        name: dataset.name,
+        type: NodeType.SemanticModel,
+        workspaceId: workspace.id,
+        metadata: {
+          endorsement: dataset.endorsementDetails?.endorsement || 'None',
+          certifiedBy: dataset.endorsementDetails?.certifiedBy,
+          sensitivityLabel: dataset.sensitivityLabel,
+          description: dataset.description,
+          configuredBy: dataset.configuredBy,
+          targetStorageMode: dataset.targetStorageMode,
+          createdDate: dataset.createdDate
+        }
+      }, workspace.id);
+    }
+
+    // Dataflows (assume Gen2 for Fabric)
+    for (const dataflow of workspace.dataflows ?? []) {
+      this.addNode(context, {
+        id: dataflow.objectId,
+        name: dataflow.name,
+        type: NodeType.DataflowGen2,
+        workspaceId: workspace.id,
+        metadata: {
+          endorsement: dataflow.endorsementDetails?.endorsement || 'None',
+          certifiedBy: dataflow.endorsementDetails?.certifiedBy,
+          sensitivityLabel: dataflow.sensitivityLabel,
+          description: dataflow.description,
+          configuredBy: dataflow.configuredBy,
+          modifiedDateTime: dataflow.modifiedDateTime
+        }
+      }, workspace.id);
+    }
+
+    // Datamarts - the Scanner API reports Lakehouses and Warehouses as datamarts
+    for (const datamart of workspace.datamarts ?? []) {
+      let nodeType: NodeType;
+      switch (datamart.type) {
+        case 'Lakehouse':
+          nodeType = NodeType.Lakehouse;
+          break;
+        case 'Datawarehouse':
+          nodeType = NodeType.DataWarehouse;
+          break;
+        default:
+          nodeType = NodeType.Datamart;
+      }
+
+      this.addNode(context, {
+        id: datamart.id,
+        name: datamart.name,
+        type: nodeType,
+        workspaceId: workspace.id,
+        metadata: {
+          endorsement: datamart.endorsementDetails?.endorsement || 'None',
+          certifiedBy: datamart.endorsementDetails?.certifiedBy,
+          sensitivityLabel: datamart.sensitivityLabel,
+          description: datamart.description,
+          datamartType: datamart.type
+        }
+      }, workspace.id);
+
+      // Every Lakehouse gets a SQL Analytics Endpoint, kept in the workspace cluster
+      if (nodeType === NodeType.Lakehouse) {
+        const sqlEndpointId = `${datamart.id}-sql-endpoint`;
+        this.addNode(context, {
+          id: sqlEndpointId,
+          name: `${datamart.name} (SQL Endpoint)`,
+          type: NodeType.SQLAnalyticsEndpoint,
+          workspaceId: workspace.id,
+          metadata: {
+            parentLakehouseId: datamart.id,
+            description: 'SQL Analytics Endpoint for Lakehouse'
+          }
+        }, workspace.id);
+        context.links.push({ source: datamart.id, target: sqlEndpointId, type: LinkType.ParentOf });
+      }
+    }
+
+    // Reports - detect Paginated Reports
+    for (const report of workspace.reports ?? []) {
+      this.addNode(context, {
+        id: report.id,
+        name: report.name,
+        type: report.reportType === 'PaginatedReport' ? NodeType.PaginatedReport : NodeType.Report,
+        workspaceId: workspace.id,
+        metadata: {
+          endorsement: report.endorsementDetails?.endorsement || 'None',
+          certifiedBy: report.endorsementDetails?.certifiedBy,
+          sensitivityLabel: report.sensitivityLabel,
+          description: report.description,
+          createdBy: report.createdBy,
+          modifiedBy: report.modifiedBy,
+          createdDateTime: report.createdDateTime,
+          modifiedDateTime: report.modifiedDateTime
+        }
+      }, workspace.id);
+    }
+
+    // Dashboards
+    for (const dashboard of workspace.dashboards ?? []) {
+      this.addNode(context, {
+        id: dashboard.id,
+        name: dashboard.displayName,
+        type: NodeType.Dashboard,
+        workspaceId: workspace.id,
+        metadata: {
+          endorsement: dashboard.endorsementDetails?.endorsement || 'None',
+          certifiedBy: dashboard.endorsementDetails?.certifiedBy,
+          sensitivityLabel: dashboard.sensitivityLabel,
+          // Undefined when the scan has no tile data, which is not the same as no tiles
+          tileCount: dashboard.tiles?.length
+        }
+      }, workspace.id);
+    }
+  }
+
+  private addFabricItems (context: BuildContext, items: FabricItemResponse[]): void {
+    for (const item of items) {
+      // Skip items already added (e.g., from Scanner API datamarts) and derived types
+      if (context.nodeIndex.has(item.id) || IGNORED_FABRIC_ITEM_TYPES.has(item.type)) {
+        context.diagnostics.skippedFabricItemCount++;
+        continue;
+      }
+
+      // Types without a dedicated node type still show up, as a generic item
+      const nodeType = FABRIC_ITEM_TYPE_MAP[item.type] ?? NodeType.OtherFabricItem;
+      this.addNode(context, {
+        id: item.id,
+        name: item.displayName,
+        type: nodeType,
+        workspaceId: item.workspaceId,
+        metadata: {
+          description: item.description,
+          fabricItemType: item.type,
+          source: 'fabric-items-api'
+        }
+      }, item.workspaceId);
+      context.diagnostics.fabricItemCount++;
+    }
+  }
+
+  /**
+   * Adds an artifact-to-artifact edge, plus a CrossWorkspace edge between the
+   * owning workspaces when the upstream artifact lives elsewhere
+   */
+  private addLineageLink (context: BuildContext, type: LinkType, upstreamId: string, upstreamWorkspaceId: string,
+    downstreamId: string, downstreamWorkspaceId: string): void {
+    if (upstreamWorkspaceId && upstreamWorkspaceId !== downstreamWorkspaceId) {
+      context.links.push({ source: upstreamWorkspaceId, target: downstreamWorkspaceId, type: LinkType.CrossWorkspace });
+    }
+    context.links.push({ source: upstreamId, target: downstreamId, type });
+  }
+
+  private addLineageLinks (context: BuildContext, workspace: WorkspaceInfo): void {
+    for (const dataset of workspace.datasets ?? []) {
+      for (const upstream of dataset.upstreamDataflows ?? []) {
+        this.addLineageLink(context, LinkType.Feeds, upstream.targetDataflowId, upstream.groupId, dataset.id, workspace.id);
+      }
+      for (const upstream of dataset.upstreamDatamarts ?? []) {
+        this.addLineageLink(context, LinkType.Feeds, upstream.targetDatamartId, upstream.groupId, dataset.id, workspace.id);
+      }
+      for (const upstream of dataset.upstreamDatasets ?? []) {
+        this.addLineageLink(context, LinkType.DependsOn, upstream.targetDatasetId, upstream.groupId, dataset.id, workspace.id);
+      }
+    }
+
+    for (const dataflow of workspace.dataflows ?? []) {
+      for (const upstream of dataflow.upstreamDataflows ?? []) {
+        this.addLineageLink(context, LinkType.Feeds, upstream.targetDataflowId, upstream.groupId, dataflow.objectId, workspace.id);
+      }
+    }
+
+    for (const datamart of workspace.datamarts ?? []) {
+      for (const upstream of datamart.upstreamDataflows ?? []) {
+        this.addLineageLink(context, LinkType.Feeds, upstream.targetDataflowId, upstream.groupId, datamart.id, workspace.id);
+      }
+    }
+
+    // Report → dataset, resolved through the index so workspace order doesn't matter
+    for (const report of workspace.reports ?? []) {
+      const dataset = report.datasetId ? context.nodeIndex.get(report.datasetId) : undefined;
+      if (dataset?.type === NodeType.SemanticModel) {
+        this.addLineageLink(context, LinkType.Visualizes, dataset.id, dataset.workspaceId, report.id, workspace.id);
+      }
+    }
+
+    // Dashboard → reports via tiles
+    for (const dashboard of workspace.dashboards ?? []) {
+      for (const tile of dashboard.tiles ?? []) {
+        const report = tile.reportId ? context.nodeIndex.get(tile.reportId) : undefined;
+        if (report) {
+          context.links.push({ source: report.id, target: dashboard.id, type: LinkType.Visualizes });
+        }
+      }
+    }
+  }
+
+  private addDatasourceLinks (context: BuildContext, workspace: WorkspaceInfo): void {
+    const consumers: { id: string; usages?: DatasourceUsage[]; misconfiguredUsages?: DatasourceUsage[] }[] = [
+      ...(workspace.datasets ?? []).map(dataset => ({
+        id: dataset.id,
+        usages: dataset.datasourceUsages,
+        misconfiguredUsages: dataset.misconfiguredDatasourceUsages
+      })),
+      ...(workspace.dataflows ?? []).map(dataflow => ({
+        id: dataflow.objectId,
+        usages: dataflow.datasourceUsages,
+        misconfiguredUsages: dataflow.misconfiguredDatasourceUsages
+      })),
+      ...(workspace.datamarts ?? []).map(datamart => ({ id: datamart.id, usages: datamart.datasourceUsages }))
+    ];
+
+    for (const consumer of consumers) {
+      for (const usage of consumer.usages ?? []) {
+        this.addDatasourceLink(context, usage.datasourceInstanceId, consumer.id, false);
+      }
+      for (const usage of consumer.misconfiguredUsages ?? []) {
+        this.addDatasourceLink(context, usage.datasourceInstanceId, consumer.id, true);
+      }
+    }
+  }
+
+  /**
+   * Links a consumer to the hub node for a datasource instance. Instances that
+   * point at the same server/database/url share one node.
+   */
+  private addDatasourceLink (context: BuildContext, instanceId: string, consumerId: string, broken: boolean): void {
+    const entry = context.datasourceInstances.get(instanceId);
+    if (!entry) {
+      context.diagnostics.danglingLinkCount++;
+      return;
+    }
+
+    const { instance, misconfigured } = entry;
+    const details = instance.connectionDetails ?? {};
+    const nodeId = 'datasource:' + [instance.datasourceType, details.server, details.database, details.url, details.path]
+      .map(part => (part ?? '').toLowerCase())
+      .join('|');
+
+    let node = context.nodeIndex.get(nodeId);
+    if (!node) {
+      node = {
+        id: nodeId,
+        name: details.server
+          ? [details.server, details.database].filter(Boolean).join('/')
+          : details.url || details.path || details.account || instance.datasourceType,
+        type: NodeType.Datasource,
+        workspaceId: '',
+        metadata: {
+          datasourceType: instance.datasourceType,
+          connectionDetails: { ...details },
+          datasourceInstanceIds: [],
+          gatewayIds: [],
+          isGatewayBound: false,
+          isMisconfigured: false,
+          consumerCount: 0
+        }
+      };
+      this.addNode(context, node);
+    }
+
+    const metadata = node.metadata!;
+    if (!metadata.datasourceInstanceIds.includes(instanceId)) {
+      metadata.datasourceInstanceIds.push(instanceId);
+    }
+    if (instance.gatewayId && !metadata.gatewayIds.includes(instance.gatewayId)) {
+      metadata.gatewayIds.push(instance.gatewayId);
+      metadata.isGatewayBound = true;
+    }
+    if (misconfigured || broken) {
+      metadata.isMisconfigured = true;
+    }
+    if (broken) {
+      context.diagnostics.brokenDatasourceUsageCount++;
+    }
+
+    const link: Link = { source: nodeId, target: consumerId, type: LinkType.Sources };
+    if (broken) link.broken = true;
+    context.links.push(link);
+  }
+
+  /**
+   * Adds one node per principal in the workspaces' and artifacts' `users`
+   * arrays, linked to each workspace and artifact they can access
+   */
+  private addPrincipals (context: BuildContext, workspaces: WorkspaceInfo[]): void {
+    for (const grant of collectAccessGrants({ workspaces })) {
+      const nodeId = 'principal:' + grant.principalKey;
+      if (!context.nodeIndex.has(nodeId)) {
+        this.addNode(context, {
+          id: nodeId,
+          name: grant.displayName,
+          type: grant.principalType === 'Group' ? NodeType.Group : grant.principalType === 'App' ? NodeType.ServicePrincipal : NodeType.User,
+          workspaceId: '',
+          metadata: {
+            emailAddress: grant.emailAddress,
+            principalType: grant.principalType,
+            userType: grant.userType
+          }
+        });
+      }
+      context.links.push({ source: nodeId, target: grant.artifactId, type: LinkType.HasAccess, accessRight: grant.accessRight });
+    }
+  }
+
+  private finalize (context: BuildContext, workspaceLimit?: number): LineageGraph {
+    const { diagnostics } = context;
+
+    // PASS 3: Drop links whose endpoints were never scanned, then record cross-workspace neighbours
+    let links = context.links.filter(link => context.nodeIndex.has(link.source) && context.nodeIndex.has(link.target));
+    // Added to the datasource references addDatasourceLink couldn't resolve
+    diagnostics.danglingLinkCount += context.links.length - links.length;
+
+    for (const link of links) {
+      if (link.type !== LinkType.CrossWorkspace) continue;
+      context.nodeIndex.get(link.source)?.crossDownstreamWSIds?.push(link.target);
+      context.nodeIndex.get(link.target)?.crossUpstreamWSIds?.push(link.source);
+    }
+
+    // PASS 4: Keep the most connected workspaces (and their neighbours) when over the limit
+    let nodes = context.nodes;
+    const workspaceNodes = nodes.filter(node => node.type === NodeType.Workspace);
+    if (workspaceLimit !== undefined && workspaceNodes.length > workspaceLimit) {
+      const connectivity = (node: Node) => (node.crossDownstreamWSIds?.length || 0) + (node.crossUpstreamWSIds?.length || 0);
+      const keptWorkspaceIds = new Set<string>();
+      for (const node of [...workspaceNodes].sort((a, b) => connectivity(b) - connectivity(a)).slice(0, workspaceLimit)) {
+        keptWorkspaceIds.add(node.id);
+        node.crossDownstreamWSIds?.forEach(id => keptWorkspaceIds.add(id));
+        node.crossUpstreamWSIds?.forEach(id => keptWorkspaceIds.add(id));
+      }
+      diagnostics.truncatedWorkspaceCount = workspaceNodes.length - keptWorkspaceIds.size;
+      nodes = nodes.filter(node => node.type === NodeType.Datasource || PRINCIPAL_NODE_TYPES.has(node.type) ||
+        keptWorkspaceIds.has(node.type === NodeType.Workspace ? node.id : node.workspaceId));
+    }
+
+    // PASS 5: Remove orphaned artifacts (artifacts without a workspace in the graph)
+    const workspaceIds = new Set(nodes.filter(node => node.type === NodeType.Workspace).map(node => node.id));
+    const beforeOrphanRemoval = nodes.length;
+    nodes = nodes.filter(node => node.type === NodeType.Workspace || node.type === NodeType.Datasource || PRINCIPAL_NODE_TYPES.has(node.type) ||
+      (!!node.workspaceId && workspaceIds.has(node.workspaceId)));
+
+    const nodeIds = new Set(nodes.map(node => node.id));
+    links = links.filter(link => nodeIds.has(link.source) && nodeIds.has(link.target));
+
+    // Datasources and principals have no workspace — keep only the ones that still feed or reach something
+    const consumerCounts = new Map<string, number>();
+    const accessCounts = new Map<string, number>();
+    for (const link of links) {
+      if (link.type === LinkType.Sources) consumerCounts.set(link.source, (consumerCounts.get(link.source) || 0) + 1);
+      if (link.type === LinkType.HasAccess) accessCounts.set(link.source, (accessCounts.get(link.source) || 0) + 1);
+    }
+    nodes = nodes.filter(node => {
+      if (PRINCIPAL_NODE_TYPES.has(node.type)) {
+        if (node.metadata) node.metadata.accessCount = accessCounts.get(node.id) || 0;
+        return accessCounts.has(node.id);
+      }
+      if (node.type !== NodeType.Datasource) return true;
+      if (node.metadata) node.metadata.consumerCount = consumerCounts.get(node.id) || 0;
+      return consumerCounts.has(node.id);
+    });
+    diagnostics.orphanedNodeCount = beforeOrphanRemoval - nodes.length;
+
+    diagnostics.workspaceCount = workspaceIds.size;
+    diagnostics.datasourceCount = consumerCounts.size;
+    diagnostics.principalCount = accessCounts.size;
+    diagnostics.artifactCount = nodes.length - workspaceIds.size - consumerCounts.size - accessCounts.size;
+
+    return Object.freeze({
+      nodes: Object.freeze(nodes.map(node => {
+        if (node.crossDownstreamWSIds) Object.freeze(node.crossDownstreamWSIds);
+        if (node.crossUpstreamWSIds) Object.freeze(node.crossUpstreamWSIds);
+        if (node.metadata) Object.freeze(node.metadata);
+        return Object.freeze(node);
+      })),
+      links: Object.freeze(links.map(link => Object.freeze(link))),
+      diagnostics: Object.freeze({ ...diagnostics })
+    });
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * PolicyPackRegistry - Governance rule packs available in the Policies panel
+ *
+ * The default pack ships with the app; packs uploaded as JSON or YAML are
+ * kept in this browser's localStorage. An uploaded pack replaces an earlier
+ * upload with the same ID, but can't replace the default pack.
+ */
+
+import { Injectable } from '@angular/core';
+import { DEFAULT_POLICY_PACK, PolicyPack, parsePolicyPack, validatePolicyRule } from '../utils/governance-policy';
+
+const CUSTOM_PACKS_STORAGE_KEY: string = 'fabricbeye.policyPacks';
+
+@Injectable({ providedIn: 'root' })
+export class PolicyPackRegistry {
+  private custom: PolicyPack[] = this.readCustom();
+
+  /** The default pack followed by uploaded ones */
+  public list (): PolicyPack[] {
+    return [DEFAULT_POLICY_PACK, ...this.custom];
+  }
+
+  /** Pack by ID, falling back to the default pack */
+  public get (id: string): PolicyPack {
+    return this.list().find(pack => pack.id === id) ?? DEFAULT_POLICY_PACK;
+  }
+
+  /**
+   * Adds an uploaded pack
+   *
+   * @throws {Error} When the file has no usable rules
+   * @returns The stored pack and messages for rules that were skipped
+   */
+  public importPack (text: string, fileName: string): { pack: PolicyPack; errors: string[] } {
+    const { pack, errors } = parsePolicyPack(text, fileName);
+    if (!pack || pack.rules.length === 0) {
+      throw new Error(errors.join('\n') || 'The pack has no rules');
+    }
+    const stored: PolicyPack = { ...pack, id: pack.id === DEFAULT_POLICY_PACK.id ? `${pack.id}-custom` : pack.id, isCustom: true };
+    this.custom = [...this.custom.filter(existing => existing.id !== stored.id), stored];
+    this.writeCustom();
+    return { pack: stored, errors };
+  }
+
+  public remove (id: string): void {
+    this.custom = this.custom.filter(pack => pack.id !== id);
+    this.writeCustom();
+  }
+
+  private readCustom (): PolicyPack[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(CUSTOM_PACKS_STORAGE_KEY) ?? '[]');
+      // Stored by an older version, or edited by hand: only keep rules that still validate
+      return Array.isArray(stored)
+        ? stored.filter(pack => Array.isArray(pack?.rules)).map(pack => ({ ...pack, rules: pack.rules.filter(rule => validatePolicyRule(rule).length === 0) }))
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private writeCustom (): void {
+    localStorage.setItem(CUSTOM_PACKS_STORAGE_KEY, JSON.stringify(this.custom));
+  }
+}
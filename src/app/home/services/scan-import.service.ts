@@ -0,0 +1,97 @@
+/**
+ * ScanImportService - Imports Scanner API JSON files into one scan result
+ *
+ * Files are read and validated one at a time in a Web Worker (large dumps
+ * would otherwise freeze the UI), then merged with workspace de-duplication:
+ * a workspace present in several files is taken from the last one.
+ * The worker posts each parsed result back whole, so the UI thread still pays
+ * a structured clone of every file; see MAX_SCAN_FILE_BYTES for the size limit.
+ */
+
+import { Injectable } from '@angular/core';
+import type { TenantScanResult } from '../models/scanner-api.types';
+import { mergeScanResults } from '../utils/scan-merge';
+import { parseScanFile, ScanFileValidation, ScanImportWorkerMessage } from '../utils/scan-import';
+
+export interface ScanImportFileResult extends ScanFileValidation {
+  fileName: string;
+}
+
+export interface ScanImportProgress {
+  fileName: string;
+  /** 0-based position of the file being read */
+  fileIndex: number;
+  fileCount: number;
+  /** Share of the current file read, 0-100 */
+  percent: number;
+}
+
+export interface ScanImportResult {
+  /** Merged result of all valid files (undefined when none were valid) */
+  result?: TenantScanResult;
+  files: ScanImportFileResult[];
+  /** Workspaces found in more than one file */
+  duplicateWorkspaceCount: number;
+}
+
+@Injectable({ providedIn: 'root' })
+export class ScanImportService {
+  /**
+   * Reads, validates and merges Scanner JSON files
+   *
+   * Never rejects — per-file problems are returned on `files` so the caller
+   * can report them and still show what was valid.
+   *
+   * @param files - Selected files
+   * @param onProgress - Called while each file is read
+   */
+  public async importFiles (files: File[], onProgress?: (progress: ScanImportProgress) => void): Promise<ScanImportResult> {
+    const fileResults: ScanImportFileResult[] = [];
+
+    // One file at a time keeps a single file's text in memory; the parsed results
+    // are all kept, since callers store each valid file in the snapshot library
+    for (const [fileIndex, file] of files.entries()) {
+      const validation = await this.parseFile(file, (loaded, total) => onProgress?.({
+        fileName: file.name,
+        fileIndex,
+        fileCount: files.length,
+        percent: total ? Math.round((loaded / total) * 100) : 100
+      }));
+      fileResults.push({ fileName: file.name, ...validation });
+    }
+
+    let result: TenantScanResult | undefined;
+    let duplicateWorkspaceCount = 0;
+    for (const fileResult of fileResults) {
+      if (!fileResult.result) continue;
+      const merged = mergeScanResults(result, fileResult.result);
+      result = merged.result;
+      duplicateWorkspaceCount += merged.summary.updated;
+    }
+
+    return { result, files: fileResults, duplicateWorkspaceCount };
+  }
+
+  private parseFile (file: File, onProgress: (loaded: number, total: number) => void): Promise<ScanFileValidation> {
+    if (typeof Worker === 'undefined') {
+      return parseScanFile(file, onProgress);
+    }
+
+    return new Promise(resolve => {
+      const worker = new Worker(new URL('./scan-import.worker', import.meta.url), { type: 'module' });
+      worker.onmessage = ({ data }: MessageEvent<ScanImportWorkerMessage>) => {
+        if (data.type === 'progress') {
+          onProgress(data.loaded, data.total);
+        } else {
+          worker.terminate();
+          resolve(data.validation);
+        }
+      };
+      worker.onerror = event => {
+        worker.terminate();
+        resolve({ errors: [`Could not read the file: ${event.message}`] });
+      };
+      worker.postMessage(file);
+    });
+  }
+}
@@ -0,0 +1,27 @@
+/// <reference lib="webworker" />
+
+/**
+ * Scan import worker - reads and validates a Scanner JSON file off the UI thread
+ *
+ * Receives a File, posts progress while reading and a final validation result.
+ */
+
+import { parseScanFile, ScanImportWorkerMessage } from '../utils/scan-import';
+
+let lastPercent = -1;
+
+function post (message: ScanImportWorkerMessage): void {
+  postMessage(message);
+}
+
+addEventListener('message', async ({ data }: MessageEvent<File>) => {
+  const validation = await parseScanFile(data, (loaded, total) => {
+    // One message per percent is plenty for a progress label
+    const percent = total ? Math.floor((loaded / total) * 100) : 0;
+    if (percent !== lastPercent) {
+      lastPercent = percent;
+      post({ type: 'progress', loaded, total });
+    }
+  });
+  post({ type: 'done', validation });
+});
@@ -0,0 +1,296 @@
+import { HttpClient, HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { Observable, defer, of, throwError } from 'rxjs';
+import { delay } from 'rxjs/operators';
+import { ScanOrchestrator } from './scan-orchestrator.service';
+import { ScanService } from './scan.service';
+import { HomeProxy } from './home-proxy.service';
+import { SnapshotStore, StoredSnapshot } from './snapshot-store.service';
+import type { ScanOptions, ScanRequest, TenantScanResult } from '../models/scanner-api.types';
+import { DEFAULT_SCAN_OPTIONS } from '../utils/scan-options';
+import { AuthService } from 'src/app/services/auth.service';
+import { EnvironmentRegistry } from 'src/app/services/environment-registry.service';
+
+type ScriptedResponse = ScanRequest | HttpErrorResponse;
+
+/**
+ * In-memory stand-in for the Scanner API getInfo / scanStatus endpoints
+ *
+ * Each scan ID replays a scripted list of responses (the last one repeats),
+ * and the backend records how many scans are in flight at once.
+ */
+class MockScannerBackend {
+  public submitted: string[][] = [];
+  public submittedOptions: ScanOptions[] = [];
+  public inFlight = 0;
+  public maxInFlight = 0;
+  private submitScripts: ScriptedResponse[][] = [];
+  private statusScripts = new Map<string, ScriptedResponse[]>();
+
+  /** Responses for the next getInfo call (in submission order) */
+  public onSubmit (...responses: ScriptedResponse[]): this {
+    this.submitScripts.push(responses);
+    return this;
+  }
+
+  public onStatus (scanId: string, ...responses: ScriptedResponse[]): this {
+    this.statusScripts.set(scanId, responses);
+    return this;
+  }
+
+  public getWorkspacesInfo (workspaceIds: string[], options: ScanOptions): Observable<ScanRequest> {
+    return defer(() => {
+      const script = this.submitScripts[0];
+      const response = script.length > 1 ? script.shift()! : this.submitScripts.shift()![0];
+      if (!(response instanceof HttpErrorResponse)) {
+        this.submitted.push(workspaceIds);
+        this.submittedOptions.push(options);
+        this.inFlight++;
+        this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+      }
+      return this.respond(response);
+    });
+  }
+
+  public getWorkspacesScanStatus (scanId: string): Observable<ScanRequest> {
+    return defer(() => {
+      const script = this.statusScripts.get(scanId) ?? [{ id: scanId, status: 'Succeeded' }];
+      const response = script.length > 1 ? script.shift()! : script[0];
+      if (!(response instanceof HttpErrorResponse) && (response.status === 'Succeeded' || response.status === 'Failed')) {
+        this.inFlight--;
+      }
+      return this.respond(response);
+    });
+  }
+
+  private respond (response: ScriptedResponse): Observable<ScanRequest> {
+    return response instanceof HttpErrorResponse
+      ? throwError(() => response)
+      : of(response).pipe(delay(1));
+  }
+}
+
+function httpError (status: number, headers: Record<string, string> = {}): HttpErrorResponse {
+  return new HttpErrorResponse({ status, statusText: 'Error', headers: new HttpHeaders(headers) });
+}
+
+/** Unsigned JWT expiring `expiresInS` seconds from now */
+function tokenExpiringIn (expiresInS: number): string {
+  return `e30.${btoa(JSON.stringify({ exp: Math.floor(Date.now() / 1000) + expiresInS }))}.sig`;
+}
+
+function workspaceIds (count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `ws-${i}`);
+}
+
+describe('ScanOrchestrator', () => {
+  let backend: MockScannerBackend;
+  let scanService: ScanService;
+  let authService: AuthService;
+  let orchestrator: ScanOrchestrator;
+  let sleep: jasmine.Spy;
+
+  beforeEach(() => {
+    backend = new MockScannerBackend();
+    scanService = new ScanService(backend as unknown as HomeProxy, {} as SnapshotStore);
+    authService = new AuthService({} as HttpClient, new EnvironmentRegistry({} as HttpClient));
+    authService.tokenUpdate.next(tokenExpiringIn(3600));
+    orchestrator = new ScanOrchestrator(backend as unknown as HomeProxy, scanService, authService, {
+      batchSize: 2,
+      maxParallelCalls: 2,
+      baseRetryDelayMs: 100,
+      maxRetryDelayMs: 1000,
+      maxRetries: 3
+    });
+    sleep = spyOn(orchestrator, 'sleep').and.resolveTo();
+  });
+
+  it('should scan every batch while keeping at most maxParallelCalls scans in flight', async () => {
+    for (let i = 0; i < 4; i++) {
+      backend.onSubmit({ id: `scan-${i}`, status: 'NotStarted' });
+      backend.onStatus(`scan-${i}`, { id: `scan-${i}`, status: 'Running' }, { id: `scan-${i}`, status: 'Succeeded' });
+    }
+    const options: ScanOptions = { ...DEFAULT_SCAN_OPTIONS, datasetSchema: true };
+
+    const progress = await orchestrator.run(workspaceIds(7), options);
+
+    expect(backend.submitted.map(ids => ids.length)).toEqual([2, 2, 2, 1]);
+    expect(backend.submittedOptions).toEqual([options, options, options, options]);
+    expect(backend.maxInFlight).toBe(2);
+    expect(progress.isFinished).toBeTrue();
+    expect(progress.succeeded).toBe(4);
+    expect(progress.percent).toBe(100);
+    expect(scanService.scanInfoStatusByScanId).toEqual({
+      'scan-0': 'Succeeded', 'scan-1': 'Succeeded', 'scan-2': 'Succeeded', 'scan-3': 'Succeeded'
+    });
+  });
+
+  it('should retry transient failures with exponential backoff', async () => {
+    backend.onSubmit(httpError(503), httpError(502), { id: 'scan-0', status: 'Succeeded' });
+
+    const progress = await orchestrator.run(workspaceIds(1));
+
+    expect(progress.batches[0].status).toBe('Succeeded');
+    expect(progress.batches[0].retries).toBe(2);
+    expect(sleep.calls.allArgs()).toEqual([[100], [200]]);
+  });
+
+  it('should wait for Retry-After on 429 responses', async () => {
+    backend.onSubmit({ id: 'scan-0', status: 'Running' });
+    backend.onStatus('scan-0', httpError(429, { 'Retry-After': '30' }), { id: 'scan-0', status: 'Succeeded' });
+
+    const progress = await orchestrator.run(workspaceIds(1));
+
+    expect(progress.batches[0].status).toBe('Succeeded');
+    expect(sleep).toHaveBeenCalledWith(30000);
+  });
+
+  it('should fail a batch on non-transient errors without stopping the others', async () => {
+    backend.onSubmit(httpError(403));
+    backend.onSubmit({ id: 'scan-1', status: 'Succeeded' });
+
+    const progress = await orchestrator.run(workspaceIds(4));
+
+    expect(progress.batches.map(batch => batch.status)).toEqual(['Failed', 'Succeeded']);
+    expect(progress.batches[0].retries).toBe(0);
+    expect(progress.batches[0].error).toContain('HTTP 403');
+    expect(progress.failed).toBe(1);
+    expect(progress.isFinished).toBeTrue();
+  });
+
+  it('should give up after maxRetries transient failures', async () => {
+    backend.onSubmit(httpError(500), httpError(500), httpError(500), httpError(500), httpError(500));
+
+    const progress = await orchestrator.run(workspaceIds(1));
+
+    expect(progress.batches[0].status).toBe('Failed');
+    expect(progress.batches[0].retries).toBe(3);
+  });
+
+  it('should record terminal Failed scan statuses with the API error', async () => {
+    backend.onSubmit({ id: 'scan-0', status: 'Running' });
+    backend.onStatus('scan-0', { id: 'scan-0', status: 'Failed', error: { code: 'ScanTimeout', message: 'Scan timed out' } });
+
+    const progress = await orchestrator.run(workspaceIds(1));
+
+    expect(progress.batches[0].status).toBe('Failed');
+    expect(progress.batches[0].error).toBe('Scan timed out');
+    expect(scanService.scanInfoStatusByScanId['scan-0']).toBe('Failed');
+  });
+
+  it('should mark unfinished batches as cancelled', async () => {
+    backend.onSubmit({ id: 'scan-0', status: 'Running' });
+    backend.onSubmit({ id: 'scan-1', status: 'Running' });
+    sleep.and.callFake(async () => orchestrator.cancel());
+
+    const progress = await orchestrator.run(workspaceIds(6));
+
+    expect(progress.batches.map(batch => batch.status)).toEqual(['Cancelled', 'Cancelled', 'Cancelled']);
+    expect(backend.submitted.length).toBe(2);
+  });
+
+  it('should pause on an expired token and resume once a new one arrives', async () => {
+    backend.onSubmit({ id: 'scan-0', status: 'Running' });
+    backend.onStatus('scan-0', { id: 'scan-0', status: 'Succeeded' });
+    authService.tokenUpdate.next(tokenExpiringIn(-60));
+    const pauses: boolean[] = [];
+    orchestrator.getProgress().subscribe(progress => pauses.push(progress.isWaitingForToken));
+    sleep.and.callFake(async () => authService.tokenUpdate.next(tokenExpiringIn(3600)));
+
+    const progress = await orchestrator.run(workspaceIds(1));
+
+    expect(progress.batches[0].status).toBe('Succeeded');
+    expect(pauses).toContain(true);
+    expect(progress.isWaitingForToken).toBeFalse();
+    expect(backend.submitted.length).toBe(1);
+  });
+
+  it('should wait for a different token after a 401 without counting a retry', async () => {
+    backend.onSubmit({ id: 'scan-0', status: 'Running' });
+    backend.onStatus('scan-0', httpError(401), { id: 'scan-0', status: 'Succeeded' });
+    let tokenRenewals = 0;
+    let isWaitingForToken = false;
+    orchestrator.getProgress().subscribe(progress => { isWaitingForToken = progress.isWaitingForToken; });
+    sleep.and.callFake(async () => {
+      if (isWaitingForToken) {
+        tokenRenewals++;
+        authService.tokenUpdate.next(tokenExpiringIn(3600 + tokenRenewals));
+      }
+    });
+
+    const progress = await orchestrator.run(workspaceIds(1));
+
+    expect(progress.batches[0].status).toBe('Succeeded');
+    expect(progress.batches[0].retries).toBe(0);
+    expect(tokenRenewals).toBe(1);
+  });
+
+  it('should keep the stored snapshot and the old watermark when a full scan batch fails at submit', async () => {
+    const stored = new Map<string, StoredSnapshot>();
+    const store = {
+      getLatestSnapshotId: (environment: string) => `latest:${environment}`,
+      get: async (id: string) => stored.get(id),
+      put: async (snapshot: StoredSnapshot) => { stored.set(snapshot.id, snapshot); },
+      save: async () => undefined
+    };
+    const proxy = Object.assign(backend, { getEnvironment: () => ({ apiUrl: 'api' }), getTenantId: () => undefined });
+    scanService = new ScanService(proxy as unknown as HomeProxy, store as unknown as SnapshotStore);
+    orchestrator = new ScanOrchestrator(proxy as unknown as HomeProxy, scanService, authService, { batchSize: 2, maxParallelCalls: 1 });
+    spyOn(orchestrator, 'sleep').and.resolveTo();
+    const previous = { workspaces: [{ id: 'ws-0', name: 'Kept' }, { id: 'ws-2', name: 'Old' }] } as TenantScanResult;
+    stored.set('latest:api', { id: 'latest:api', name: 'Latest scan', environment: 'api', savedAt: '', watermark: '2026-01-01T00:00:00Z', result: previous });
+    backend.onSubmit(httpError(400));
+    backend.onSubmit({ id: 'scan-1', status: 'Succeeded' });
+
+    let saves = 0;
+    scanService.getSnapshotSaved().subscribe(() => saves++);
+
+    scanService.beginScan('2026-02-01T00:00:00Z', false);
+    await orchestrator.run(workspaceIds(4));
+    const result = await scanService['saveSnapshot']({ workspaces: [{ id: 'ws-2', name: 'New' }] } as TenantScanResult, scanService.scanInfoStatusByScanId);
+
+    expect(result.workspaces.map(workspace => workspace.name)).toEqual(['Kept', 'New']);
+    expect(stored.get('latest:api')!.watermark).toBe('2026-01-01T00:00:00Z');
+    expect(saves).toBe(1);
+
+    backend.onSubmit({ id: 'scan-2', status: 'Succeeded' }).onSubmit({ id: 'scan-3', status: 'Succeeded' });
+    scanService.scanInfoStatusByScanId = {};
+    scanService.beginScan('2026-03-01T00:00:00Z', false);
+    await orchestrator.run(workspaceIds(4));
+    await scanService['saveSnapshot']({ workspaces: [] } as TenantScanResult, scanService.scanInfoStatusByScanId);
+
+    expect(stored.get('latest:api')!.watermark).toBe('2026-03-01T00:00:00Z');
+  });
+
+  it('should keep the old watermark and the stored items when the Fabric items can\'t be listed', async () => {
+    const stored = new Map<string, StoredSnapshot>();
+    const store = {
+      getLatestSnapshotId: (environment: string) => `latest:${environment}`,
+      get: async (id: string) => stored.get(id),
+      put: async (snapshot: StoredSnapshot) => { stored.set(snapshot.id, snapshot); },
+      save: async () => undefined
+    };
+    const proxy = Object.assign(backend, {
+      getEnvironment: () => ({ apiUrl: 'api' }),
+      getTenantId: () => undefined,
+      getWorkspacesScanResult: () => of({ workspaces: [{ id: 'ws-0', name: 'Rescanned' }] }),
+      getAllItems: () => throwError(() => httpError(429))
+    });
+    scanService = new ScanService(proxy as unknown as HomeProxy, store as unknown as SnapshotStore);
+    orchestrator = new ScanOrchestrator(proxy as unknown as HomeProxy, scanService, authService, { batchSize: 2, maxParallelCalls: 1 });
+    spyOn(orchestrator, 'sleep').and.resolveTo();
+    const previous = {
+      workspaces: [{ id: 'ws-0', name: 'Old' }],
+      fabricItems: [{ id: 'nb-1', type: 'Notebook', displayName: 'Notebook', workspaceId: 'ws-0' }]
+    } as TenantScanResult;
+    stored.set('latest:api', { id: 'latest:api', name: 'Latest scan', environment: 'api', savedAt: '', watermark: '2026-01-01T00:00:00Z', result: previous });
+    backend.onSubmit({ id: 'scan-0', status: 'Succeeded' });
+
+    scanService.beginScan('2026-02-01T00:00:00Z', false);
+    await orchestrator.run(workspaceIds(1));
+    const result = await scanService.getWorkspacesResult(scanService.scanInfoStatusByScanId).toPromise();
+
+    expect(result!.workspaces.map(workspace => workspace.name)).toEqual(['Rescanned']);
+    expect(result!.fabricItems!.map(item => item.id)).toEqual(['nb-1']);
+    expect(stored.get('latest:api')!.watermark).toBe('2026-01-01T00:00:00Z');
+  });
+});
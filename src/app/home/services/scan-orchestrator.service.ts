@@ -0,0 +1,287 @@
+/**
+ * ScanOrchestrator - Runs tenant scans through the Scanner API
+ *
+ * Splits the workspace list into batches, submits and polls them through a
+ * bounded work queue and retries transient failures with exponential backoff
+ * (honoring 429 Retry-After). When the token expires or is rejected mid-scan,
+ * requests pause until a new token arrives. Per-batch progress and errors are
+ * published for the progress dialog; succeeded scan IDs are handed to
+ * ScanService so the results can be downloaded or visualized.
+ */
+
+import { Inject, Injectable, InjectionToken, Optional } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { AuthService } from 'src/app/services/auth.service';
+import { getTokenInfo, hasTokenExpired } from 'src/app/services/token-info';
+import { FabricApiError } from 'src/app/services/fabric-api-error';
+import { HomeProxy } from './home-proxy.service';
+import { ScanService } from './scan.service';
+import type { ScanOptions, ScanRequest } from '../models/scanner-api.types';
+import { DEFAULT_SCAN_OPTIONS } from '../utils/scan-options';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, getRetryDelayMs } from '../utils/http-retry';
+
+/** Scanner API accepts at most 100 workspaces per getInfo call */
+export const SCAN_BATCH_SIZE: number = 100;
+/** Scanner API allows at most 16 concurrent scans */
+export const MAX_PARALLEL_API_CALLS: number = 16;
+
+export type ScanBatchStatus = 'Queued' | 'Submitting' | 'NotStarted' | 'Running' | 'Succeeded' | 'Failed' | 'Cancelled';
+
+export interface ScanBatch {
+  index: number;
+  workspaceCount: number;
+  status: ScanBatchStatus;
+  scanId?: string;
+  /** Number of retried requests for this batch (submit + polling) */
+  retries: number;
+  error?: string;
+}
+
+export interface ScanProgress {
+  batches: ScanBatch[];
+  total: number;
+  succeeded: number;
+  failed: number;
+  /** Share of batches in a terminal state, 0-100 */
+  percent: number;
+  isFinished: boolean;
+  /** Requests are paused until a new token arrives (the current one expired or got a 401) */
+  isWaitingForToken: boolean;
+}
+
+export interface ScanOrchestratorConfig extends RetryPolicy {
+  batchSize: number;
+  maxParallelCalls: number;
+  pollIntervalMs: number;
+}
+
+export const DEFAULT_SCAN_ORCHESTRATOR_CONFIG: ScanOrchestratorConfig = {
+  batchSize: SCAN_BATCH_SIZE,
+  maxParallelCalls: MAX_PARALLEL_API_CALLS,
+  pollIntervalMs: 2000,
+  ...DEFAULT_RETRY_POLICY
+};
+
+/** Optional override for timings and limits (tests, slow tenants) */
+export const SCAN_ORCHESTRATOR_CONFIG = new InjectionToken<Partial<ScanOrchestratorConfig>>('SCAN_ORCHESTRATOR_CONFIG');
+
+const TERMINAL_STATUSES: ReadonlySet<ScanBatchStatus> = new Set(['Succeeded', 'Failed', 'Cancelled']);
+
+const EMPTY_PROGRESS: ScanProgress = { batches: [], total: 0, succeeded: 0, failed: 0, percent: 0, isFinished: false, isWaitingForToken: false };
+
+/** Raised when a batch is cancelled while waiting on a request or delay */
+class ScanCancelledError extends Error {}
+
+@Injectable({ providedIn: 'root' })
+export class ScanOrchestrator {
+  private readonly config: ScanOrchestratorConfig;
+  private progress$: BehaviorSubject<ScanProgress> = new BehaviorSubject(EMPTY_PROGRESS);
+  private batches: ScanBatch[] = [];
+  private cancelled: boolean = false;
+  private finished: boolean = false;
+  private waitingForToken: boolean = false;
+  /** Token the API answered 401 to; requests wait for a different one */
+  private rejectedToken: string | undefined;
+
+  constructor (private proxy: HomeProxy,
+    private scanService: ScanService,
+    private authService: AuthService,
+    @Optional() @Inject(SCAN_ORCHESTRATOR_CONFIG) config?: Partial<ScanOrchestratorConfig>) {
+    this.config = { ...DEFAULT_SCAN_ORCHESTRATOR_CONFIG, ...config };
+  }
+
+  public getProgress (): Observable<ScanProgress> {
+    return this.progress$.asObservable();
+  }
+
+  /** Clears the last run so a new progress dialog doesn't see a finished scan */
+  public reset (): void {
+    this.batches = [];
+    this.cancelled = false;
+    this.finished = false;
+    this.waitingForToken = false;
+    this.rejectedToken = undefined;
+    this.progress$.next(EMPTY_PROGRESS);
+  }
+
+  /** Stops submitting and polling; unfinished batches end as Cancelled */
+  public cancel (): void {
+    this.cancelled = true;
+  }
+
+  /**
+   * Scans the given workspaces and resolves once every batch is terminal
+   *
+   * Never rejects — failures are recorded on their batch so one bad batch
+   * doesn't abort the rest of the tenant.
+   *
+   * @param workspaceIds - Workspace GUIDs to scan
+   * @param options - Metadata requested with every batch
+   * @returns Final progress snapshot
+   */
+  public async run (workspaceIds: string[], options: ScanOptions = DEFAULT_SCAN_OPTIONS): Promise<ScanProgress> {
+    this.cancelled = false;
+    this.finished = false;
+    this.waitingForToken = false;
+    this.rejectedToken = undefined;
+    this.batches = [];
+    const queue: { batch: ScanBatch; workspaceIds: string[] }[] = [];
+    for (let start = 0; start < workspaceIds.length; start += this.config.batchSize) {
+      const batchWorkspaceIds = workspaceIds.slice(start, start + this.config.batchSize);
+      const batch: ScanBatch = { index: this.batches.length, workspaceCount: batchWorkspaceIds.length, status: 'Queued', retries: 0 };
+      this.batches.push(batch);
+      queue.push({ batch, workspaceIds: batchWorkspaceIds });
+    }
+    this.publish();
+
+    // Each worker owns one batch from submit to terminal status, so at most
+    // maxParallelCalls scans are in flight at any time
+    const workerCount = Math.min(this.config.maxParallelCalls, queue.length);
+    const workers = Array.from({ length: workerCount }, async () => {
+      let next = queue.shift();
+      while (next) {
+        await this.runBatch(next.batch, next.workspaceIds, options);
+        next = queue.shift();
+      }
+    });
+    await Promise.all(workers);
+
+    this.finished = true;
+    const progress = this.publish();
+    this.scanService.endScan(progress.failed === 0 && progress.succeeded === progress.total);
+    return progress;
+  }
+
+  private async runBatch (batch: ScanBatch, workspaceIds: string[], options: ScanOptions): Promise<void> {
+    try {
+      this.update(batch, { status: 'Submitting' });
+      let scanInfo = await this.withRetry(batch, () => this.proxy.getWorkspacesInfo(workspaceIds, options) as Observable<ScanRequest>);
+      this.update(batch, { scanId: scanInfo.id, status: scanInfo.status });
+
+      while (scanInfo.status === 'NotStarted' || scanInfo.status === 'Running') {
+        await this.sleep(this.config.pollIntervalMs);
+        this.throwIfCancelled();
+        scanInfo = await this.withRetry(batch, () => this.proxy.getWorkspacesScanStatus(scanInfo.id) as Observable<ScanRequest>);
+        this.update(batch, { status: scanInfo.status });
+      }
+
+      if (scanInfo.status === 'Failed') {
+        this.update(batch, { error: scanInfo.error?.message || scanInfo.error?.code || 'The Scanner API reported the scan as failed' });
+      }
+    } catch (e) {
+      if (e instanceof ScanCancelledError) {
+        this.update(batch, { status: 'Cancelled' });
+      } else {
+        this.update(batch, { status: 'Failed', error: this.describeError(e) });
+      }
+    }
+  }
+
+  /**
+   * Runs a request, retrying transient failures with exponential backoff
+   * A 429 waits for the server's Retry-After instead of the computed delay;
+   * a 401 waits for a new token and doesn't count as a retry.
+   */
+  private async withRetry<T> (batch: ScanBatch, request: () => Observable<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      this.throwIfCancelled();
+      await this.waitForUsableToken();
+      const token = this.authService.getCurrentToken();
+      try {
+        return await request().toPromise();
+      } catch (e) {
+        const status = e instanceof HttpErrorResponse ? e.status : undefined;
+        if (status === 401) {
+          this.rejectedToken = token;
+          attempt--;
+          continue;
+        }
+        const delayMs = getRetryDelayMs(e, attempt, this.config);
+        if (delayMs === undefined) {
+          throw e;
+        }
+
+        this.update(batch, { retries: batch.retries + 1, error: `${this.describeError(e)} — retrying` });
+        await this.sleep(delayMs);
+        this.update(batch, { error: undefined });
+      }
+    }
+  }
+
+  /**
+   * Pauses while there is no usable token — signed out, expired, or rejected
+   * with a 401 — so an expiring token doesn't fail a long scan halfway.
+   * All batches wait on the same token, so one sign-in resumes the whole scan.
+   */
+  private async waitForUsableToken (): Promise<void> {
+    while (!this.hasUsableToken()) {
+      this.setWaitingForToken(true);
+      await this.sleep(this.config.pollIntervalMs);
+      this.throwIfCancelled();
+    }
+    this.setWaitingForToken(false);
+  }
+
+  private hasUsableToken (): boolean {
+    const token = this.authService.getCurrentToken();
+    return !!token && token !== this.rejectedToken && !hasTokenExpired(getTokenInfo(token));
+  }
+
+  private setWaitingForToken (waiting: boolean): void {
+    if (this.waitingForToken === waiting) return;
+    this.waitingForToken = waiting;
+    this.publish();
+  }
+
+  private describeError (e: any): string {
+    if (e instanceof HttpErrorResponse) {
+      const { apiMessage, requestId } = e instanceof FabricApiError ? e : new FabricApiError(e);
+      return `HTTP ${e.status}${e.statusText ? ' ' + e.statusText : ''}${apiMessage ? ': ' + apiMessage : ''}` +
+        (requestId ? ` (request ID ${requestId})` : '');
+    }
+    return e?.message || String(e);
+  }
+
+  private throwIfCancelled (): void {
+    if (this.cancelled || this.scanService.shouldStopScan) {
+      throw new ScanCancelledError();
+    }
+  }
+
+  private update (batch: ScanBatch, changes: Partial<ScanBatch>): void {
+    Object.assign(batch, changes);
+
+    // Keep ScanService's status map in sync — it fetches results for succeeded scans
+    if (batch.scanId && changes.status) {
+      this.scanService.scanInfoStatusByScanId[batch.scanId] = batch.status;
+      this.scanService.setScanInfoStatusChanged(this.scanService.scanInfoStatusByScanId);
+    }
+    this.publish();
+  }
+
+  private publish (): ScanProgress {
+    const batches = this.batches.map(batch => ({ ...batch }));
+    const finished = batches.filter(batch => TERMINAL_STATUSES.has(batch.status)).length;
+    const progress: ScanProgress = {
+      batches,
+      total: batches.length,
+      succeeded: batches.filter(batch => batch.status === 'Succeeded').length,
+      failed: batches.filter(batch => batch.status === 'Failed').length,
+      percent: batches.length ? Math.round((finished / batches.length) * 100) : (this.finished ? 100 : 0),
+      isFinished: this.finished,
+      isWaitingForToken: this.waitingForToken
+    };
+    this.progress$.next(progress);
+    return progress;
+  }
+
+  /**
+   * Pauses between polls and retries
+   *
+   * @param ms - Milliseconds to sleep
+   */
+  public sleep (ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
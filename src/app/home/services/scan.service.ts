@@ -1,21 +1,91 @@
 import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable, forkJoin, pipe } from 'rxjs';
+import { BehaviorSubject, Observable, Subject, forkJoin, from, of, pipe } from 'rxjs';
 import { HttpClient } from '@angular/common/http';
 import { AuthService } from 'src/app/services/auth.service';
 import { HomeProxy } from 'src/app/home/services/home-proxy.service';
+import { SnapshotStore } from 'src/app/home/services/snapshot-store.service';
 import { ActivatedRoute } from '@angular/router';
-import { map, take } from 'rxjs/operators';
+import { catchError, map, switchMap, take } from 'rxjs/operators';
+import type { FabricItemResponse, ScanOptions, TenantScanResult } from '../models/scanner-api.types';
+import { mergeScanResults } from '../utils/scan-merge';
+import { DEFAULT_SCAN_OPTIONS, coversScanOptions, intersectScanOptions } from '../utils/scan-options';
 declare let saveAs: any;
 
+// The modified-workspaces API rejects modifiedSince values older than this
+const MODIFIED_SINCE_MAX_AGE_DAYS: number = 30;
+// Scan settings chosen in the scan settings panel, kept across sessions
+const SCAN_OPTIONS_STORAGE_KEY: string = 'fabricbeye.scan.options';
+
 @Injectable({ providedIn: 'root' })
 export class ScanService {
   private latestWorkspacesResult: any;
   public shouldStopScan: boolean = false;
   private scanInfoStatusChanged$: BehaviorSubject<{ [scanInfoId: string]: string }> = new BehaviorSubject({});
   private loadLineage$: BehaviorSubject<any> = new BehaviorSubject([]);
+  private snapshotSaved$: Subject<void> = new Subject();
   public scanInfoStatusByScanId: { [scanInfoId: string]: string } = {};
+  private currentScan: { startedAt: string; isIncremental: boolean; options: ScanOptions; isComplete: boolean };
+  private latestScanOptions: ScanOptions = DEFAULT_SCAN_OPTIONS;
+
+  constructor (private proxy: HomeProxy,
+    private snapshotStore: SnapshotStore) { }
+
+  /** Scan settings for the next scan (lineage only until changed) */
+  public getScanOptions (): ScanOptions {
+    try {
+      return { ...DEFAULT_SCAN_OPTIONS, ...JSON.parse(localStorage.getItem(SCAN_OPTIONS_STORAGE_KEY) ?? '{}') };
+    } catch {
+      return { ...DEFAULT_SCAN_OPTIONS };
+    }
+  }
+
+  public setScanOptions (options: ScanOptions): void {
+    localStorage.setItem(SCAN_OPTIONS_STORAGE_KEY, JSON.stringify(options));
+  }
+
+  /** Metadata included in the result of the last scan */
+  public getLatestScanOptions (): ScanOptions {
+    return this.latestScanOptions;
+  }
 
-  constructor (private proxy: HomeProxy) { }
+  /**
+   * Watermark for an incremental scan of the current environment
+   * Undefined when a full scan is needed: nothing stored yet, the last
+   * complete scan is older than modifiedSince allows, or it lacks metadata
+   * the scan settings now ask for (unmodified workspaces would never get it)
+   */
+  public async getIncrementalWatermark (): Promise<string | undefined> {
+    try {
+      const snapshot = await this.snapshotStore.get(this.getLatestSnapshotId());
+      if (!snapshot?.watermark || !coversScanOptions(snapshot.scanOptions, this.getScanOptions())) return undefined;
+      const ageMs = Date.now() - Date.parse(snapshot.watermark);
+      return ageMs < MODIFIED_SINCE_MAX_AGE_DAYS * 24 * 60 * 60 * 1000 ? snapshot.watermark : undefined;
+    } catch (e) {
+      console.warn('Could not read the stored scan snapshot:', e);
+      return undefined;
+    }
+  }
+
+  /**
+   * Records how the scan about to run relates to the stored snapshot
+   *
+   * @param startedAt - Time the workspace list was requested; becomes the next watermark
+   * @param isIncremental - Only modified workspaces are scanned and get merged into the snapshot
+   * @param options - Metadata requested besides lineage; stored with the snapshot
+   */
+  public beginScan (startedAt: string, isIncremental: boolean, options: ScanOptions = DEFAULT_SCAN_OPTIONS): void {
+    this.currentScan = { startedAt, isIncremental, options: { ...options }, isComplete: false };
+    this.latestWorkspacesResult = undefined;
+  }
+
+  /**
+   * Records whether every batch of the current scan succeeded
+   * Batches that failed before the API gave them a scan ID never appear in
+   * scanInfoStatusByScanId, so the orchestrator's counts decide this.
+   */
+  public endScan (isComplete: boolean): void {
+    if (this.currentScan) this.currentScan.isComplete = isComplete;
+  }
 
   public stopScan (): void {
     this.shouldStopScan = true;
@@ -37,6 +107,11 @@ export class ScanService {
     }
   }
 
+  /** Emits once a scan has been written to the snapshot store, e.g. to re-read the watermark */
+  public getSnapshotSaved (): Observable<void> {
+    return this.snapshotSaved$.asObservable();
+  }
+
   public getScanInfoStatusChanged (): Observable<{ [scanInfoId: string]: string }> {
     return this.scanInfoStatusChanged$.asObservable();
   }
@@ -55,7 +130,11 @@ export class ScanService {
     });
   }
 
-  public getWorkspacesResult (scanInfoStatusByScanId: { [scanInfoId: string]: string }) {
+  /**
+   * Merges the results of all succeeded scans and attaches the Fabric items
+   * of every scanned workspace (Notebooks, Pipelines, Eventstreams, ...)
+   */
+  public getWorkspacesResult (scanInfoStatusByScanId: { [scanInfoId: string]: string }): Observable<TenantScanResult> {
     const observables = [];
 
     for (const [scanInfoId, scanInfoStatus] of Object.entries(scanInfoStatusByScanId)) {
@@ -64,14 +143,109 @@ export class ScanService {
       }
     }
 
-    return forkJoin(observables).pipe(take(1)).pipe(map(arrayResult => {
-      const result = { workspaces: [] };
-      arrayResult.forEach((resultScanner: any) => {
-        result.workspaces = [...result.workspaces, ...resultScanner.workspaces];
+    return (observables.length > 0 ? forkJoin(observables) : of([])).pipe(take(1)).pipe(
+      map(arrayResult => {
+        const result: TenantScanResult = { workspaces: [], datasourceInstances: [], misconfiguredDatasourceInstances: [] };
+        arrayResult.forEach((resultScanner: any) => {
+          result.workspaces = [...result.workspaces, ...resultScanner.workspaces];
+          result.datasourceInstances = [...result.datasourceInstances, ...(resultScanner.datasourceInstances ?? [])];
+          result.misconfiguredDatasourceInstances = [
+            ...result.misconfiguredDatasourceInstances,
+            ...(resultScanner.misconfiguredDatasourceInstances ?? [])
+          ];
+        });
+        return result;
+      }),
+      switchMap(result => this.getFabricItems(result.workspaces.map(workspace => workspace.id)).pipe(
+        map(fabricItems => ({ ...result, fabricItems }))
+      )),
+      switchMap(result => from(this.saveSnapshot(result, scanInfoStatusByScanId))),
+      map(result => {
+        this.latestWorkspacesResult = result;
+        return result;
+      })
+    );
+  }
+
+  /**
+   * Persists the scan as the environment's latest snapshot and adds it to the snapshot library
+   *
+   * Incremental scans (and full scans with failed batches) are merged into the
+   * stored snapshot; complete full scans replace it. The watermark only advances
+   * when every batch succeeded, so changes in failed batches are picked up next time.
+   * A merged snapshot only claims the scan options both sides were scanned with.
+   *
+   * @returns The snapshot that now represents the tenant
+   */
+  private async saveSnapshot (delta: TenantScanResult, scanInfoStatusByScanId: { [scanInfoId: string]: string }): Promise<TenantScanResult> {
+    const environment = this.proxy.getEnvironment().apiUrl;
+    const isComplete = (this.currentScan?.isComplete ?? true) && Object.values(scanInfoStatusByScanId).every(status => status === 'Succeeded');
+    this.latestScanOptions = this.currentScan?.options ?? DEFAULT_SCAN_OPTIONS;
+
+    try {
+      const stored = await this.snapshotStore.get(this.getLatestSnapshotId());
+      let result = delta;
+      if (stored && (this.currentScan?.isIncremental || !isComplete)) {
+        const merged = mergeScanResults(stored.result, delta);
+        result = merged.result;
+        this.latestScanOptions = intersectScanOptions(stored.scanOptions ?? DEFAULT_SCAN_OPTIONS, this.latestScanOptions);
+        console.log(`✓ Merged scan into stored snapshot: ${merged.summary.added} added, ${merged.summary.updated} updated, ${merged.summary.deleted} deleted`);
+      }
+
+      await this.snapshotStore.put({
+        id: this.getLatestSnapshotId(),
+        name: 'Latest scan',
+        environment,
+        savedAt: new Date().toISOString(),
+        watermark: isComplete && this.currentScan ? this.currentScan.startedAt : stored?.watermark,
+        scanOptions: this.latestScanOptions,
+        result
       });
-      this.latestWorkspacesResult = result;
+
+      // Library entry; keyed by scan start so downloading and visualizing the same scan store it once
+      const scanStartedAt = this.currentScan?.startedAt ?? new Date().toISOString();
+      await this.snapshotStore.save(result, {
+        id: `scan:${environment}:${scanStartedAt}`,
+        name: `${this.currentScan?.isIncremental ? 'Incremental scan' : 'Scan'} ${new Date(scanStartedAt).toLocaleString()}`,
+        environment,
+        tenantId: this.proxy.getTenantId(),
+        source: 'scan',
+        savedAt: scanStartedAt,
+        scanOptions: this.latestScanOptions
+      });
+      this.snapshotSaved$.next();
       return result;
-    }));
+    } catch (e) {
+      console.warn('Could not persist the scan snapshot:', e);
+      return delta;
+    }
+  }
+
+  private getLatestSnapshotId (): string {
+    return this.snapshotStore.getLatestSnapshotId(this.proxy.getEnvironment().apiUrl);
+  }
+
+  /**
+   * Lists the tenant's Fabric items once and keeps those of the given workspaces
+   *
+   * When the listing still fails after retries the scan loads without items and
+   * is marked incomplete: the stored snapshot keeps its items for those workspaces
+   * and the watermark stays put, so the next scan lists them again.
+   *
+   * @returns Items of the scanned workspaces, or undefined when they couldn't be listed
+   */
+  public getFabricItems (workspaceIds: string[]): Observable<FabricItemResponse[] | undefined> {
+    if (workspaceIds.length === 0) return of([]);
+
+    const scanned = new Set(workspaceIds);
+    return this.proxy.getAllItems().pipe(
+      map(items => items.filter(item => scanned.has(item.workspaceId))),
+      catchError(err => {
+        console.warn('Could not fetch Fabric items:', err.status);
+        this.endScan(false);
+        return of(undefined);
+      })
+    );
   }
 
   public saveAsFile (t: any, f: any, m: any): void {
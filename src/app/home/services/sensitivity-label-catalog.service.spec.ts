@@ -0,0 +1,80 @@
+import { HttpClient } from '@angular/common/http';
+import { DEMO_SENSITIVITY_LABELS, parseSensitivityLabels, SensitivityLabelCatalog } from './sensitivity-label-catalog.service';
+
+/** Trimmed Microsoft Graph sensitivityLabels response */
+const GRAPH_LABELS = {
+  value: [
+    { id: 'general', name: 'General', sensitivity: 0, color: '' },
+    {
+      id: 'confidential',
+      name: 'Confidential',
+      sensitivity: 2,
+      color: '#FF8C00',
+      sublabels: [
+        { id: 'confidential-finance', name: 'Finance', sensitivity: 3 },
+        { id: 'broken', sensitivity: 4 }
+      ]
+    },
+    { id: 'internal', displayName: 'Internal', sensitivity: 1 }
+  ]
+};
+
+describe('SensitivityLabelCatalog', () => {
+  let catalog: SensitivityLabelCatalog;
+
+  beforeEach(() => {
+    catalog = new SensitivityLabelCatalog({} as HttpClient);
+  });
+
+  afterEach(() => {
+    catalog.resetImported();
+  });
+
+  it('should read Graph label lists, flattening sublabels and skipping incomplete entries', () => {
+    const { catalog: parsed, errors } = parseSensitivityLabels(GRAPH_LABELS);
+
+    expect(parsed.labels.map(label => [label.id, label.priority, label.parentId])).toEqual([
+      ['general', 0, undefined],
+      ['confidential', 2, undefined],
+      ['confidential-finance', 3, 'confidential'],
+      ['internal', 1, undefined]
+    ]);
+    expect(errors).toEqual(['Label 2.2 (broken) needs an id, a name and a numeric priority']);
+    expect(parseSensitivityLabels({ items: [] }).errors.length).toBe(1);
+  });
+
+  it('should only accept hex label colors', () => {
+    const { catalog: parsed, errors } = parseSensitivityLabels([
+      { id: 'public', name: 'Public', priority: 0, color: '#0a0' },
+      { id: 'secret', name: 'Secret', priority: 1, color: 'red;background:url(https://evil.example)' }
+    ]);
+
+    expect(parsed.labels.map(label => label.color)).toEqual(['#0a0', undefined]);
+    expect(errors).toEqual(['Label 2 (secret): color "red;background:url(https://evil.example)" ignored — expected a hex color such as #FF8C00']);
+  });
+
+  it('should resolve the demo labels until a catalog is imported', () => {
+    expect(catalog.getSource()).toBe('built-in');
+    expect(catalog.getName(DEMO_SENSITIVITY_LABELS[3].id)).toBe('Highly Confidential');
+    expect(catalog.isSensitive(DEMO_SENSITIVITY_LABELS[2].id)).toBeTrue();
+    expect(catalog.isSensitive(DEMO_SENSITIVITY_LABELS[1].id)).toBeFalse();
+  });
+
+  it('should name sublabels after their parent and treat Confidential and above as sensitive', () => {
+    catalog.importCatalog(GRAPH_LABELS);
+
+    expect(catalog.getSource()).toBe('imported');
+    expect(catalog.list().map(label => label.id)).toEqual(['confidential', 'confidential-finance', 'internal', 'general']);
+    expect(catalog.resolve('confidential-finance')).toEqual(jasmine.objectContaining({ displayName: 'Confidential / Finance', color: '#FF8C00', isSensitive: true }));
+    expect(catalog.resolve('general')).toEqual(jasmine.objectContaining({ color: '#8A8A8A', icon: '🌐', isSensitive: false }));
+    expect(catalog.resolve('unknown-guid')).toEqual(jasmine.objectContaining({ displayName: 'Unknown label (unknown-)', isKnown: false }));
+    expect(catalog.getName(DEMO_SENSITIVITY_LABELS[0].id)).toContain('Unknown label');
+  });
+
+  it('should use an explicit sensitivity threshold', () => {
+    catalog.importCatalog({ ...GRAPH_LABELS, sensitiveFromPriority: 1 });
+
+    expect(catalog.isSensitive('internal')).toBeTrue();
+    expect(() => catalog.importCatalog({ labels: [] })).toThrowError('The catalog has no labels');
+  });
+});
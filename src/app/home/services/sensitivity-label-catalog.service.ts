@@ -0,0 +1,298 @@
+/**
+ * SensitivityLabelCatalog - Names, colors and ordering of the tenant's sensitivity labels
+ *
+ * Scanner results only carry label IDs. The catalog resolves them for the
+ * tooltip, side panel, label stats and compliance reports. The first of these
+ * that has labels is used:
+ * 1. A catalog imported in the Labels panel from a JSON file or a label
+ *    endpoint (this browser only)
+ * 2. `assets/sensitivity-labels.json`, for a deployment-wide catalog
+ * 3. The placeholder labels of the demo data
+ *
+ * Files and endpoints may use this app's format (`{ labels: [...] }`), a plain
+ * array, or Microsoft Graph's sensitivityLabel list (`{ value: [...] }` with
+ * `sensitivity`, `parent` and nested `sublabels`).
+ */
+
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+
+export interface SensitivityLabelDefinition {
+  id: string;
+  name: string;
+  /** Higher is more sensitive; a downgrade is a move to a lower priority */
+  priority: number;
+  /** CSS color; labels without one get a color from their priority */
+  color?: string;
+  /** Set on sublabels */
+  parentId?: string;
+  description?: string;
+  /** Overrides the catalog's sensitive-from-priority threshold */
+  isSensitive?: boolean;
+}
+
+/** Shape of assets/sensitivity-labels.json and of exported catalogs */
+export interface SensitivityLabelCatalogFile {
+  labels: SensitivityLabelDefinition[];
+  /** Labels at or above this priority count as sensitive (default: the lowest "Confidential" label) */
+  sensitiveFromPriority?: number;
+  /** Label endpoint offered in the Labels panel */
+  endpoint?: string;
+}
+
+export interface ResolvedSensitivityLabel {
+  id: string;
+  /** Sublabels are shown as "Parent / Sublabel" */
+  displayName: string;
+  priority: number;
+  color: string;
+  icon: string;
+  isSensitive: boolean;
+  /** False for IDs the catalog doesn't define */
+  isKnown: boolean;
+}
+
+export type SensitivityLabelSource = 'built-in' | 'config' | 'imported';
+
+/** Placeholder label IDs used by the demo data */
+export const DEMO_SENSITIVITY_LABELS: ReadonlyArray<SensitivityLabelDefinition> = [
+  { id: '00000000-0000-0000-0000-000000000001', name: 'Public', priority: 0, color: '#8A8A8A' },
+  { id: '00000000-0000-0000-0000-000000000002', name: 'Internal', priority: 1, color: '#CA5010' },
+  { id: '00000000-0000-0000-0000-000000000003', name: 'Confidential', priority: 2, color: '#D83B01' },
+  { id: '00000000-0000-0000-0000-000000000004', name: 'Highly Confidential', priority: 3, color: '#C43E1C' }
+];
+
+const LABEL_CATALOG_CONFIG_URL: string = 'assets/sensitivity-labels.json';
+const IMPORTED_CATALOG_STORAGE_KEY: string = 'fabricbeye.sensitivityLabels';
+const UNKNOWN_LABEL_COLOR: string = '#605E5C';
+/** Label colors are inserted into tooltip styles, so only hex colors are accepted */
+const HEX_COLOR: RegExp = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+/** Priority colors for labels without their own, least to most sensitive */
+const PRIORITY_COLORS: ReadonlyArray<string> = ['#8A8A8A', '#CA5010', '#D83B01', '#C43E1C', '#A4262C'];
+
+/**
+ * Reads label definitions from any of the supported catalog formats
+ * Sublabels nested under `sublabels` (or `children`) are flattened with their parent ID.
+ *
+ * @returns The valid definitions plus one message per skipped entry or ignored color
+ */
+export function parseSensitivityLabels (json: unknown): { catalog: SensitivityLabelCatalogFile; errors: string[] } {
+  const errors: string[] = [];
+  const body = json as any;
+  const entries: unknown[] | undefined = Array.isArray(body) ? body : Array.isArray(body?.labels) ? body.labels : Array.isArray(body?.value) ? body.value : undefined;
+  if (!entries) {
+    return { catalog: { labels: [] }, errors: ['Expected a list of labels, { labels: [...] } or a Graph { value: [...] } response'] };
+  }
+
+  const labels: SensitivityLabelDefinition[] = [];
+  const visit = (entry: any, parentId: string | undefined, position: string): void => {
+    const id = typeof entry?.id === 'string' ? entry.id.trim() : '';
+    const name = String(entry?.name ?? entry?.displayName ?? '').trim();
+    const priority = Number(entry?.priority ?? entry?.sensitivity ?? entry?.order);
+    if (!id || !name || !Number.isFinite(priority)) {
+      errors.push(`Label ${position}${id ? ` (${id})` : ''} needs an id, a name and a numeric priority`);
+      return;
+    }
+    const color = typeof entry.color === 'string' ? entry.color.trim() : '';
+    if (color && !HEX_COLOR.test(color)) {
+      errors.push(`Label ${position} (${id}): color "${color}" ignored — expected a hex color such as #FF8C00`);
+    }
+    labels.push({
+      id,
+      name,
+      priority,
+      color: HEX_COLOR.test(color) ? color : undefined,
+      parentId: entry.parentId ?? entry.parent?.id ?? parentId,
+      description: entry.description || entry.tooltip || undefined,
+      isSensitive: typeof entry.isSensitive === 'boolean' ? entry.isSensitive : undefined
+    });
+    const children = entry.sublabels ?? entry.children;
+    if (Array.isArray(children)) {
+      children.forEach((child: unknown, index: number) => visit(child, id, `${position}.${index + 1}`));
+    }
+  };
+  entries.forEach((entry, index) => visit(entry, undefined, `${index + 1}`));
+
+  const threshold = Number(body?.sensitiveFromPriority);
+  return {
+    catalog: {
+      labels,
+      sensitiveFromPriority: body?.sensitiveFromPriority !== undefined && Number.isFinite(threshold) ? threshold : undefined,
+      endpoint: typeof body?.endpoint === 'string' ? body.endpoint : undefined
+    },
+    errors
+  };
+}
+
+@Injectable({ providedIn: 'root' })
+export class SensitivityLabelCatalog {
+  private configured: SensitivityLabelCatalogFile = { labels: [] };
+  private imported: SensitivityLabelCatalogFile | null = null;
+  private labels = new Map<string, SensitivityLabelDefinition>();
+  private sensitiveFromPriority: number = Infinity;
+  /** Distinct top-level priorities, least sensitive first, for the fallback colors */
+  private priorityRanks: number[] = [];
+  private resolved = new Map<string, ResolvedSensitivityLabel>();
+  private readonly changes$ = new BehaviorSubject<void>(undefined);
+
+  constructor (private http: HttpClient) {
+    this.rebuild();
+  }
+
+  /** Emits whenever the definitions change (and once on subscribe) */
+  public get changes (): Observable<void> {
+    return this.changes$.asObservable();
+  }
+
+  /**
+   * Loads assets/sensitivity-labels.json and this browser's imported catalog
+   * A missing or invalid config file leaves the demo labels in place.
+   */
+  public async load (): Promise<void> {
+    this.imported = this.readImported();
+    try {
+      const { catalog, errors } = parseSensitivityLabels(await this.http.get(LABEL_CATALOG_CONFIG_URL).toPromise());
+      errors.forEach(error => console.warn(`${LABEL_CATALOG_CONFIG_URL}: ${error}`));
+      this.configured = catalog;
+    } catch (e) {
+      if (!(e instanceof HttpErrorResponse && e.status === 404)) {
+        console.warn(`Could not load ${LABEL_CATALOG_CONFIG_URL}:`, e?.message ?? e);
+      }
+    }
+    this.rebuild();
+  }
+
+  /** All definitions, most sensitive first, sublabels after their parent */
+  public list (): SensitivityLabelDefinition[] {
+    const all = [...this.labels.values()];
+    const byPriority = (a: SensitivityLabelDefinition, b: SensitivityLabelDefinition): number => b.priority - a.priority || a.name.localeCompare(b.name);
+    const topLevel = all.filter(label => !label.parentId || !this.labels.has(label.parentId)).sort(byPriority);
+    return topLevel.flatMap(parent => [parent, ...all.filter(label => label.parentId === parent.id).sort(byPriority)]);
+  }
+
+  /** Where the current definitions come from */
+  public getSource (): SensitivityLabelSource {
+    return this.imported ? 'imported' : this.configured.labels.length > 0 ? 'config' : 'built-in';
+  }
+
+  /** Label endpoint from the imported or deployment catalog, for the Labels panel */
+  public getEndpoint (): string {
+    return this.imported?.endpoint ?? this.configured.endpoint ?? '';
+  }
+
+  /**
+   * Name, color and sensitivity for a label ID
+   * Unknown IDs resolve to a neutral "Unknown label" entry that isn't sensitive.
+   */
+  public resolve (labelId: string): ResolvedSensitivityLabel {
+    let label = this.resolved.get(labelId);
+    if (!label) {
+      const definition = this.labels.get(labelId);
+      label = definition
+        ? this.resolveDefinition(definition)
+        : {
+            id: labelId,
+            displayName: labelId ? `Unknown label (${labelId.slice(0, 8)})` : 'None',
+            priority: -1,
+            color: UNKNOWN_LABEL_COLOR,
+            icon: '🏷️',
+            isSensitive: false,
+            isKnown: false
+          };
+      this.resolved.set(labelId, label);
+    }
+    return label;
+  }
+
+  public getName (labelId: string): string {
+    return this.resolve(labelId).displayName;
+  }
+
+  public isSensitive (labelId: string): boolean {
+    return this.resolve(labelId).isSensitive;
+  }
+
+  /**
+   * Replaces the imported catalog with one read from a file or endpoint response
+   *
+   * @throws {Error} When nothing usable is in the content
+   * @returns Messages for entries that were skipped
+   */
+  public importCatalog (json: unknown): string[] {
+    const { catalog, errors } = parseSensitivityLabels(json);
+    if (catalog.labels.length === 0) {
+      throw new Error(errors.join('\n') || 'The catalog has no labels');
+    }
+    this.imported = catalog;
+    localStorage.setItem(IMPORTED_CATALOG_STORAGE_KEY, JSON.stringify(catalog));
+    this.rebuild();
+    return errors;
+  }
+
+  /**
+   * Imports the labels returned by a label endpoint
+   * The request carries no Power BI token: Graph's label API needs its own
+   * audience, so point this at a service that returns the tenant's labels.
+   */
+  public async importFromEndpoint (url: string): Promise<string[]> {
+    const errors = this.importCatalog(await this.http.get(url).toPromise());
+    this.imported = { ...this.imported!, endpoint: url };
+    localStorage.setItem(IMPORTED_CATALOG_STORAGE_KEY, JSON.stringify(this.imported));
+    return errors;
+  }
+
+  /** Drops the imported catalog, going back to the deployment or demo labels */
+  public resetImported (): void {
+    this.imported = null;
+    localStorage.removeItem(IMPORTED_CATALOG_STORAGE_KEY);
+    this.rebuild();
+  }
+
+  /** The current definitions in the catalog file format */
+  public toFileContent (): string {
+    const catalog: SensitivityLabelCatalogFile = { labels: this.list() };
+    if (Number.isFinite(this.sensitiveFromPriority)) catalog.sensitiveFromPriority = this.sensitiveFromPriority;
+    return JSON.stringify(catalog, null, 2);
+  }
+
+  private resolveDefinition (label: SensitivityLabelDefinition): ResolvedSensitivityLabel {
+    const parent = label.parentId ? this.labels.get(label.parentId) : undefined;
+    const isSensitive = label.isSensitive ?? (parent?.isSensitive === true || label.priority >= this.sensitiveFromPriority);
+    const rank = Math.max(this.priorityRanks.indexOf(parent?.priority ?? label.priority), 0);
+    return {
+      id: label.id,
+      displayName: parent ? `${parent.name} / ${label.name}` : label.name,
+      priority: label.priority,
+      color: label.color ?? parent?.color ?? PRIORITY_COLORS[Math.min(rank, PRIORITY_COLORS.length - 1)],
+      icon: isSensitive ? '🔒' : rank === 0 ? '🌐' : '🔓',
+      isSensitive,
+      isKnown: true
+    };
+  }
+
+  private rebuild (): void {
+    const catalog = this.imported ?? (this.configured.labels.length > 0 ? this.configured : { labels: [...DEMO_SENSITIVITY_LABELS] });
+    this.labels = new Map(catalog.labels.map(label => [label.id, label]));
+
+    const topLevel = catalog.labels.filter(label => !label.parentId || !this.labels.has(label.parentId));
+    this.priorityRanks = [...new Set(topLevel.map(label => label.priority))].sort((a, b) => a - b);
+    const confidential = topLevel.filter(label => /confidential/i.test(label.name));
+    this.sensitiveFromPriority = catalog.sensitiveFromPriority ??
+      (confidential.length > 0 ? Math.min(...confidential.map(label => label.priority)) : Infinity);
+
+    this.resolved.clear();
+    this.changes$.next();
+  }
+
+  private readImported (): SensitivityLabelCatalogFile | null {
+    try {
+      const stored = localStorage.getItem(IMPORTED_CATALOG_STORAGE_KEY);
+      if (!stored) return null;
+      const { catalog } = parseSensitivityLabels(JSON.parse(stored));
+      return catalog.labels.length > 0 ? catalog : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { TestBed } from '@angular/core/testing';
+import { SnapshotStore, StoredSnapshot } from './snapshot-store.service';
+import { TenantScanResult } from '../models/scanner-api.types';
+import { validateScanResult } from '../utils/scan-import';
+import { DEFAULT_SCAN_OPTIONS } from '../utils/scan-options';
+
+function scanResult (workspaceIds: string[]): TenantScanResult {
+  return {
+    workspaces: workspaceIds.map(id => ({
+      id,
+      name: `Workspace ${id}`,
+      type: 'Workspace',
+      state: 'Active',
+      isOnDedicatedCapacity: false,
+      reports: [],
+      dashboards: [],
+      datasets: [],
+      dataflows: [],
+      datamarts: [],
+      users: []
+    })),
+    datasourceInstances: [],
+    misconfiguredDatasourceInstances: []
+  };
+}
+
+describe('SnapshotStore', () => {
+  let store: SnapshotStore;
+  let saved: StoredSnapshot[];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    store = TestBed.inject(SnapshotStore);
+    saved = [];
+    spyOn(store, 'put').and.callFake(async snapshot => {
+      saved.push(snapshot);
+    });
+  });
+
+  it('should keep library entries without results apart from the snapshots, newest first', async () => {
+    const objectStores = new Map<string, Map<string, any>>([['snapshots', new Map()], ['snapshotSummaries', new Map()]]);
+    const tx = {
+      objectStore: (name: string) => {
+        const records = objectStores.get(name)!;
+        return {
+          put: (value: any) => ({ result: records.set(value.id, value) && value.id }),
+          getAll: () => ({ result: Array.from(records.values()) })
+        };
+      }
+    };
+    spyOn(store as any, 'request').and.callFake(async (mode: string, storeNames: string[], operation: (tx: unknown) => { result: unknown }) => operation(tx).result);
+    (store.put as jasmine.Spy).and.callThrough();
+
+    await store.put({ id: 'snapshot:a', name: 'Old', environment: 'api.powerbi.com', savedAt: '2024-01-01T00:00:00Z', result: scanResult(['ws-1']) });
+    await store.put({ id: store.getLatestSnapshotId('api.powerbi.com'), name: 'Latest scan', environment: 'api.powerbi.com', savedAt: '2024-03-01T00:00:00Z', result: scanResult([]) });
+    await store.put({ id: 'snapshot:b', name: 'New', environment: '', savedAt: '2024-02-01T00:00:00Z', workspaceCount: 2, result: scanResult(['ws-1', 'ws-2']) });
+    const library = await store.list();
+
+    expect(library.map(snapshot => snapshot.name)).toEqual(['New', 'Old']);
+    expect(library.map(snapshot => snapshot.workspaceCount)).toEqual([2, 1]);
+    expect(library.every(snapshot => !('result' in snapshot))).toBeTrue();
+    expect(objectStores.get('snapshots')!.size).toBe(3);
+  });
+
+  it('should restore label and origin when importing an exported snapshot', async () => {
+    const exported = store.toFileContent({
+      id: 'scan:api.powerbi.com:2024-05-01T10:00:00.000Z',
+      name: 'Before migration',
+      environment: 'api.powerbi.com',
+      tenantId: 'tenant-1',
+      source: 'scan',
+      savedAt: '2024-05-01T10:00:00.000Z',
+      scanOptions: { ...DEFAULT_SCAN_OPTIONS, datasetSchema: true },
+      result: scanResult(['ws-1', 'ws-2'])
+    });
+
+    const imported = await store.saveImportedFile({ fileName: 'Before_migration.json', ...validateScanResult(JSON.parse(exported)) });
+
+    expect(imported.name).toBe('Before migration');
+    expect(imported.environment).toBe('api.powerbi.com');
+    expect(imported.tenantId).toBe('tenant-1');
+    expect(imported.source).toBe('file');
+    expect(imported.savedAt).toBe('2024-05-01T10:00:00.000Z');
+    expect(imported.workspaceCount).toBe(2);
+    expect(imported.scanOptions).toEqual({ ...DEFAULT_SCAN_OPTIONS, datasetSchema: true });
+    expect(imported.id).not.toBe('scan:api.powerbi.com:2024-05-01T10:00:00.000Z');
+    expect('snapshotInfo' in imported.result).toBeFalse();
+    expect(saved).toEqual([imported]);
+  });
+
+  it('should name plain Scanner API files after the file and reject invalid files', async () => {
+    const imported = await store.saveImportedFile({ fileName: 'workspaces2024-05-01.JSON', ...validateScanResult({ workspaces: scanResult(['ws-1']).workspaces }) });
+
+    expect(imported.name).toBe('workspaces2024-05-01');
+    expect(imported.result.datasourceInstances).toEqual([]);
+    expect(imported.scanOptions).toEqual(DEFAULT_SCAN_OPTIONS);
+    await expectAsync(store.saveImportedFile({ fileName: 'items.json', ...validateScanResult({ value: [] }) })).toBeRejectedWithError(/not a valid Scanner API result/);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * SnapshotStore - IndexedDB persistence for tenant scan snapshots
+ *
+ * Backs the snapshot library (every scan and uploaded file, listed in the
+ * Snapshots panel) and the rolling per-environment snapshot that incremental
+ * scans merge into (only workspaces modified since its watermark are rescanned).
+ */
+
+import { Injectable } from '@angular/core';
+import type { ScanOptions, TenantScanResult } from '../models/scanner-api.types';
+import type { SnapshotFileInfo } from '../utils/scan-import';
+import { inferScanOptions } from '../utils/scan-options';
+import type { ScanImportFileResult } from './scan-import.service';
+
+const DB_NAME: string = 'fabricbeye';
+const DB_VERSION: number = 2;
+const SNAPSHOT_STORE: string = 'snapshots';
+/** Library listing entries, kept apart so listing never loads a scan result */
+const SUMMARY_STORE: string = 'snapshotSummaries';
+
+/** ID prefix of the rolling incremental-scan snapshots, which are kept out of the library */
+const LATEST_SNAPSHOT_PREFIX: string = 'latest:';
+
+export type SnapshotSource = 'scan' | 'file';
+
+export interface StoredSnapshot {
+  id: string;
+  /** User-editable label */
+  name: string;
+  /** Power BI API host the snapshot was scanned from (empty for uploaded files) */
+  environment: string;
+  /** Entra tenant ID of the scanning admin, when known */
+  tenantId?: string;
+  source?: SnapshotSource;
+  savedAt: string;
+  workspaceCount?: number;
+  /** Start time of the last complete scan — the next scan asks for modifiedSince this */
+  watermark?: string;
+  /** Metadata the scan requested besides lineage (inferred from the content for plain files) */
+  scanOptions?: ScanOptions;
+  result: TenantScanResult;
+}
+
+/** Library listing entry — a snapshot without its (large) scan result */
+export type SnapshotSummary = Omit<StoredSnapshot, 'result'>;
+
+function toSummary ({ result, ...summary }: StoredSnapshot): SnapshotSummary {
+  return { ...summary, workspaceCount: summary.workspaceCount ?? result.workspaces?.length ?? 0 };
+}
+
+@Injectable({ providedIn: 'root' })
+export class SnapshotStore {
+  private db: Promise<IDBDatabase>;
+
+  /** ID of the rolling snapshot incremental scans merge into, one per environment */
+  public getLatestSnapshotId (environment: string): string {
+    return `${LATEST_SNAPSHOT_PREFIX}${environment}`;
+  }
+
+  public get (id: string): Promise<StoredSnapshot | undefined> {
+    return this.request('readonly', [SNAPSHOT_STORE], tx => tx.objectStore(SNAPSHOT_STORE).get(id));
+  }
+
+  /**
+   * Stores a snapshot together with its library entry
+   * The rolling incremental-scan snapshots are internal and get no library entry.
+   */
+  public async put (snapshot: StoredSnapshot): Promise<void> {
+    if (snapshot.id.startsWith(LATEST_SNAPSHOT_PREFIX)) {
+      await this.request('readwrite', [SNAPSHOT_STORE], tx => tx.objectStore(SNAPSHOT_STORE).put(snapshot));
+      return;
+    }
+    await this.request('readwrite', [SNAPSHOT_STORE, SUMMARY_STORE], tx => {
+      tx.objectStore(SUMMARY_STORE).put(toSummary(snapshot));
+      return tx.objectStore(SNAPSHOT_STORE).put(snapshot);
+    });
+  }
+
+  /** Lists the snapshot library, newest first */
+  public async list (): Promise<SnapshotSummary[]> {
+    const summaries: SnapshotSummary[] = await this.request('readonly', [SUMMARY_STORE], tx => tx.objectStore(SUMMARY_STORE).getAll());
+    return summaries.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  /**
+   * Adds a scan result to the library
+   *
+   * @param result - Scan result to store
+   * @param details - Label and origin; an existing `id` is overwritten (e.g. re-saving the same scan)
+   * @returns The stored snapshot
+   */
+  public async save (result: TenantScanResult,
+    details: { id?: string; name: string; environment: string; tenantId?: string; source: SnapshotSource; savedAt?: string; scanOptions?: ScanOptions }): Promise<StoredSnapshot> {
+    const savedAt = details.savedAt ?? new Date().toISOString();
+    const snapshot: StoredSnapshot = {
+      ...details,
+      id: details.id ?? `snapshot:${savedAt}:${Math.random().toString(36).slice(2, 8)}`,
+      savedAt,
+      workspaceCount: result.workspaces?.length ?? 0,
+      result
+    };
+    await this.put(snapshot);
+    return snapshot;
+  }
+
+  public async rename (id: string, name: string): Promise<void> {
+    const snapshot = await this.get(id);
+    if (!snapshot) {
+      throw new Error(`Snapshot ${id} no longer exists`);
+    }
+    await this.put({ ...snapshot, name });
+  }
+
+  public async delete (id: string): Promise<void> {
+    await this.request('readwrite', [SNAPSHOT_STORE, SUMMARY_STORE], tx => {
+      tx.objectStore(SUMMARY_STORE).delete(id);
+      return tx.objectStore(SNAPSHOT_STORE).delete(id);
+    });
+  }
+
+  /**
+   * Serializes a snapshot for download
+   * The file is a regular scan result (loadable through Load JSON) with the snapshot details
+   * alongside, so importing it restores the label and origin.
+   */
+  public toFileContent (snapshot: StoredSnapshot): string {
+    const snapshotInfo: SnapshotFileInfo = {
+      name: snapshot.name,
+      environment: snapshot.environment,
+      tenantId: snapshot.tenantId,
+      savedAt: snapshot.savedAt,
+      scanOptions: snapshot.scanOptions
+    };
+    return JSON.stringify({ ...snapshot.result, snapshotInfo });
+  }
+
+  /**
+   * Adds a validated import (exported snapshot or plain scan result file) to the library
+   *
+   * @param file - Valid file from ScanImportService
+   * @returns The stored snapshot
+   */
+  public async saveImportedFile (file: ScanImportFileResult): Promise<StoredSnapshot> {
+    if (!file.result) {
+      throw new Error(`${file.fileName} is not a valid Scanner API result`);
+    }
+
+    return this.save(file.result, {
+      name: file.snapshotInfo?.name ?? file.fileName.replace(/\.json$/i, ''),
+      environment: file.snapshotInfo?.environment ?? '',
+      tenantId: file.snapshotInfo?.tenantId,
+      source: 'file',
+      savedAt: file.snapshotInfo?.savedAt,
+      scanOptions: file.snapshotInfo?.scanOptions ?? inferScanOptions(file.result)
+    });
+  }
+
+  /**
+   * Runs one transaction and settles once it has committed
+   * Quota and abort errors only surface on the transaction, so a write that
+   * resolved on its request's success could still be lost.
+   *
+   * @param operation - Issues the requests; the result of the request it returns is resolved
+   */
+  private request<T> (mode: 'readonly' | 'readwrite', storeNames: string[], operation: (tx: IDBTransaction) => IDBRequest<T>): Promise<T> {
+    return this.open().then(db => new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(storeNames, mode);
+      const request = operation(tx);
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = event => reject((event.target as IDBRequest).error ?? tx.error);
+      tx.onabort = () => reject(tx.error ?? new DOMException('The snapshot library transaction was aborted', 'AbortError'));
+    }));
+  }
+
+  private open (): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+            db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+            const summaries = db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+            // Library entries for snapshots stored before summaries had their own store
+            const cursorRequest = request.transaction!.objectStore(SNAPSHOT_STORE).openCursor();
+            cursorRequest.onsuccess = () => {
+              const cursor = cursorRequest.result;
+              if (!cursor) return;
+              if (!String(cursor.key).startsWith(LATEST_SNAPSHOT_PREFIX)) summaries.put(toSummary(cursor.value));
+              cursor.continue();
+            };
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.db = undefined;
+          reject(request.error);
+        };
+      });
+    }
+    return this.db;
+  }
+}
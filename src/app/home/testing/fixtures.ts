@@ -0,0 +1,31 @@
+/**
+ * Spec Fixtures for FabricBEyeAI
+ *
+ * Minimal scan and graph objects shared by the specs; only imported from *.spec.ts files.
+ */
+
+import type { Node, NodeType } from '../models/graphModels';
+import type { WorkspaceInfo } from '../models/scanner-api.types';
+
+/** Active workspace with empty artifact lists, named after its ID */
+export function workspace (id: string, overrides: Partial<WorkspaceInfo> = {}): WorkspaceInfo {
+  return {
+    id,
+    name: `Workspace ${id}`,
+    type: 'Workspace',
+    state: 'Active',
+    isOnDedicatedCapacity: false,
+    reports: [],
+    dashboards: [],
+    datasets: [],
+    dataflows: [],
+    datamarts: [],
+    users: [],
+    ...overrides
+  };
+}
+
+/** Graph node named after its ID */
+export function node (id: string, type: NodeType, workspaceId: string, metadata: Node['metadata'] = {}): Node {
+  return { id, type, name: id, workspaceId, metadata };
+}
@@ -0,0 +1,96 @@
+import {
+  buildPrincipals, collectAccessGrants, getDirectShares, getExternalAccessToLabeledContent, getPrincipalAccess,
+  getPrivilegedWorkspaceRoles, getServicePrincipalAdmins, toAccessLevel
+} from './access-analysis';
+import { TenantScanResult, WorkspaceInfo } from '../models/scanner-api.types';
+
+const LABEL = 'label-confidential';
+
+const ADMIN = { displayName: 'Sarah Chen', emailAddress: 'sarah@contoso.com', identifier: 'Sarah@contoso.com', principalType: 'User' as const };
+const GUEST = { displayName: 'Alex Rivera', emailAddress: 'alex@fabrikam.com', identifier: 'alex_fabrikam', principalType: 'User' as const, userType: 'Guest' };
+const TEAM = { displayName: 'Finance Team', emailAddress: 'finance@contoso.com', identifier: 'group-finance', principalType: 'Group' as const };
+const ETL = { displayName: 'ETL App', emailAddress: '', identifier: 'app-etl', principalType: 'App' as const };
+
+function workspace (overrides: Partial<WorkspaceInfo>): WorkspaceInfo {
+  return {
+    id: 'ws',
+    name: 'Workspace',
+    type: 'Workspace',
+    state: 'Active',
+    isOnDedicatedCapacity: false,
+    reports: [],
+    dashboards: [],
+    datasets: [],
+    dataflows: [],
+    datamarts: [],
+    users: [],
+    ...overrides
+  };
+}
+
+const RESULT: TenantScanResult = {
+  workspaces: [
+    workspace({
+      id: 'ws-finance',
+      name: 'Finance',
+      users: [
+        { ...ADMIN, groupUserAccessRight: 'Admin' },
+        { ...ETL, groupUserAccessRight: 'Admin' },
+        { ...TEAM, groupUserAccessRight: 'Viewer' }
+      ],
+      reports: [{
+        id: 'rpt-ledger',
+        name: 'Ledger',
+        sensitivityLabel: { labelId: LABEL },
+        users: [{ ...GUEST, reportUserAccessRight: 'Read' }, { ...ADMIN, reportUserAccessRight: 'None' }]
+      }],
+      datasets: [{
+        id: 'ds-ledger',
+        name: 'Ledger Model',
+        tables: [],
+        users: [{ ...TEAM, datasetUserAccessRight: 'ReadWriteReshareExplore' }]
+      }]
+    }),
+    workspace({
+      id: 'ws-partner',
+      name: 'Partner',
+      users: [{ ...GUEST, groupUserAccessRight: 'Member' }],
+      datasets: [{ id: 'ds-partner', name: 'Partner Model', tables: [], sensitivityLabel: { labelId: LABEL }, users: [] }]
+    })
+  ],
+  datasourceInstances: [],
+  misconfiguredDatasourceInstances: []
+};
+
+describe('Access analysis', () => {
+  const grants = collectAccessGrants(RESULT);
+
+  it('should collect workspace roles and artifact permissions, skipping None', () => {
+    expect(grants.length).toBe(6);
+    expect(buildPrincipals(grants).map(principal => [principal.displayName, principal.grants.length]))
+      .toEqual([['Alex Rivera', 2], ['ETL App', 1], ['Finance Team', 2], ['Sarah Chen', 1]]);
+    expect(toAccessLevel('Owner')).toBe('admin');
+    expect(toAccessLevel('ReadWriteExplore')).toBe('edit');
+    expect(toAccessLevel('ReadReshare')).toBe('read');
+  });
+
+  it('should list privileged roles and service principals holding Admin', () => {
+    expect(getPrivilegedWorkspaceRoles(grants).map(grant => `${grant.workspaceName}:${grant.displayName}:${grant.accessRight}`))
+      .toEqual(['Finance:ETL App:Admin', 'Finance:Sarah Chen:Admin', 'Partner:Alex Rivera:Member']);
+    expect(getServicePrincipalAdmins(grants).map(grant => grant.displayName)).toEqual(['ETL App']);
+  });
+
+  it('should find labeled content guests reach directly and through workspace roles', () => {
+    expect(getExternalAccessToLabeledContent(RESULT, grants).map(entry => `${entry.artifactName}:${entry.grant.scope}`))
+      .toEqual(['Ledger:artifact', 'Partner Model:workspace']);
+  });
+
+  it('should split direct shares by principal type and resolve a principal\'s access', () => {
+    expect(getDirectShares(grants).map(entry => [entry.artifactName, entry.individuals.length, entry.groups.length]))
+      .toEqual([['Ledger', 1, 0], ['Ledger Model', 0, 1]]);
+
+    const access = getPrincipalAccess(grants, 'group-finance');
+    expect([...access.workspaces]).toEqual([['ws-finance', 'read']]);
+    expect([...access.artifacts]).toEqual([['ds-ledger', 'edit']]);
+  });
+});
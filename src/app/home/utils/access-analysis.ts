@@ -0,0 +1,329 @@
+/**
+ * Access Analysis Utilities for FabricBEyeAI
+ *
+ * Who can reach what, from the `users` arrays the Scanner API returns on
+ * workspaces and artifacts (with the `getArtifactUsers` scan option). Workspace
+ * roles grant access to everything in the workspace; artifact permissions are
+ * direct shares. Group membership isn't part of the scan, so a group counts as
+ * one principal.
+ */
+
+import type { TenantScanResult, WorkspaceInfo } from '../models/scanner-api.types';
+import { toCsv } from './csv';
+
+export type PrincipalType = 'User' | 'Group' | 'App' | 'None';
+
+/** Access rights collapsed to what a principal can do */
+export type AccessLevel = 'admin' | 'edit' | 'read';
+
+/** One entry of a workspace's or artifact's `users` array */
+export interface AccessGrant {
+  /** Stable principal key (identifier, lower-cased) */
+  principalKey: string;
+  displayName: string;
+  emailAddress: string;
+  principalType: PrincipalType;
+  /** `Member` or `Guest` as reported by Entra ID; unset for groups and apps */
+  userType?: string;
+  /** Access right as the API reports it, e.g. `Admin`, `ReadReshare` */
+  accessRight: string;
+  level: AccessLevel;
+  /** Workspace role, or a permission on one artifact */
+  scope: 'workspace' | 'artifact';
+  /** Workspace ID for workspace roles */
+  artifactId: string;
+  artifactName: string;
+  artifactType: string;
+  workspaceId: string;
+  workspaceName: string;
+  labelId?: string;
+}
+
+export interface Principal {
+  key: string;
+  displayName: string;
+  emailAddress: string;
+  principalType: PrincipalType;
+  userType?: string;
+  grants: AccessGrant[];
+}
+
+/** Labeled content a guest or external user can reach */
+export interface ExternalAccessEntry {
+  grant: AccessGrant;
+  /** The labeled artifact — the granted one, or one in the granted workspace */
+  artifactId: string;
+  artifactName: string;
+  artifactType: string;
+  labelId: string;
+}
+
+/** Direct shares on one artifact, split by principal type */
+export interface DirectShareEntry {
+  artifactId: string;
+  artifactName: string;
+  artifactType: string;
+  workspaceId: string;
+  workspaceName: string;
+  individuals: AccessGrant[];
+  groups: AccessGrant[];
+  apps: AccessGrant[];
+}
+
+/** Access a principal has to the graph: node ID → level */
+export interface PrincipalAccess {
+  /** Workspaces where the principal holds a role */
+  workspaces: Map<string, AccessLevel>;
+  /** Artifacts shared with the principal directly */
+  artifacts: Map<string, AccessLevel>;
+}
+
+const ACCESS_LEVEL_RANK: Record<AccessLevel, number> = { read: 1, edit: 2, admin: 3 };
+
+/** Entra ID user types treated as outside the tenant */
+const EXTERNAL_USER_TYPES: string[] = ['guest', 'external'];
+
+/**
+ * Collapses a workspace role or artifact permission to an access level
+ *
+ * @returns undefined for `None`
+ */
+export function toAccessLevel (accessRight: string): AccessLevel | undefined {
+  switch (accessRight) {
+    case 'None': return undefined;
+    case 'Admin':
+    case 'Owner': return 'admin';
+    case 'Member':
+    case 'Contributor': return 'edit';
+    case 'Viewer': return 'read';
+  }
+  return /Write/.test(accessRight) ? 'edit' : 'read';
+}
+
+export function isExternalPrincipal (principal: { userType?: string }): boolean {
+  return !!principal.userType && EXTERNAL_USER_TYPES.includes(principal.userType.toLowerCase());
+}
+
+interface ScannedPrincipal {
+  displayName: string;
+  emailAddress: string;
+  identifier: string;
+  graphId?: string;
+  principalType: PrincipalType;
+  userType?: string;
+}
+
+/** An artifact with its permissions, whatever the artifact type calls its access right field */
+interface ScannedArtifact {
+  id: string;
+  name: string;
+  type: string;
+  labelId?: string;
+  permissions: { principal: ScannedPrincipal; accessRight: string }[];
+}
+
+function getScannedArtifacts (workspace: WorkspaceInfo): ScannedArtifact[] {
+  return [
+    ...(workspace.reports ?? []).map(report => ({
+      id: report.id,
+      name: report.name,
+      type: report.reportType === 'PaginatedReport' ? 'Paginated report' : 'Report',
+      labelId: report.sensitivityLabel?.labelId,
+      permissions: (report.users ?? []).map(user => ({ principal: user, accessRight: user.reportUserAccessRight }))
+    })),
+    ...(workspace.dashboards ?? []).map(dashboard => ({
+      id: dashboard.id,
+      name: dashboard.displayName,
+      type: 'Dashboard',
+      labelId: dashboard.sensitivityLabel?.labelId,
+      permissions: (dashboard.users ?? []).map(user => ({ principal: user, accessRight: user.dashboardUserAccessRight }))
+    })),
+    ...(workspace.datasets ?? []).map(dataset => ({
+      id: dataset.id,
+      name: dataset.name,
+      type: 'Semantic model',
+      labelId: dataset.sensitivityLabel?.labelId,
+      permissions: (dataset.users ?? []).map(user => ({ principal: user, accessRight: user.datasetUserAccessRight }))
+    })),
+    ...(workspace.dataflows ?? []).map(dataflow => ({
+      id: dataflow.objectId,
+      name: dataflow.name,
+      type: 'Dataflow',
+      labelId: dataflow.sensitivityLabel?.labelId,
+      permissions: (dataflow.users ?? []).map(user => ({ principal: user, accessRight: user.dataflowUserAccessRight }))
+    })),
+    ...(workspace.datamarts ?? []).map(datamart => ({
+      id: datamart.id,
+      name: datamart.name,
+      type: datamart.type === 'Datawarehouse' ? 'Warehouse' : datamart.type === 'Lakehouse' ? 'Lakehouse' : 'Datamart',
+      labelId: datamart.sensitivityLabel?.labelId,
+      permissions: (datamart.users ?? []).map(user => ({ principal: user, accessRight: user.datamartUserAccessRight }))
+    }))
+  ];
+}
+
+/** Every workspace role and artifact permission in a scan, except `None` */
+export function collectAccessGrants (result: Partial<TenantScanResult>): AccessGrant[] {
+  const grants: AccessGrant[] = [];
+
+  for (const workspace of result.workspaces ?? []) {
+    const workspaceArtifact: ScannedArtifact = {
+      id: workspace.id,
+      name: workspace.name,
+      type: 'Workspace',
+      permissions: (workspace.users ?? []).map(user => ({ principal: user, accessRight: user.groupUserAccessRight }))
+    };
+
+    for (const artifact of [workspaceArtifact, ...getScannedArtifacts(workspace)]) {
+      for (const { principal, accessRight } of artifact.permissions) {
+        const level = toAccessLevel(accessRight);
+        if (!level) continue;
+        grants.push({
+          principalKey: (principal.identifier || principal.graphId || principal.emailAddress || principal.displayName).toLowerCase(),
+          displayName: principal.displayName || principal.emailAddress || principal.identifier,
+          emailAddress: principal.emailAddress ?? '',
+          principalType: principal.principalType,
+          userType: principal.userType,
+          accessRight,
+          level,
+          scope: artifact === workspaceArtifact ? 'workspace' : 'artifact',
+          artifactId: artifact.id,
+          artifactName: artifact.name,
+          artifactType: artifact.type,
+          workspaceId: workspace.id,
+          workspaceName: workspace.name,
+          labelId: artifact.labelId
+        });
+      }
+    }
+  }
+
+  return grants;
+}
+
+/** Groups grants by principal, sorted by name */
+export function buildPrincipals (grants: AccessGrant[]): Principal[] {
+  const principals = new Map<string, Principal>();
+  for (const grant of grants) {
+    let principal = principals.get(grant.principalKey);
+    if (!principal) {
+      principal = {
+        key: grant.principalKey,
+        displayName: grant.displayName,
+        emailAddress: grant.emailAddress,
+        principalType: grant.principalType,
+        userType: grant.userType,
+        grants: []
+      };
+      principals.set(grant.principalKey, principal);
+    }
+    principal.userType = principal.userType ?? grant.userType;
+    principal.grants.push(grant);
+  }
+  return [...principals.values()].sort((a, b) => a.displayName.localeCompare(b.displayName));
+}
+
+/** Admin and Member workspace roles, by workspace then role */
+export function getPrivilegedWorkspaceRoles (grants: AccessGrant[]): AccessGrant[] {
+  return grants
+    .filter(grant => grant.scope === 'workspace' && (grant.accessRight === 'Admin' || grant.accessRight === 'Member'))
+    .sort((a, b) => a.workspaceName.localeCompare(b.workspaceName) || a.accessRight.localeCompare(b.accessRight) || a.displayName.localeCompare(b.displayName));
+}
+
+/** Workspace Admin roles held by service principals */
+export function getServicePrincipalAdmins (grants: AccessGrant[]): AccessGrant[] {
+  return getPrivilegedWorkspaceRoles(grants).filter(grant => grant.principalType === 'App' && grant.accessRight === 'Admin');
+}
+
+/**
+ * Labeled content guest and external users can reach — shared with them, or
+ * in a workspace where they hold a role
+ */
+export function getExternalAccessToLabeledContent (result: Partial<TenantScanResult>, grants: AccessGrant[]): ExternalAccessEntry[] {
+  const labeledByWorkspace = new Map<string, ScannedArtifact[]>();
+  for (const workspace of result.workspaces ?? []) {
+    labeledByWorkspace.set(workspace.id, getScannedArtifacts(workspace).filter(artifact => !!artifact.labelId));
+  }
+
+  const entries: ExternalAccessEntry[] = [];
+  for (const grant of grants) {
+    if (!isExternalPrincipal(grant)) continue;
+    if (grant.scope === 'artifact') {
+      if (grant.labelId) {
+        entries.push({ grant, artifactId: grant.artifactId, artifactName: grant.artifactName, artifactType: grant.artifactType, labelId: grant.labelId });
+      }
+      continue;
+    }
+    for (const artifact of labeledByWorkspace.get(grant.workspaceId) ?? []) {
+      entries.push({ grant, artifactId: artifact.id, artifactName: artifact.name, artifactType: artifact.type, labelId: artifact.labelId! });
+    }
+  }
+  return entries.sort((a, b) => a.grant.displayName.localeCompare(b.grant.displayName) || a.artifactName.localeCompare(b.artifactName));
+}
+
+/** Artifacts with direct permissions, most individual shares first */
+export function getDirectShares (grants: AccessGrant[]): DirectShareEntry[] {
+  const shares = new Map<string, DirectShareEntry>();
+  for (const grant of grants) {
+    if (grant.scope !== 'artifact') continue;
+    let entry = shares.get(grant.artifactId);
+    if (!entry) {
+      entry = {
+        artifactId: grant.artifactId,
+        artifactName: grant.artifactName,
+        artifactType: grant.artifactType,
+        workspaceId: grant.workspaceId,
+        workspaceName: grant.workspaceName,
+        individuals: [],
+        groups: [],
+        apps: []
+      };
+      shares.set(grant.artifactId, entry);
+    }
+    if (grant.principalType === 'Group') entry.groups.push(grant);
+    else if (grant.principalType === 'App') entry.apps.push(grant);
+    else entry.individuals.push(grant);
+  }
+  return [...shares.values()].sort((a, b) => b.individuals.length - a.individuals.length || a.artifactName.localeCompare(b.artifactName));
+}
+
+/** A principal's workspace roles and direct shares, keeping the highest level per node */
+export function getPrincipalAccess (grants: AccessGrant[], principalKey: string): PrincipalAccess {
+  const access: PrincipalAccess = { workspaces: new Map(), artifacts: new Map() };
+  for (const grant of grants) {
+    if (grant.principalKey !== principalKey) continue;
+    const target = grant.scope === 'workspace' ? access.workspaces : access.artifacts;
+    const current = target.get(grant.artifactId);
+    if (!current || ACCESS_LEVEL_RANK[grant.level] > ACCESS_LEVEL_RANK[current]) {
+      target.set(grant.artifactId, grant.level);
+    }
+  }
+  return access;
+}
+
+/** Higher of two access levels (either may be missing) */
+export function maxAccessLevel (a: AccessLevel | undefined, b: AccessLevel | undefined): AccessLevel | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return ACCESS_LEVEL_RANK[a] >= ACCESS_LEVEL_RANK[b] ? a : b;
+}
+
+/** Flattens every grant into CSV, one row per workspace role or artifact permission */
+export function accessGrantsToCsv (grants: AccessGrant[], getLabelName: (labelId: string) => string): string {
+  const rows: string[][] = [['Principal', 'Email', 'Principal type', 'User type', 'Scope', 'Workspace', 'Item', 'Item type', 'Access right', 'Sensitivity']];
+  for (const grant of grants) {
+    rows.push([
+      grant.displayName,
+      grant.emailAddress,
+      grant.principalType,
+      grant.userType ?? '',
+      grant.scope === 'workspace' ? 'Workspace role' : 'Direct permission',
+      grant.workspaceName,
+      grant.scope === 'workspace' ? '' : grant.artifactName,
+      grant.scope === 'workspace' ? '' : grant.artifactType,
+      grant.accessRight,
+      grant.labelId ? getLabelName(grant.labelId) : ''
+    ]);
+  }
+  return toCsv(rows);
+}
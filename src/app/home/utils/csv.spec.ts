@@ -0,0 +1,12 @@
+import { toCsv } from './csv';
+
+describe('CSV', () => {
+  it('should quote delimiters, quotes and line breaks', () => {
+    expect(toCsv([['Name', 'Note'], ['Sales, EMEA', 'say "hi"\nbye']])).toBe('Name,Note\r\n"Sales, EMEA","say ""hi""\nbye"');
+  });
+
+  it('should neutralize cells a spreadsheet would run as a formula, but not numbers', () => {
+    expect(toCsv([['=HYPERLINK("x")', '+1+1', '-cmd', '@SUM(A1)', '\tTab', '-42', '3.5']]))
+      .toBe('"\'=HYPERLINK(""x"")",\'+1+1,\'-cmd,\'@SUM(A1),\'\tTab,-42,3.5');
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * CSV Utilities for FabricBEyeAI
+ *
+ * Every CSV export goes through toCsv. Cells come straight from the tenant
+ * (item, workspace and principal names), so cells a spreadsheet would run as
+ * a formula are prefixed with an apostrophe (CSV injection).
+ */
+
+/** Leading characters that make Excel, Sheets or Calc evaluate a cell */
+const FORMULA_PREFIX: RegExp = /^[=+\-@\t\r]/;
+/** Plain numbers stay numbers, negative ones included */
+const NUMBER: RegExp = /^-?\d+(\.\d+)?$/;
+
+/** Neutralizes formula-like cells, then quotes cells containing a delimiter, quote or line break */
+function toCsvCell (value: string): string {
+  const safe = FORMULA_PREFIX.test(value) && !NUMBER.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Rows as CSV text with CRLF line endings
+ *
+ * @param rows - Header row first
+ */
+export function toCsv (rows: string[][]): string {
+  return rows.map(row => row.map(toCsvCell).join(',')).join('\r\n');
+}
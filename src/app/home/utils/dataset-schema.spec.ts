@@ -0,0 +1,48 @@
+import { dataDictionaryToCsv, dataDictionaryToMarkdown, filterDatasetSchema } from './dataset-schema';
+import { Table } from '../models/scanner-api.types';
+
+const TABLES: Table[] = [
+  {
+    name: 'Sales',
+    description: 'Order lines',
+    columns: [{ name: 'Amount', dataType: 'Double' }, { name: 'CustomerKey', dataType: 'Int64', isHidden: true }],
+    measures: [{ name: 'Total Sales', expression: 'SUM(Sales[Amount])', description: 'Sum of "Amount", all orders' }],
+    source: [{ expression: 'let\n    Source = Sql.Database("sql", "dw")\nin\n    Source' }]
+  },
+  {
+    name: 'Customer',
+    columns: [{ name: 'CustomerKey', dataType: 'Int64' }, { name: 'Name', dataType: 'String' }]
+  }
+];
+
+describe('Dataset schema', () => {
+  it('should keep whole tables matching the search and only matching columns and measures of others', () => {
+    expect(filterDatasetSchema(TABLES, '')).toBe(TABLES);
+    expect(filterDatasetSchema(TABLES, 'customer')).toEqual([
+      { ...TABLES[0], columns: [TABLES[0].columns[1]], measures: [] },
+      TABLES[1]
+    ]);
+    expect(filterDatasetSchema(TABLES, 'TOTAL').map(table => table.measures?.map(measure => measure.name))).toEqual([['Total Sales']]);
+    expect(filterDatasetSchema(TABLES, 'nothing')).toEqual([]);
+  });
+
+  it('should export one CSV row per table, column and measure with quoted expressions', () => {
+    const lines = dataDictionaryToCsv(TABLES).split('\r\n');
+
+    expect(lines[0]).toBe('Table,Kind,Name,Data type,Hidden,Description,Expression');
+    expect(lines[1]).toBe('Sales,Table,Sales,,No,Order lines,"let\n    Source = Sql.Database(""sql"", ""dw"")\nin\n    Source"');
+    expect(lines).toContain('Sales,Column,CustomerKey,Int64,Yes,,');
+    expect(lines).toContain('Sales,Measure,Total Sales,,No,"Sum of ""Amount"", all orders",SUM(Sales[Amount])');
+    expect(lines[lines.length - 1]).toBe('Customer,Column,Name,String,No,,');
+  });
+
+  it('should export Markdown with a column table, M source and DAX per measure', () => {
+    const markdown = dataDictionaryToMarkdown('Sales model', TABLES);
+
+    expect(markdown).toContain('# Sales model — data dictionary');
+    expect(markdown).toContain('| CustomerKey | Int64 | Yes |  |');
+    expect(markdown).toContain('```powerquery\nlet\n    Source = Sql.Database("sql", "dw")\nin\n    Source\n```');
+    expect(markdown).toContain('### Measure: Total Sales\n\nSum of "Amount", all orders\n\n```dax\nSUM(Sales[Amount])\n```');
+    expect(markdown).toContain('## Customer');
+  });
+});
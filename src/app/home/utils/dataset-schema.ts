@@ -0,0 +1,132 @@
+/**
+ * Dataset Schema Utilities for FabricBEyeAI
+ *
+ * Search and data dictionary export for the semantic model schema browser.
+ * Works on the tables the Scanner API returns with `datasetSchema` (columns,
+ * measures) and `datasetExpressions` (measure DAX, table M source).
+ */
+
+import type { Table } from '../models/scanner-api.types';
+import { toCsv } from './csv';
+
+export type DataDictionaryFormat = 'csv' | 'markdown';
+
+/** One table, column or measure of the data dictionary */
+export interface DataDictionaryRow {
+  table: string;
+  kind: 'Table' | 'Column' | 'Measure';
+  name: string;
+  dataType: string;
+  isHidden: boolean;
+  description: string;
+  /** Measure DAX or table M source */
+  expression: string;
+}
+
+/** Power Query M behind a table, one partition per paragraph */
+export function getTableSourceExpression (table: Table): string {
+  return (table.source ?? []).map(source => source.expression).filter(Boolean).join('\n\n');
+}
+
+/**
+ * Tables whose name, or any column or measure name, matches the search
+ *
+ * A matching table keeps all its columns and measures; otherwise only the
+ * matching ones are kept. Names and descriptions are searched, case-insensitively.
+ *
+ * @returns The tables unchanged for an empty search
+ */
+export function filterDatasetSchema (tables: Table[], search: string): Table[] {
+  const term = search.trim().toLowerCase();
+  if (!term) return tables;
+
+  const matches = (item: { name: string; description?: string }): boolean =>
+    item.name.toLowerCase().includes(term) || !!item.description?.toLowerCase().includes(term);
+
+  return tables
+    .map(table => matches(table)
+      ? table
+      : { ...table, columns: (table.columns ?? []).filter(matches), measures: (table.measures ?? []).filter(matches) })
+    .filter(table => matches(table) || table.columns.length > 0 || (table.measures?.length ?? 0) > 0);
+}
+
+/** Flattens a schema into dictionary rows: each table followed by its columns and measures */
+export function toDataDictionaryRows (tables: Table[]): DataDictionaryRow[] {
+  return tables.flatMap(table => [
+    {
+      table: table.name,
+      kind: 'Table' as const,
+      name: table.name,
+      dataType: '',
+      isHidden: !!table.isHidden,
+      description: table.description ?? '',
+      expression: getTableSourceExpression(table)
+    },
+    ...(table.columns ?? []).map(column => ({
+      table: table.name,
+      kind: 'Column' as const,
+      name: column.name,
+      dataType: column.dataType ?? '',
+      isHidden: !!column.isHidden,
+      description: column.description ?? '',
+      expression: ''
+    })),
+    ...(table.measures ?? []).map(measure => ({
+      table: table.name,
+      kind: 'Measure' as const,
+      name: measure.name,
+      dataType: '',
+      isHidden: !!measure.isHidden,
+      description: measure.description ?? '',
+      expression: measure.expression ?? ''
+    }))
+  ]);
+}
+
+export function dataDictionaryToCsv (tables: Table[]): string {
+  const rows: string[][] = [['Table', 'Kind', 'Name', 'Data type', 'Hidden', 'Description', 'Expression']];
+  for (const row of toDataDictionaryRows(tables)) {
+    rows.push([row.table, row.kind, row.name, row.dataType, row.isHidden ? 'Yes' : 'No', row.description, row.expression]);
+  }
+  return toCsv(rows);
+}
+
+function toMarkdownCell (value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Data dictionary as Markdown: a section per table with a column table,
+ * the M source and one subsection per measure with its DAX
+ *
+ * @param datasetName - Document title
+ */
+export function dataDictionaryToMarkdown (datasetName: string, tables: Table[]): string {
+  const lines: string[] = [`# ${datasetName} — data dictionary`, ''];
+
+  for (const table of tables) {
+    lines.push(`## ${table.name}${table.isHidden ? ' (hidden)' : ''}`, '');
+    if (table.description) lines.push(table.description, '');
+
+    if ((table.columns ?? []).length > 0) {
+      lines.push('| Column | Data type | Hidden | Description |', '|---|---|---|---|');
+      for (const column of table.columns) {
+        lines.push(`| ${toMarkdownCell(column.name)} | ${column.dataType ?? ''} | ${column.isHidden ? 'Yes' : 'No'} | ${toMarkdownCell(column.description ?? '')} |`);
+      }
+      lines.push('');
+    }
+
+    const source = getTableSourceExpression(table);
+    if (source) {
+      lines.push('```powerquery', source, '```', '');
+    }
+
+    for (const measure of table.measures ?? []) {
+      lines.push(`### Measure: ${measure.name}${measure.isHidden ? ' (hidden)' : ''}`, '');
+      if (measure.description) lines.push(measure.description, '');
+      if (measure.expression) lines.push('```dax', measure.expression, '```', '');
+    }
+  }
+
+  return lines.join('\n');
+}
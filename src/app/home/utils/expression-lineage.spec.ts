@@ -0,0 +1,72 @@
+import {
+  buildFieldLineage, getColumnNodeId, getMeasureNodeId, getTableNodeId, parseDaxExpression, parseMExpression, traceFieldLineage
+} from './expression-lineage';
+import { WorkspaceInfoDataset } from '../models/scanner-api.types';
+
+const LAKEHOUSE_M = `let
+    Source = Lakehouse.Contents(null),
+    Navigation = Source{[workspaceId="ws-1"]}[Data]{[lakehouseId="lh-1"]}[Data],
+    Orders = Navigation{[Id="orders",ItemKind="Table"]}[Data]
+in
+    Orders`;
+
+describe('Expression lineage', () => {
+  it('should find connector calls, navigation and shared expressions in M', () => {
+    const sql = parseMExpression(
+      '// from "the warehouse"\nlet Source = Sql.Database(ServerName, "Sales", [Query="select 1"]), Rows = Table.SelectRows(#"Date Filter", each true),\n' +
+      'Orders = Source{[Schema="dbo",Item="orders"]}[Data] in Orders',
+      ['ServerName', 'Date Filter', 'Unused'],
+      new Map([['ServerName', 'sql.contoso.com']])
+    );
+
+    expect(sql.sources).toEqual([{ connector: 'Sql.Database', arguments: ['sql.contoso.com', 'Sales'], item: 'dbo.orders' }]);
+    expect(sql.expressions).toEqual(['ServerName', 'Date Filter']);
+    expect(parseMExpression(LAKEHOUSE_M).sources).toEqual([{ connector: 'Lakehouse.Contents', arguments: [], itemId: 'lh-1', item: 'orders' }]);
+    expect(parseMExpression('Excel.Workbook(Web.Contents("https://contoso.sharepoint.com/a.xlsx"))').sources)
+      .toEqual([{ connector: 'Web.Contents', arguments: ['https://contoso.sharepoint.com/a.xlsx'] }]);
+  });
+
+  it('should find column, measure and table references in DAX, ignoring strings and comments', () => {
+    const references = parseDaxExpression(
+      "CALCULATE([Total Sales], 'Sales Order'[Channel] = \"Web[x]\", Customer[Region] = \"EU\") / COUNTROWS(Customer) // Product[Name]",
+      ['Sales Order', 'Customer', 'Product']
+    );
+
+    expect(references.columns).toEqual([{ table: 'Sales Order', column: 'Channel' }, { table: 'Customer', column: 'Region' }]);
+    expect(references.names).toEqual(['Total Sales']);
+    expect(references.tables).toEqual(['Customer']);
+  });
+
+  it('should trace a column to the measures that use it and a measure back to its sources', () => {
+    const dataset = {
+      id: 'ds-1',
+      name: 'Sales',
+      users: [],
+      expressions: [{ name: 'ServerName', expression: '"sql.contoso.com" meta [IsParameterQuery=true, Type="Text"]' }],
+      tables: [
+        {
+          name: 'Sales',
+          columns: [{ name: 'Amount', dataType: 'Double' }, { name: 'Qty', dataType: 'Int64' }, { name: 'Price', dataType: 'Double', expression: 'DIVIDE([Amount], [Qty])' }],
+          measures: [
+            { name: 'Total Sales', expression: 'SUM(Sales[Amount])' },
+            { name: 'Avg Price', expression: 'AVERAGE(Sales[Price])' },
+            { name: 'Sales YoY', expression: '[Total Sales] - CALCULATE([Total Sales], SAMEPERIODLASTYEAR(\'Date\'[Date]))' }
+          ],
+          source: [{ expression: 'let Source = Sql.Database(ServerName, "Sales"), T = Source{[Schema="dbo",Item="sales"]}[Data] in T' }]
+        },
+        { name: 'Date', columns: [{ name: 'Date', dataType: 'DateTime' }], source: [{ expression: LAKEHOUSE_M }] }
+      ]
+    } as WorkspaceInfoDataset;
+
+    const graph = buildFieldLineage(dataset);
+
+    expect(traceFieldLineage(graph, getColumnNodeId('Sales', 'Amount'), 'downstream')).toEqual([
+      getColumnNodeId('Sales', 'Price'), getMeasureNodeId('Total Sales'), getMeasureNodeId('Avg Price'), getMeasureNodeId('Sales YoY')
+    ]);
+    const upstream = traceFieldLineage(graph, getMeasureNodeId('Sales YoY'), 'upstream');
+    expect(upstream).toContain(getTableNodeId('Date'));
+    expect(upstream).toContain('source:Sql.Database|sql.contoso.com|Sales|dbo.sales');
+    expect(graph.nodes.find(node => node.kind === 'source' && node.itemId === 'lh-1')?.name).toBe('orders');
+    expect(graph.nodes.some(node => node.kind === 'expression')).toBeFalse();
+  });
+});
@@ -0,0 +1,373 @@
+/**
+ * Expression Lineage Utilities for FabricBEyeAI
+ *
+ * Derives table- and column-level lineage inside a semantic model from the
+ * expressions the Scanner API returns with `datasetExpressions`:
+ * - Power Query M (table partitions and shared expressions) → data sources,
+ *   navigated objects (schema.table, lakehouse table) and shared queries
+ * - DAX (measures, calculated columns) → referenced tables, columns and measures
+ *
+ * Parsing is lexical, not a full M or DAX grammar: it recognizes the common
+ * connector calls, navigation steps and `Table[Column]` references, which
+ * covers the vast majority of real models.
+ */
+
+import type { WorkspaceInfoDataset } from '../models/scanner-api.types';
+
+/** A data source call found in M, e.g. `Sql.Database("server", "db")` */
+export interface MSourceReference {
+  /** M function, e.g. `Sql.Database` or `Lakehouse.Contents` */
+  connector: string;
+  /** Literal (or parameter-resolved) arguments: server, database, URL, path */
+  arguments: string[];
+  /** Object navigated to: `schema.table`, sheet, lakehouse table */
+  item?: string;
+  /** Fabric item the source navigates into (lakehouseId / warehouseId) */
+  itemId?: string;
+}
+
+export interface MExpressionReferences {
+  sources: MSourceReference[];
+  /** Shared expressions (queries, parameters) the expression uses */
+  expressions: string[];
+}
+
+export interface DaxColumnReference {
+  table: string;
+  column: string;
+}
+
+export interface DaxExpressionReferences {
+  /** Fully qualified `Table[Column]` references */
+  columns: DaxColumnReference[];
+  /** Unqualified `[Name]` references — measures, or columns of the current table */
+  names: string[];
+  /** Known tables referenced as a whole, e.g. `COUNTROWS(Sales)` */
+  tables: string[];
+}
+
+export type FieldLineageNodeKind = 'source' | 'expression' | 'table' | 'column' | 'measure';
+
+export interface FieldLineageNode {
+  id: string;
+  kind: FieldLineageNodeKind;
+  name: string;
+  /** Owning table of columns and measures */
+  table?: string;
+  /** Connector and arguments for sources, data type for columns */
+  detail?: string;
+  /** Fabric item a source reads from, when the M navigates by ID */
+  itemId?: string;
+}
+
+/** `source` feeds `target` */
+export interface FieldLineageEdge {
+  source: string;
+  target: string;
+}
+
+export interface FieldLineageGraph {
+  nodes: FieldLineageNode[];
+  edges: FieldLineageEdge[];
+}
+
+/** Namespaces of M library functions that transform data rather than read it */
+const NON_SOURCE_NAMESPACES: ReadonlySet<string> = new Set([
+  'Table', 'List', 'Record', 'Text', 'Number', 'Date', 'DateTime', 'DateTimeZone', 'Time', 'Duration',
+  'Json', 'Csv', 'Xml', 'Excel', 'Binary', 'Value', 'Splitter', 'Combiner', 'Replacer', 'Comparer',
+  'Expression', 'Lines', 'Uri', 'Type', 'Function', 'Character', 'Byte', 'Int64', 'Logical', 'Diagnostics', 'Cube'
+]);
+
+/** Function names of M data access functions (`Sql.Database`, `Web.Contents`, `SharePoint.Files`, ...) */
+const SOURCE_FUNCTIONS: ReadonlySet<string> = new Set([
+  'Database', 'Databases', 'Contents', 'Files', 'Tables', 'Feed', 'DataSource', 'Query', 'Dataflows', 'Catalogs', 'DataLake', 'Blobs'
+]);
+
+/** Navigation fields naming the Fabric item a source reads from */
+const ITEM_ID_FIELDS: ReadonlyArray<string> = ['lakehouseId', 'warehouseId', 'dataflowId', 'datamartId'];
+
+/** Replaces string literals and comments with spaces, keeping offsets */
+function blankStringsAndComments (text: string, quote: '"' | "'" | null): string {
+  const pattern = quote === "'"
+    ? /\/\/[^\n]*|--[^\n]*|\/\*[\s\S]*?\*\/|"(?:[^"]|"")*"/g
+    : /\/\/[^\n]*|\/\*[\s\S]*?\*\/|"(?:[^"]|"")*"/g;
+  return text.replace(pattern, match => match.replace(/[^\n]/g, ' '));
+}
+
+function unquoteM (literal: string): string {
+  return literal.slice(1, -1).replace(/""/g, '"');
+}
+
+/**
+ * Literal and identifier arguments of a call, up to its closing parenthesis
+ * Only top-level arguments count: options records like `[Query="..."]` are skipped.
+ */
+function readCallArguments (expression: string, openIndex: number, parameters: ReadonlyMap<string, string>): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  for (let i = openIndex; i < expression.length; i++) {
+    const char = expression[i];
+    if (char === '"') {
+      const end = findStringEnd(expression, i);
+      if (depth === 1) args.push(unquoteM(expression.slice(i, end + 1)));
+      i = end;
+    } else if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) break;
+    } else if (depth === 1 && /[A-Za-z_#]/.test(char)) {
+      const identifier = /^(#"(?:[^"]|"")*"|[A-Za-z_][\w.]*)/.exec(expression.slice(i))![0];
+      const name = identifier.startsWith('#') ? unquoteM(identifier.slice(1)) : identifier;
+      if (parameters.has(name)) args.push(parameters.get(name)!);
+      i += identifier.length - 1;
+    }
+  }
+  return args;
+}
+
+function findStringEnd (text: string, start: number): number {
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === '"') {
+      if (text[i + 1] === '"') {
+        i++;
+      } else {
+        return i;
+      }
+    }
+  }
+  return text.length - 1;
+}
+
+/**
+ * Value of an M parameter, i.e. a shared expression like `"server" meta [IsParameterQuery=true]`
+ *
+ * @returns Undefined when the expression isn't a plain text literal
+ */
+export function getMParameterValue (expression: string): string | undefined {
+  const match = /^\s*("(?:[^"]|"")*")\s*(?:meta\b|$)/.exec(expression);
+  return match ? unquoteM(match[1]) : undefined;
+}
+
+/**
+ * Data sources, navigation steps and shared expressions referenced by Power Query M
+ *
+ * Navigation steps (`Source{[Schema="dbo",Item="Sales"]}[Data]`) are attributed
+ * to the closest source call before them.
+ *
+ * @param expression - M code of a table partition or shared expression
+ * @param sharedExpressions - Names of the model's shared expressions (queries and parameters)
+ * @param parameters - Text values of M parameters, used to resolve connector arguments
+ */
+export function parseMExpression (expression: string, sharedExpressions: ReadonlyArray<string> = [],
+  parameters: ReadonlyMap<string, string> = new Map()): MExpressionReferences {
+  const code = blankStringsAndComments(expression, null);
+  const calls: { index: number; source: MSourceReference }[] = [];
+
+  for (const match of code.matchAll(/\b([A-Z][A-Za-z0-9]*)\.([A-Z][A-Za-z0-9]*)\s*\(/g)) {
+    const [call, namespace, name] = match;
+    if (NON_SOURCE_NAMESPACES.has(namespace) || !SOURCE_FUNCTIONS.has(name)) continue;
+    calls.push({
+      index: match.index!,
+      source: { connector: `${namespace}.${name}`, arguments: readCallArguments(expression, match.index! + call.length - 1, parameters) }
+    });
+  }
+
+  // Navigation records: {[Schema="dbo",Item="Sales"]}, {[Id="orders",ItemKind="Table"]}, {[lakehouseId="..."]}
+  for (const match of expression.matchAll(/\{\s*\[((?:[^\]"]|"(?:[^"]|"")*")*)\]\s*\}/g)) {
+    const owner = calls.filter(call => call.index < match.index!).pop();
+    if (!owner) continue;
+
+    const fields = new Map<string, string>();
+    for (const field of match[1].matchAll(/(\w+)\s*=\s*("(?:[^"]|"")*")/g)) {
+      fields.set(field[1], unquoteM(field[2]));
+    }
+    const itemId = ITEM_ID_FIELDS.map(field => fields.get(field)).find(Boolean);
+    if (itemId) owner.source.itemId = itemId;
+
+    const item = fields.get('Item') ?? (fields.get('ItemKind') !== 'Database' ? fields.get('Id') ?? fields.get('Name') : undefined);
+    if (item) {
+      const schema = fields.get('Schema');
+      owner.source.item = schema ? `${schema}.${item}` : item;
+    }
+  }
+
+  const expressions = sharedExpressions.filter(name => {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`#"${escaped.replace(/"/g, '""')}"`).test(expression) ||
+      (/^[A-Za-z_]\w*$/.test(name) && new RegExp(`(^|[^\\w.#])${escaped}(?![\\w.])`).test(code));
+  });
+
+  return { sources: calls.map(call => call.source), expressions };
+}
+
+/**
+ * Tables, columns and measures referenced by a DAX expression
+ *
+ * @param expression - Measure or calculated column DAX
+ * @param tableNames - The model's tables, to recognize whole-table references
+ */
+export function parseDaxExpression (expression: string, tableNames: ReadonlyArray<string> = []): DaxExpressionReferences {
+  let code = blankStringsAndComments(expression, "'");
+  const columns: DaxColumnReference[] = [];
+  const seen = new Set<string>();
+
+  code = code.replace(/(?:'((?:[^']|'')+)'|([A-Za-z_][\w.]*))\s*\[([^\]]+)\]/g, (match, quoted: string, plain: string, column: string) => {
+    const table = quoted ? quoted.replace(/''/g, "'") : plain;
+    const key = `${table}\u0000${column}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      columns.push({ table, column: column.trim() });
+    }
+    return ' '.repeat(match.length);
+  });
+
+  const names = Array.from(new Set(Array.from(code.matchAll(/\[([^\]]+)\]/g), match => match[1].trim())));
+  const bareCode = code.replace(/\[[^\]]*\]/g, match => ' '.repeat(match.length));
+  const tables = tableNames.filter(table => {
+    const escaped = table.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`'${escaped.replace(/'/g, "''")}'`).test(bareCode) ||
+      (/^[A-Za-z_]\w*$/.test(table) && new RegExp(`(^|[^\\w.'])${escaped}(?![\\w.]|\\s*\\()`).test(bareCode));
+  });
+
+  return { columns, names, tables };
+}
+
+export function getSourceNodeId (source: MSourceReference): string {
+  return `source:${[source.connector, ...source.arguments, source.item ?? ''].join('|')}`;
+}
+
+export function getTableNodeId (table: string): string {
+  return `table:${table}`;
+}
+
+export function getColumnNodeId (table: string, column: string): string {
+  return `column:${table}[${column}]`;
+}
+
+export function getMeasureNodeId (measure: string): string {
+  return `measure:${measure}`;
+}
+
+function describeSource (source: MSourceReference): string {
+  return [source.connector, ...source.arguments].join(' · ') + (source.item ? ` → ${source.item}` : '');
+}
+
+/**
+ * Builds the field-level lineage graph of a semantic model
+ *
+ * Sources and shared expressions feed the tables whose M uses them, every
+ * column depends on its table, and measures and calculated columns depend on
+ * the columns, measures and tables their DAX references.
+ */
+export function buildFieldLineage (dataset: WorkspaceInfoDataset): FieldLineageGraph {
+  const nodes = new Map<string, FieldLineageNode>();
+  const edges = new Map<string, FieldLineageEdge>();
+  const addEdge = (source: string, target: string): void => {
+    if (source !== target && nodes.has(source) && nodes.has(target)) edges.set(`${source}→${target}`, { source, target });
+  };
+
+  const tables = dataset.tables ?? [];
+  const tableNames = tables.map(table => table.name);
+  const sharedExpressions = dataset.expressions ?? [];
+  const sharedNames = sharedExpressions.map(expression => expression.name);
+  const parameters = new Map<string, string>();
+  for (const shared of sharedExpressions) {
+    const value = getMParameterValue(shared.expression ?? '');
+    if (value !== undefined) parameters.set(shared.name, value);
+  }
+
+  const addMReferences = (expression: string, targetId: string): void => {
+    const references = parseMExpression(expression, sharedNames, parameters);
+    for (const source of references.sources) {
+      const id = getSourceNodeId(source);
+      if (!nodes.has(id)) {
+        nodes.set(id, { id, kind: 'source', name: source.item ?? source.arguments[0] ?? source.connector, detail: describeSource(source), itemId: source.itemId });
+      }
+      addEdge(id, targetId);
+    }
+    for (const name of references.expressions) {
+      addEdge(`expression:${name}`, targetId);
+    }
+  };
+
+  for (const shared of sharedExpressions) {
+    if (!parameters.has(shared.name)) {
+      nodes.set(`expression:${shared.name}`, { id: `expression:${shared.name}`, kind: 'expression', name: shared.name, detail: shared.description });
+    }
+  }
+  for (const table of tables) {
+    nodes.set(getTableNodeId(table.name), { id: getTableNodeId(table.name), kind: 'table', name: table.name });
+    for (const column of table.columns ?? []) {
+      const id = getColumnNodeId(table.name, column.name);
+      nodes.set(id, { id, kind: 'column', name: column.name, table: table.name, detail: column.dataType });
+    }
+    for (const measure of table.measures ?? []) {
+      nodes.set(getMeasureNodeId(measure.name), { id: getMeasureNodeId(measure.name), kind: 'measure', name: measure.name, table: table.name });
+    }
+  }
+
+  for (const shared of sharedExpressions) {
+    if (nodes.has(`expression:${shared.name}`)) addMReferences(shared.expression ?? '', `expression:${shared.name}`);
+  }
+
+  const measureNames = new Set(tables.flatMap(table => (table.measures ?? []).map(measure => measure.name)));
+  const addDaxReferences = (expression: string, homeTable: string, targetId: string): void => {
+    const references = parseDaxExpression(expression, tableNames);
+    for (const column of references.columns) {
+      addEdge(measureNames.has(column.column) && !nodes.has(getColumnNodeId(column.table, column.column))
+        ? getMeasureNodeId(column.column)
+        : getColumnNodeId(column.table, column.column), targetId);
+    }
+    for (const name of references.names) {
+      addEdge(measureNames.has(name) ? getMeasureNodeId(name) : getColumnNodeId(homeTable, name), targetId);
+    }
+    for (const table of references.tables) {
+      addEdge(getTableNodeId(table), targetId);
+    }
+  };
+
+  for (const table of tables) {
+    const tableId = getTableNodeId(table.name);
+    for (const source of table.source ?? []) {
+      addMReferences(source.expression ?? '', tableId);
+    }
+    for (const column of table.columns ?? []) {
+      const columnId = getColumnNodeId(table.name, column.name);
+      addEdge(tableId, columnId);
+      if (column.expression) addDaxReferences(column.expression, table.name, columnId);
+    }
+    for (const measure of table.measures ?? []) {
+      if (measure.expression) addDaxReferences(measure.expression, table.name, getMeasureNodeId(measure.name));
+    }
+  }
+
+  return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()) };
+}
+
+/**
+ * Every node reachable from a node in one direction
+ *
+ * @param direction - `downstream` follows what the node feeds, `upstream` what feeds it
+ * @returns IDs of the reached nodes, nearest first, without the node itself
+ */
+export function traceFieldLineage (graph: FieldLineageGraph, nodeId: string, direction: 'upstream' | 'downstream'): string[] {
+  const next = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    const [from, to] = direction === 'downstream' ? [edge.source, edge.target] : [edge.target, edge.source];
+    next.set(from, [...(next.get(from) ?? []), to]);
+  }
+
+  const visited = new Set<string>([nodeId]);
+  const order: string[] = [];
+  const queue = [nodeId];
+  while (queue.length > 0) {
+    for (const id of next.get(queue.shift()!) ?? []) {
+      if (visited.has(id)) continue;
+      visited.add(id);
+      order.push(id);
+      queue.push(id);
+    }
+  }
+  return order;
+}
@@ -0,0 +1,99 @@
+import { DEFAULT_POLICY_PACK, PolicyContext, evaluatePolicyPack, parsePolicyPack, policyPackToYaml, policyResultsToCsv } from './governance-policy';
+import { LinkType, NodeType } from '../models/graphModels';
+import { GroupUser } from '../models/scanner-api.types';
+import { node } from '../testing/fixtures';
+
+function admin (identifier: string): GroupUser {
+  return { identifier, displayName: identifier, emailAddress: '', principalType: 'User', groupUserAccessRight: 'Admin' };
+}
+
+const CONTEXT: PolicyContext = {
+  nodes: [
+    node('ws-prod', NodeType.Workspace, 'ws-prod', { domainName: 'Production Finance' }),
+    node('ws-me', NodeType.Workspace, 'ws-me', { domainName: 'Unassigned' }),
+    node('ws-sales', NodeType.Workspace, 'ws-sales', { domainName: 'Sales' }),
+    node('ledger', NodeType.SemanticModel, 'ws-prod', { endorsement: 'Certified', sensitivityLabel: { labelId: 'conf' } }),
+    node('scratch', NodeType.SemanticModel, 'ws-me', { endorsement: 'None', sensitivityLabel: { labelId: 'conf' } }),
+    node('pnl', NodeType.Report, 'ws-prod', { sensitivityLabel: { labelId: 'conf' } }),
+    node('forecast', NodeType.Report, 'ws-prod'),
+    node('pipeline', NodeType.Report, 'ws-sales', { description: 'Open deals' })
+  ],
+  links: [
+    { source: 'ws-prod', target: 'pnl', type: LinkType.Contains },
+    { source: 'ledger', target: 'pnl', type: LinkType.Visualizes },
+    { source: 'scratch', target: 'forecast', type: LinkType.Visualizes }
+  ],
+  workspaces: [
+    { id: 'ws-prod', type: 'Workspace', users: [admin('a'), admin('b')] },
+    { id: 'ws-me', type: 'PersonalGroup', users: [admin('a')] },
+    { id: 'ws-sales', type: 'Workspace' }
+  ],
+  resolveLabel: labelId => labelId === 'conf' ? { name: 'Confidential', priority: 2, isSensitive: true } : undefined
+};
+
+describe('Governance policies', () => {
+  const results = new Map(evaluatePolicyPack(DEFAULT_POLICY_PACK, CONTEXT).map(result => [result.rule.id, result]));
+
+  it('should count passes, failures and items the scan has no facts for', () => {
+    const described = results.get('certified-models-described')!;
+    expect([described.evaluated, described.failed]).toEqual([1, 1]);
+    expect(described.violations[0].message).toBe('description is missing');
+
+    const admins = results.get('workspace-two-admins')!;
+    expect([admins.evaluated, admins.passed, admins.failed, admins.skipped]).toEqual([2, 1, 0, 1]);
+
+    const regulated = results.get('regulated-domains-labeled')!;
+    expect(regulated.violations.map(violation => violation.node.id)).toEqual(['forecast']);
+  });
+
+  it('should flag items built on personal workspaces through lineage', () => {
+    const personal = results.get('production-not-on-personal')!;
+
+    expect([personal.evaluated, personal.failed]).toEqual([2, 1]);
+    expect(personal.violations[0]).toEqual(jasmine.objectContaining({ message: 'Built on scratch', relatedNodeIds: ['scratch'] }));
+  });
+
+  it('should read YAML packs and report invalid rules', () => {
+    const { pack, errors } = parsePolicyPack([
+      'name: Finance rules',
+      'rules:',
+      '  - id: big-models',
+      '    title: Models feed few reports',
+      '    appliesTo: { types: [SemanticModel] }',
+      '    require:',
+      '      - { field: downstreamCount, lte: 0 }',
+      '  - id: typo',
+      '    title: Broken',
+      '    require: [{ field: owner, exists: true }]',
+      '  - id: two-operators',
+      '    title: Broken too',
+      '    require: [{ field: name, equals: a, matches: b }]',
+      '  - id: wrong-operands',
+      '    title: Operand types',
+      '    appliesTo: { types: [constructor], where: [{ field: domain, in: Production }] }',
+      '    require: [{ field: adminCount, gte: two }, { field: constructor, exists: true }]'
+    ].join('\n'), 'finance.yaml');
+
+    expect(pack!.id).toBe('finance');
+    expect(pack!.rules.map(rule => [rule.id, rule.severity])).toEqual([['big-models', 'warning']]);
+    expect(errors).toEqual([
+      'Rule typo: require: unknown field owner',
+      'Rule two-operators: require: name needs exactly one of equals, notEquals, in, notIn, exists, matches, gte, lte',
+      'Rule wrong-operands: unknown type constructor',
+      'Rule wrong-operands: where: domain in must be a list of strings or numbers',
+      'Rule wrong-operands: require: adminCount gte must be a number',
+      'Rule wrong-operands: require: unknown field constructor'
+    ]);
+    expect(evaluatePolicyPack(pack!, CONTEXT)[0].violations.map(violation => violation.node.id)).toEqual(['ledger', 'scratch']);
+  });
+
+  it('should round-trip the default pack through YAML and export violations as CSV', () => {
+    expect(parsePolicyPack(policyPackToYaml(DEFAULT_POLICY_PACK), 'x.yaml').pack!.rules).toEqual(DEFAULT_POLICY_PACK.rules);
+
+    const lines = policyResultsToCsv([results.get('certified-models-described')!], () => 'Finance').split('\r\n');
+    expect(lines).toEqual([
+      'Rule,Severity,Workspace,Item,Item type,Finding',
+      'Certified semantic models have a description,warning,Finance,ledger,SemanticModel,description is missing'
+    ]);
+  });
+});
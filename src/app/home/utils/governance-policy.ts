@@ -0,0 +1,457 @@
+/**
+ * Governance Policy Utilities for FabricBEyeAI
+ *
+ * Declarative rules evaluated against the lineage graph. A rule picks the
+ * items it applies to (`appliesTo`: node types plus conditions) and states
+ * what each of them must satisfy (`require`) or must not be built on
+ * (`forbidUpstream`, followed through lineage). Rules come in packs written
+ * as JSON or YAML; DEFAULT_POLICY_PACK ships with the app.
+ *
+ * Conditions test one fact of an item (see POLICY_FIELDS) with one operator.
+ * An item whose required fact is missing from the scan (e.g. admin counts
+ * without artifact users) is skipped rather than failed.
+ */
+
+import { dump, load } from 'js-yaml';
+import { LinkType, LINEAGE_LINK_TYPES, Node, NodeType, isArtifactNode } from '../models/graphModels';
+import type { WorkspaceInfo } from '../models/scanner-api.types';
+import { toCsv } from './csv';
+
+export type PolicySeverity = 'error' | 'warning' | 'info';
+
+/** Exactly one operator per condition */
+export interface PolicyCondition {
+  field: string;
+  equals?: string | number | boolean;
+  notEquals?: string | number | boolean;
+  in?: (string | number)[];
+  notIn?: (string | number)[];
+  exists?: boolean;
+  /** Case-insensitive regular expression */
+  matches?: string;
+  gte?: number;
+  lte?: number;
+}
+
+export interface PolicyRule {
+  id: string;
+  title: string;
+  description?: string;
+  severity: PolicySeverity;
+  appliesTo?: {
+    /** NodeType names, or `Artifact` for every item that isn't a workspace, datasource or principal */
+    types?: string[];
+    where?: PolicyCondition[];
+  };
+  /** Conditions every item in scope must meet */
+  require?: PolicyCondition[];
+  /** No item upstream (through lineage) may meet all of these */
+  forbidUpstream?: PolicyCondition[];
+}
+
+export interface PolicyPack {
+  id: string;
+  name: string;
+  description?: string;
+  rules: PolicyRule[];
+  /** Uploaded in this browser rather than shipped with the app */
+  isCustom?: boolean;
+}
+
+export interface PolicyViolation {
+  node: Node;
+  message: string;
+  /** Upstream items that break a forbidUpstream rule */
+  relatedNodeIds: string[];
+}
+
+export interface PolicyRuleResult {
+  rule: PolicyRule;
+  /** Items in scope */
+  evaluated: number;
+  passed: number;
+  failed: number;
+  /** In scope, but the scan lacks a fact the rule needs */
+  skipped: number;
+  violations: PolicyViolation[];
+}
+
+/** What rules are evaluated against */
+export interface PolicyContext {
+  nodes: Node[];
+  /** Links with string ends (renderer node objects mapped back to IDs) */
+  links: { source: string; target: string; type: LinkType }[];
+  /** Workspaces of the loaded scan, for workspace type and admins */
+  workspaces: Partial<WorkspaceInfo>[];
+  /** Label name, priority and sensitivity from the catalog */
+  resolveLabel: (labelId: string) => { name: string; priority: number; isSensitive: boolean } | undefined;
+}
+
+/** Facts a condition can test, with a description for the rule pack docs */
+export const POLICY_FIELDS: Record<string, string> = {
+  type: 'Node type name (SemanticModel, Report, Workspace, …)',
+  name: 'Item name',
+  description: 'Item description',
+  endorsement: 'Certified, Promoted or None',
+  certifiedBy: 'Who certified the item',
+  label: 'Sensitivity label name',
+  labelPriority: 'Sensitivity label priority',
+  labelSensitive: 'Whether the label counts as sensitive',
+  domain: 'Domain of the item\'s workspace',
+  workspace: 'Workspace name',
+  workspaceType: 'Workspace, PersonalGroup, …',
+  workspaceState: 'Active, Deleted, …',
+  dedicatedCapacity: 'Whether the workspace is on a dedicated capacity',
+  adminCount: 'Workspace admins (needs artifact users in the scan)',
+  upstreamCount: 'Items this one is built on, directly',
+  downstreamCount: 'Items built on this one, directly'
+};
+
+const OPERATORS: ReadonlyArray<keyof PolicyCondition> = ['equals', 'notEquals', 'in', 'notIn', 'exists', 'matches', 'gte', 'lte'];
+const SEVERITIES: ReadonlyArray<PolicySeverity> = ['error', 'warning', 'info'];
+const ARTIFACT_TYPE_ALIAS: string = 'Artifact';
+
+/** Rule the sensitivity compliance view is built on */
+export const UNLABELED_ARTIFACTS_RULE_ID: string = 'artifacts-labeled';
+
+export const DEFAULT_POLICY_PACK: PolicyPack = {
+  id: 'default',
+  name: 'Default governance pack',
+  description: 'Baseline checks for descriptions, labels, admins and production lineage',
+  rules: [
+    {
+      id: 'certified-models-described',
+      title: 'Certified semantic models have a description',
+      severity: 'warning',
+      appliesTo: { types: ['SemanticModel'], where: [{ field: 'endorsement', equals: 'Certified' }] },
+      require: [{ field: 'description', exists: true }]
+    },
+    {
+      id: 'production-not-on-personal',
+      title: 'Production reports don\'t depend on personal workspaces',
+      severity: 'error',
+      appliesTo: { types: ['Report', 'PaginatedReport', 'Dashboard'], where: [{ field: 'domain', matches: 'production' }] },
+      forbidUpstream: [{ field: 'workspaceType', equals: 'PersonalGroup' }]
+    },
+    {
+      id: 'workspace-two-admins',
+      title: 'Every workspace has at least two admins',
+      severity: 'warning',
+      appliesTo: { types: ['Workspace'], where: [{ field: 'workspaceType', notEquals: 'PersonalGroup' }] },
+      require: [{ field: 'adminCount', gte: 2 }]
+    },
+    {
+      id: 'regulated-domains-labeled',
+      title: 'No unlabeled items in finance, HR or compliance domains',
+      severity: 'error',
+      appliesTo: { types: [ARTIFACT_TYPE_ALIAS], where: [{ field: 'domain', matches: 'finance|human resources|compliance' }] },
+      require: [{ field: 'label', exists: true }]
+    },
+    {
+      id: UNLABELED_ARTIFACTS_RULE_ID,
+      title: 'Every item has a sensitivity label',
+      severity: 'info',
+      appliesTo: { types: [ARTIFACT_TYPE_ALIAS] },
+      require: [{ field: 'label', exists: true }]
+    }
+  ]
+};
+
+/**
+ * Reads a rule pack from JSON or YAML text
+ *
+ * @param fileName - Used for the pack ID and name when the pack has none
+ * @returns The pack with its valid rules, plus one message per problem
+ */
+export function parsePolicyPack (text: string, fileName: string): { pack: PolicyPack | null; errors: string[] } {
+  let body: any;
+  try {
+    body = /^\s*[{[]/.test(text) ? JSON.parse(text) : load(text);
+  } catch (e) {
+    return { pack: null, errors: [`Not valid JSON or YAML: ${e?.message ?? e}`] };
+  }
+  const ruleEntries = Array.isArray(body) ? body : body?.rules;
+  if (!Array.isArray(ruleEntries)) {
+    return { pack: null, errors: ['Expected a list of rules or { rules: [...] }'] };
+  }
+
+  const errors: string[] = [];
+  const rules: PolicyRule[] = [];
+  ruleEntries.forEach((entry: any, index: number) => {
+    const ruleErrors = validatePolicyRule(entry);
+    if (ruleErrors.length > 0) {
+      errors.push(...ruleErrors.map(error => `Rule ${entry?.id ?? index + 1}: ${error}`));
+    } else {
+      rules.push({ ...entry, severity: entry.severity ?? 'warning' });
+    }
+  });
+
+  const baseName = fileName.replace(/\.(json|ya?ml)$/i, '');
+  return {
+    pack: {
+      id: String(body?.id ?? baseName).toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+      name: String(body?.name ?? baseName),
+      description: body?.description,
+      rules
+    },
+    errors
+  };
+}
+
+/**
+ * Problems with one rule
+ *
+ * @returns One message per problem; empty when the rule can be evaluated
+ */
+export function validatePolicyRule (rule: any): string[] {
+  const errors: string[] = [];
+  if (!rule?.id) errors.push('id is required');
+  if (!rule?.title) errors.push('title is required');
+  if (rule?.severity !== undefined && !SEVERITIES.includes(rule.severity)) {
+    errors.push(`severity must be one of ${SEVERITIES.join(', ')}`);
+  }
+  const types = rule?.appliesTo?.types;
+  if (types !== undefined && !Array.isArray(types)) {
+    errors.push('appliesTo.types must be a list of node types');
+  }
+  for (const type of Array.isArray(types) ? types : []) {
+    if (type !== ARTIFACT_TYPE_ALIAS && !isNodeTypeName(type)) errors.push(`unknown type ${type}`);
+  }
+  if (!rule?.require?.length && !rule?.forbidUpstream?.length) {
+    errors.push('needs require or forbidUpstream conditions');
+  }
+  for (const key of ['where', 'require', 'forbidUpstream'] as const) {
+    const conditions = key === 'where' ? rule?.appliesTo?.where : rule?.[key];
+    if (conditions !== undefined && !Array.isArray(conditions)) {
+      errors.push(`${key} must be a list of conditions`);
+      continue;
+    }
+    for (const condition of conditions ?? []) {
+      errors.push(...validateCondition(condition).map(error => `${key}: ${error}`));
+    }
+  }
+  return errors;
+}
+
+/** NodeType member name, e.g. SemanticModel (not a numeric value or an inherited property) */
+function isNodeTypeName (type: unknown): boolean {
+  return typeof type === 'string' && Object.prototype.hasOwnProperty.call(NodeType, type) && typeof (NodeType as any)[type] === 'number';
+}
+
+const isScalar = (value: unknown): boolean => ['string', 'number', 'boolean'].includes(typeof value);
+const isScalarList = (value: unknown): boolean => Array.isArray(value) && value.every(option => typeof option === 'string' || typeof option === 'number');
+
+/** Operand type each operator expects, with how to describe it */
+const OPERAND_CHECKS: Record<Exclude<keyof PolicyCondition, 'field'>, [(value: unknown) => boolean, string]> = {
+  equals: [isScalar, 'a string, number or boolean'],
+  notEquals: [isScalar, 'a string, number or boolean'],
+  in: [isScalarList, 'a list of strings or numbers'],
+  notIn: [isScalarList, 'a list of strings or numbers'],
+  exists: [value => typeof value === 'boolean', 'true or false'],
+  matches: [value => typeof value === 'string', 'a string'],
+  gte: [value => typeof value === 'number' && Number.isFinite(value), 'a number'],
+  lte: [value => typeof value === 'number' && Number.isFinite(value), 'a number']
+};
+
+function validateCondition (condition: any): string[] {
+  if (typeof condition?.field !== 'string' || !Object.prototype.hasOwnProperty.call(POLICY_FIELDS, condition.field)) {
+    return [`unknown field ${condition?.field ?? '(none)'}`];
+  }
+  const operators = OPERATORS.filter(operator => condition[operator] !== undefined);
+  if (operators.length !== 1) {
+    return [`${condition.field} needs exactly one of ${OPERATORS.join(', ')}`];
+  }
+  const [isValidOperand, expected] = OPERAND_CHECKS[operators[0] as Exclude<keyof PolicyCondition, 'field'>];
+  if (!isValidOperand(condition[operators[0]])) {
+    return [`${condition.field} ${operators[0]} must be ${expected}`];
+  }
+  if (operators[0] === 'matches') {
+    try {
+      RegExp(condition.matches);
+    } catch {
+      return [`${condition.field} matches an invalid pattern`];
+    }
+  }
+  return [];
+}
+
+/**
+ * Evaluates every rule of a pack against the graph
+ *
+ * @returns One result per rule, in pack order
+ */
+export function evaluatePolicyPack (pack: PolicyPack, context: PolicyContext): PolicyRuleResult[] {
+  const facts = buildFacts(context);
+  const upstream = new Map<string, string[]>();
+  for (const link of context.links) {
+    if (!LINEAGE_LINK_TYPES.has(link.type) && link.type !== LinkType.ParentOf) continue;
+    upstream.set(link.target, [...(upstream.get(link.target) ?? []), link.source]);
+  }
+  return pack.rules.map(rule => evaluateRule(rule, context.nodes, facts, upstream));
+}
+
+function evaluateRule (rule: PolicyRule, nodes: Node[], facts: Map<string, Record<string, unknown>>,
+  upstream: Map<string, string[]>): PolicyRuleResult {
+  const result: PolicyRuleResult = { rule, evaluated: 0, passed: 0, failed: 0, skipped: 0, violations: [] };
+  const types = rule.appliesTo?.types;
+
+  for (const node of nodes) {
+    if (node.metadata?.diffStatus === 'removed') continue;
+    if (types && !types.some(type => type === ARTIFACT_TYPE_ALIAS ? isArtifactNode(node) : NodeType[node.type] === type)) continue;
+    const nodeFacts = facts.get(node.id)!;
+    if (!(rule.appliesTo?.where ?? []).every(condition => testCondition(condition, nodeFacts[condition.field]) === true)) continue;
+    result.evaluated++;
+
+    const messages: string[] = [];
+    let unknown = false;
+    for (const condition of rule.require ?? []) {
+      const value = nodeFacts[condition.field];
+      const outcome = testCondition(condition, value);
+      if (outcome === undefined) unknown = true;
+      if (outcome === false) messages.push(describeFailure(condition, value));
+    }
+
+    const relatedNodeIds = rule.forbidUpstream?.length
+      ? findUpstream(node.id, upstream).filter(id => rule.forbidUpstream!.every(condition => testCondition(condition, facts.get(id)?.[condition.field]) === true))
+      : [];
+    if (relatedNodeIds.length > 0) {
+      messages.push(`Built on ${relatedNodeIds.map(id => String(facts.get(id)?.name ?? id)).join(', ')}`);
+    }
+
+    if (messages.length > 0) {
+      result.failed++;
+      result.violations.push({ node, message: messages.join('; '), relatedNodeIds });
+    } else if (unknown) {
+      result.skipped++;
+    } else {
+      result.passed++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Tests one fact against a condition
+ *
+ * @returns undefined when the fact is missing and the operator can't decide without it
+ */
+function testCondition (condition: PolicyCondition, value: unknown): boolean | undefined {
+  if (condition.exists !== undefined) {
+    const present = value !== undefined && value !== null && value !== '';
+    return present === condition.exists;
+  }
+  if (value === undefined || value === null) return undefined;
+  if (condition.equals !== undefined) return looseEquals(value, condition.equals);
+  if (condition.notEquals !== undefined) return !looseEquals(value, condition.notEquals);
+  if (condition.in !== undefined) return condition.in.some(option => looseEquals(value, option));
+  if (condition.notIn !== undefined) return !condition.notIn.some(option => looseEquals(value, option));
+  if (condition.matches !== undefined) return new RegExp(condition.matches, 'i').test(String(value));
+  if (condition.gte !== undefined) return Number(value) >= condition.gte;
+  if (condition.lte !== undefined) return Number(value) <= condition.lte;
+  return undefined;
+}
+
+function looseEquals (value: unknown, expected: unknown): boolean {
+  return typeof value === 'string' && typeof expected === 'string'
+    ? value.toLowerCase() === expected.toLowerCase()
+    : value === expected;
+}
+
+function describeFailure (condition: PolicyCondition, value: unknown): string {
+  if (condition.exists !== undefined) return condition.exists ? `${condition.field} is missing` : `${condition.field} is set`;
+  const expected = condition.equals !== undefined
+    ? `= ${condition.equals}`
+    : condition.notEquals !== undefined
+      ? `≠ ${condition.notEquals}`
+      : condition.in !== undefined
+        ? `one of ${condition.in.join(', ')}`
+        : condition.notIn !== undefined
+          ? `none of ${condition.notIn.join(', ')}`
+          : condition.matches !== undefined
+            ? `matching /${condition.matches}/`
+            : condition.gte !== undefined ? `≥ ${condition.gte}` : `≤ ${condition.lte}`;
+  return `${condition.field} is ${value} (needs ${expected})`;
+}
+
+function findUpstream (nodeId: string, upstream: Map<string, string[]>): string[] {
+  const seen = new Set<string>([nodeId]);
+  const queue = [nodeId];
+  while (queue.length > 0) {
+    for (const parentId of upstream.get(queue.shift()!) ?? []) {
+      if (seen.has(parentId)) continue;
+      seen.add(parentId);
+      queue.push(parentId);
+    }
+  }
+  seen.delete(nodeId);
+  return [...seen];
+}
+
+/** The facts of every node, keyed by node ID */
+function buildFacts (context: PolicyContext): Map<string, Record<string, unknown>> {
+  const workspaceNodes = new Map(context.nodes.filter(node => node.type === NodeType.Workspace).map(node => [node.id, node]));
+  const workspaces = new Map(context.workspaces.map(workspace => [workspace.id, workspace]));
+  const upstreamCounts = new Map<string, number>();
+  const downstreamCounts = new Map<string, number>();
+  for (const link of context.links) {
+    if (!LINEAGE_LINK_TYPES.has(link.type) && link.type !== LinkType.ParentOf) continue;
+    upstreamCounts.set(link.target, (upstreamCounts.get(link.target) ?? 0) + 1);
+    downstreamCounts.set(link.source, (downstreamCounts.get(link.source) ?? 0) + 1);
+  }
+
+  return new Map(context.nodes.map(node => {
+    const workspaceNode = workspaceNodes.get(node.workspaceId);
+    const workspace = workspaces.get(node.workspaceId);
+    const labelId = node.metadata?.sensitivityLabel?.labelId;
+    const label = labelId ? context.resolveLabel(labelId) : undefined;
+    const isWorkspace = node.type === NodeType.Workspace;
+    return [node.id, {
+      type: NodeType[node.type],
+      name: node.name,
+      description: node.metadata?.description,
+      endorsement: isWorkspace ? undefined : node.metadata?.endorsement ?? 'None',
+      certifiedBy: node.metadata?.certifiedBy,
+      label: label?.name ?? labelId,
+      labelPriority: label?.priority,
+      labelSensitive: label?.isSensitive,
+      domain: workspaceNode?.metadata?.domainName,
+      workspace: workspaceNode?.name,
+      workspaceType: workspace?.type,
+      workspaceState: workspace?.state ?? workspaceNode?.metadata?.state,
+      dedicatedCapacity: workspace?.isOnDedicatedCapacity,
+      adminCount: isWorkspace && workspace?.users
+        ? new Set(workspace.users.filter(user => user.groupUserAccessRight === 'Admin').map(user => (user.identifier || user.emailAddress || user.displayName).toLowerCase())).size
+        : undefined,
+      upstreamCount: upstreamCounts.get(node.id) ?? 0,
+      downstreamCount: downstreamCounts.get(node.id) ?? 0
+    }];
+  }));
+}
+
+/** A pack as YAML, e.g. as a starting point for a custom pack */
+export function policyPackToYaml (pack: PolicyPack): string {
+  const { id, name, description, rules } = pack;
+  return dump({ id, name, description, rules }, { lineWidth: 120, noRefs: true, skipInvalid: true });
+}
+
+/**
+ * Violations as CSV, one row per offending item and rule
+ *
+ * @param getWorkspaceName - Workspace name for a workspace ID
+ */
+export function policyResultsToCsv (results: PolicyRuleResult[], getWorkspaceName: (workspaceId: string) => string): string {
+  const rows = [['Rule', 'Severity', 'Workspace', 'Item', 'Item type', 'Finding']];
+  for (const result of results) {
+    for (const violation of result.violations) {
+      rows.push([
+        result.rule.title,
+        result.rule.severity,
+        getWorkspaceName(violation.node.workspaceId),
+        violation.node.name,
+        NodeType[violation.node.type],
+        violation.message
+      ]);
+    }
+  }
+  return toCsv(rows);
+}
@@ -0,0 +1,56 @@
+import { buildGovernanceScorecard, governanceScorecardToHtml } from './governance-scorecard';
+import { PolicyRuleResult } from './governance-policy';
+import { LinkType, Node, NodeType } from '../models/graphModels';
+import { node } from '../testing/fixtures';
+
+const NODES: Node[] = [
+  node('finance', NodeType.Workspace, 'finance', { domainName: 'Finance' }),
+  node('sandbox', NodeType.Workspace, 'sandbox', { domainName: '⚠️ Unassigned Workspaces', isUnassigned: true }),
+  node('ledger', NodeType.SemanticModel, 'finance', { endorsement: 'Certified', sensitivityLabel: { labelId: 'conf' } }),
+  node('pnl', NodeType.Report, 'finance', { endorsement: 'Promoted' }),
+  node('old-model', NodeType.SemanticModel, 'finance'),
+  node('sql', NodeType.Datasource, 'finance'),
+  node('copy', NodeType.Report, 'sandbox', { sensitivityLabel: { labelId: 'conf' } }),
+  node('draft', NodeType.Report, 'sandbox'),
+  node('gone', NodeType.Report, 'sandbox', { diffStatus: 'removed' })
+];
+
+const LINKS = [
+  { source: 'finance', target: 'ledger', type: LinkType.Contains },
+  { source: 'sql', target: 'ledger', type: LinkType.Sources },
+  { source: 'ledger', target: 'pnl', type: LinkType.Visualizes },
+  { source: 'ledger', target: 'copy', type: LinkType.Visualizes },
+  { source: 'finance', target: 'sandbox', type: LinkType.CrossWorkspace }
+];
+
+const RESULTS = [{
+  rule: { id: 'r', title: 'Reports are endorsed', severity: 'warning' },
+  evaluated: 3,
+  passed: 1,
+  failed: 2,
+  skipped: 0,
+  violations: [{ node: NODES[6], message: '', relatedNodeIds: [] }, { node: NODES[7], message: '', relatedNodeIds: [] }]
+}] as PolicyRuleResult[];
+
+describe('Governance scorecard', () => {
+  const scorecard = buildGovernanceScorecard(NODES, LINKS, RESULTS, new Date(2026, 0, 1));
+
+  it('should score workspaces and roll them up by domain and tenant', () => {
+    expect(scorecard.workspaces.map(row => [row.name, row.domain, row.items, row.certified, row.labeled, row.unused, row.crossWorkspaceDependencies, row.policyViolations]))
+      .toEqual([
+        ['finance', 'Finance', 3, 1, 1, 1, 0, 0],
+        ['sandbox', 'Unassigned', 2, 0, 1, 1, 1, 2]
+      ]);
+    expect(scorecard.tenant).toEqual(jasmine.objectContaining({ workspaces: 2, unassignedWorkspaces: 1, items: 5, promoted: 1, unused: 2, policyViolations: 2 }));
+    expect(scorecard.topViolations).toEqual([{ ruleTitle: 'Reports are endorsed', severity: 'warning', failed: 2, examples: ['copy', 'draft'] }]);
+  });
+
+  it('should render a standalone document with charts and escaped names', () => {
+    const html = governanceScorecardToHtml({ ...scorecard, domains: [{ ...scorecard.domains[0], name: 'R&D <EU>' }] }, 'Q1 report');
+
+    expect(html).toContain('<title>Q1 report</title>');
+    expect(html).toContain('R&amp;D &lt;EU&gt;');
+    expect(html).toContain('<svg');
+    expect(html).not.toMatch(/<script|<link|https?:\/\//);
+  });
+});
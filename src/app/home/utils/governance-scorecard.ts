@@ -0,0 +1,324 @@
+/**
+ * Governance Scorecard Utilities for FabricBEyeAI
+ *
+ * Tenant, domain and workspace governance metrics computed from the loaded
+ * graph, and a self-contained HTML report of them (inline CSS and SVG charts,
+ * no scripts or external resources) that prints cleanly to PDF.
+ */
+
+import { LinkType, LINEAGE_LINK_TYPES, Node, NodeType, isArtifactNode } from '../models/graphModels';
+import type { PolicyRuleResult, PolicySeverity } from './governance-policy';
+import { escapeHtml } from './html';
+
+/** Metrics of one domain, one workspace or the whole tenant */
+export interface ScorecardRow {
+  name: string;
+  /** Domain of a workspace row */
+  domain?: string;
+  workspaces: number;
+  unassignedWorkspaces: number;
+  /** Items other than workspaces, datasources and principals */
+  items: number;
+  certified: number;
+  promoted: number;
+  labeled: number;
+  /** Workspaces this one consumes data from (cross-workspace links in) */
+  crossWorkspaceDependencies: number;
+  /** Orphaned or unused items (see isUnusedContent) */
+  unused: number;
+  policyViolations: number;
+}
+
+export interface ScorecardViolationSummary {
+  ruleTitle: string;
+  severity: PolicySeverity;
+  failed: number;
+  /** Names of the first offending items */
+  examples: string[];
+}
+
+export interface GovernanceScorecard {
+  generatedAt: Date;
+  tenant: ScorecardRow;
+  /** Largest domain first */
+  domains: ScorecardRow[];
+  /** By domain, then name */
+  workspaces: ScorecardRow[];
+  /** Failed rules, most severe and most failed first */
+  topViolations: ScorecardViolationSummary[];
+}
+
+/** Links here have string ends; map renderer node objects back to IDs first */
+interface ScorecardEdge {
+  source: string;
+  target: string;
+  type: LinkType;
+}
+
+const SEVERITY_RANK: Record<PolicySeverity, number> = { error: 3, warning: 2, info: 1 };
+const TOP_VIOLATION_COUNT = 10;
+const VIOLATION_EXAMPLE_COUNT = 5;
+const UNASSIGNED_DOMAIN_NAME = 'Unassigned';
+
+/** Items that produce data for others */
+const PRODUCER_TYPES: ReadonlySet<NodeType> = new Set([NodeType.SemanticModel, NodeType.Dataflow, NodeType.DataflowGen2]);
+/** Items that only consume data */
+const CONSUMER_TYPES: ReadonlySet<NodeType> = new Set([NodeType.Report, NodeType.PaginatedReport, NodeType.Dashboard]);
+
+/**
+ * Orphaned or unused content: a semantic model or dataflow nothing is built
+ * on, or a report or dashboard that isn't built on anything
+ */
+export function isUnusedContent (node: Node, upstreamCount: number, downstreamCount: number): boolean {
+  if (PRODUCER_TYPES.has(node.type)) return downstreamCount === 0;
+  if (CONSUMER_TYPES.has(node.type)) return upstreamCount === 0;
+  return false;
+}
+
+function emptyRow (name: string, domain?: string): ScorecardRow {
+  return {
+    name,
+    domain,
+    workspaces: 0,
+    unassignedWorkspaces: 0,
+    items: 0,
+    certified: 0,
+    promoted: 0,
+    labeled: 0,
+    crossWorkspaceDependencies: 0,
+    unused: 0,
+    policyViolations: 0
+  };
+}
+
+function addRow (into: ScorecardRow, row: ScorecardRow): void {
+  for (const key of Object.keys(row) as (keyof ScorecardRow)[]) {
+    if (typeof row[key] === 'number') (into as any)[key] += row[key];
+  }
+}
+
+/**
+ * Computes the scorecard of the loaded graph; removed items of a snapshot comparison are ignored
+ *
+ * @param policyResults - Results of the active rule pack
+ */
+export function buildGovernanceScorecard (nodes: Node[], links: ScorecardEdge[], policyResults: PolicyRuleResult[],
+  generatedAt: Date = new Date()): GovernanceScorecard {
+  const current = nodes.filter(node => node.metadata?.diffStatus !== 'removed');
+  const upstreamCount = new Map<string, number>();
+  const downstreamCount = new Map<string, number>();
+  const consumedWorkspaces = new Map<string, Set<string>>();
+  for (const link of links) {
+    if (LINEAGE_LINK_TYPES.has(link.type)) {
+      upstreamCount.set(link.target, (upstreamCount.get(link.target) ?? 0) + 1);
+      downstreamCount.set(link.source, (downstreamCount.get(link.source) ?? 0) + 1);
+    } else if (link.type === LinkType.CrossWorkspace && link.source !== link.target) {
+      consumedWorkspaces.set(link.target, (consumedWorkspaces.get(link.target) ?? new Set()).add(link.source));
+    }
+  }
+
+  const violationsByWorkspace = new Map<string, number>();
+  for (const result of policyResults) {
+    for (const violation of result.violations) {
+      violationsByWorkspace.set(violation.node.workspaceId, (violationsByWorkspace.get(violation.node.workspaceId) ?? 0) + 1);
+    }
+  }
+
+  const workspaceRows = new Map<string, ScorecardRow>();
+  for (const workspace of current.filter(node => node.type === NodeType.Workspace)) {
+    const row = emptyRow(workspace.name, workspace.metadata?.isUnassigned ? UNASSIGNED_DOMAIN_NAME : workspace.metadata?.domainName || UNASSIGNED_DOMAIN_NAME);
+    row.workspaces = 1;
+    row.unassignedWorkspaces = workspace.metadata?.isUnassigned ? 1 : 0;
+    row.crossWorkspaceDependencies = consumedWorkspaces.get(workspace.id)?.size ?? 0;
+    row.policyViolations = violationsByWorkspace.get(workspace.id) ?? 0;
+    workspaceRows.set(workspace.id, row);
+  }
+  for (const node of current.filter(isArtifactNode)) {
+    const row = workspaceRows.get(node.workspaceId);
+    if (!row) continue;
+    row.items++;
+    if (node.metadata?.endorsement === 'Certified') row.certified++;
+    if (node.metadata?.endorsement === 'Promoted') row.promoted++;
+    if (node.metadata?.sensitivityLabel) row.labeled++;
+    if (isUnusedContent(node, upstreamCount.get(node.id) ?? 0, downstreamCount.get(node.id) ?? 0)) row.unused++;
+  }
+
+  const tenant = emptyRow('Tenant');
+  const domainRows = new Map<string, ScorecardRow>();
+  for (const row of workspaceRows.values()) {
+    if (!domainRows.has(row.domain!)) domainRows.set(row.domain!, emptyRow(row.domain!));
+    addRow(domainRows.get(row.domain!)!, row);
+    addRow(tenant, row);
+  }
+
+  const topViolations = policyResults
+    .filter(result => result.failed > 0)
+    .sort((a, b) => SEVERITY_RANK[b.rule.severity] - SEVERITY_RANK[a.rule.severity] || b.failed - a.failed)
+    .slice(0, TOP_VIOLATION_COUNT)
+    .map(result => ({
+      ruleTitle: result.rule.title,
+      severity: result.rule.severity,
+      failed: result.failed,
+      examples: result.violations.slice(0, VIOLATION_EXAMPLE_COUNT).map(violation => violation.node.name)
+    }));
+
+  return {
+    generatedAt,
+    tenant,
+    domains: Array.from(domainRows.values()).sort((a, b) => b.items - a.items || a.name.localeCompare(b.name)),
+    workspaces: Array.from(workspaceRows.values()).sort((a, b) => a.domain!.localeCompare(b.domain!) || a.name.localeCompare(b.name)),
+    topViolations
+  };
+}
+
+/** Share in whole percent; 0 when there is nothing to share */
+export function percentOf (count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 100) : 0;
+}
+
+const CHART_COLORS = { certified: '#4CAF50', promoted: '#FF9800', none: '#D0D0D0', labeled: '#0078D4' };
+const CHART_LABEL_WIDTH = 180;
+const CHART_BAR_WIDTH = 420;
+const CHART_ROW_HEIGHT = 22;
+
+/** Horizontal 100% stacked bars, one per row, with the row name on the left */
+function stackedBarChart (title: string, rows: { name: string; segments: { value: number; color: string }[]; total: number; caption: string }[]): string {
+  const height = rows.length * CHART_ROW_HEIGHT + 8;
+  const bars = rows.map((row, index) => {
+    const y = index * CHART_ROW_HEIGHT + 4;
+    let x = CHART_LABEL_WIDTH;
+    const rects = row.segments.map(segment => {
+      const width = row.total > 0 ? (segment.value / row.total) * CHART_BAR_WIDTH : 0;
+      const rect = `<rect x="${x.toFixed(1)}" y="${y}" width="${width.toFixed(1)}" height="${CHART_ROW_HEIGHT - 6}" fill="${segment.color}"/>`;
+      x += width;
+      return rect;
+    }).join('');
+    return `<text x="${CHART_LABEL_WIDTH - 8}" y="${y + 12}" text-anchor="end">${escapeHtml(row.name)}</text>` +
+      `<rect x="${CHART_LABEL_WIDTH}" y="${y}" width="${CHART_BAR_WIDTH}" height="${CHART_ROW_HEIGHT - 6}" fill="#F3F3F3"/>${rects}` +
+      `<text x="${CHART_LABEL_WIDTH + CHART_BAR_WIDTH + 8}" y="${y + 12}">${escapeHtml(row.caption)}</text>`;
+  }).join('');
+  return `<figure><figcaption>${escapeHtml(title)}</figcaption>` +
+    `<svg viewBox="0 0 ${CHART_LABEL_WIDTH + CHART_BAR_WIDTH + 120} ${height}" width="100%" role="img" aria-label="${escapeHtml(title)}">${bars}</svg></figure>`;
+}
+
+function legend (entries: [string, string][]): string {
+  return `<p class="legend">${entries.map(([label, color]) => `<span><i style="background:${color}"></i>${escapeHtml(label)}</span>`).join('')}</p>`;
+}
+
+function metricCells (row: ScorecardRow): string {
+  const cells = [
+    `${row.items}`,
+    `${percentOf(row.certified, row.items)}%`,
+    `${percentOf(row.certified + row.promoted, row.items)}%`,
+    `${percentOf(row.labeled, row.items)}%`,
+    `${row.crossWorkspaceDependencies}`,
+    `${row.unused}`,
+    `${row.policyViolations}`
+  ];
+  return cells.map(cell => `<td class="num">${cell}</td>`).join('');
+}
+
+const METRIC_HEADERS = '<th>Items</th><th>Certified</th><th>Endorsed</th><th>Labeled</th><th>Cross-workspace deps</th><th>Orphaned / unused</th><th>Policy violations</th>';
+
+const REPORT_STYLES = `
+  body { font-family: "Segoe UI", Arial, sans-serif; color: #201F1E; margin: 32px; font-size: 13px; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  h2 { font-size: 17px; margin: 28px 0 8px; border-bottom: 2px solid #0078D4; padding-bottom: 4px; break-after: avoid; }
+  .meta { color: #605E5C; margin: 0 0 16px; }
+  .kpis { display: flex; flex-wrap: wrap; gap: 12px; }
+  .kpi { border: 1px solid #E1DFDD; border-radius: 6px; padding: 10px 14px; min-width: 120px; }
+  .kpi strong { display: block; font-size: 22px; }
+  .kpi span { color: #605E5C; font-size: 12px; }
+  table { border-collapse: collapse; width: 100%; margin-top: 8px; }
+  th, td { border-bottom: 1px solid #E1DFDD; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #F3F2F1; font-weight: 600; }
+  td.num, th.num { text-align: right; }
+  tr { break-inside: avoid; }
+  figure { margin: 12px 0; break-inside: avoid; }
+  figcaption { font-weight: 600; margin-bottom: 4px; }
+  svg text { font-size: 11px; fill: #201F1E; }
+  .legend span { margin-right: 14px; }
+  .legend i { display: inline-block; width: 10px; height: 10px; margin-right: 4px; }
+  .severity-error { color: #A4262C; font-weight: 600; }
+  .severity-warning { color: #8A5A00; font-weight: 600; }
+  .severity-info { color: #005A9E; }
+  @page { size: A4 landscape; margin: 14mm; }
+  @media print { body { margin: 0; } h2 { break-before: auto; } }
+`;
+
+/**
+ * The scorecard as a standalone HTML document
+ *
+ * @param title - Report title, e.g. with the quarter
+ */
+export function governanceScorecardToHtml (scorecard: GovernanceScorecard, title: string = 'Tenant Governance Scorecard'): string {
+  const { tenant, domains, workspaces, topViolations } = scorecard;
+  const kpis: [string, string][] = [
+    [`${tenant.workspaces}`, 'Workspaces'],
+    [`${tenant.items}`, 'Items'],
+    [`${percentOf(tenant.certified, tenant.items)}%`, 'Certified'],
+    [`${percentOf(tenant.certified + tenant.promoted, tenant.items)}%`, 'Endorsed'],
+    [`${percentOf(tenant.labeled, tenant.items)}%`, 'Labeled'],
+    [`${tenant.unassignedWorkspaces}`, 'Unassigned workspaces'],
+    [`${tenant.crossWorkspaceDependencies}`, 'Cross-workspace dependencies'],
+    [`${tenant.unused}`, 'Orphaned / unused items'],
+    [`${tenant.policyViolations}`, 'Policy violations']
+  ];
+
+  const endorsementChart = stackedBarChart('Endorsement by domain', domains.map(domain => ({
+    name: domain.name,
+    total: domain.items,
+    caption: `${percentOf(domain.certified + domain.promoted, domain.items)}% of ${domain.items}`,
+    segments: [
+      { value: domain.certified, color: CHART_COLORS.certified },
+      { value: domain.promoted, color: CHART_COLORS.promoted },
+      { value: domain.items - domain.certified - domain.promoted, color: CHART_COLORS.none }
+    ]
+  })));
+  const labelChart = stackedBarChart('Label coverage by domain', domains.map(domain => ({
+    name: domain.name,
+    total: domain.items,
+    caption: `${percentOf(domain.labeled, domain.items)}%`,
+    segments: [{ value: domain.labeled, color: CHART_COLORS.labeled }]
+  })));
+
+  const violationRows = topViolations.map(violation =>
+    `<tr><td class="severity-${violation.severity}">${violation.severity}</td><td>${escapeHtml(violation.ruleTitle)}</td>` +
+    `<td class="num">${violation.failed}</td><td>${escapeHtml(violation.examples.join(', '))}${violation.failed > violation.examples.length ? ', …' : ''}</td></tr>`
+  ).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">Generated ${escapeHtml(scorecard.generatedAt.toLocaleString())} by FabricBEyeAI from the loaded snapshot · ${domains.length} domains</p>
+<div class="kpis">${kpis.map(([value, label]) => `<div class="kpi"><strong>${value}</strong><span>${escapeHtml(label)}</span></div>`).join('')}</div>
+
+<h2>Endorsement and labels</h2>
+${legend([['Certified', CHART_COLORS.certified], ['Promoted', CHART_COLORS.promoted], ['Not endorsed', CHART_COLORS.none], ['Labeled', CHART_COLORS.labeled]])}
+${endorsementChart}
+${labelChart}
+
+<h2>Top policy violations</h2>
+${violationRows
+    ? `<table><thead><tr><th>Severity</th><th>Rule</th><th class="num">Failed</th><th>Items</th></tr></thead><tbody>${violationRows}</tbody></table>`
+    : '<p>No policy violations.</p>'}
+
+<h2>Domains</h2>
+<table><thead><tr><th>Domain</th><th>Workspaces</th>${METRIC_HEADERS}</tr></thead><tbody>
+${domains.map(domain => `<tr><td>${escapeHtml(domain.name)}</td><td class="num">${domain.workspaces}</td>${metricCells(domain)}</tr>`).join('\n')}
+</tbody></table>
+
+<h2>Workspaces</h2>
+<table><thead><tr><th>Workspace</th><th>Domain</th>${METRIC_HEADERS}</tr></thead><tbody>
+${workspaces.map(workspace => `<tr><td>${escapeHtml(workspace.name)}</td><td>${escapeHtml(workspace.domain!)}</td>${metricCells(workspace)}</tr>`).join('\n')}
+</tbody></table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,61 @@
+import { TestBed } from '@angular/core/testing';
+import { LineageGraphBuilder } from '../services/lineage-graph-builder.service';
+import { GraphBuildService } from '../services/graph-build.service';
+import { NodeType } from '../models/graphModels';
+import { MOCK_SCANNER_RESPONSE, MOCK_DOMAINS } from '../data/scanner-mock-data';
+import { computeDomainAnchors, computeLayout } from './graph-layout';
+
+describe('graph layout', () => {
+  let builder: LineageGraphBuilder;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    builder = TestBed.inject(LineageGraphBuilder);
+  });
+
+  it('should place one anchor per domain, independent of workspace order', () => {
+    const graph = builder.build(MOCK_SCANNER_RESPONSE, { domains: MOCK_DOMAINS });
+    const domainIds = new Set(graph.nodes.filter(node => node.type === NodeType.Workspace).map(node => node.metadata!.domainId));
+
+    const anchors = computeDomainAnchors(graph.nodes);
+    const reversed = computeDomainAnchors([...graph.nodes].reverse());
+
+    expect(anchors.size).toBe(domainIds.size);
+    expect(Array.from(reversed.entries()).sort()).toEqual(Array.from(anchors.entries()).sort());
+  });
+
+  it('should return a finite position per node and keep artifacts near their workspace', () => {
+    const graph = builder.build(MOCK_SCANNER_RESPONSE, { domains: MOCK_DOMAINS });
+
+    const positions = computeLayout(graph, 100);
+
+    expect(positions.length).toBe(graph.nodes.length * 3);
+    expect(positions.every(value => Number.isFinite(value))).toBeTrue();
+
+    const positionOf = (id: string) => {
+      const i = graph.nodes.findIndex(node => node.id === id) * 3;
+      return [positions[i], positions[i + 1], positions[i + 2]];
+    };
+    const distances = graph.nodes
+      .filter(node => node.type !== NodeType.Workspace && node.type !== NodeType.Datasource)
+      .map(node => Math.hypot(...positionOf(node.id).map((value, axis) => value - positionOf(node.workspaceId)[axis])));
+    const median = distances.sort((a, b) => a - b)[Math.floor(distances.length / 2)];
+    expect(median).toBeLessThan(60);
+  });
+
+  it('should build and lay out on the main thread when workers are unavailable', async () => {
+    const service = new GraphBuildService(builder);
+
+    const { graph, positions } = await service.build({
+      scanResult: MOCK_SCANNER_RESPONSE,
+      options: { domains: MOCK_DOMAINS },
+      layoutTicks: 10
+    });
+
+    expect(graph.nodes.length).toBeGreaterThan(0);
+    expect(positions!.length).toBe(graph.nodes.length * 3);
+
+    const withoutLayout = await service.build({ scanResult: MOCK_SCANNER_RESPONSE, options: {}, layoutTicks: 0 });
+    expect(withoutLayout.positions).toBeUndefined();
+  });
+});
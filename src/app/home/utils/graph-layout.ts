@@ -0,0 +1,144 @@
+/**
+ * Graph Layout Utilities for FabricBEyeAI
+ *
+ * The forces of the 3D view — domain anchors, domain clustering and link
+ * distances — shared by the renderer and the off-thread layout pass, so a
+ * precomputed layout is already close to where the renderer settles.
+ */
+
+import { forceCenter, forceLink, forceManyBody, forceSimulation, SimulationNode } from 'd3-force-3d';
+import { LineageGraph, Link, LinkType, Node, NodeType } from '../models/graphModels';
+
+/** Simulation settings shared with the renderer */
+export const LAYOUT_ALPHA_DECAY: number = 0.05; // Fast settling — stops oscillation quickly
+export const LAYOUT_VELOCITY_DECAY: number = 0.6; // High friction to prevent shaking
+
+const DOMAIN_ANCHOR_STRENGTH: number = 0.55; // Strong pull — keep workspaces tight within domain
+const WORKSPACE_ANCHOR_STRENGTH: number = 0.65; // Artifacts stay close to workspace
+
+export interface Point3D {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** Ticks to run before the first frame, so big tenants appear settled */
+export function getWarmupTicks (nodeCount: number): number {
+  return nodeCount > 200 ? 100 : 50;
+}
+
+/** Contains/ParentOf short (tight clusters), CrossWorkspace long (spread domains) */
+export function getLinkDistance (link: Pick<Link, 'type'>): number {
+  if (link.type === LinkType.CrossWorkspace) return 120;
+  if (link.type === LinkType.Contains) return 20;
+  if (link.type === LinkType.ParentOf) return 10;
+  if (link.type === LinkType.Sources) return 60; // datasource hubs sit between their consumers
+  return 35; // artifact lineage
+}
+
+/**
+ * Deterministic anchor position for each domain (Fibonacci sphere)
+ * Domains are sorted by ID, so the same tenant always gets the same layout.
+ */
+export function computeDomainAnchors (nodes: ReadonlyArray<Readonly<Node>>): Map<string, Point3D> {
+  const anchors = new Map<string, Point3D>();
+  const domainIds = Array.from(new Set(
+    nodes
+      .filter(node => node.type === NodeType.Workspace && node.metadata?.domainId)
+      .map(node => node.metadata!.domainId as string)
+  )).sort();
+
+  const n = domainIds.length;
+  if (n === 0) return anchors;
+
+  // More space between domain clusters
+  const radius = 120 + n * 35;
+
+  // Fibonacci sphere: evenly distribute N points on a sphere
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+  domainIds.forEach((id, i) => {
+    const y = 1 - (i / (n - 1 || 1)) * 2; // y goes from 1 to -1
+    const radiusAtY = Math.sqrt(1 - y * y);
+    const theta = goldenAngle * i;
+    anchors.set(id, {
+      x: Math.cos(theta) * radiusAtY * radius,
+      y: y * radius,
+      z: Math.sin(theta) * radiusAtY * radius
+    });
+  });
+  return anchors;
+}
+
+/**
+ * Force pulling workspaces toward their domain anchor and artifacts toward their workspace
+ *
+ * @param nodes - Simulated nodes (positions and velocities are read and updated in place)
+ * @param anchors - Domain anchors from computeDomainAnchors
+ */
+export function createDomainClusterForce (nodes: SimulationNode[], anchors: Map<string, Point3D>): (alpha: number) => void {
+  return (alpha: number) => {
+    // Build workspace position lookup for artifact attraction
+    const workspacePositions = new Map<string, Point3D>();
+    for (const node of nodes) {
+      if (node.type === NodeType.Workspace) {
+        workspacePositions.set(node.id, { x: node.x || 0, y: node.y || 0, z: node.z || 0 });
+      }
+    }
+
+    for (const node of nodes) {
+      let target: Point3D | undefined;
+      let strength: number;
+      if (node.type === NodeType.Workspace) {
+        target = node.metadata?.domainId ? anchors.get(node.metadata.domainId) : undefined;
+        strength = DOMAIN_ANCHOR_STRENGTH;
+      } else {
+        target = node.workspaceId ? workspacePositions.get(node.workspaceId) : undefined;
+        strength = WORKSPACE_ANCHOR_STRENGTH;
+      }
+      if (!target) continue;
+
+      node.vx += (target.x - (node.x || 0)) * strength * alpha;
+      node.vy += (target.y - (node.y || 0)) * strength * alpha;
+      node.vz += (target.z - (node.z || 0)) * strength * alpha;
+    }
+  };
+}
+
+/**
+ * Runs the 3D view's force simulation without rendering
+ *
+ * Uses the renderer's default forces (link, charge, center) plus domain
+ * clustering and link distances, with the same decay settings.
+ *
+ * @param graph - Graph to lay out (not mutated)
+ * @param ticks - Simulation ticks to run
+ * @param maxDurationMs - Stop early after this long (huge tenants then finish settling in the renderer)
+ * @returns x, y, z per node, in `graph.nodes` order
+ */
+export function computeLayout (graph: LineageGraph, ticks: number, maxDurationMs: number = Infinity): Float32Array {
+  const nodes: SimulationNode[] = graph.nodes.map(node => ({
+    id: node.id,
+    type: node.type,
+    workspaceId: node.workspaceId,
+    metadata: { domainId: node.metadata?.domainId }
+  }));
+  const links = graph.links.map(link => ({ source: link.source, target: link.target, type: link.type }));
+
+  const simulation = forceSimulation(nodes, 3)
+    .alphaDecay(LAYOUT_ALPHA_DECAY)
+    .velocityDecay(LAYOUT_VELOCITY_DECAY)
+    .force('link', forceLink<SimulationNode, typeof links[number]>(links).id(node => node.id).distance(getLinkDistance))
+    .force('charge', forceManyBody())
+    .force('center', forceCenter())
+    .force('domainCluster', createDomainClusterForce(nodes, computeDomainAnchors(graph.nodes)))
+    .stop();
+
+  const deadline = Date.now() + maxDurationMs;
+  for (let tick = 0; tick < ticks && Date.now() < deadline; tick++) {
+    simulation.tick();
+  }
+
+  const positions = new Float32Array(nodes.length * 3);
+  nodes.forEach((node, i) => positions.set([node.x ?? 0, node.y ?? 0, node.z ?? 0], i * 3));
+  return positions;
+}
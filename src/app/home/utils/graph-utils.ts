@@ -44,17 +44,6 @@ export const FABRIC_COLORS = {
   DEFAULT: '#107C10' // Fabric Green
 } as const;
 
-/**
- * Sensitivity label color schemes
- * Based on Microsoft Purview information protection
- */
-export const SENSITIVITY_LABEL_COLORS = {
-  '00000000-0000-0000-0000-000000000004': { bg: '#C43E1C', icon: '🔒', text: 'Highly Confidential' },
-  '00000000-0000-0000-0000-000000000003': { bg: '#D83B01', icon: '🔒', text: 'Confidential' },
-  '00000000-0000-0000-0000-000000000002': { bg: '#CA5010', icon: '🔓', text: 'Internal' },
-  '00000000-0000-0000-0000-000000000001': { bg: '#8A8A8A', icon: '🌐', text: 'Public' }
-} as const;
-
 /**
  * Generates a consistent color for a domain based on its ID
  * Uses simple hash function to ensure same domain always gets same color
@@ -0,0 +1,7 @@
+import { escapeHtml } from './html';
+
+describe('HTML', () => {
+  it('should escape markup and both quote characters', () => {
+    expect(escapeHtml('<img src=x onerror="alert(\'R&D\')">')).toBe('&lt;img src=x onerror=&quot;alert(&#39;R&amp;D&#39;)&quot;&gt;');
+  });
+});
@@ -0,0 +1,11 @@
+/**
+ * HTML Utilities for FabricBEyeAI
+ *
+ * Graph tooltips and the governance report are built as HTML strings from
+ * tenant data and imported files, so every value from there is escaped.
+ */
+
+/** Escapes a value for HTML text and quoted attribute values */
+export function escapeHtml (value: string): string {
+  return value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', '\'': '&#39;' })[char]!);
+}
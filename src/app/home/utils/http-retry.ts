@@ -0,0 +1,65 @@
+/**
+ * HTTP Retry Utilities for FabricBEyeAI
+ *
+ * Backoff shared by the scan orchestrator and the Fabric Items API paging:
+ * transient failures are retried with exponential backoff, and a 429 waits
+ * for the server's Retry-After instead of the computed delay.
+ */
+
+import { HttpErrorResponse } from '@angular/common/http';
+import { MonoTypeOperatorFunction, timer } from 'rxjs';
+import { retry } from 'rxjs/operators';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseRetryDelayMs: number;
+  maxRetryDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 5,
+  baseRetryDelayMs: 1000,
+  maxRetryDelayMs: 60000
+};
+
+/** HTTP statuses worth retrying (0 = network error / CORS failure) */
+const TRANSIENT_HTTP_STATUSES: ReadonlySet<number> = new Set([0, 408, 429, 500, 502, 503, 504]);
+
+/** Retry-After is either delay-seconds or an HTTP date */
+function getRetryAfterMs (error: HttpErrorResponse): number | undefined {
+  const retryAfter = error.headers?.get('Retry-After');
+  if (!retryAfter) return undefined;
+
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * How long to wait before retrying a failed request
+ *
+ * @param attempt - Retries already made for this request (0 for the first failure)
+ * @returns Delay in milliseconds, or undefined when the error isn't transient or the retries are used up
+ */
+export function getRetryDelayMs (error: unknown, attempt: number, policy: RetryPolicy): number | undefined {
+  const status = error instanceof HttpErrorResponse ? error.status : undefined;
+  if (status === undefined || !TRANSIENT_HTTP_STATUSES.has(status) || attempt >= policy.maxRetries) {
+    return undefined;
+  }
+
+  const retryAfterMs = status === 429 ? getRetryAfterMs(error as HttpErrorResponse) : undefined;
+  return retryAfterMs ?? Math.min(policy.baseRetryDelayMs * 2 ** attempt, policy.maxRetryDelayMs);
+}
+
+/** Resubscribes to the source after transient failures, waiting as getRetryDelayMs says */
+export function retryTransient<T> (policy: RetryPolicy = DEFAULT_RETRY_POLICY): MonoTypeOperatorFunction<T> {
+  return retry({
+    delay: (error, retryCount) => {
+      const delayMs = getRetryDelayMs(error, retryCount - 1, policy);
+      if (delayMs === undefined) throw error;
+      return timer(delayMs);
+    }
+  });
+}
@@ -0,0 +1,55 @@
+import { findLabelDowngrades, labelDowngradesToCsv } from './label-downgrade';
+import { LinkType, Node, NodeType } from '../models/graphModels';
+
+const PRIORITIES: Record<string, number> = { public: 0, internal: 1, confidential: 2, highly: 3 };
+const getPriority = (labelId: string): number | undefined => PRIORITIES[labelId];
+
+function node (id: string, type: NodeType, labelId?: string): Node {
+  return { id, type, name: id, workspaceId: 'ws', metadata: labelId ? { sensitivityLabel: { labelId } } : {} };
+}
+
+const NODES: Node[] = [
+  node('ws', NodeType.Workspace),
+  node('flow', NodeType.Dataflow, 'highly'),
+  node('model', NodeType.SemanticModel),
+  node('sales', NodeType.Report, 'public'),
+  node('board', NodeType.Dashboard, 'internal'),
+  node('finance', NodeType.SemanticModel, 'confidential'),
+  node('audit', NodeType.Report, 'confidential'),
+  node('legacy', NodeType.Report, 'retired-label')
+];
+
+const LINKS = [
+  { source: 'ws', target: 'sales', type: LinkType.Contains },
+  { source: 'flow', target: 'model', type: LinkType.Feeds },
+  { source: 'model', target: 'sales', type: LinkType.Visualizes },
+  { source: 'sales', target: 'board', type: LinkType.Visualizes },
+  { source: 'finance', target: 'audit', type: LinkType.Visualizes },
+  { source: 'finance', target: 'legacy', type: LinkType.Visualizes }
+];
+
+describe('Label downgrades', () => {
+  it('should flag items labeled below their most sensitive upstream item, through unlabeled items', () => {
+    const downgrades = findLabelDowngrades(NODES, LINKS, getPriority);
+
+    expect(downgrades.map(downgrade => [downgrade.node.id, downgrade.source.id, downgrade.priorityGap])).toEqual([
+      ['sales', 'flow', 3],
+      ['board', 'flow', 2]
+    ]);
+    expect(downgrades[1].path).toEqual(['flow', 'model', 'sales', 'board']);
+  });
+
+  it('should ignore removed items in a snapshot comparison', () => {
+    const removed = NODES.map(entry => entry.id === 'flow' ? { ...entry, metadata: { ...entry.metadata, diffStatus: 'removed' } } : entry);
+
+    expect(findLabelDowngrades(removed, LINKS, getPriority)).toEqual([]);
+  });
+
+  it('should export one CSV row per downgrade with the path by name', () => {
+    const downgrades = findLabelDowngrades(NODES, LINKS, getPriority);
+    const lines = labelDowngradesToCsv(downgrades, new Map(NODES.map(entry => [entry.id, entry])), labelId => labelId.toUpperCase(), () => 'Sales').split('\r\n');
+
+    expect(lines[0]).toBe('Workspace,Item,Item type,Label,Upstream item,Upstream workspace,Upstream label,Path');
+    expect(lines[1]).toBe('Sales,sales,Report,PUBLIC,flow,Sales,HIGHLY,flow → model → sales');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Label Downgrade Utilities for FabricBEyeAI
+ *
+ * Finds items labeled less sensitive than something upstream of them, e.g. a
+ * Public report built on a Highly Confidential semantic model. Lineage is
+ * followed through unlabeled items, so a Confidential dataflow feeding an
+ * unlabeled model that a Public report visualizes is still caught.
+ */
+
+import { LinkType, LINEAGE_LINK_TYPES, Node, NodeType } from '../models/graphModels';
+import { toCsv } from './csv';
+
+export interface LabelDowngrade {
+  /** The downstream item with the lower label */
+  node: Node;
+  labelId: string;
+  /** The most sensitive upstream item (closest one on ties) */
+  source: Node;
+  sourceLabelId: string;
+  /** Node IDs from the source to the downgraded item */
+  path: string[];
+  /** Source priority minus the item's priority */
+  priorityGap: number;
+}
+
+/** Links here have string ends; map renderer node objects back to IDs first */
+interface LineageEdge {
+  source: string;
+  target: string;
+  type: LinkType;
+}
+
+/**
+ * Every labeled item whose label priority is lower than that of an upstream item
+ * Items whose label the catalog doesn't know are skipped, as a source or a target.
+ *
+ * @param getPriority - Label priority from the catalog (undefined for unknown labels)
+ * @returns One entry per downgraded item, widest gap first
+ */
+export function findLabelDowngrades (nodes: Node[], links: LineageEdge[], getPriority: (labelId: string) => number | undefined): LabelDowngrade[] {
+  const nodeById = new Map(nodes.map(node => [node.id, node]));
+  const upstream = new Map<string, string[]>();
+  for (const link of links) {
+    if (!LINEAGE_LINK_TYPES.has(link.type) && link.type !== LinkType.ParentOf) continue;
+    upstream.set(link.target, [...(upstream.get(link.target) ?? []), link.source]);
+  }
+
+  const priorityOf = (node: Node | undefined): number | undefined => {
+    const labelId = node?.metadata?.sensitivityLabel?.labelId;
+    return labelId && node?.metadata?.diffStatus !== 'removed' ? getPriority(labelId) : undefined;
+  };
+
+  const downgrades: LabelDowngrade[] = [];
+  for (const node of nodes) {
+    const priority = priorityOf(node);
+    if (priority === undefined || node.type === NodeType.Workspace) continue;
+
+    // Breadth-first upstream, remembering how each item was reached
+    const cameFrom = new Map<string, string>([[node.id, '']]);
+    const queue = [node.id];
+    let source: Node | undefined;
+    let sourcePriority = priority;
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const parentId of upstream.get(id) ?? []) {
+        if (cameFrom.has(parentId)) continue;
+        cameFrom.set(parentId, id);
+        queue.push(parentId);
+        const parentPriority = priorityOf(nodeById.get(parentId));
+        if (parentPriority !== undefined && parentPriority > sourcePriority) {
+          source = nodeById.get(parentId);
+          sourcePriority = parentPriority;
+        }
+      }
+    }
+    if (!source) continue;
+
+    const path = [source.id];
+    while (path[path.length - 1] !== node.id) {
+      path.push(cameFrom.get(path[path.length - 1])!);
+    }
+    downgrades.push({
+      node,
+      labelId: node.metadata!.sensitivityLabel!.labelId,
+      source,
+      sourceLabelId: source.metadata!.sensitivityLabel!.labelId,
+      path,
+      priorityGap: sourcePriority - priority
+    });
+  }
+  return downgrades.sort((a, b) => b.priorityGap - a.priorityGap || a.node.name.localeCompare(b.node.name));
+}
+
+/**
+ * Downgrades as CSV for remediation, one row per downgraded item
+ *
+ * @param getLabelName - Label display name from the catalog
+ * @param getWorkspaceName - Workspace name for a workspace ID
+ */
+export function labelDowngradesToCsv (downgrades: LabelDowngrade[], nodeById: Map<string, Node>,
+  getLabelName: (labelId: string) => string, getWorkspaceName: (workspaceId: string) => string): string {
+  const rows = [['Workspace', 'Item', 'Item type', 'Label', 'Upstream item', 'Upstream workspace', 'Upstream label', 'Path']];
+  for (const downgrade of downgrades) {
+    rows.push([
+      getWorkspaceName(downgrade.node.workspaceId),
+      downgrade.node.name,
+      NodeType[downgrade.node.type],
+      getLabelName(downgrade.labelId),
+      downgrade.source.name,
+      getWorkspaceName(downgrade.source.workspaceId),
+      getLabelName(downgrade.sourceLabelId),
+      downgrade.path.map(id => nodeById.get(id)?.name ?? id).join(' → ')
+    ]);
+  }
+  return toCsv(rows);
+}
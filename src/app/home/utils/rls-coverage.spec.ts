@@ -0,0 +1,77 @@
+import { buildRlsCoverage, rlsCoverageToCsv, summarizeRlsCoverage } from './rls-coverage';
+import { TenantScanResult, WorkspaceInfo, WorkspaceInfoDataset } from '../models/scanner-api.types';
+
+const CONFIDENTIAL = 'label-confidential';
+const PUBLIC = 'label-public';
+
+function dataset (overrides: Partial<WorkspaceInfoDataset>): WorkspaceInfoDataset {
+  return { id: 'ds', name: 'Dataset', users: [], ...overrides } as WorkspaceInfoDataset;
+}
+
+function scanResult (datasets: WorkspaceInfoDataset[]): TenantScanResult {
+  const workspace = {
+    id: 'ws-1',
+    name: 'Finance',
+    type: 'Workspace',
+    state: 'Active',
+    isOnDedicatedCapacity: false,
+    reports: [],
+    dashboards: [],
+    datasets,
+    dataflows: [],
+    datamarts: [],
+    users: []
+  } as WorkspaceInfo;
+  return { workspaces: [workspace], datasourceInstances: [], misconfiguredDatasourceInstances: [] };
+}
+
+const isSensitive = (labelId: string): boolean => labelId === CONFIDENTIAL;
+
+const RESULT = scanResult([
+  dataset({ id: 'public', name: 'Catalog', sensitivityLabel: { labelId: PUBLIC } }),
+  dataset({
+    id: 'secured',
+    name: 'Payroll',
+    sensitivityLabel: { labelId: CONFIDENTIAL },
+    tables: [{ name: 'Salaries', columns: [] }, { name: 'Calendar', columns: [] }],
+    roles: [
+      {
+        name: 'Managers',
+        modelPermission: 'Read',
+        members: [{ memberName: 'Managers', memberId: 'g-1', memberType: 'Group', identityProvider: 'AzureAD' }],
+        tablePermissions: [{ name: 'Salaries', filterExpression: '[Manager] = USERPRINCIPALNAME()' }, { name: 'Calendar', filterExpression: ' ' }]
+      },
+      { name: 'Auditors', modelPermission: 'Read', members: [] }
+    ]
+  }),
+  dataset({ id: 'exposed', name: 'General Ledger', sensitivityLabel: { labelId: CONFIDENTIAL } })
+]);
+
+describe('RLS coverage', () => {
+  it('should flag sensitive models without roles and list them first', () => {
+    const coverage = buildRlsCoverage(RESULT, isSensitive);
+
+    expect(coverage.map(entry => entry.datasetId)).toEqual(['exposed', 'secured', 'public']);
+    expect(coverage.map(entry => entry.isSensitiveWithoutRls)).toEqual([true, false, false]);
+  });
+
+  it('should collect role filters and the tables no role filters', () => {
+    const secured = buildRlsCoverage(RESULT, isSensitive).find(entry => entry.datasetId === 'secured')!;
+
+    expect(secured.roles[0].tableFilters).toEqual([{ table: 'Salaries', filterExpression: '[Manager] = USERPRINCIPALNAME()' }]);
+    expect(secured.unfilteredTables).toEqual(['Calendar']);
+    expect(summarizeRlsCoverage([secured])).toEqual({ datasetCount: 1, withRls: 1, sensitiveWithoutRls: 0, emptyRoles: 1 });
+  });
+
+  it('should export one CSV row per role filter and per model without roles', () => {
+    const lines = rlsCoverageToCsv(buildRlsCoverage(RESULT, isSensitive), labelId => labelId === CONFIDENTIAL ? 'Confidential' : 'Public').split('\r\n');
+
+    expect(lines[0]).toBe('Workspace,Semantic model,Sensitivity,Finding,Role,Members,Table,Filter');
+    expect(lines.slice(1)).toEqual([
+      'Finance,General Ledger,Confidential,Sensitive data without RLS,,,,',
+      'Finance,Payroll,Confidential,,Managers,Managers (Group),Salaries,[Manager] = USERPRINCIPALNAME()',
+      'Finance,Payroll,Confidential,Role without members,Auditors,,,',
+      'Finance,Catalog,Public,No RLS,,,,'
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * RLS Coverage Utilities for FabricBEyeAI
+ *
+ * Row-level security per semantic model: roles, their members and table
+ * filters, plus the models that hold sensitive data (by sensitivity label)
+ * without any RLS role. Roles come with the `datasetSchema` /
+ * `datasetExpressions` scan options.
+ */
+
+import type { RoleMember, TenantScanResult } from '../models/scanner-api.types';
+import { toCsv } from './csv';
+
+export interface RlsRoleSummary {
+  name: string;
+  modelPermission: string;
+  members: RoleMember[];
+  /** Tables with a row filter in this role */
+  tableFilters: { table: string; filterExpression: string }[];
+}
+
+export interface RlsDatasetCoverage {
+  datasetId: string;
+  datasetName: string;
+  workspaceId: string;
+  workspaceName: string;
+  labelId?: string;
+  roles: RlsRoleSummary[];
+  /** Tables no role filters (every role sees all their rows) */
+  unfilteredTables: string[];
+  /** Labeled Confidential or higher but has no RLS role */
+  isSensitiveWithoutRls: boolean;
+}
+
+export interface RlsCoverageSummary {
+  datasetCount: number;
+  withRls: number;
+  sensitiveWithoutRls: number;
+  /** Roles nobody is assigned to */
+  emptyRoles: number;
+}
+
+/**
+ * RLS coverage of every semantic model in a scan, flagged models first
+ *
+ * @param isSensitiveLabel - Whether a label ID is Confidential or higher
+ */
+export function buildRlsCoverage (result: Partial<TenantScanResult>, isSensitiveLabel: (labelId: string) => boolean): RlsDatasetCoverage[] {
+  const coverage: RlsDatasetCoverage[] = [];
+
+  for (const workspace of result.workspaces ?? []) {
+    for (const dataset of workspace.datasets ?? []) {
+      const roles: RlsRoleSummary[] = (dataset.roles ?? []).map(role => ({
+        name: role.name,
+        modelPermission: role.modelPermission,
+        members: role.members ?? [],
+        tableFilters: (role.tablePermissions ?? [])
+          .filter(permission => !!permission.filterExpression?.trim())
+          .map(permission => ({ table: permission.name, filterExpression: permission.filterExpression }))
+      }));
+      const filteredTables = new Set(roles.flatMap(role => role.tableFilters.map(filter => filter.table)));
+      const labelId = dataset.sensitivityLabel?.labelId;
+
+      coverage.push({
+        datasetId: dataset.id,
+        datasetName: dataset.name,
+        workspaceId: workspace.id,
+        workspaceName: workspace.name,
+        labelId,
+        roles,
+        unfilteredTables: roles.length > 0 ? (dataset.tables ?? []).map(table => table.name).filter(table => !filteredTables.has(table)) : [],
+        isSensitiveWithoutRls: roles.length === 0 && !!labelId && isSensitiveLabel(labelId)
+      });
+    }
+  }
+
+  return coverage.sort((a, b) =>
+    Number(b.isSensitiveWithoutRls) - Number(a.isSensitiveWithoutRls) ||
+    Number(b.roles.length > 0) - Number(a.roles.length > 0) ||
+    a.datasetName.localeCompare(b.datasetName));
+}
+
+export function summarizeRlsCoverage (coverage: RlsDatasetCoverage[]): RlsCoverageSummary {
+  return {
+    datasetCount: coverage.length,
+    withRls: coverage.filter(dataset => dataset.roles.length > 0).length,
+    sensitiveWithoutRls: coverage.filter(dataset => dataset.isSensitiveWithoutRls).length,
+    emptyRoles: coverage.reduce((count, dataset) => count + dataset.roles.filter(role => role.members.length === 0).length, 0)
+  };
+}
+
+/**
+ * Flattens the coverage into CSV — one row per role table filter, per role
+ * without filters, and per semantic model without roles
+ *
+ * @param getLabelName - Display name of a sensitivity label ID
+ */
+export function rlsCoverageToCsv (coverage: RlsDatasetCoverage[], getLabelName: (labelId: string) => string): string {
+  const rows: string[][] = [['Workspace', 'Semantic model', 'Sensitivity', 'Finding', 'Role', 'Members', 'Table', 'Filter']];
+
+  for (const dataset of coverage) {
+    const datasetColumns = [dataset.workspaceName, dataset.datasetName, dataset.labelId ? getLabelName(dataset.labelId) : ''];
+    if (dataset.roles.length === 0) {
+      rows.push([...datasetColumns, dataset.isSensitiveWithoutRls ? 'Sensitive data without RLS' : 'No RLS', '', '', '', '']);
+      continue;
+    }
+    for (const role of dataset.roles) {
+      const members = role.members.map(member => `${member.memberName} (${member.memberType})`).join('; ');
+      const finding = role.members.length === 0 ? 'Role without members' : '';
+      if (role.tableFilters.length === 0) {
+        rows.push([...datasetColumns, finding, role.name, members, '', '']);
+      }
+      for (const filter of role.tableFilters) {
+        rows.push([...datasetColumns, finding, role.name, members, filter.table, filter.filterExpression]);
+      }
+    }
+  }
+
+  return toCsv(rows);
+}
+
+/** Serializes the coverage with a summary, for export */
+export function rlsCoverageToJson (coverage: RlsDatasetCoverage[]): string {
+  return JSON.stringify({ summary: summarizeRlsCoverage(coverage), datasets: coverage }, null, 2);
+}
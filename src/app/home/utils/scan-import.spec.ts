@@ -0,0 +1,97 @@
+import { ScanImportService } from '../services/scan-import.service';
+import { MAX_SCAN_FILE_BYTES, parseScanFile, validateScanResult } from './scan-import';
+
+function jsonFile (name: string, content: unknown): File {
+  return new File([typeof content === 'string' ? content : JSON.stringify(content)], name, { type: 'application/json' });
+}
+
+describe('validateScanResult', () => {
+  it('should reject JSON that is not a Scanner API scan result', () => {
+    expect(validateScanResult([]).errors[0]).toMatch(/Expected a JSON object/);
+    expect(validateScanResult({ value: [] }).errors[0]).toMatch(/Missing workspaces array/);
+    expect(validateScanResult({ value: [] }).result).toBeUndefined();
+  });
+
+  it('should list per-workspace problems, summarizing after the first five', () => {
+    const validation = validateScanResult({
+      workspaces: [
+        { name: 'Sales', reports: [{ name: 'No id' }] },
+        { id: 'ws-2', datasets: {} },
+        ...Array.from({ length: 5 }, () => 'not a workspace')
+      ]
+    });
+
+    expect(validation.result).toBeUndefined();
+    expect(validation.errors).toEqual([
+      'Workspace "Sales" has no id',
+      'Workspace "Sales": reports contains entries without an id',
+      'workspaces[1]: datasets is not an array',
+      'workspaces[2] is not an object',
+      'workspaces[3] is not an object',
+      '…and 3 more'
+    ]);
+  });
+
+  it('should fill in missing arrays and separate snapshot details', () => {
+    const validation = validateScanResult({
+      workspaces: [{ id: 'ws-1', name: 'Sales', datasets: [{ id: 'ds-1', name: 'Model' }] }],
+      snapshotInfo: { name: 'Before migration', environment: 'api.powerbi.com', savedAt: '2024-05-01T10:00:00.000Z' }
+    });
+
+    expect(validation.errors).toEqual([]);
+    expect(validation.result!.workspaces[0].reports).toEqual([]);
+    expect(validation.result!.workspaces[0].datasets.length).toBe(1);
+    expect(validation.result!.datasourceInstances).toEqual([]);
+    expect('snapshotInfo' in validation.result!).toBeFalse();
+    expect(validation.snapshotInfo!.name).toBe('Before migration');
+  });
+});
+
+describe('parseScanFile', () => {
+  it('should report JSON syntax errors instead of throwing', async () => {
+    const validation = await parseScanFile(new Blob(['{"workspaces": ['], { type: 'application/json' }));
+
+    expect(validation.result).toBeUndefined();
+    expect(validation.errors[0]).toMatch(/^Invalid JSON/);
+  });
+
+  it('should report progress up to the file size', async () => {
+    const file = jsonFile('scan.json', { workspaces: [{ id: 'ws-1' }] });
+    const progress: number[] = [];
+
+    const validation = await parseScanFile(file, (loaded, total) => progress.push(loaded / total));
+
+    expect(validation.errors).toEqual([]);
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+
+  it('should reject files too large to parse without reading them', async () => {
+    const stream = jasmine.createSpy('stream');
+
+    const validation = await parseScanFile({ size: MAX_SCAN_FILE_BYTES + 1, stream } as unknown as Blob);
+
+    expect(validation.errors[0]).toMatch(/^The file is 500 MiB; files over 500 MiB can't be parsed/);
+    expect(stream).not.toHaveBeenCalled();
+  });
+});
+
+describe('ScanImportService', () => {
+  it('should merge valid files, counting duplicate workspaces, and report invalid ones', async () => {
+    const service = new ScanImportService();
+
+    const imported = await service.importFiles([
+      jsonFile('part1.json', { workspaces: [{ id: 'ws-1', name: 'Old name' }, { id: 'ws-2' }] }),
+      jsonFile('broken.json', '{"workspaces": '),
+      jsonFile('part2.json', { workspaces: [{ id: 'ws-1', name: 'New name' }, { id: 'ws-3' }] })
+    ]);
+
+    expect(imported.result!.workspaces.map(workspace => workspace.id).sort()).toEqual(['ws-1', 'ws-2', 'ws-3']);
+    expect(imported.result!.workspaces.find(workspace => workspace.id === 'ws-1')!.name).toBe('New name');
+    expect(imported.duplicateWorkspaceCount).toBe(1);
+    expect(imported.files.map(file => [file.fileName, file.errors.length > 0])).toEqual([
+      ['part1.json', false],
+      ['broken.json', true],
+      ['part2.json', false]
+    ]);
+  });
+});
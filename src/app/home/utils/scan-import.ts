@@ -0,0 +1,162 @@
+/**
+ * Scan Import Utilities for FabricBEyeAI
+ *
+ * Reads Scanner API JSON files in chunks (for progress) and validates them
+ * against the WorkspaceInfoResponse shape. Used by the import worker and,
+ * where workers are unavailable, on the main thread.
+ *
+ * Parsing is not incremental: a file is decoded into one string for
+ * JSON.parse, so it can't exceed the JavaScript string limit (about 512 MiB).
+ * Larger files are rejected up front — scan those tenants in several files.
+ */
+
+import type { ScanOptions, TenantScanResult } from '../models/scanner-api.types';
+
+/** Errors listed per file before the rest are summarized */
+const MAX_REPORTED_ERRORS: number = 5;
+
+/** Largest file parsed — stays below V8's string limit of 2^29 - 24 UTF-16 code units, with room for the parse */
+export const MAX_SCAN_FILE_BYTES: number = 500 * 1024 * 1024;
+
+/** Workspace arrays the graph reads; missing ones are normalized to [] */
+const WORKSPACE_ARRAY_FIELDS = ['reports', 'dashboards', 'datasets', 'dataflows', 'datamarts', 'users'] as const;
+
+/** Snapshot details carried inside exported snapshot files */
+export interface SnapshotFileInfo {
+  name: string;
+  environment: string;
+  tenantId?: string;
+  savedAt: string;
+  scanOptions?: ScanOptions;
+}
+
+/** Outcome of reading one file — `result` is only set when there are no errors */
+export interface ScanFileValidation {
+  result?: TenantScanResult;
+  snapshotInfo?: SnapshotFileInfo;
+  errors: string[];
+}
+
+/** Messages posted by the import worker */
+export type ScanImportWorkerMessage =
+  | { type: 'progress'; loaded: number; total: number }
+  | { type: 'done'; validation: ScanFileValidation };
+
+function isObject (value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeWorkspace (workspace: Record<string, any>, index: number): string {
+  return typeof workspace.name === 'string' ? `Workspace "${workspace.name}"` : `workspaces[${index}]`;
+}
+
+/**
+ * Checks parsed JSON against the Scanner API scanResult shape
+ *
+ * Requires a `workspaces` array of objects with string IDs; artifact arrays
+ * and datasource lists are optional but must be arrays of objects when present.
+ * Missing artifact arrays are filled in so the graph builder can rely on them.
+ *
+ * @param data - Parsed file content
+ * @returns Normalized scan result, or the problems found
+ */
+export function validateScanResult (data: unknown): ScanFileValidation {
+  if (!isObject(data)) {
+    return { errors: ['Expected a JSON object with a workspaces array (Scanner API scanResult)'] };
+  }
+  if (!Array.isArray(data.workspaces)) {
+    return { errors: ['Missing workspaces array — this is not a Scanner API scanResult file'] };
+  }
+
+  const errors: string[] = [];
+  data.workspaces.forEach((workspace: unknown, index: number) => {
+    if (!isObject(workspace)) {
+      errors.push(`workspaces[${index}] is not an object`);
+      return;
+    }
+    if (typeof workspace.id !== 'string' || !workspace.id) {
+      errors.push(`${describeWorkspace(workspace, index)} has no id`);
+    }
+    for (const field of WORKSPACE_ARRAY_FIELDS) {
+      const artifacts = workspace[field];
+      if (artifacts === undefined) continue;
+      if (!Array.isArray(artifacts)) {
+        errors.push(`${describeWorkspace(workspace, index)}: ${field} is not an array`);
+      } else if (field !== 'users' && artifacts.some(artifact => !isObject(artifact) || (typeof artifact.id !== 'string' && typeof artifact.objectId !== 'string'))) {
+        errors.push(`${describeWorkspace(workspace, index)}: ${field} contains entries without an id`);
+      }
+    }
+  });
+  for (const field of ['datasourceInstances', 'misconfiguredDatasourceInstances', 'fabricItems']) {
+    if (data[field] !== undefined && (!Array.isArray(data[field]) || !data[field].every(isObject))) {
+      errors.push(`${field} must be an array of objects`);
+    }
+  }
+
+  if (errors.length > 0) {
+    const hidden = errors.length - MAX_REPORTED_ERRORS;
+    return { errors: hidden > 0 ? [...errors.slice(0, MAX_REPORTED_ERRORS), `…and ${hidden} more`] : errors };
+  }
+
+  const { snapshotInfo, ...result } = data;
+  return {
+    result: {
+      ...result,
+      workspaces: data.workspaces.map((workspace: Record<string, any>) => ({
+        ...Object.fromEntries(WORKSPACE_ARRAY_FIELDS.map(field => [field, []])),
+        ...workspace
+      })),
+      datasourceInstances: data.datasourceInstances ?? [],
+      misconfiguredDatasourceInstances: data.misconfiguredDatasourceInstances ?? []
+    } as TenantScanResult,
+    snapshotInfo: isObject(snapshotInfo) ? snapshotInfo as SnapshotFileInfo : undefined,
+    errors: []
+  };
+}
+
+/**
+ * Reads a file chunk by chunk into one string, reporting bytes read
+ *
+ * @param file - File to read
+ * @param onProgress - Called after each chunk
+ */
+export async function readFileText (file: Blob, onProgress?: (loaded: number, total: number) => void): Promise<string> {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  const chunks: string[] = [];
+  let loaded = 0;
+
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    loaded += chunk.value.byteLength;
+    chunks.push(decoder.decode(chunk.value, { stream: true }));
+    onProgress?.(loaded, file.size);
+  }
+  chunks.push(decoder.decode());
+  return chunks.join('');
+}
+
+/**
+ * Reads, parses and validates one Scanner JSON file
+ * Never throws — unreadable, oversized files and JSON syntax errors are reported as errors.
+ */
+export async function parseScanFile (file: Blob, onProgress?: (loaded: number, total: number) => void): Promise<ScanFileValidation> {
+  if (file.size > MAX_SCAN_FILE_BYTES) {
+    const sizeMiB = (bytes: number): string => `${Math.round(bytes / (1024 * 1024))} MiB`;
+    return { errors: [`The file is ${sizeMiB(file.size)}; files over ${sizeMiB(MAX_SCAN_FILE_BYTES)} can't be parsed in the browser — split the scan into several files`] };
+  }
+
+  let text: string;
+  try {
+    text = await readFileText(file, onProgress);
+  } catch (e) {
+    return { errors: [`Could not read the file: ${e?.message ?? e}`] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { errors: [`Invalid JSON: ${e?.message ?? e}`] };
+  }
+  return validateScanResult(data);
+}
@@ -0,0 +1,92 @@
+import { mergeScanResults } from './scan-merge';
+import { FabricItemResponse, TenantScanResult } from '../models/scanner-api.types';
+import { workspace } from '../testing/fixtures';
+
+function item (id: string, workspaceId: string): FabricItemResponse {
+  return { id, type: 'Notebook', displayName: `Item ${id}`, workspaceId };
+}
+
+function sqlDatasource (datasourceId: string, server: string) {
+  return { datasourceId, datasourceType: 'Sql', connectionDetails: { server, database: 'db' } };
+}
+
+describe('mergeScanResults', () => {
+  let base: TenantScanResult;
+
+  beforeEach(() => {
+    base = {
+      workspaces: [workspace('ws-1'), workspace('ws-2'), workspace('ws-3')],
+      datasourceInstances: [sqlDatasource('ds-1', 'old.database.windows.net')],
+      misconfiguredDatasourceInstances: [],
+      fabricItems: [item('nb-1', 'ws-1'), item('nb-2', 'ws-2'), item('nb-3', 'ws-3')]
+    };
+  });
+
+  it('should add new workspaces, replace rescanned ones and drop deleted ones', () => {
+    const delta: TenantScanResult = {
+      workspaces: [workspace('ws-2', { name: 'Renamed' }), workspace('ws-3', { state: 'Deleted' }), workspace('ws-4')],
+      datasourceInstances: [],
+      misconfiguredDatasourceInstances: []
+    };
+
+    const { result, summary } = mergeScanResults(base, delta);
+
+    expect(summary).toEqual({ added: 1, updated: 1, deleted: 1 });
+    expect(result.workspaces.map(ws => ws.id)).toEqual(['ws-1', 'ws-2', 'ws-4']);
+    expect(result.workspaces.find(ws => ws.id === 'ws-2')!.name).toBe('Renamed');
+  });
+
+  it('should take Fabric items of rescanned workspaces from the scan only', () => {
+    const delta: TenantScanResult = {
+      workspaces: [workspace('ws-2'), workspace('ws-3', { state: 'Deleted' })],
+      datasourceInstances: [],
+      misconfiguredDatasourceInstances: [],
+      fabricItems: [item('nb-2b', 'ws-2')]
+    };
+
+    const { result } = mergeScanResults(base, delta);
+
+    expect(result.fabricItems!.map(fabricItem => fabricItem.id)).toEqual(['nb-1', 'nb-2b']);
+  });
+
+  it('should keep stored Fabric items of kept workspaces when the scan has no item listing', () => {
+    const delta: TenantScanResult = {
+      workspaces: [workspace('ws-2'), workspace('ws-3', { state: 'Deleted' })],
+      datasourceInstances: [],
+      misconfiguredDatasourceInstances: []
+    };
+
+    const { result } = mergeScanResults(base, delta);
+
+    expect(result.fabricItems!.map(fabricItem => fabricItem.id)).toEqual(['nb-1', 'nb-2']);
+  });
+
+  it('should union datasource instances by ID, preferring the scanned copy', () => {
+    const delta: TenantScanResult = {
+      workspaces: [],
+      datasourceInstances: [sqlDatasource('ds-1', 'new.database.windows.net'), sqlDatasource('ds-2', 'other.database.windows.net')],
+      misconfiguredDatasourceInstances: [sqlDatasource('ds-3', 'broken.database.windows.net')]
+    };
+
+    const { result } = mergeScanResults(base, delta);
+
+    expect(result.datasourceInstances.map(ds => [ds.datasourceId, ds.connectionDetails.server])).toEqual([
+      ['ds-1', 'new.database.windows.net'],
+      ['ds-2', 'other.database.windows.net']
+    ]);
+    expect(result.misconfiguredDatasourceInstances.map(ds => ds.datasourceId)).toEqual(['ds-3']);
+  });
+
+  it('should treat a missing base as an empty snapshot and leave inputs untouched', () => {
+    const delta: TenantScanResult = {
+      workspaces: [workspace('ws-1'), workspace('ws-9', { state: 'Deleted' })],
+      datasourceInstances: [],
+      misconfiguredDatasourceInstances: []
+    };
+    const baseCopy = JSON.parse(JSON.stringify(base));
+
+    expect(mergeScanResults(undefined, delta).summary).toEqual({ added: 1, updated: 0, deleted: 0 });
+    mergeScanResults(base, delta);
+    expect(base).toEqual(baseCopy);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Scan Merge Utilities for FabricBEyeAI
+ *
+ * Folds an incremental (modifiedSince) scan into a previously stored tenant snapshot
+ */
+
+import type { Datasource, TenantScanResult } from '../models/scanner-api.types';
+
+/** What an incremental scan changed in the stored snapshot */
+export interface ScanMergeSummary {
+  added: number;
+  updated: number;
+  deleted: number;
+}
+
+function mergeDatasources (base: Datasource[] = [], delta: Datasource[] = []): Datasource[] {
+  const byId = new Map(base.map(instance => [instance.datasourceId, instance]));
+  delta.forEach(instance => byId.set(instance.datasourceId, instance));
+  return Array.from(byId.values());
+}
+
+/**
+ * Merges a scan of modified workspaces into a stored snapshot
+ *
+ * Rescanned workspaces (and their Fabric items) replace the stored copies,
+ * workspaces reported as `Deleted` are dropped, everything else is kept.
+ * A delta without `fabricItems` (the listing failed) keeps the stored items.
+ * Neither input is mutated.
+ *
+ * @param base - Previously stored tenant snapshot (undefined for a first scan)
+ * @param delta - Result of scanning the modified workspaces
+ * @returns Merged snapshot and counts of added/updated/deleted workspaces
+ */
+export function mergeScanResults (base: TenantScanResult | undefined, delta: TenantScanResult): { result: TenantScanResult; summary: ScanMergeSummary } {
+  const summary: ScanMergeSummary = { added: 0, updated: 0, deleted: 0 };
+  const workspaces = new Map((base?.workspaces ?? []).map(workspace => [workspace.id, workspace]));
+
+  for (const workspace of delta.workspaces ?? []) {
+    const existed = workspaces.has(workspace.id);
+    if (workspace.state === 'Deleted') {
+      if (existed) summary.deleted++;
+      workspaces.delete(workspace.id);
+    } else {
+      if (existed) {
+        summary.updated++;
+      } else {
+        summary.added++;
+      }
+      workspaces.set(workspace.id, workspace);
+    }
+  }
+
+  // Items of every rescanned or deleted workspace come from the delta only —
+  // unless the delta has no item listing at all, then stored items of kept workspaces stay
+  const rescannedIds = new Set(delta.fabricItems ? (delta.workspaces ?? []).map(workspace => workspace.id) : []);
+  const fabricItems = [
+    ...(base?.fabricItems ?? []).filter(item => !rescannedIds.has(item.workspaceId) && workspaces.has(item.workspaceId)),
+    ...(delta.fabricItems ?? []).filter(item => workspaces.has(item.workspaceId))
+  ];
+
+  return {
+    result: {
+      workspaces: Array.from(workspaces.values()),
+      datasourceInstances: mergeDatasources(base?.datasourceInstances, delta.datasourceInstances),
+      misconfiguredDatasourceInstances: mergeDatasources(base?.misconfiguredDatasourceInstances, delta.misconfiguredDatasourceInstances),
+      fabricItems
+    },
+    summary
+  };
+}
@@ -0,0 +1,60 @@
+import { DEFAULT_SCAN_OPTIONS, coversScanOptions, inferScanOptions, intersectScanOptions, toScanInfoQuery } from './scan-options';
+import { ScanOptions, TenantScanResult, WorkspaceInfo } from '../models/scanner-api.types';
+
+const ALL_OPTIONS: ScanOptions = { datasetSchema: true, datasetExpressions: true, getArtifactUsers: true, datasourceDetails: true };
+
+function workspace (overrides: Partial<WorkspaceInfo> = {}): WorkspaceInfo {
+  return {
+    id: 'ws-1',
+    name: 'Workspace',
+    type: 'Workspace',
+    state: 'Active',
+    isOnDedicatedCapacity: false,
+    reports: [],
+    dashboards: [],
+    datasets: [],
+    dataflows: [],
+    datamarts: [],
+    users: [],
+    ...overrides
+  };
+}
+
+describe('Scan options', () => {
+  it('should always request lineage and add only the enabled options', () => {
+    expect(toScanInfoQuery(DEFAULT_SCAN_OPTIONS)).toBe('lineage=true');
+    expect(toScanInfoQuery({ ...DEFAULT_SCAN_OPTIONS, datasetSchema: true, getArtifactUsers: true }))
+      .toBe('lineage=true&datasetSchema=true&getArtifactUsers=true');
+  });
+
+  it('should tell whether a snapshot has the metadata a scan asks for', () => {
+    expect(coversScanOptions(undefined, DEFAULT_SCAN_OPTIONS)).toBeTrue();
+    expect(coversScanOptions(undefined, { ...DEFAULT_SCAN_OPTIONS, datasetSchema: true })).toBeFalse();
+    expect(coversScanOptions(ALL_OPTIONS, { ...DEFAULT_SCAN_OPTIONS, datasourceDetails: true })).toBeTrue();
+  });
+
+  it('should keep only options both merged scans had', () => {
+    expect(intersectScanOptions(ALL_OPTIONS, { ...DEFAULT_SCAN_OPTIONS, datasetSchema: true }))
+      .toEqual({ ...DEFAULT_SCAN_OPTIONS, datasetSchema: true });
+  });
+
+  it('should infer options from the metadata a file contains', () => {
+    const lineageOnly: TenantScanResult = { workspaces: [workspace()], datasourceInstances: [], misconfiguredDatasourceInstances: [] };
+    const detailed: TenantScanResult = {
+      workspaces: [workspace({
+        users: [{ groupUserAccessRight: 'Admin', emailAddress: 'admin@contoso.com', displayName: 'Admin', identifier: 'admin@contoso.com', graphId: 'user-1', principalType: 'User' } as any],
+        datasets: [{
+          id: 'ds-1',
+          name: 'Sales',
+          users: [],
+          tables: [{ name: 'Orders', columns: [{ name: 'Amount', dataType: 'Double' }], measures: [{ name: 'Total', expression: 'SUM(Orders[Amount])' }] }]
+        }]
+      })],
+      datasourceInstances: [{ datasourceId: 'src-1', datasourceType: 'Sql', connectionDetails: { server: 'sql', database: 'db' } }],
+      misconfiguredDatasourceInstances: []
+    };
+
+    expect(inferScanOptions(lineageOnly)).toEqual(DEFAULT_SCAN_OPTIONS);
+    expect(inferScanOptions(detailed)).toEqual(ALL_OPTIONS);
+  });
+});
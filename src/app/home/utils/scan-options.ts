@@ -0,0 +1,75 @@
+/**
+ * Scan Options Utilities for FabricBEyeAI
+ *
+ * Maps the scan settings onto getInfo query parameters and tracks which
+ * metadata a snapshot holds, so features that need schema, expressions,
+ * users or datasource details can tell whether the loaded scan has them.
+ */
+
+import type { ScanOptions, TenantScanResult, WorkspaceInfo } from '../models/scanner-api.types';
+
+/** Lineage only — what getInfo was always called with before scan settings existed */
+export const DEFAULT_SCAN_OPTIONS: ScanOptions = {
+  datasetSchema: false,
+  datasetExpressions: false,
+  getArtifactUsers: false,
+  datasourceDetails: false
+};
+
+/** Scan settings panel entries, in display order */
+export const SCAN_OPTION_FIELDS: ReadonlyArray<{ key: keyof ScanOptions; label: string; description: string }> = [
+  { key: 'datasetSchema', label: 'Dataset schema', description: 'Tables, columns and measures of semantic models' },
+  { key: 'datasetExpressions', label: 'Dataset expressions', description: 'DAX and M expressions and RLS roles' },
+  { key: 'getArtifactUsers', label: 'Artifact users', description: 'Who has access to workspaces and items' },
+  { key: 'datasourceDetails', label: 'Datasource details', description: 'Servers, databases and URLs of datasources' }
+];
+
+/** getInfo query string for the given options (lineage is always on) */
+export function toScanInfoQuery (options: ScanOptions): string {
+  const params = new URLSearchParams({ lineage: 'true' });
+  for (const { key } of SCAN_OPTION_FIELDS) {
+    if (options[key]) params.set(key, 'true');
+  }
+  return params.toString();
+}
+
+/** Whether a scan with `available` holds everything `requested` asks for */
+export function coversScanOptions (available: ScanOptions | undefined, requested: ScanOptions): boolean {
+  return SCAN_OPTION_FIELDS.every(({ key }) => !requested[key] || !!available?.[key]);
+}
+
+/**
+ * Options that hold for every workspace of a merged snapshot
+ * A workspace rescanned without schema loses it, so each option must be set on both sides.
+ */
+export function intersectScanOptions (a: ScanOptions, b: ScanOptions): ScanOptions {
+  return {
+    datasetSchema: a.datasetSchema && b.datasetSchema,
+    datasetExpressions: a.datasetExpressions && b.datasetExpressions,
+    getArtifactUsers: a.getArtifactUsers && b.getArtifactUsers,
+    datasourceDetails: a.datasourceDetails && b.datasourceDetails
+  };
+}
+
+function hasArtifactUsers (workspace: WorkspaceInfo): boolean {
+  return (workspace.users?.length ?? 0) > 0 ||
+    [workspace.reports, workspace.dashboards, workspace.datasets, workspace.dataflows, workspace.datamarts]
+      .some(artifacts => (artifacts ?? []).some(artifact => (artifact.users?.length ?? 0) > 0));
+}
+
+/**
+ * Best guess at the options a scan result was requested with, for files without recorded settings
+ * An option counts as on when any workspace carries its metadata.
+ */
+export function inferScanOptions (result: Partial<TenantScanResult>): ScanOptions {
+  const workspaces = result.workspaces ?? [];
+  const datasets = workspaces.flatMap(workspace => workspace.datasets ?? []);
+  const tables = datasets.flatMap(dataset => dataset.tables ?? []);
+  return {
+    datasetSchema: tables.length > 0,
+    datasetExpressions: datasets.some(dataset => (dataset.expressions?.length ?? 0) > 0 || (dataset.roles?.length ?? 0) > 0) ||
+      tables.some(table => (table.source?.length ?? 0) > 0 || (table.measures ?? []).some(measure => !!measure.expression)),
+    getArtifactUsers: workspaces.some(hasArtifactUsers),
+    datasourceDetails: (result.datasourceInstances?.length ?? 0) > 0
+  };
+}
@@ -0,0 +1,93 @@
+import { TestBed } from '@angular/core/testing';
+import { LineageGraphBuilder } from '../services/lineage-graph-builder.service';
+import { LinkType, NodeType } from '../models/graphModels';
+import { WorkspaceInfo } from '../models/scanner-api.types';
+import { workspace } from '../testing/fixtures';
+import { diffLineageGraphs, snapshotDiffToCsv, snapshotDiffToJson } from './snapshot-diff';
+
+describe('diffLineageGraphs', () => {
+  let builder: LineageGraphBuilder;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    builder = TestBed.inject(LineageGraphBuilder);
+  });
+
+  function diff (before: WorkspaceInfo[], after: WorkspaceInfo[]) {
+    return diffLineageGraphs(builder.build({ workspaces: before }), builder.build({ workspaces: after }));
+  }
+
+  it('should report added and removed workspaces and artifacts, workspaces first', () => {
+    const result = diff(
+      [workspace('ws-a', { datasets: [{ id: 'ds-1', name: 'Sales', tables: [], users: [] }] }), workspace('ws-old')],
+      [
+        workspace('ws-a', { datasets: [{ id: 'ds-2', name: 'Finance', tables: [], users: [] }] }),
+        workspace('ws-new')
+      ]
+    );
+
+    expect(result.nodeChanges.map(change => [change.status, change.node.id])).toEqual([
+      ['added', 'ws-new'],
+      ['removed', 'ws-old'],
+      ['added', 'ds-2'],
+      ['removed', 'ds-1']
+    ]);
+    expect(result.nodeChanges.find(change => change.node.id === 'ds-1')!.workspaceName).toBe('Workspace ws-a');
+    expect(result.summary).toEqual(jasmine.objectContaining({ added: 2, removed: 2, changed: 0 }));
+  });
+
+  it('should report endorsement, sensitivity label and domain changes field by field', () => {
+    const dataset = { id: 'ds-1', name: 'Sales', tables: [], users: [] };
+    const result = diff(
+      [workspace('ws-a', { datasets: [dataset] })],
+      [workspace('ws-a', {
+        domainId: 'domain-finance',
+        datasets: [{
+          ...dataset,
+          endorsementDetails: { endorsement: 'Certified' },
+          sensitivityLabel: { labelId: 'label-confidential' }
+        }]
+      })]
+    );
+
+    const workspaceChange = result.nodeChanges.find(change => change.node.type === NodeType.Workspace)!;
+    expect(workspaceChange.status).toBe('changed');
+    expect(workspaceChange.fieldChanges).toEqual([{ field: 'domain', before: 'Unassigned', after: 'domain-finance' }]);
+
+    const datasetChange = result.nodeChanges.find(change => change.node.id === 'ds-1')!;
+    expect(datasetChange.fieldChanges).toEqual([
+      { field: 'endorsement', before: 'None', after: 'Certified' },
+      { field: 'sensitivityLabel', before: '', after: 'label-confidential' }
+    ]);
+  });
+
+  it('should report new cross-workspace dependencies', () => {
+    const model = workspace('ws-b', { datasets: [{ id: 'ds-1', name: 'Model', tables: [], users: [] }] });
+    const result = diff(
+      [workspace('ws-a'), model],
+      [workspace('ws-a', { reports: [{ id: 'rpt-1', name: 'Report', datasetId: 'ds-1', users: [] }] }), model]
+    );
+
+    expect(result.linkChanges.length).toBe(1);
+    expect(result.linkChanges[0].status).toBe('added');
+    expect(result.linkChanges[0].link.type).toBe(LinkType.CrossWorkspace);
+    expect(result.linkChanges[0].sourceName).toBe('Workspace ws-b');
+    expect(result.summary.addedDependencies).toBe(1);
+  });
+
+  it('should export one CSV row per change with quoted cells and readable JSON', () => {
+    const result = diff(
+      [workspace('ws-a', { datasets: [{ id: 'ds-1', name: 'Sales', tables: [], users: [] }] })],
+      [workspace('ws-a', { datasets: [{ id: 'ds-1', name: 'Sales, "EMEA"', tables: [], users: [] }] })]
+    );
+
+    const rows = snapshotDiffToCsv(result).split('\r\n');
+    expect(rows[0]).toBe('Change,Item type,Name,ID,Workspace,Field,Before,After');
+    expect(rows[1]).toBe('changed,SemanticModel,"Sales, ""EMEA""",ds-1,Workspace ws-a,Name,Sales,"Sales, ""EMEA"""');
+    expect(rows.length).toBe(2);
+
+    const json = JSON.parse(snapshotDiffToJson(result));
+    expect(json.nodeChanges[0].type).toBe('SemanticModel');
+    expect(json.summary.changed).toBe(1);
+  });
+});
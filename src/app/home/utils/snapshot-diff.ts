@@ -0,0 +1,189 @@
+/**
+ * Snapshot Diff Utilities for FabricBEyeAI
+ *
+ * Compares the lineage graphs of two tenant snapshots: added/removed/changed
+ * workspaces and artifacts (name, endorsement, sensitivity label, domain) and
+ * added/removed cross-workspace dependencies.
+ */
+
+import { DiffStatus, LineageGraph, Link, LinkType, Node, NodeType } from '../models/graphModels';
+import { toCsv } from './csv';
+
+export type SnapshotDiffField = 'name' | 'endorsement' | 'sensitivityLabel' | 'domain';
+
+export interface SnapshotFieldChange {
+  field: SnapshotDiffField;
+  before: string;
+  after: string;
+}
+
+export interface SnapshotNodeChange {
+  status: DiffStatus;
+  /** Node from the newer snapshot, or from the older one for removals */
+  node: Readonly<Node>;
+  workspaceName: string;
+  /** Empty unless status is 'changed' */
+  fieldChanges: SnapshotFieldChange[];
+}
+
+export interface SnapshotLinkChange {
+  status: 'added' | 'removed';
+  link: Readonly<Link>;
+  sourceName: string;
+  targetName: string;
+}
+
+export interface SnapshotDiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  addedDependencies: number;
+  removedDependencies: number;
+}
+
+export interface SnapshotDiff {
+  nodeChanges: SnapshotNodeChange[];
+  /** Cross-workspace dependency changes */
+  linkChanges: SnapshotLinkChange[];
+  summary: SnapshotDiffSummary;
+}
+
+/** Field labels for change lists and exports */
+export const SNAPSHOT_DIFF_FIELD_LABELS: Record<SnapshotDiffField, string> = {
+  name: 'Name',
+  endorsement: 'Endorsement',
+  sensitivityLabel: 'Sensitivity label',
+  domain: 'Domain'
+};
+
+/** Domain name, falling back to the ID when the domain list wasn't loaded */
+function getDomainValue (node: Readonly<Node>): string {
+  if (node.type !== NodeType.Workspace) return '';
+  if (node.metadata?.isUnassigned) return 'Unassigned';
+  const domainName = node.metadata?.domainName;
+  return domainName && domainName !== 'Unassigned' ? domainName : node.metadata?.domainId ?? '';
+}
+
+function getFieldValues (node: Readonly<Node>): Record<SnapshotDiffField, string> {
+  return {
+    name: node.name,
+    endorsement: node.metadata?.endorsement || 'None',
+    sensitivityLabel: node.metadata?.sensitivityLabel?.labelId || '',
+    domain: getDomainValue(node)
+  };
+}
+
+function getLinkKey (link: Readonly<Link>): string {
+  return `${link.source}->${link.target}`;
+}
+
+/**
+ * Diffs the lineage graphs of an older and a newer snapshot
+ *
+ * Both graphs should be built with the same options and without a workspace
+ * limit, otherwise truncated workspaces show up as removed.
+ *
+ * @param before - Graph of the older snapshot
+ * @param after - Graph of the newer snapshot
+ * @returns Node and cross-workspace dependency changes, workspaces first
+ */
+export function diffLineageGraphs (before: LineageGraph, after: LineageGraph): SnapshotDiff {
+  const beforeNodes = new Map(before.nodes.map(node => [node.id, node]));
+  const afterNodes = new Map(after.nodes.map(node => [node.id, node]));
+  const getName = (id: string) => (afterNodes.get(id) ?? beforeNodes.get(id))?.name ?? id;
+
+  const nodeChanges: SnapshotNodeChange[] = [];
+  for (const node of after.nodes) {
+    const previous = beforeNodes.get(node.id);
+    if (!previous) {
+      nodeChanges.push({ status: 'added', node, workspaceName: getName(node.workspaceId), fieldChanges: [] });
+      continue;
+    }
+
+    const beforeValues = getFieldValues(previous);
+    const afterValues = getFieldValues(node);
+    const fieldChanges = (Object.keys(afterValues) as SnapshotDiffField[])
+      .filter(field => beforeValues[field] !== afterValues[field])
+      .map(field => ({ field, before: beforeValues[field], after: afterValues[field] }));
+    if (fieldChanges.length > 0) {
+      nodeChanges.push({ status: 'changed', node, workspaceName: getName(node.workspaceId), fieldChanges });
+    }
+  }
+  for (const node of before.nodes) {
+    if (!afterNodes.has(node.id)) {
+      nodeChanges.push({ status: 'removed', node, workspaceName: getName(node.workspaceId), fieldChanges: [] });
+    }
+  }
+  nodeChanges.sort((a, b) => Number(b.node.type === NodeType.Workspace) - Number(a.node.type === NodeType.Workspace));
+
+  const crossWorkspaceLinks = (graph: LineageGraph) => new Map(graph.links
+    .filter(link => link.type === LinkType.CrossWorkspace)
+    .map(link => [getLinkKey(link), link]));
+  const beforeLinks = crossWorkspaceLinks(before);
+  const afterLinks = crossWorkspaceLinks(after);
+  const toLinkChange = (status: 'added' | 'removed', link: Readonly<Link>): SnapshotLinkChange =>
+    ({ status, link, sourceName: getName(link.source), targetName: getName(link.target) });
+  const linkChanges: SnapshotLinkChange[] = [
+    ...Array.from(afterLinks.entries()).filter(([key]) => !beforeLinks.has(key)).map(([, link]) => toLinkChange('added', link)),
+    ...Array.from(beforeLinks.entries()).filter(([key]) => !afterLinks.has(key)).map(([, link]) => toLinkChange('removed', link))
+  ];
+
+  return {
+    nodeChanges,
+    linkChanges,
+    summary: {
+      added: nodeChanges.filter(change => change.status === 'added').length,
+      removed: nodeChanges.filter(change => change.status === 'removed').length,
+      changed: nodeChanges.filter(change => change.status === 'changed').length,
+      addedDependencies: linkChanges.filter(change => change.status === 'added').length,
+      removedDependencies: linkChanges.filter(change => change.status === 'removed').length
+    }
+  };
+}
+
+/**
+ * Flattens a diff into CSV — one row per added/removed node, per changed
+ * field and per dependency change
+ */
+export function snapshotDiffToCsv (diff: SnapshotDiff): string {
+  const rows: string[][] = [['Change', 'Item type', 'Name', 'ID', 'Workspace', 'Field', 'Before', 'After']];
+
+  for (const change of diff.nodeChanges) {
+    const itemColumns = [NodeType[change.node.type], change.node.name, change.node.id, change.workspaceName];
+    if (change.status === 'changed') {
+      change.fieldChanges.forEach(fieldChange => rows.push([
+        'changed', ...itemColumns, SNAPSHOT_DIFF_FIELD_LABELS[fieldChange.field], fieldChange.before, fieldChange.after
+      ]));
+    } else {
+      rows.push([change.status, ...itemColumns, '', '', '']);
+    }
+  }
+  for (const change of diff.linkChanges) {
+    rows.push([change.status, 'CrossWorkspaceDependency', `${change.sourceName} → ${change.targetName}`, getLinkKey(change.link), change.sourceName, '', '', '']);
+  }
+
+  return toCsv(rows);
+}
+
+/** Serializes a diff for export, with readable type names instead of enum values */
+export function snapshotDiffToJson (diff: SnapshotDiff): string {
+  return JSON.stringify({
+    summary: diff.summary,
+    nodeChanges: diff.nodeChanges.map(change => ({
+      status: change.status,
+      type: NodeType[change.node.type],
+      id: change.node.id,
+      name: change.node.name,
+      workspaceId: change.node.workspaceId,
+      workspaceName: change.workspaceName,
+      fieldChanges: change.fieldChanges
+    })),
+    dependencyChanges: diff.linkChanges.map(change => ({
+      status: change.status,
+      source: change.link.source,
+      sourceName: change.sourceName,
+      target: change.link.target,
+      targetName: change.targetName
+    }))
+  }, null, 2);
+}
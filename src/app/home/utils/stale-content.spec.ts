@@ -0,0 +1,59 @@
+import { findStaleContent, staleContentToCsv } from './stale-content';
+import { LinkType, Node, NodeType } from '../models/graphModels';
+import { node } from '../testing/fixtures';
+
+const NODES: Node[] = [
+  node('sales', NodeType.Workspace, 'sales'),
+  node('archive', NodeType.Workspace, 'archive'),
+  node('orders', NodeType.SemanticModel, 'sales'),
+  node('scratch', NodeType.SemanticModel, 'sales', { createdDate: '2025-01-10T08:00:00Z' }),
+  node('ingest', NodeType.DataflowGen2, 'sales'),
+  node('dead-flow', NodeType.DataflowGen2, 'sales'),
+  node('weekly', NodeType.Report, 'sales', { modifiedDateTime: '2026-09-01T08:00:00Z' }),
+  node('fy24', NodeType.Report, 'sales', { createdDateTime: '2024-06-01T08:00:00Z', modifiedDateTime: '2025-02-01T08:00:00Z' }),
+  node('undated', NodeType.Report, 'sales'),
+  node('board', NodeType.Dashboard, 'sales', { tileCount: 0 }),
+  node('kpis', NodeType.Dashboard, 'sales', { tileCount: 3 }),
+  node('no-tile-data', NodeType.Dashboard, 'sales'),
+  node('sql', NodeType.Datasource, 'archive'),
+  node('old', NodeType.PaginatedReport, 'archive', { diffStatus: 'removed', modifiedDateTime: '2020-01-01T00:00:00Z' })
+];
+
+const LINKS = [
+  { source: 'sales', target: 'orders', type: LinkType.Contains },
+  { source: 'ingest', target: 'orders', type: LinkType.Feeds },
+  { source: 'orders', target: 'weekly', type: LinkType.Visualizes },
+  { source: 'weekly', target: 'kpis', type: LinkType.Visualizes }
+];
+
+describe('Stale content', () => {
+  const findings = findStaleContent(NODES, LINKS, { staleAfterMonths: 6, sparseWorkspaceMaxItems: 2 }, new Date('2026-10-19T00:00:00Z'));
+
+  it('should find each kind of dead content from lineage, dates and tiles', () => {
+    expect(findings.map(finding => [finding.kind, finding.node.id])).toEqual([
+      ['unusedModel', 'scratch'],
+      ['unconsumedDataflow', 'dead-flow'],
+      ['emptyDashboard', 'board'],
+      ['staleReport', 'fy24'],
+      ['sparseWorkspace', 'archive']
+    ]);
+    expect(findings[3].reason).toBe('Not modified since 2025-02-01');
+    expect(findings[4].reason).toBe('Has no items');
+  });
+
+  it('should use the configured thresholds', () => {
+    const strict = findStaleContent(NODES, LINKS, { staleAfterMonths: 1, sparseWorkspaceMaxItems: 10 }, new Date('2026-10-19T00:00:00Z'));
+
+    expect(strict.filter(finding => finding.kind === 'staleReport').map(finding => finding.node.id)).toEqual(['fy24', 'weekly']);
+    expect(strict.filter(finding => finding.kind === 'sparseWorkspace').map(finding => finding.node.id)).toEqual(['archive', 'sales']);
+  });
+
+  it('should export one CSV row per finding', () => {
+    const lines = staleContentToCsv(findings.slice(0, 1), () => 'Sales').split('\r\n');
+
+    expect(lines).toEqual([
+      'Finding,Workspace,Item,Item type,Item ID,Reason,Last modified',
+      'Unused semantic models,Sales,scratch,SemanticModel,scratch,No reports or other items are built on it,2025-01-10T08:00:00Z'
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Stale Content Utilities for FabricBEyeAI
+ *
+ * Finds dead content for cleanup campaigns from the lineage graph and the
+ * scan's modified/created dates: semantic models nothing is built on,
+ * dataflows that feed nothing, dashboards without tiles, reports not modified
+ * for a number of months and workspaces holding only a handful of items.
+ */
+
+import { LinkType, LINEAGE_LINK_TYPES, Node, NodeType, PRINCIPAL_NODE_TYPES } from '../models/graphModels';
+import { toCsv } from './csv';
+
+export type StaleContentKind = 'unusedModel' | 'unconsumedDataflow' | 'emptyDashboard' | 'staleReport' | 'sparseWorkspace';
+
+export const STALE_CONTENT_KINDS: Record<StaleContentKind, { label: string; icon: string }> = {
+  unusedModel: { label: 'Unused semantic models', icon: '📦' },
+  unconsumedDataflow: { label: 'Dataflows without consumers', icon: '🌊' },
+  emptyDashboard: { label: 'Empty dashboards', icon: '📋' },
+  staleReport: { label: 'Stale reports', icon: '⏳' },
+  sparseWorkspace: { label: 'Near-empty workspaces', icon: '🏚️' }
+};
+
+export interface StaleContentOptions {
+  /** Reports not modified for this many months are stale */
+  staleAfterMonths: number;
+  /** Workspaces with at most this many items are near-empty */
+  sparseWorkspaceMaxItems: number;
+}
+
+export const DEFAULT_STALE_CONTENT_OPTIONS: StaleContentOptions = { staleAfterMonths: 6, sparseWorkspaceMaxItems: 2 };
+
+export interface StaleContentFinding {
+  kind: StaleContentKind;
+  node: Node;
+  reason: string;
+  /** Last modified (or created) date from the scan, when it has one */
+  lastModified?: string;
+}
+
+/** Links here have string ends; map renderer node objects back to IDs first */
+interface StaleContentEdge {
+  source: string;
+  target: string;
+  type: LinkType;
+}
+
+const DATAFLOW_TYPES: ReadonlySet<NodeType> = new Set([NodeType.Dataflow, NodeType.DataflowGen2]);
+const REPORT_TYPES: ReadonlySet<NodeType> = new Set([NodeType.Report, NodeType.PaginatedReport]);
+/** Not counted as workspace content: derived or external nodes */
+const NON_CONTENT_TYPES: ReadonlySet<NodeType> = new Set([NodeType.Workspace, NodeType.Datasource, NodeType.SQLAnalyticsEndpoint, ...PRINCIPAL_NODE_TYPES]);
+const KIND_ORDER: StaleContentKind[] = Object.keys(STALE_CONTENT_KINDS) as StaleContentKind[];
+
+/** Most recent date the scan has for an item */
+function lastModifiedOf (node: Node): string | undefined {
+  return node.metadata?.modifiedDateTime ?? node.metadata?.createdDateTime ?? node.metadata?.createdDate;
+}
+
+/**
+ * Every kind of dead content in the graph; removed items of a snapshot comparison are ignored
+ * Reports without any date in the scan are never reported as stale.
+ *
+ * @param now - Reference date for report age
+ * @returns Findings grouped by kind, then by name
+ */
+export function findStaleContent (nodes: Node[], links: StaleContentEdge[], options: StaleContentOptions = DEFAULT_STALE_CONTENT_OPTIONS,
+  now: Date = new Date()): StaleContentFinding[] {
+  const current = nodes.filter(node => node.metadata?.diffStatus !== 'removed');
+  const downstreamCount = new Map<string, number>();
+  for (const link of links) {
+    if (LINEAGE_LINK_TYPES.has(link.type)) downstreamCount.set(link.source, (downstreamCount.get(link.source) ?? 0) + 1);
+  }
+  const staleBefore = new Date(now);
+  staleBefore.setMonth(staleBefore.getMonth() - options.staleAfterMonths);
+
+  const findings: StaleContentFinding[] = [];
+  const add = (kind: StaleContentKind, node: Node, reason: string): void => {
+    findings.push({ kind, node, reason, lastModified: lastModifiedOf(node) });
+  };
+
+  const itemsPerWorkspace = new Map<string, number>();
+  for (const node of current) {
+    if (!NON_CONTENT_TYPES.has(node.type)) itemsPerWorkspace.set(node.workspaceId, (itemsPerWorkspace.get(node.workspaceId) ?? 0) + 1);
+
+    if (node.type === NodeType.SemanticModel && !downstreamCount.has(node.id)) {
+      add('unusedModel', node, 'No reports or other items are built on it');
+    } else if (DATAFLOW_TYPES.has(node.type) && !downstreamCount.has(node.id)) {
+      add('unconsumedDataflow', node, 'Feeds no semantic model or other item');
+    } else if (node.type === NodeType.Dashboard && node.metadata?.tileCount === 0) {
+      add('emptyDashboard', node, 'Has no tiles');
+    } else if (REPORT_TYPES.has(node.type)) {
+      const lastModified = lastModifiedOf(node);
+      if (lastModified && new Date(lastModified) < staleBefore) {
+        add('staleReport', node, `Not modified since ${lastModified.slice(0, 10)}`);
+      }
+    }
+  }
+
+  for (const workspace of current.filter(node => node.type === NodeType.Workspace)) {
+    const itemCount = itemsPerWorkspace.get(workspace.id) ?? 0;
+    if (itemCount <= options.sparseWorkspaceMaxItems) {
+      add('sparseWorkspace', workspace, itemCount === 0 ? 'Has no items' : `Has only ${itemCount} item${itemCount === 1 ? '' : 's'}`);
+    }
+  }
+
+  return findings.sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || a.node.name.localeCompare(b.node.name));
+}
+
+/**
+ * Findings as CSV for a cleanup campaign, one row per item
+ *
+ * @param getWorkspaceName - Workspace name for a workspace ID
+ */
+export function staleContentToCsv (findings: StaleContentFinding[], getWorkspaceName: (workspaceId: string) => string): string {
+  const rows = [['Finding', 'Workspace', 'Item', 'Item type', 'Item ID', 'Reason', 'Last modified']];
+  for (const finding of findings) {
+    rows.push([
+      STALE_CONTENT_KINDS[finding.kind].label,
+      getWorkspaceName(finding.node.workspaceId),
+      finding.node.name,
+      NodeType[finding.node.type],
+      finding.node.id,
+      finding.reason,
+      finding.lastModified ?? ''
+    ]);
+  }
+  return toCsv(rows);
+}
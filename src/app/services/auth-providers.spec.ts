@@ -0,0 +1,135 @@
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, defer, of, throwError } from 'rxjs';
+import { AuthConfig, AuthError, DeviceCodeAuthProvider, PkceAuthProvider, createCodeChallenge, decodeJwtPayload } from './auth-providers';
+
+type ScriptedResponse = object | HttpErrorResponse;
+
+/**
+ * In-memory stand-in for the authority's token and devicecode endpoints
+ *
+ * Each path replays a scripted list of responses (the last one repeats) and
+ * records the form parameters it received.
+ */
+class MockTokenEndpoint {
+  public requests: { path: string; params: URLSearchParams }[] = [];
+  private scripts = new Map<string, ScriptedResponse[]>();
+
+  public on (path: string, ...responses: ScriptedResponse[]): this {
+    this.scripts.set(path, responses);
+    return this;
+  }
+
+  public post (url: string, body: string): Observable<object> {
+    return defer(() => {
+      const path = url.split('/').pop()!;
+      this.requests.push({ path, params: new URLSearchParams(body) });
+      const script = this.scripts.get(path) ?? [oauthError('invalid_request')];
+      const response = script.length > 1 ? script.shift()! : script[0];
+      return response instanceof HttpErrorResponse ? throwError(() => response) : of(response);
+    });
+  }
+}
+
+function oauthError (error: string, description: string = error): HttpErrorResponse {
+  return new HttpErrorResponse({ status: 400, error: { error, error_description: description } });
+}
+
+const CONFIG: AuthConfig = { clientId: 'client-1', authority: 'https://login.example/tenant/', scopes: ['scope/.default', 'offline_access'] };
+
+describe('Auth providers', () => {
+  let endpoint: MockTokenEndpoint;
+
+  beforeEach(() => {
+    endpoint = new MockTokenEndpoint();
+  });
+
+  it('builds a PKCE authorization request whose challenge matches the verifier', async () => {
+    const provider = new PkceAuthProvider(endpoint as unknown as HttpClient, CONFIG);
+
+    const { url, pending } = await provider.createAuthorizationRequest('https://app.example/', '#/home?env=demo');
+    const query = new URL(url).searchParams;
+
+    expect(url.startsWith('https://login.example/tenant/oauth2/v2.0/authorize?')).toBeTrue();
+    expect(query.get('client_id')).toBe('client-1');
+    expect(query.get('response_mode')).toBe('query');
+    expect(query.get('state')).toBe(pending.state);
+    expect(query.get('code_challenge_method')).toBe('S256');
+    expect(query.get('code_challenge')).toBe(await createCodeChallenge(pending.codeVerifier));
+    expect(pending.returnHash).toBe('#/home?env=demo');
+  });
+
+  it('redeems an authorization code with the verifier', async () => {
+    endpoint.on('token', { access_token: 'access-1', refresh_token: 'refresh-1', expires_in: 3600 });
+    const provider = new PkceAuthProvider(endpoint as unknown as HttpClient, CONFIG);
+
+    const tokens = await provider.redeemCode('code-1', { state: 's', codeVerifier: 'verifier-1', redirectUri: 'https://app.example/', returnHash: '' });
+
+    const params = endpoint.requests[0].params;
+    expect(params.get('grant_type')).toBe('authorization_code');
+    expect(params.get('code_verifier')).toBe('verifier-1');
+    expect(params.get('redirect_uri')).toBe('https://app.example/');
+    expect(tokens.accessToken).toBe('access-1');
+    expect(tokens.refreshToken).toBe('refresh-1');
+    expect(tokens.method).toBe('pkce');
+    expect(tokens.expiresAt).toBeGreaterThan(Date.now() + 3500 * 1000);
+  });
+
+  it('keeps the refresh token when the authority does not rotate it', async () => {
+    endpoint.on('token', { access_token: 'access-2', expires_in: 3600 });
+    const provider = new PkceAuthProvider(endpoint as unknown as HttpClient, CONFIG);
+
+    const tokens = await provider.refresh('refresh-1');
+
+    expect(endpoint.requests[0].params.get('grant_type')).toBe('refresh_token');
+    expect(tokens.accessToken).toBe('access-2');
+    expect(tokens.refreshToken).toBe('refresh-1');
+  });
+
+  it('polls a device code until the user finishes signing in', async () => {
+    endpoint
+      .on('devicecode', { device_code: 'device-1', user_code: 'ABCD', verification_uri: 'https://login.example/device', expires_in: 60, interval: 0 })
+      .on('token', oauthError('authorization_pending'), oauthError('authorization_pending'), { access_token: 'access-3', expires_in: 60 });
+    const provider = new DeviceCodeAuthProvider(endpoint as unknown as HttpClient, CONFIG);
+    const onChallenge = jasmine.createSpy('onChallenge');
+
+    const tokens = await provider.signIn(onChallenge, () => false);
+
+    expect(onChallenge).toHaveBeenCalledWith(jasmine.objectContaining({ userCode: 'ABCD', verificationUri: 'https://login.example/device' }));
+    const polls = endpoint.requests.filter(request => request.path === 'token');
+    expect(polls.length).toBe(3);
+    expect(polls[0].params.get('device_code')).toBe('device-1');
+    expect(tokens.accessToken).toBe('access-3');
+    expect(tokens.method).toBe('deviceCode');
+  });
+
+  it('stops polling when the device code sign-in is cancelled', async () => {
+    endpoint
+      .on('devicecode', { device_code: 'device-1', user_code: 'ABCD', verification_uri: 'https://login.example/device', expires_in: 60, interval: 0 })
+      .on('token', oauthError('authorization_pending'));
+    const provider = new DeviceCodeAuthProvider(endpoint as unknown as HttpClient, CONFIG);
+    let cancelled = false;
+
+    await expectAsync(provider.signIn(() => { cancelled = true; }, () => cancelled))
+      .toBeRejectedWith(jasmine.objectContaining({ code: 'cancelled' }));
+    expect(endpoint.requests.filter(request => request.path === 'token').length).toBe(0);
+  });
+
+  it('raises OAuth errors as AuthError', async () => {
+    endpoint.on('token', oauthError('invalid_grant', 'The refresh token has expired'));
+    const provider = new PkceAuthProvider(endpoint as unknown as HttpClient, CONFIG);
+
+    const error = await provider.refresh('refresh-1').catch(e => e);
+
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error.code).toBe('invalid_grant');
+    expect(error.message).toBe('The refresh token has expired');
+  });
+
+  it('decodes JWT payloads with or without the Bearer prefix', () => {
+    const token = `e30.${btoa(JSON.stringify({ name: 'Admin', exp: 1 })).replace(/=+$/, '')}.sig`;
+
+    expect(decodeJwtPayload(token)).toEqual({ name: 'Admin', exp: 1 });
+    expect(decodeJwtPayload(`Bearer ${token}`)?.name).toBe('Admin');
+    expect(decodeJwtPayload('not a token')).toBeUndefined();
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Auth providers - OAuth 2.0 sign-in flows for AuthService
+ *
+ * Authorization code with PKCE (redirect) and device code, both against an
+ * Entra-compatible authority (`{authority}/oauth2/v2.0/...`), plus refresh
+ * token redemption. The authority is configurable, so the flows can be run
+ * against a local mock token endpoint (e2e/mock-token-server.mjs).
+ */
+
+import { HttpClient, HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { InjectionToken } from '@angular/core';
+
+/** How the current token was obtained */
+export type AuthMethod = 'pkce' | 'deviceCode' | 'paste';
+
+export interface AuthConfig {
+  /** Application (client) ID of an app registration with a SPA redirect URI; empty disables interactive sign-in */
+  clientId: string;
+  /** Authority base URL, e.g. https://login.microsoftonline.com/organizations */
+  authority: string;
+  scopes: string[];
+}
+
+export const DEFAULT_AUTH_CONFIG: AuthConfig = {
+  clientId: '',
+  authority: 'https://login.microsoftonline.com/organizations',
+  scopes: ['https://analysis.windows.net/powerbi/api/.default', 'offline_access']
+};
+
+/** Optional override for the sign-in configuration (tests); the authority normally comes from the cloud environment */
+export const AUTH_CONFIG = new InjectionToken<Partial<AuthConfig>>('AUTH_CONFIG');
+
+export interface TokenSet {
+  accessToken: string;
+  refreshToken?: string;
+  /** Epoch milliseconds; 0 when unknown */
+  expiresAt: number;
+  method: AuthMethod;
+  /** Cloud environment (`?env=` value) the token was issued for; refreshes go to its authority */
+  environmentId?: string;
+}
+
+/** What the user needs to complete a device code sign-in on another device */
+export interface DeviceCodeChallenge {
+  userCode: string;
+  verificationUri: string;
+  /** Instructions from the authority, ready to display */
+  message: string;
+  expiresAt: number;
+}
+
+/** Authorization request state kept across the redirect to the authority */
+export interface PendingAuthorization {
+  state: string;
+  codeVerifier: string;
+  redirectUri: string;
+  /** Hash route to return to after sign-in (the redirect URI has none) */
+  returnHash: string;
+}
+
+/** OAuth error from the authority (`code` is the OAuth `error` value) or a cancelled flow */
+export class AuthError extends Error {
+  constructor (public readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number | string;
+}
+
+interface DeviceCodeResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  message?: string;
+  expires_in: number | string;
+  interval?: number | string;
+}
+
+/** Extra wait the authority asks for with `slow_down` (RFC 8628) */
+const SLOW_DOWN_INCREMENT_MS: number = 5000;
+
+const base64UrlEncode = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...Array.from(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/** URL-safe random string (PKCE verifier, state) */
+export function createRandomString (byteLength: number = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/** S256 code challenge for a PKCE verifier */
+export async function createCodeChallenge (codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+/**
+ * Decodes the payload of a JWT without validating it
+ *
+ * @returns Undefined when the token isn't a readable JWT
+ */
+export function decodeJwtPayload (token: string): Record<string, any> | undefined {
+  try {
+    const payload = token.replace(/^Bearer /, '').split('.')[1];
+    if (!payload) return undefined;
+    return JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+  } catch {
+    return undefined;
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Token endpoint client shared by the interactive providers
+ */
+abstract class OAuthProvider {
+  public abstract readonly method: AuthMethod;
+
+  constructor (protected http: HttpClient, protected config: AuthConfig) {}
+
+  protected get endpoint (): string {
+    return `${this.config.authority.replace(/\/+$/, '')}/oauth2/v2.0`;
+  }
+
+  /** Redeems a refresh token; the authority may rotate it, so keep the returned one */
+  public async refresh (refreshToken: string): Promise<TokenSet> {
+    return this.requestToken({ grant_type: 'refresh_token', refresh_token: refreshToken });
+  }
+
+  protected async requestToken (params: Record<string, string>): Promise<TokenSet> {
+    const response = await this.post<TokenResponse>('token', {
+      client_id: this.config.clientId,
+      scope: this.config.scopes.join(' '),
+      ...params
+    });
+    return {
+      accessToken: response.access_token,
+      refreshToken: response.refresh_token ?? params.refresh_token,
+      expiresAt: response.expires_in ? Date.now() + Number(response.expires_in) * 1000 : 0,
+      method: this.method
+    };
+  }
+
+  /** Form-encoded POST to `{authority}/oauth2/v2.0/{path}`, with OAuth errors raised as AuthError */
+  protected async post<T> (path: string, params: Record<string, string>): Promise<T> {
+    try {
+      return await this.http.post<T>(`${this.endpoint}/${path}`, new URLSearchParams(params).toString(), {
+        headers: new HttpHeaders({ 'Content-Type': 'application/x-www-form-urlencoded' })
+      }).toPromise();
+    } catch (e) {
+      const error = e instanceof HttpErrorResponse ? e.error : undefined;
+      if (error?.error) {
+        throw new AuthError(error.error, error.error_description || error.error);
+      }
+      throw new AuthError('request_failed', `Could not reach the sign-in service: ${e?.message ?? e}`);
+    }
+  }
+}
+
+/**
+ * Authorization code flow with PKCE (RFC 7636)
+ *
+ * The browser is sent to the authority and comes back to the redirect URI
+ * with `?code=…&state=…`; AuthService keeps the PendingAuthorization across
+ * the redirect and redeems the code.
+ */
+export class PkceAuthProvider extends OAuthProvider {
+  public readonly method: AuthMethod = 'pkce';
+
+  /**
+   * @param redirectUri - Registered SPA redirect URI (the app's origin and path)
+   * @param returnHash - Hash route to restore after the redirect
+   */
+  public async createAuthorizationRequest (redirectUri: string, returnHash: string): Promise<{ url: string; pending: PendingAuthorization }> {
+    const pending: PendingAuthorization = { state: createRandomString(16), codeVerifier: createRandomString(), redirectUri, returnHash };
+    const query = new URLSearchParams({
+      client_id: this.config.clientId,
+      response_type: 'code',
+      // Query, not fragment: the hash belongs to the router
+      response_mode: 'query',
+      redirect_uri: redirectUri,
+      scope: this.config.scopes.join(' '),
+      state: pending.state,
+      code_challenge: await createCodeChallenge(pending.codeVerifier),
+      code_challenge_method: 'S256'
+    });
+    return { url: `${this.endpoint}/authorize?${query.toString()}`, pending };
+  }
+
+  public redeemCode (code: string, pending: PendingAuthorization): Promise<TokenSet> {
+    return this.requestToken({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: pending.redirectUri,
+      code_verifier: pending.codeVerifier
+    });
+  }
+}
+
+/**
+ * Device code flow (RFC 8628) — sign in on another device, e.g. when the
+ * browser can't reach the authority's sign-in page
+ */
+export class DeviceCodeAuthProvider extends OAuthProvider {
+  public readonly method: AuthMethod = 'deviceCode';
+
+  /**
+   * Requests a device code and polls the token endpoint until the user completes sign-in
+   *
+   * @param onChallenge - Called once with the code to show the user
+   * @param isCancelled - Checked before every poll; cancelling rejects with code 'cancelled'
+   */
+  public async signIn (onChallenge: (challenge: DeviceCodeChallenge) => void, isCancelled: () => boolean): Promise<TokenSet> {
+    const response = await this.post<DeviceCodeResponse>('devicecode', {
+      client_id: this.config.clientId,
+      scope: this.config.scopes.join(' ')
+    });
+    const expiresAt = Date.now() + Number(response.expires_in) * 1000;
+    onChallenge({
+      userCode: response.user_code,
+      verificationUri: response.verification_uri,
+      message: response.message || `Go to ${response.verification_uri} and enter the code ${response.user_code}`,
+      expiresAt
+    });
+
+    let intervalMs = Number(response.interval ?? 5) * 1000;
+    while (Date.now() < expiresAt) {
+      await sleep(intervalMs);
+      if (isCancelled()) {
+        throw new AuthError('cancelled', 'Sign-in was cancelled');
+      }
+
+      try {
+        return await this.requestToken({
+          grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+          device_code: response.device_code
+        });
+      } catch (e) {
+        if (e instanceof AuthError && e.code === 'authorization_pending') continue;
+        if (e instanceof AuthError && e.code === 'slow_down') {
+          intervalMs += SLOW_DOWN_INCREMENT_MS;
+          continue;
+        }
+        throw e;
+      }
+    }
+    throw new AuthError('expired_token', 'The device code expired before sign-in was completed');
+  }
+}
@@ -1,17 +1,239 @@
-import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable } from 'rxjs';
+/**
+ * AuthService - Holds the Power BI access token and signs the admin in
+ *
+ * Tokens come from a pluggable provider: authorization code with PKCE
+ * (redirect), device code, or a token pasted into the login dialog. The
+ * authority and Power BI resource come from the selected cloud environment
+ * (EnvironmentRegistry). Tokens from the interactive flows are kept in
+ * sessionStorage for the browser tab and refreshed silently shortly before
+ * they expire.
+ */
+
+import { HttpClient } from '@angular/common/http';
+import { Inject, Injectable, Optional } from '@angular/core';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import { environment } from 'src/environments/environment';
+import {
+  AUTH_CONFIG, AuthConfig, AuthError, AuthMethod, DEFAULT_AUTH_CONFIG, DeviceCodeAuthProvider, DeviceCodeChallenge,
+  PendingAuthorization, PkceAuthProvider, TokenSet, decodeJwtPayload
+} from './auth-providers';
+import { TokenInfo, getTokenInfo } from './token-info';
+import { EnvironmentRegistry, getEnvironmentIdFromHash } from './environment-registry.service';
+
+const TOKEN_STORAGE_KEY: string = 'fabricbeye.auth.tokens';
+const PENDING_STORAGE_KEY: string = 'fabricbeye.auth.pending';
+
+/** Refresh this long before the access token expires */
+const REFRESH_MARGIN_MS: number = 5 * 60 * 1000;
+/** Never refresh more often than this, even for very short-lived tokens */
+const MIN_REFRESH_DELAY_MS: number = 10 * 1000;
 
 @Injectable({ providedIn: 'root' })
 export class AuthService {
-  public tokenUpdate: BehaviorSubject<string> = new BehaviorSubject(''); ;
+  public tokenUpdate: BehaviorSubject<string> = new BehaviorSubject('');
+
+  private tokenSet: TokenSet | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | undefined;
+  private deviceCodeCancelled: boolean = false;
+  private signInErrors$: Subject<AuthError> = new Subject();
+
+  constructor (private http: HttpClient,
+    private environments: EnvironmentRegistry,
+    @Optional() @Inject(AUTH_CONFIG) private config?: Partial<AuthConfig>) { }
+
+  /**
+   * Completes a PKCE sign-in the authority redirected back from, or restores
+   * the tab's previous session. Runs at startup, before the router reads the URL.
+   *
+   * @param url - Current address (the redirect URI plus `?code=…&state=…` after sign-in)
+   */
+  public async initialize (url: string = window.location.href): Promise<void> {
+    const current = new URL(url);
+    const code = current.searchParams.get('code');
+    const error = current.searchParams.get('error');
+    const pending = this.takePendingAuthorization();
+
+    if (!pending || (!code && !error)) {
+      await this.restoreSession();
+      return;
+    }
+
+    // Drop the OAuth response from the address bar and return to the route sign-in started from
+    history.replaceState(null, '', `${current.pathname}${pending.returnHash}`);
+    try {
+      if (error) {
+        throw new AuthError(error, current.searchParams.get('error_description') || error);
+      }
+      if (current.searchParams.get('state') !== pending.state) {
+        throw new AuthError('state_mismatch', 'The sign-in response does not match the request. Please sign in again.');
+      }
+      const environmentId = getEnvironmentIdFromHash(pending.returnHash);
+      const tokens = await new PkceAuthProvider(this.http, this.getConfig(environmentId)).redeemCode(code, pending);
+      this.applyTokenSet({ ...tokens, environmentId });
+    } catch (e) {
+      this.reportError(e);
+    }
+  }
+
+  /** Whether a client ID is configured, enabling the PKCE and device code flows */
+  public isInteractiveSignInAvailable (): boolean {
+    return !!this.getConfig().clientId;
+  }
 
-  constructor () { }
+  /** Redirects to the authority's sign-in page; the app reloads at the redirect URI afterwards */
+  public async signIn (): Promise<void> {
+    const provider = new PkceAuthProvider(this.http, this.getConfig(getEnvironmentIdFromHash(window.location.hash)));
+    const { url, pending } = await provider.createAuthorizationRequest(
+      `${window.location.origin}${window.location.pathname}`,
+      window.location.hash
+    );
+    sessionStorage.setItem(PENDING_STORAGE_KEY, JSON.stringify(pending));
+    window.location.assign(url);
+  }
+
+  /**
+   * Signs in with a device code
+   *
+   * @param onChallenge - Receives the code and URL to show the user
+   * @returns Resolves once signed in; rejects with an AuthError (code 'cancelled' after cancelDeviceCodeSignIn)
+   */
+  public async signInWithDeviceCode (onChallenge: (challenge: DeviceCodeChallenge) => void): Promise<void> {
+    this.deviceCodeCancelled = false;
+    const environmentId = getEnvironmentIdFromHash(window.location.hash);
+    const provider = new DeviceCodeAuthProvider(this.http, this.getConfig(environmentId));
+    const tokens = await provider.signIn(onChallenge, () => this.deviceCodeCancelled);
+    this.applyTokenSet({ ...tokens, environmentId });
+  }
+
+  public cancelDeviceCodeSignIn (): void {
+    this.deviceCodeCancelled = true;
+  }
+
+  /**
+   * Redeems the refresh token for a new access token
+   * Runs automatically before expiry; failures are reported on getSignInErrors().
+   *
+   * @returns Whether a new token was obtained
+   */
+  public async refresh (): Promise<boolean> {
+    const current = this.tokenSet;
+    if (!current?.refreshToken || current.method === 'paste') return false;
 
+    // Refresh against the authority that issued the token, even if another environment is selected now
+    const config = this.getConfig(current.environmentId);
+    const provider = current.method === 'pkce' ? new PkceAuthProvider(this.http, config) : new DeviceCodeAuthProvider(this.http, config);
+    try {
+      const refreshed = await provider.refresh(current.refreshToken);
+      // Signed out or signed in again meanwhile
+      if (this.tokenSet !== current) return false;
+      this.applyTokenSet({ ...refreshed, environmentId: current.environmentId });
+      return true;
+    } catch (e) {
+      this.reportError(e);
+      return false;
+    }
+  }
+
+  /** Uses a token pasted into the login dialog (no refresh — paste a new one when it expires) */
   public setToken (token: string) {
-    this.tokenUpdate.next(token);
+    const exp = decodeJwtPayload(token)?.exp;
+    this.applyTokenSet({ accessToken: token, expiresAt: typeof exp === 'number' ? exp * 1000 : 0, method: 'paste' });
+  }
+
+  public signOut (): void {
+    clearTimeout(this.refreshTimer);
+    this.tokenSet = null;
+    sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+    this.tokenUpdate.next('');
   }
 
   public getToken (): Observable<string> {
     return this.tokenUpdate.asObservable();
   }
+
+  /** Current access token; empty when signed out */
+  public getCurrentToken (): string {
+    return this.tokenUpdate.value;
+  }
+
+  /** Claims of the current token; undefined when signed out or the token isn't a JWT */
+  public getCurrentTokenInfo (): TokenInfo | undefined {
+    return getTokenInfo(this.tokenUpdate.value);
+  }
+
+  public getSignInMethod (): AuthMethod | null {
+    return this.tokenSet?.method ?? null;
+  }
+
+  /** Failed redirect sign-ins and silent refreshes (interactive flows reject their own promise instead) */
+  public getSignInErrors (): Observable<AuthError> {
+    return this.signInErrors$.asObservable();
+  }
+
+  /** Sign-in settings for a cloud environment (`?env=` value; the default environment when omitted) */
+  private getConfig (environmentId?: string): AuthConfig {
+    const cloud = this.environments.get(environmentId);
+    return {
+      ...DEFAULT_AUTH_CONFIG,
+      clientId: environment.auth.clientId,
+      authority: cloud.authority,
+      scopes: [`${cloud.resource.replace(/\/+$/, '')}/.default`, 'offline_access'],
+      ...this.config
+    };
+  }
+
+  private applyTokenSet (tokenSet: TokenSet): void {
+    this.tokenSet = tokenSet;
+    if (tokenSet.method === 'paste') {
+      sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+    } else {
+      sessionStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(tokenSet));
+    }
+    this.scheduleRefresh();
+    this.tokenUpdate.next(tokenSet.accessToken);
+  }
+
+  private scheduleRefresh (): void {
+    clearTimeout(this.refreshTimer);
+    if (!this.tokenSet?.refreshToken || !this.tokenSet.expiresAt) return;
+
+    const delay = Math.max(this.tokenSet.expiresAt - Date.now() - REFRESH_MARGIN_MS, MIN_REFRESH_DELAY_MS);
+    this.refreshTimer = setTimeout(() => this.refresh(), delay);
+  }
+
+  /** Picks up the tab's tokens after a reload, refreshing them if they've expired */
+  private async restoreSession (): Promise<void> {
+    let stored: TokenSet | undefined;
+    try {
+      stored = JSON.parse(sessionStorage.getItem(TOKEN_STORAGE_KEY) ?? 'null') ?? undefined;
+    } catch {
+      stored = undefined;
+    }
+    if (!stored?.accessToken) return;
+
+    if (!stored.expiresAt || stored.expiresAt > Date.now() + MIN_REFRESH_DELAY_MS) {
+      this.applyTokenSet(stored);
+    } else if (stored.refreshToken) {
+      this.tokenSet = stored;
+      if (!await this.refresh()) this.signOut();
+    } else {
+      sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+    }
+  }
+
+  private takePendingAuthorization (): PendingAuthorization | undefined {
+    const pending = sessionStorage.getItem(PENDING_STORAGE_KEY);
+    sessionStorage.removeItem(PENDING_STORAGE_KEY);
+    try {
+      return pending ? JSON.parse(pending) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private reportError (e: unknown): void {
+    const error = e instanceof AuthError ? e : new AuthError('unknown', (e as Error)?.message ?? String(e));
+    console.warn(`Sign-in failed (${error.code}):`, error.message);
+    this.signInErrors$.next(error);
+  }
 }
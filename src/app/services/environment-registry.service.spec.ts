@@ -0,0 +1,41 @@
+import { HttpClient } from '@angular/common/http';
+import { EnvironmentRegistry, getEnvironmentIdFromHash, toBaseUrl, validateCloudEnvironment } from './environment-registry.service';
+
+describe('EnvironmentRegistry', () => {
+  const registry = new EnvironmentRegistry({} as HttpClient);
+
+  it('finds environments by ID or alias, ignoring case', () => {
+    expect(registry.get('gcc').apiUrl).toBe('api.powerbigov.us');
+    expect(registry.get('GCC-High').id).toBe('gcchigh');
+    expect(registry.get('china').authority).toBe('https://login.chinacloudapi.cn/organizations');
+  });
+
+  it('falls back to the default environment for a missing or unknown ?env=', () => {
+    expect(registry.get().id).toBe(registry.getDefaultId());
+    expect(registry.get('nowhere').id).toBe(registry.getDefaultId());
+  });
+
+  it('validates custom entries', () => {
+    expect(validateCloudEnvironment(registry.get('dod'))).toEqual([]);
+    expect(validateCloudEnvironment({
+      id: 'my env',
+      name: 'Mine',
+      apiUrl: 'localhost:4281',
+      fabricApiUrl: 'api fabric',
+      url: 'app.powerbi.com',
+      authority: 'https://login.microsoftonline.com/contoso.onmicrosoft.com'
+    })).toEqual([
+      'resource is required',
+      'id may only contain letters, digits and dashes',
+      'url must be an http(s) URL',
+      'fabricApiUrl must be a host name or URL'
+    ]);
+  });
+
+  it('builds base URLs from hosts and reads ?env= from the hash', () => {
+    expect(toBaseUrl('api.powerbi.com')).toBe('https://api.powerbi.com');
+    expect(toBaseUrl('http://localhost:4280/mock-api/')).toBe('http://localhost:4280/mock-api');
+    expect(getEnvironmentIdFromHash('#/home?env=gcc')).toBe('gcc');
+    expect(getEnvironmentIdFromHash('#/home')).toBeUndefined();
+  });
+});
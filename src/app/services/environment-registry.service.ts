@@ -0,0 +1,255 @@
+/**
+ * EnvironmentRegistry - The clouds and test rings FabricBEye can talk to
+ *
+ * Each environment carries the Power BI API host, Fabric API host, portal
+ * URL, sign-in authority and the Power BI resource tokens are requested for.
+ * Entries come from three places, later ones winning by ID:
+ * 1. The built-in list below (public cloud, sovereign clouds, test rings)
+ * 2. `cloudEnvironments` in src/environments/environment*.ts and
+ *    `assets/environments.json`, for deployment-wide additions and overrides
+ * 3. Custom entries added in the environment settings dialog (this browser only)
+ *
+ * The `?env=` query parameter selects an environment by ID or alias.
+ */
+
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { environment } from 'src/environments/environment';
+
+export interface CloudEnvironment {
+  /** Value of the `?env=` query parameter */
+  id: string;
+  name: string;
+  /** Power BI REST API host (`api.powerbi.com`) or base URL (`http://localhost:4281`) */
+  apiUrl: string;
+  /** Fabric REST API host or base URL */
+  fabricApiUrl: string;
+  /** Power BI portal URL */
+  url: string;
+  /** Sign-in authority, e.g. https://login.microsoftonline.us/organizations */
+  authority: string;
+  /** Power BI resource (token audience), e.g. https://analysis.usgovcloudapi.net/powerbi/api */
+  resource: string;
+  /** Other `?env=` values that select this environment */
+  aliases?: string[];
+  /** Added in the settings dialog and stored in this browser */
+  isCustom?: boolean;
+}
+
+/** Shape of assets/environments.json */
+export interface EnvironmentsConfig {
+  /** Environment used without (or with an unknown) `?env=` */
+  defaultEnvironment?: string;
+  environments?: CloudEnvironment[];
+}
+
+const PUBLIC_AUTHORITY: string = 'https://login.microsoftonline.com/organizations';
+const PUBLIC_RESOURCE: string = 'https://analysis.windows.net/powerbi/api';
+const US_GOV_AUTHORITY: string = 'https://login.microsoftonline.us/organizations';
+
+/** Sovereign clouds serve the Fabric admin APIs from their Power BI API host */
+export const BUILT_IN_ENVIRONMENTS: ReadonlyArray<CloudEnvironment> = [
+  {
+    id: 'prod',
+    name: 'Public cloud',
+    apiUrl: 'api.powerbi.com',
+    fabricApiUrl: 'api.fabric.microsoft.com',
+    url: 'https://app.powerbi.com/',
+    authority: PUBLIC_AUTHORITY,
+    resource: PUBLIC_RESOURCE
+  },
+  {
+    id: 'gcc',
+    name: 'US Government (GCC)',
+    apiUrl: 'api.powerbigov.us',
+    fabricApiUrl: 'api.powerbigov.us',
+    url: 'https://app.powerbigov.us/',
+    authority: PUBLIC_AUTHORITY,
+    resource: 'https://analysis.usgovcloudapi.net/powerbi/api'
+  },
+  {
+    id: 'gcchigh',
+    name: 'US Government (GCC High)',
+    apiUrl: 'api.high.powerbigov.us',
+    fabricApiUrl: 'api.high.powerbigov.us',
+    url: 'https://app.high.powerbigov.us/',
+    authority: US_GOV_AUTHORITY,
+    resource: 'https://high.analysis.usgovcloudapi.net/powerbi/api',
+    aliases: ['gcc-high']
+  },
+  {
+    id: 'dod',
+    name: 'US Government (DoD)',
+    apiUrl: 'api.mil.powerbigov.us',
+    fabricApiUrl: 'api.mil.powerbigov.us',
+    url: 'https://app.mil.powerbigov.us/',
+    authority: US_GOV_AUTHORITY,
+    resource: 'https://mil.analysis.usgovcloudapi.net/powerbi/api'
+  },
+  {
+    id: 'china',
+    name: 'China (21Vianet)',
+    apiUrl: 'api.powerbi.cn',
+    fabricApiUrl: 'api.powerbi.cn',
+    url: 'https://app.powerbi.cn/',
+    authority: 'https://login.chinacloudapi.cn/organizations',
+    resource: 'https://analysis.chinacloudapi.cn/powerbi/api'
+  },
+  {
+    id: 'msit',
+    name: 'MSIT',
+    apiUrl: 'df-msit-scus-redirect.analysis.windows.net',
+    fabricApiUrl: 'msitapi.fabric.microsoft.com',
+    url: 'https://msit.powerbi.com',
+    authority: PUBLIC_AUTHORITY,
+    resource: PUBLIC_RESOURCE
+  },
+  {
+    id: 'dxt',
+    name: 'DXT',
+    apiUrl: 'wabi-staging-us-east-redirect.analysis.windows.net',
+    fabricApiUrl: 'dxtapi.fabric.microsoft.com',
+    url: 'https://dxt.powerbi.com/',
+    authority: PUBLIC_AUTHORITY,
+    resource: PUBLIC_RESOURCE
+  },
+  {
+    id: 'edog',
+    name: 'EDOG',
+    apiUrl: 'biazure-int-edog-redirect.analysis-df.windows.net',
+    fabricApiUrl: 'powerbiapi.analysis-df.windows.net',
+    url: 'https://powerbi-idog.analysis.windows-int.net/',
+    authority: PUBLIC_AUTHORITY,
+    resource: PUBLIC_RESOURCE,
+    aliases: ['idog']
+  }
+];
+
+const ENVIRONMENTS_CONFIG_URL: string = 'assets/environments.json';
+const CUSTOM_ENVIRONMENTS_STORAGE_KEY: string = 'fabricbeye.environments.custom';
+const REQUIRED_FIELDS: ReadonlyArray<keyof CloudEnvironment> = ['id', 'name', 'apiUrl', 'fabricApiUrl', 'url', 'authority', 'resource'];
+
+/** `?env=` of a hash route such as `#/home?env=gcc` (the router isn't running yet during sign-in) */
+export function getEnvironmentIdFromHash (hash: string): string | undefined {
+  const query = hash.split('?')[1];
+  return query ? new URLSearchParams(query).get('env') ?? undefined : undefined;
+}
+
+/** `https://host` for a bare host; full URLs (e.g. a local mock on http) are kept as they are */
+export function toBaseUrl (hostOrUrl: string): string {
+  return /^https?:\/\//i.test(hostOrUrl) ? hostOrUrl.replace(/\/+$/, '') : `https://${hostOrUrl}`;
+}
+
+/**
+ * Problems with an environment entry, for the settings dialog and the config loader
+ *
+ * @returns One message per problem; empty when the entry is usable
+ */
+export function validateCloudEnvironment (entry: Partial<CloudEnvironment>): string[] {
+  const errors = REQUIRED_FIELDS.filter(field => !String(entry[field] ?? '').trim()).map(field => `${field} is required`);
+  if (entry.id && !/^[a-z0-9][a-z0-9-]*$/i.test(entry.id)) {
+    errors.push('id may only contain letters, digits and dashes');
+  }
+  for (const field of ['url', 'authority', 'resource'] as const) {
+    if (entry[field] && !/^https?:\/\/[^/\s]+/i.test(entry[field]!)) errors.push(`${field} must be an http(s) URL`);
+  }
+  for (const field of ['apiUrl', 'fabricApiUrl'] as const) {
+    if (entry[field] && /\s/.test(entry[field]!)) errors.push(`${field} must be a host name or URL`);
+  }
+  return errors;
+}
+
+@Injectable({ providedIn: 'root' })
+export class EnvironmentRegistry {
+  private configured: CloudEnvironment[] = [...BUILT_IN_ENVIRONMENTS];
+  private custom: CloudEnvironment[] = [];
+  private defaultId: string = 'prod';
+
+  constructor (private http: HttpClient) {
+    this.applyConfig({ defaultEnvironment: environment.defaultEnvironment, environments: environment.cloudEnvironments });
+  }
+
+  /**
+   * Loads assets/environments.json and this browser's custom entries
+   * A missing or invalid config file leaves the built-in list in place.
+   */
+  public async load (): Promise<void> {
+    this.custom = this.readCustom();
+    try {
+      this.applyConfig(await this.http.get<EnvironmentsConfig>(ENVIRONMENTS_CONFIG_URL).toPromise());
+    } catch (e) {
+      if (!(e instanceof HttpErrorResponse && e.status === 404)) {
+        console.warn(`Could not load ${ENVIRONMENTS_CONFIG_URL}:`, e?.message ?? e);
+      }
+    }
+  }
+
+  /** Configured environments followed by custom ones */
+  public list (): CloudEnvironment[] {
+    const customIds = new Set(this.custom.map(entry => entry.id));
+    return [...this.configured.filter(entry => !customIds.has(entry.id)), ...this.custom];
+  }
+
+  /**
+   * Environment for an `?env=` value (ID or alias, case-insensitive)
+   * Falls back to the default environment when the value is missing or unknown.
+   */
+  public get (id?: string): CloudEnvironment {
+    const environments = this.list();
+    const key = id?.toLowerCase();
+    const match = key
+      ? environments.find(entry => entry.id.toLowerCase() === key || entry.aliases?.some(alias => alias.toLowerCase() === key))
+      : undefined;
+    return match ?? environments.find(entry => entry.id === this.defaultId) ?? environments[0];
+  }
+
+  public getDefaultId (): string {
+    return this.defaultId;
+  }
+
+  /**
+   * Adds or replaces a custom environment (a custom entry may shadow a configured one)
+   *
+   * @throws {Error} When the entry fails validation
+   */
+  public saveCustom (entry: CloudEnvironment): void {
+    const errors = validateCloudEnvironment(entry);
+    if (errors.length > 0) {
+      throw new Error(errors.join('\n'));
+    }
+    this.custom = [...this.custom.filter(existing => existing.id !== entry.id), { ...entry, isCustom: true }];
+    this.writeCustom();
+  }
+
+  public removeCustom (id: string): void {
+    this.custom = this.custom.filter(entry => entry.id !== id);
+    this.writeCustom();
+  }
+
+  private applyConfig (config: EnvironmentsConfig | undefined): void {
+    for (const entry of config?.environments ?? []) {
+      const errors = validateCloudEnvironment(entry);
+      if (errors.length > 0) {
+        console.warn(`Skipping environment ${entry.id ?? '(no id)'}: ${errors.join(', ')}`);
+        continue;
+      }
+      this.configured = [...this.configured.filter(existing => existing.id !== entry.id), { ...entry, isCustom: false }];
+    }
+    if (config?.defaultEnvironment) {
+      this.defaultId = config.defaultEnvironment;
+    }
+  }
+
+  private readCustom (): CloudEnvironment[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(CUSTOM_ENVIRONMENTS_STORAGE_KEY) ?? '[]');
+      return Array.isArray(stored) ? stored.filter(entry => validateCloudEnvironment(entry).length === 0) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private writeCustom (): void {
+    localStorage.setItem(CUSTOM_ENVIRONMENTS_STORAGE_KEY, JSON.stringify(this.custom));
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * FabricApiError - A failed Power BI / Fabric REST call, normalized
+ *
+ * The two APIs report errors differently: Power BI as
+ * `{ error: { code, message, details } }`, Fabric as
+ * `{ errorCode, message, moreDetails, requestId }`. Both are mapped onto one
+ * shape with the request ID Microsoft support asks for. It stays an
+ * HttpErrorResponse, so status-based handling (retries, 401/403) keeps working.
+ */
+
+import { HttpErrorResponse } from '@angular/common/http';
+
+/** Response headers carrying the service-side request / activity ID */
+const REQUEST_ID_HEADERS: string[] = ['RequestId', 'x-ms-request-id', 'ActivityId', 'x-ms-activity-id'];
+
+export class FabricApiError extends HttpErrorResponse {
+  /** API error code, e.g. `PowerBINotAuthorizedException` or `ItemNotFound` */
+  public readonly errorCode?: string;
+  /** Human-readable message from the API's error payload, if it sent one */
+  public readonly apiMessage?: string;
+  public readonly details: string[];
+  /** Correlation ID to quote to Microsoft support */
+  public readonly requestId?: string;
+  public readonly timestamp: string;
+
+  constructor (response: HttpErrorResponse) {
+    super({
+      error: response.error,
+      headers: response.headers,
+      status: response.status,
+      statusText: response.statusText,
+      url: response.url ?? undefined
+    });
+
+    const payload = typeof response.error === 'object' && response.error !== null ? response.error : {};
+    const powerBiError = payload.error && typeof payload.error === 'object' ? payload.error : undefined;
+
+    this.errorCode = powerBiError?.code ?? payload.errorCode ?? response.headers?.get('x-ms-public-api-error-code') ?? undefined;
+    this.apiMessage = powerBiError?.message || payload.message || undefined;
+    this.details = ((powerBiError?.details ?? payload.moreDetails ?? []) as { message?: string }[])
+      .map(detail => detail?.message)
+      .filter((message): message is string => !!message);
+    this.requestId = payload.requestId ??
+      REQUEST_ID_HEADERS.map(header => response.headers?.get(header)).find(Boolean) ??
+      undefined;
+    this.timestamp = new Date().toISOString();
+  }
+
+  /** The API's message, or what the HTTP status means when there is none */
+  public getDisplayMessage (): string {
+    if (this.apiMessage) return this.apiMessage;
+    if (this.status === 0) return 'The request did not reach the API (network error or CORS)';
+    return `The API returned HTTP ${this.status}${this.statusText ? ' ' + this.statusText : ''}`;
+  }
+
+  /** Multi-line summary for bug reports and support tickets */
+  public describe (): string {
+    const lines = [this.getDisplayMessage(), ...this.details.map(detail => `• ${detail}`), ''];
+    lines.push(`HTTP ${this.status}${this.statusText ? ' ' + this.statusText : ''}${this.errorCode ? ' · ' + this.errorCode : ''}`);
+    if (this.url) lines.push(`URL: ${this.url}`);
+    if (this.requestId) lines.push(`Request ID: ${this.requestId}`);
+    lines.push(`Time: ${this.timestamp}`);
+    return lines.join('\n');
+  }
+}
+
+/** Wraps an HttpErrorResponse; other errors (and already wrapped ones) pass through */
+export function toFabricApiError (error: unknown): unknown {
+  return error instanceof HttpErrorResponse && !(error instanceof FabricApiError) ? new FabricApiError(error) : error;
+}
@@ -0,0 +1,81 @@
+import { HttpClient, HttpErrorResponse, HttpHandler, HttpHeaders, HttpRequest } from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import { AuthService } from './auth.service';
+import { EnvironmentRegistry } from './environment-registry.service';
+import { FabricApiError } from './fabric-api-error';
+import { FabricApiErrorInterceptor, FabricApiHeadersInterceptor, fabricApiContext } from './fabric-api.interceptor';
+
+/** Terminal handler that records the request it received and answers with `response` */
+class RecordingHandler implements HttpHandler {
+  public request: HttpRequest<unknown>;
+
+  constructor (private response: () => Observable<any> = () => of(null)) {}
+
+  public handle (request: HttpRequest<unknown>): Observable<any> {
+    this.request = request;
+    return this.response();
+  }
+}
+
+async function failWith (response: Partial<HttpErrorResponse> & { headers?: HttpHeaders }): Promise<unknown> {
+  const handler = new RecordingHandler(() => throwError(() => new HttpErrorResponse({ url: 'https://api.powerbi.com/x', ...response })));
+  const request = new HttpRequest('GET', 'https://api.powerbi.com/x', { context: fabricApiContext() });
+  return new FabricApiErrorInterceptor().intercept(request, handler).toPromise().catch(e => e);
+}
+
+describe('Fabric API interceptors', () => {
+  let authService: AuthService;
+
+  beforeEach(() => {
+    authService = new AuthService({} as HttpClient, new EnvironmentRegistry({} as HttpClient));
+    authService.tokenUpdate.next('Bearer token-1');
+  });
+
+  it('adds the bearer token and client name to Fabric API calls only', () => {
+    const interceptor = new FabricApiHeadersInterceptor(authService);
+    const handler = new RecordingHandler();
+
+    interceptor.intercept(new HttpRequest('GET', 'https://api.powerbi.com/x', { context: fabricApiContext() }), handler);
+    expect(handler.request.headers.get('authorization')).toBe('Bearer token-1');
+    expect(handler.request.headers.get('X-POWERBI-ADMIN-CLIENT-NAME')).toBe('FabricBEye');
+
+    interceptor.intercept(new HttpRequest('POST', 'https://login.example/token', 'grant_type=x'), handler);
+    expect(handler.request.headers.has('authorization')).toBeFalse();
+  });
+
+  it('maps Power BI error payloads with the RequestId header', async () => {
+    const error = await failWith({
+      status: 403,
+      statusText: 'Forbidden',
+      headers: new HttpHeaders({ RequestId: 'req-1' }),
+      error: { error: { code: 'PowerBINotAuthorizedException', message: 'Not authorized', details: [{ message: 'Missing role' }] } }
+    }) as FabricApiError;
+
+    expect(error).toBeInstanceOf(FabricApiError);
+    expect(error).toBeInstanceOf(HttpErrorResponse);
+    expect(error.status).toBe(403);
+    expect(error.errorCode).toBe('PowerBINotAuthorizedException');
+    expect(error.apiMessage).toBe('Not authorized');
+    expect(error.details).toEqual(['Missing role']);
+    expect(error.requestId).toBe('req-1');
+    expect(error.describe()).toContain('Request ID: req-1');
+  });
+
+  it('maps Fabric error payloads with the request ID from the body', async () => {
+    const error = await failWith({
+      status: 404,
+      error: { requestId: 'req-2', errorCode: 'ItemNotFound', message: 'The item was not found', moreDetails: [] }
+    }) as FabricApiError;
+
+    expect(error.errorCode).toBe('ItemNotFound');
+    expect(error.apiMessage).toBe('The item was not found');
+    expect(error.requestId).toBe('req-2');
+  });
+
+  it('describes errors without a payload by their status', async () => {
+    const error = await failWith({ status: 0, error: null }) as FabricApiError;
+
+    expect(error.apiMessage).toBeUndefined();
+    expect(error.getDisplayMessage()).toContain('network error');
+  });
+});
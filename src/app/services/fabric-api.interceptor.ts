@@ -0,0 +1,59 @@
+/**
+ * Fabric API interceptors - Headers and error handling for Power BI / Fabric REST calls
+ *
+ * Requests opt in with `fabricApiContext()` (HomeProxy does this for every
+ * call), so other traffic — notably the OAuth token endpoint — never gets the
+ * access token. Registered in AppModule via FABRIC_API_INTERCEPTOR_PROVIDERS.
+ */
+
+import { HTTP_INTERCEPTORS, HttpContext, HttpContextToken, HttpEvent, HttpHandler, HttpInterceptor, HttpRequest } from '@angular/common/http';
+import { Injectable, Provider } from '@angular/core';
+import { Observable, throwError } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { AuthService } from './auth.service';
+import { toFabricApiError } from './fabric-api-error';
+
+/** Identifies the calling application in the Power BI admin API audit log */
+export const ADMIN_CLIENT_NAME: string = 'FabricBEye';
+
+/** Marks a request as a Power BI / Fabric API call */
+export const FABRIC_API_REQUEST = new HttpContextToken<boolean>(() => false);
+
+/** HttpClient `context` option for Power BI / Fabric API calls */
+export function fabricApiContext (): HttpContext {
+  return new HttpContext().set(FABRIC_API_REQUEST, true);
+}
+
+/** Adds the bearer token and admin client name */
+@Injectable()
+export class FabricApiHeadersInterceptor implements HttpInterceptor {
+  constructor (private authService: AuthService) {}
+
+  public intercept (request: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    if (!request.context.get(FABRIC_API_REQUEST)) return next.handle(request);
+
+    const token = this.authService.getCurrentToken().replace(/^Bearer /, '');
+    return next.handle(request.clone({
+      setHeaders: {
+        authorization: `Bearer ${token}`,
+        'X-POWERBI-ADMIN-CLIENT-NAME': ADMIN_CLIENT_NAME
+      }
+    }));
+  }
+}
+
+/** Turns failed responses into FabricApiError, with the API's message, code and request ID */
+@Injectable()
+export class FabricApiErrorInterceptor implements HttpInterceptor {
+  public intercept (request: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    if (!request.context.get(FABRIC_API_REQUEST)) return next.handle(request);
+
+    return next.handle(request).pipe(catchError(error => throwError(() => toFabricApiError(error))));
+  }
+}
+
+/** Interceptor stack for AppModule: headers, then error mapping */
+export const FABRIC_API_INTERCEPTOR_PROVIDERS: Provider[] = [
+  { provide: HTTP_INTERCEPTORS, useClass: FabricApiHeadersInterceptor, multi: true },
+  { provide: HTTP_INTERCEPTORS, useClass: FabricApiErrorInterceptor, multi: true }
+];
@@ -0,0 +1,68 @@
+import { formatTimeToExpiry, getTokenInfo, validateScanToken } from './token-info';
+
+const NOW = Date.UTC(2024, 0, 1, 12, 0, 0);
+const FABRIC_ADMIN = 'a9ea8996-122f-4c74-9520-8edcd192826c';
+
+function token (claims: object): string {
+  return `Bearer e30.${btoa(JSON.stringify(claims)).replace(/=+$/, '')}.sig`;
+}
+
+describe('Token info', () => {
+  const adminClaims = {
+    name: 'Admin',
+    tid: 'tenant-1',
+    aud: 'https://analysis.windows.net/powerbi/api',
+    exp: NOW / 1000 + 3600,
+    wids: [FABRIC_ADMIN],
+    scp: 'Tenant.Read.All user_impersonation'
+  };
+
+  it('reads expiry, audience, roles and scopes', () => {
+    const info = getTokenInfo(token(adminClaims));
+
+    expect(info).toEqual({
+      name: 'Admin',
+      tenantId: 'tenant-1',
+      audience: 'https://analysis.windows.net/powerbi/api',
+      expiresAt: NOW + 3600 * 1000,
+      roleIds: [FABRIC_ADMIN],
+      roles: [],
+      scopes: ['Tenant.Read.All', 'user_impersonation'],
+      isAppOnly: false
+    });
+    expect(getTokenInfo('')).toBeUndefined();
+    expect(getTokenInfo('opaque-token')).toBeUndefined();
+  });
+
+  it('accepts an admin token for the Power BI API', () => {
+    expect(validateScanToken(getTokenInfo(token(adminClaims)), NOW)).toBeUndefined();
+    expect(validateScanToken(getTokenInfo(token({ ...adminClaims, aud: 'https://analysis.usgovcloudapi.net/powerbi/api' })), NOW)).toBeUndefined();
+    expect(validateScanToken(getTokenInfo(token({ ...adminClaims, aud: 'https://high.analysis.usgovcloudapi.net/powerbi/api' })), NOW)).toBeUndefined();
+    expect(validateScanToken(getTokenInfo(token({ ...adminClaims, wids: undefined, roles: ['Tenant.Read.All'] })), NOW)).toBeUndefined();
+  });
+
+  it('refuses expired tokens, other audiences and accounts without an admin role', () => {
+    expect(validateScanToken(getTokenInfo(token({ ...adminClaims, exp: NOW / 1000 - 1 })), NOW)).toContain('expired');
+    expect(validateScanToken(getTokenInfo(token({ ...adminClaims, aud: 'https://graph.microsoft.com' })), NOW)).toContain('https://graph.microsoft.com');
+    expect(validateScanToken(getTokenInfo(token({ ...adminClaims, wids: ['b79fbf4d-3ef9-4689-8143-76b194e85509'] })), NOW)).toContain('no Fabric admin role');
+  });
+
+  it('leaves tokens it cannot read to the API', () => {
+    expect(validateScanToken(getTokenInfo('opaque-token'), NOW)).toBeUndefined();
+  });
+
+  it('leaves the admin check of app-only tokens without roles to the API', () => {
+    const servicePrincipalClaims = { ...adminClaims, name: undefined, wids: undefined, scp: undefined, idtyp: 'app' };
+
+    expect(getTokenInfo(token(servicePrincipalClaims))!.isAppOnly).toBeTrue();
+    expect(validateScanToken(getTokenInfo(token(servicePrincipalClaims)), NOW)).toBeUndefined();
+    expect(validateScanToken(getTokenInfo(token({ ...servicePrincipalClaims, idtyp: undefined })), NOW)).toBeUndefined();
+    expect(validateScanToken(getTokenInfo(token({ ...servicePrincipalClaims, exp: NOW / 1000 - 1 })), NOW)).toContain('expired');
+  });
+
+  it('formats the time left', () => {
+    expect(formatTimeToExpiry(42 * 60 * 1000 + 5000)).toBe('42 min');
+    expect(formatTimeToExpiry(4 * 60 * 1000 + 5000)).toBe('4:05');
+    expect(formatTimeToExpiry(0)).toBe('expired');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Token info - What the app reads from a Power BI access token's claims
+ *
+ * Expiry (`exp`), audience (`aud`), directory roles (`wids`) and app roles
+ * (`roles`), so the app can count down to expiry and refuse to start a scan
+ * the Scanner API would reject. Claims are read, not verified — the API
+ * remains the authority.
+ */
+
+import { decodeJwtPayload } from './auth-providers';
+
+export interface TokenInfo {
+  name?: string;
+  tenantId?: string;
+  audience?: string;
+  /** Epoch milliseconds; undefined when the token has no `exp` claim */
+  expiresAt?: number;
+  /** Directory role template IDs (`wids`) of the signed-in user */
+  roleIds: string[];
+  /** App roles (`roles`) — only present on app-only tokens */
+  roles: string[];
+  /** Delegated scopes (`scp`) */
+  scopes: string[];
+  /** Service principal token (`idtyp: app`, or no delegated scopes) */
+  isAppOnly: boolean;
+}
+
+/** Directory roles that grant Fabric / Power BI admin API access */
+export const ADMIN_ROLES: Readonly<Record<string, string>> = {
+  'a9ea8996-122f-4c74-9520-8edcd192826c': 'Fabric Administrator',
+  '11648597-926c-4cf3-9c36-bcebb0ba8dcc': 'Power Platform Administrator',
+  '62e90394-69f5-4237-9190-012177145e10': 'Global Administrator'
+};
+
+/** App roles that grant the admin APIs to a service principal */
+const ADMIN_APP_ROLES: ReadonlySet<string> = new Set(['Tenant.Read.All', 'Tenant.ReadWrite.All']);
+
+/** Power BI service app ID, used as `aud` by some token versions */
+const POWER_BI_APP_ID: string = '00000009-0000-0000-c000-000000000000';
+/** https://analysis.windows.net/powerbi/api and its sovereign cloud equivalents (e.g. https://high.analysis.usgovcloudapi.net/powerbi/api) */
+const POWER_BI_AUDIENCE_PATTERN: RegExp = /^https:\/\/([a-z]+\.)?analysis\.[^/]+\/powerbi\/api\/?$/i;
+
+/** Warn this long before expiry — later than AuthService's silent refresh, so only tokens that can't refresh trigger it */
+export const TOKEN_EXPIRY_WARNING_MS: number = 3 * 60 * 1000;
+
+const toArray = (value: unknown): string[] => Array.isArray(value) ? value.map(String) : [];
+
+/**
+ * Reads the claims of an access token
+ *
+ * @param token - Access token, with or without the `Bearer ` prefix
+ * @returns Undefined when the token isn't a readable JWT
+ */
+export function getTokenInfo (token: string): TokenInfo | undefined {
+  const claims = token ? decodeJwtPayload(token) : undefined;
+  if (!claims) return undefined;
+
+  return {
+    name: claims.name,
+    tenantId: claims.tid,
+    audience: claims.aud,
+    expiresAt: typeof claims.exp === 'number' ? claims.exp * 1000 : undefined,
+    roleIds: toArray(claims.wids),
+    roles: toArray(claims.roles),
+    scopes: typeof claims.scp === 'string' ? claims.scp.split(' ').filter(Boolean) : [],
+    isAppOnly: claims.idtyp === 'app' || claims.scp === undefined
+  };
+}
+
+/** Milliseconds until the token expires (negative once expired); undefined without an `exp` claim */
+export function getTimeToExpiry (info: TokenInfo | undefined, now: number = Date.now()): number | undefined {
+  return info?.expiresAt === undefined ? undefined : info.expiresAt - now;
+}
+
+export function hasTokenExpired (info: TokenInfo | undefined, now: number = Date.now()): boolean {
+  const remaining = getTimeToExpiry(info, now);
+  return remaining !== undefined && remaining <= 0;
+}
+
+/** Name of the admin role the token carries, if any */
+export function getAdminRoleName (info: TokenInfo): string | undefined {
+  const roleId = info.roleIds.find(id => ADMIN_ROLES[id]);
+  if (roleId) return ADMIN_ROLES[roleId];
+  return info.roles.find(role => ADMIN_APP_ROLES.has(role));
+}
+
+/**
+ * Checks a token before starting a tenant scan
+ *
+ * Tokens that aren't readable JWTs pass — only the API can judge them. So do
+ * app-only tokens without admin roles: a service principal set up for the
+ * Scanner API must not hold Power BI admin-consent permissions, and its access
+ * comes from the tenant setting's security group, which the token doesn't show.
+ *
+ * @returns Why the Scanner API would reject the token, or undefined when it looks usable
+ */
+export function validateScanToken (info: TokenInfo | undefined, now: number = Date.now()): string | undefined {
+  if (!info) return undefined;
+
+  if (hasTokenExpired(info, now)) {
+    return `The token expired at ${new Date(info.expiresAt!).toLocaleTimeString()}. Sign in again or paste a new token.`;
+  }
+  if (info.audience && info.audience !== POWER_BI_APP_ID && !POWER_BI_AUDIENCE_PATTERN.test(info.audience)) {
+    return `The token was issued for ${info.audience}, not the Power BI API. Get a token for https://analysis.windows.net/powerbi/api.`;
+  }
+  if (!info.isAppOnly && !getAdminRoleName(info)) {
+    return `${info.name ?? 'The signed-in account'} has no Fabric admin role. Tenant scans need ${Object.values(ADMIN_ROLES).join(', ')}` +
+      ', or a service principal allowed to use the read-only admin APIs.';
+  }
+  return undefined;
+}
+
+/** Compact remaining time for the app bar: "42 min", "4:05", "expired" */
+export function formatTimeToExpiry (remainingMs: number): string {
+  if (remainingMs <= 0) return 'expired';
+  const totalSeconds = Math.floor(remainingMs / 1000);
+  if (totalSeconds >= 10 * 60) return `${Math.floor(totalSeconds / 60)} min`;
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
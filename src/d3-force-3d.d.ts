@@ -0,0 +1,35 @@
+/**
+ * Minimal typings for d3-force-3d, which ships none
+ * Only the parts used for the off-thread layout pass are declared.
+ */
+declare module 'd3-force-3d' {
+  export interface SimulationNode {
+    x?: number;
+    y?: number;
+    z?: number;
+    vx?: number;
+    vy?: number;
+    vz?: number;
+    [key: string]: any;
+  }
+
+  export type Force = (alpha: number) => void;
+
+  export interface Simulation<N extends SimulationNode> {
+    force (name: string, force: Force): this;
+    alphaDecay (decay: number): this;
+    velocityDecay (decay: number): this;
+    tick (): this;
+    stop (): this;
+  }
+
+  export interface LinkForce<N extends SimulationNode, L> extends Force {
+    id (id: (node: N) => string): this;
+    distance (distance: number | ((link: L) => number)): this;
+  }
+
+  export function forceSimulation<N extends SimulationNode> (nodes?: N[], numDimensions?: number): Simulation<N>;
+  export function forceLink<N extends SimulationNode, L> (links?: L[]): LinkForce<N, L>;
+  export function forceManyBody (): Force;
+  export function forceCenter (): Force;
+}
@@ -0,0 +1,22 @@
+// Development build signing in against the local mock token server (e2e/mock-token-server.mjs)
+// Used by `ng serve --configuration mock-auth` and the Playwright suite.
+
+export const environment = {
+  production: false,
+  auth: {
+    clientId: 'mock-client'
+  },
+  defaultEnvironment: 'mock',
+  cloudEnvironments: [
+    {
+      id: 'mock',
+      name: 'Local mock',
+      // The mock server answers API calls with 404, so mock tokens never reach a real tenant
+      apiUrl: 'http://localhost:4280/mock-api',
+      fabricApiUrl: 'http://localhost:4280/mock-api',
+      url: 'http://localhost:4280/',
+      authority: 'http://localhost:4280/mock-tenant',
+      resource: 'https://analysis.windows.net/powerbi/api'
+    }
+  ]
+};
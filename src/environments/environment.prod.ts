@@ -1,3 +1,8 @@
 export const environment = {
-  production: true
+  production: true,
+  auth: {
+    clientId: ''
+  },
+  defaultEnvironment: 'prod',
+  cloudEnvironments: []
 };
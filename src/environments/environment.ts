@@ -3,7 +3,16 @@
 // The list of file replacements can be found in `angular.json`.
 
 export const environment = {
-  production: false
+  production: false,
+  // Interactive sign-in needs the client ID of an Entra app registration with a SPA redirect URI
+  // (see README_DEVELOPERS.md, Authentication). Without one, only pasting a token is offered.
+  auth: {
+    clientId: ''
+  },
+  // Environment used without ?env=, and extra clouds / endpoints
+  // (see README_DEVELOPERS.md, Cloud Environments; assets/environments.json can add more at deploy time)
+  defaultEnvironment: 'prod',
+  cloudEnvironments: []
 };
 
 /*